@@ -0,0 +1,9 @@
+import type { ConfigSet } from './src/gateway/config-overlay';
+import type { ConfigRule } from './src/gateway/config-schema';
+
+export function applyConfigOverlay(
+  config: Record<string, unknown>,
+  overlay: { set: ConfigSet[] },
+): Record<string, unknown>;
+
+export function pruneConfig(value: unknown, rule: ConfigRule, path?: string): string[];
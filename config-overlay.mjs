@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+// Applies the Worker's config overlay to openclaw.json, run in the container
+// by start-openclaw.sh before the gateway starts. The tests import it too.
+//
+//   config-overlay.mjs <config file> <overlay file> <check file>
+//     Set each value of the overlay at its path in the config, then prune
+//     the keys the overlay's schema doesn't allow, and report what was
+//     pruned in the check file as {"checkedAt": "<ISO time>", "pruned": [...]}.
+//
+// The overlay and its schema are built by src/gateway/config-overlay.ts and
+// src/gateway/config-schema.ts.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Merged settings only set the keys they have, keeping the ones the user set */
+function mergeValue(current, value) {
+  if (!isObject(current) || !isObject(value)) return value;
+  const merged = { ...current };
+  for (const [key, item] of Object.entries(value)) merged[key] = mergeValue(current[key], item);
+  return merged;
+}
+
+/**
+ * Apply an overlay to a config, in place
+ */
+export function applyConfigOverlay(config, overlay) {
+  for (const { path, value, merge } of overlay.set) {
+    let parent = config;
+    for (const key of path.slice(0, -1)) {
+      if (!isObject(parent[key])) parent[key] = {};
+      parent = parent[key];
+    }
+    const key = path[path.length - 1];
+    parent[key] = merge ? mergeValue(parent[key], value) : value;
+  }
+  return config;
+}
+
+/**
+ * Remove the keys strict objects don't list, in place. Values of the wrong
+ * type are left for OpenClaw to report: removing them could drop a setting it
+ * requires.
+ *
+ * Returns the paths removed.
+ */
+export function pruneConfig(value, rule, path = '') {
+  if (rule.type === 'array' && Array.isArray(value)) {
+    return value.flatMap((item, i) => pruneConfig(item, rule.items, `${path}[${i}]`));
+  }
+  if (!isObject(value)) return [];
+  const pruned = [];
+  for (const key of Object.keys(value)) {
+    const child = path ? `${path}.${key}` : key;
+    if (rule.type === 'record') {
+      pruned.push(...pruneConfig(value[key], rule.values, child));
+    } else if (rule.type === 'object' && Object.hasOwn(rule.fields, key)) {
+      pruned.push(...pruneConfig(value[key], rule.fields[key], child));
+    } else if (rule.type === 'object' && !rule.open) {
+      delete value[key];
+      pruned.push(child);
+    }
+  }
+  return pruned;
+}
+
+function main(configPath, overlayPath, checkPath) {
+  let config = {};
+  try {
+    config = JSON.parse(readFileSync(configPath, 'utf8'));
+  } catch {
+    console.log('Starting with empty config');
+  }
+
+  const overlay = JSON.parse(readFileSync(overlayPath, 'utf8'));
+  applyConfigOverlay(config, overlay);
+  console.log(`Applied ${overlay.set.length} config overlay settings`);
+
+  if (overlay.schema) {
+    console.log('[progress] Checking config against the schema');
+    const pruned = pruneConfig(config, overlay.schema);
+    for (const path of pruned) console.log(`Pruned unknown config key ${path}`);
+    writeFileSync(checkPath, JSON.stringify({ checkedAt: new Date().toISOString(), pruned }));
+  }
+
+  writeFileSync(configPath, JSON.stringify(config, null, 2));
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const args = process.argv.slice(2);
+  if (args.length !== 3) {
+    console.error('Usage: config-overlay.mjs <config> <overlay> <check>');
+    process.exit(2);
+  }
+  try {
+    main(...args);
+  } catch (err) {
+    console.error(`config-overlay: ${err.message}`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,143 @@
+#!/usr/bin/env node
+// Encryption of persisted files for R2, run in the container by
+// start-openclaw.sh and the Worker.
+//
+//   r2-crypt.mjs encrypt <source dir> <staging dir> <file list>
+//     Encrypt the files named in the list (paths relative to the source
+//     directory, one per line) into the staging directory, for upload.
+//   r2-crypt.mjs decrypt <dir>...
+//     Decrypt restored files in place. Files without the header are left
+//     alone, so data persisted before encryption was enabled still restores.
+//
+// The data keys are written by the Worker to /tmp/.r2-data-keys.json as
+// {"current": "<id>", "keys": {"<id>": "<base64 key>"}}. An encrypted file is
+//
+//   "MWENC1" | key ID length (1 byte) | key ID | IV (12 bytes) | AES-256-GCM ciphertext | tag (16 bytes)
+//
+// with everything before the IV as additional authenticated data.
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { mkdirSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+
+const KEYS_FILE = process.env.R2_DATA_KEYS_FILE || '/tmp/.r2-data-keys.json';
+const MAGIC = Buffer.from('MWENC1');
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/** Never persisted, so never encrypted; skipped to keep the walk cheap */
+const SKIPPED_DIRS = new Set(['node_modules', '.git']);
+
+function loadKeys() {
+  try {
+    const { current, keys } = JSON.parse(readFileSync(KEYS_FILE, 'utf8'));
+    return {
+      current,
+      keys: new Map(Object.entries(keys).map(([id, key]) => [id, Buffer.from(key, 'base64')])),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function encrypt(data, id, key) {
+  const header = Buffer.concat([MAGIC, Buffer.from([id.length]), Buffer.from(id)]);
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(header);
+  return Buffer.concat([header, iv, cipher.update(data), cipher.final(), cipher.getAuthTag()]);
+}
+
+function isEncrypted(data) {
+  return data.length > MAGIC.length && data.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+function decrypt(data, keys) {
+  const idEnd = MAGIC.length + 1 + data[MAGIC.length];
+  const id = data.subarray(MAGIC.length + 1, idEnd).toString();
+  const key = keys?.keys.get(id);
+  if (!key) throw new Error(`data key ${id} is not available`);
+  const iv = data.subarray(idEnd, idEnd + IV_LENGTH);
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAAD(data.subarray(0, idEnd));
+  decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+  return Buffer.concat([
+    decipher.update(data.subarray(idEnd + IV_LENGTH, data.length - TAG_LENGTH)),
+    decipher.final(),
+  ]);
+}
+
+function encryptFiles(source, staging, list) {
+  const keys = loadKeys();
+  const key = keys?.keys.get(keys.current);
+  if (!key) throw new Error(`no current data key in ${KEYS_FILE}`);
+
+  let count = 0;
+  for (const path of readFileSync(list, 'utf8').split('\n')) {
+    if (!path) continue;
+    let data;
+    try {
+      data = readFileSync(join(source, path));
+    } catch {
+      // Deleted since it was listed; the next sync picks that up
+      continue;
+    }
+    mkdirSync(dirname(join(staging, path)), { recursive: true });
+    writeFileSync(join(staging, path), encrypt(data, keys.current, key));
+    count++;
+  }
+  console.log(`Encrypted ${count} files`);
+}
+
+function* walk(dir) {
+  let entries;
+  try {
+    entries = readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory() && !SKIPPED_DIRS.has(entry.name)) yield* walk(path);
+    else if (entry.isFile()) yield path;
+  }
+}
+
+function decryptFiles(dirs) {
+  const keys = loadKeys();
+  let count = 0;
+  const failed = [];
+  for (const dir of dirs) {
+    for (const path of walk(dir)) {
+      const data = readFileSync(path);
+      if (!isEncrypted(data)) continue;
+      try {
+        writeFileSync(path, decrypt(data, keys));
+        count++;
+      } catch (err) {
+        failed.push(`${path}: ${err.message}`);
+      }
+    }
+  }
+  console.log(`Decrypted ${count} files`);
+  if (failed.length > 0) {
+    throw new Error(
+      `could not decrypt ${failed.length} files (is R2_ENCRYPTION_KEY set to the key they were encrypted with?)\n${failed.slice(0, 10).join('\n')}`,
+    );
+  }
+}
+
+const [command, ...args] = process.argv.slice(2);
+try {
+  if (command === 'encrypt' && args.length === 3) {
+    encryptFiles(...args);
+  } else if (command === 'decrypt' && args.length > 0) {
+    decryptFiles(args);
+  } else {
+    console.error('Usage: r2-crypt.mjs encrypt <source> <staging> <list> | decrypt <dir>...');
+    process.exit(2);
+  }
+} catch (err) {
+  console.error(`r2-crypt: ${err.message}`);
+  process.exit(1);
+}
@@ -1,5 +1,6 @@
 import type { Context, Next } from 'hono';
-import type { AppEnv, MoltbotEnv } from '../types';
+import type { AccessUser, AppEnv, MoltbotEnv } from '../types';
+import { DEFAULT_GROUP_CLAIM, getTenantMode, readGroupClaim } from '../tenants/tenants';
 import { verifyAccessJWT } from './jwt';
 
 /**
@@ -119,7 +120,11 @@ export function createAccessMiddleware(options: AccessMiddlewareOptions) {
     // Verify JWT
     try {
       const payload = await verifyAccessJWT(jwt, teamDomain, expectedAud);
-      c.set('accessUser', { email: payload.email, name: payload.name });
+      const user: AccessUser = { email: payload.email, name: payload.name };
+      if (getTenantMode(c.env) === 'group') {
+        user.groups = readGroupClaim(payload, c.env.TENANT_GROUP_CLAIM || DEFAULT_GROUP_CLAIM);
+      }
+      c.set('accessUser', user);
       await next();
     } catch (err) {
       console.error('Access JWT verification failed:', err);
@@ -101,25 +101,122 @@ export async function approveAllDevices(): Promise<ApproveAllResponse> {
   });
 }
 
+export type GatewayPhase =
+  | 'stopped'
+  | 'restoring'
+  | 'onboarding'
+  | 'starting'
+  | 'ready'
+  | 'degraded'
+  | 'crashed';
+
+export interface GatewayProbeResult {
+  ok: boolean;
+  outcome: 'ok' | 'unreachable' | 'http_error' | 'no_handshake' | 'unauthorized' | 'rejected';
+  checkedAt: string;
+  durationMs: number;
+  httpStatus?: number;
+  error?: string;
+}
+
+export interface GatewaySupervisorState {
+  consecutiveCrashes: number;
+  lastCrashAt?: string;
+  lastCrashReason?: string;
+  nextRestartAt?: string;
+  crashLoop: boolean;
+}
+
+export interface GatewayStatusResponse {
+  phase: GatewayPhase;
+  processId?: string;
+  updatedAt: string;
+  error?: string;
+  probe?: GatewayProbeResult;
+  supervisor: GatewaySupervisorState;
+}
+
+export async function getGatewayStatus(): Promise<GatewayStatusResponse> {
+  return apiRequest<GatewayStatusResponse>('/gateway');
+}
+
+export async function probeGatewayHealth(): Promise<GatewayStatusResponse> {
+  return apiRequest<GatewayStatusResponse>('/gateway/probe', {
+    method: 'POST',
+  });
+}
+
 export interface RestartGatewayResponse {
   success: boolean;
   message?: string;
+  force?: boolean;
   error?: string;
+  details?: string;
 }
 
-export async function restartGateway(): Promise<RestartGatewayResponse> {
+export async function restartGateway(force = false): Promise<RestartGatewayResponse> {
   return apiRequest<RestartGatewayResponse>('/gateway/restart', {
     method: 'POST',
+    body: JSON.stringify({ force }),
   });
 }
 
 export interface StorageStatusResponse {
   configured: boolean;
+  /** rclone through the S3 API, or the Worker's bucket binding */
+  mode: 'rclone' | 'binding' | null;
   missing?: string[];
   lastSync: string | null;
+  /** Whether another container has written to R2 since this one last synced */
+  conflict: SyncConflictStatus | null;
+  encryption: EncryptionStatus | null;
+  /** The effective R2_SYNC_POLICY, or null with the error if it is invalid */
+  syncPolicy: SyncPolicy | null;
+  syncPolicyError?: string;
+  /** Files the last sync left out for being over the policy's size limits */
+  skipped: SkippedFile[];
   message: string;
 }
 
+export interface SyncPolicy {
+  include: string[];
+  exclude: string[];
+  maxFileSize: number | null;
+  maxTotalSize: number | null;
+}
+
+export interface SkippedFile {
+  path: string;
+  size: number;
+  reason: 'max-file-size' | 'max-total-size';
+}
+
+export interface EncryptionStatus {
+  enabled: boolean;
+  /** ID of the data key new files are encrypted with */
+  currentKey: string | null;
+  keys: { id: string; createdAt: string }[];
+}
+
+export interface GenerationMarker {
+  generation: number;
+  writer: string;
+  updatedAt: string;
+}
+
+export interface SyncConflictStatus {
+  policy: 'refuse' | 'keep-both' | 'last-writer-wins';
+  detected: boolean;
+  local: GenerationMarker | null;
+  remote: GenerationMarker | null;
+  lastConflict: {
+    detectedAt: string;
+    remote: GenerationMarker;
+    action: 'refused' | 'kept-both' | 'overwritten';
+    snapshot?: string;
+  } | null;
+}
+
 export async function getStorageStatus(): Promise<StorageStatusResponse> {
   return apiRequest<StorageStatusResponse>('/storage');
 }
@@ -128,6 +225,12 @@ export interface SyncResponse {
   success: boolean;
   message?: string;
   lastSync?: string;
+  /** Files uploaded and deleted, and bytes uploaded, by this sync */
+  uploaded?: number;
+  deleted?: number;
+  bytes?: number;
+  skipped?: SkippedFile[];
+  durationMs?: number;
   error?: string;
   details?: string;
 }
@@ -137,3 +240,217 @@ export async function triggerSync(): Promise<SyncResponse> {
     method: 'POST',
   });
 }
+
+export interface SyncRecord {
+  trigger: string;
+  startedAt: string;
+  finishedAt: string;
+  success: boolean;
+  uploaded: number;
+  deleted: number;
+  bytes: number;
+  skipped: number;
+  error?: string;
+}
+
+export interface SyncHistoryResponse {
+  /** Newest first */
+  records: SyncRecord[];
+  consecutiveFailures: number;
+  lastSuccessAt: string | null;
+  /** Last time the sync loop found nothing to sync */
+  lastCheckedAt: string | null;
+  alert: { kind: 'failing' | 'stale'; sentAt: string } | null;
+  alerting: { webhook: boolean; failures: number; staleHours: number };
+}
+
+export async function getSyncHistory(): Promise<SyncHistoryResponse> {
+  return apiRequest<SyncHistoryResponse>('/storage/history');
+}
+
+export interface RotateKeyResponse {
+  success: boolean;
+  keyId?: string;
+  message?: string;
+  uploaded?: number;
+  error?: string;
+}
+
+export async function rotateEncryptionKey(): Promise<RotateKeyResponse> {
+  return apiRequest<RotateKeyResponse>('/storage/encryption/rotate', {
+    method: 'POST',
+  });
+}
+
+export interface Snapshot {
+  id: string;
+  createdAt: string;
+  reason: 'auto' | 'manual' | 'pre-restore' | 'conflict';
+}
+
+export interface SnapshotListResponse {
+  snapshots: Snapshot[];
+  /** Automatic snapshots kept before older ones are pruned */
+  keep: number;
+}
+
+export async function listSnapshots(): Promise<SnapshotListResponse> {
+  return apiRequest<SnapshotListResponse>('/storage/snapshots');
+}
+
+export interface CreateSnapshotResponse {
+  success: boolean;
+  snapshot: Snapshot;
+}
+
+export async function createSnapshot(force = false): Promise<CreateSnapshotResponse> {
+  return apiRequest<CreateSnapshotResponse>('/storage/snapshots', {
+    method: 'POST',
+    body: JSON.stringify({ force }),
+  });
+}
+
+export interface SnapshotDiff {
+  from: string;
+  to: string;
+  added: string[];
+  removed: string[];
+  changed: string[];
+  counts: { added: number; removed: number; changed: number; unchanged: number };
+  truncated: boolean;
+}
+
+export async function diffSnapshot(id: string, against = 'live'): Promise<SnapshotDiff> {
+  return apiRequest<SnapshotDiff>(
+    `/storage/snapshots/${encodeURIComponent(id)}/diff?against=${encodeURIComponent(against)}`,
+  );
+}
+
+export interface RestoreSnapshotResponse {
+  success: boolean;
+  message: string;
+  snapshot: string;
+  preRestoreSnapshot: string;
+}
+
+export async function restoreSnapshot(id: string, force = false): Promise<RestoreSnapshotResponse> {
+  return apiRequest<RestoreSnapshotResponse>(
+    `/storage/snapshots/${encodeURIComponent(id)}/restore`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ force }),
+    },
+  );
+}
+
+export async function deleteSnapshot(id: string): Promise<{ success: boolean }> {
+  return apiRequest<{ success: boolean }>(`/storage/snapshots/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+}
+
+export type FileRoot = 'workspace' | 'skills';
+
+export interface FileEntry {
+  name: string;
+  path: string;
+  type: 'file' | 'directory';
+  size: number;
+  modifiedAt: string;
+}
+
+export interface FileListResponse {
+  root: FileRoot;
+  path: string;
+  entries: FileEntry[];
+  truncated: boolean;
+}
+
+export interface FileContentResponse {
+  root: FileRoot;
+  path: string;
+  size: number;
+  modifiedAt: string;
+  /** Files that aren't UTF-8 text are base64-encoded */
+  encoding: 'utf-8' | 'base64';
+  content: string;
+}
+
+/** What the Worker shows in place of secrets it scrubs from responses */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Whether a text file came back with secrets scrubbed, so saving it from the
+ * editor would write the placeholder over them
+ */
+export function isRedacted(file: FileContentResponse): boolean {
+  return file.encoding === 'utf-8' && file.content.includes(REDACTED);
+}
+
+function fileQuery(root: FileRoot, path: string) {
+  return `root=${root}&path=${encodeURIComponent(path)}`;
+}
+
+export async function listFiles(root: FileRoot, path = ''): Promise<FileListResponse> {
+  return apiRequest<FileListResponse>(`/files?${fileQuery(root, path)}`);
+}
+
+export async function readFile(root: FileRoot, path: string): Promise<FileContentResponse> {
+  return apiRequest<FileContentResponse>(`/files/content?${fileQuery(root, path)}`);
+}
+
+export function fileDownloadUrl(root: FileRoot, path: string): string {
+  return `${API_BASE}/files/download?${fileQuery(root, path)}`;
+}
+
+export async function writeFile(
+  root: FileRoot,
+  path: string,
+  content: string | Blob,
+): Promise<{ success: boolean; path: string; size: number }> {
+  return apiRequest(`/files/content?${fileQuery(root, path)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: content,
+  });
+}
+
+export async function renameFile(
+  root: FileRoot,
+  from: string,
+  to: string,
+): Promise<{ success: boolean; from: string; to: string }> {
+  return apiRequest('/files/rename', {
+    method: 'POST',
+    body: JSON.stringify({ root, from, to }),
+  });
+}
+
+export async function deleteFile(root: FileRoot, path: string): Promise<{ success: boolean }> {
+  return apiRequest(`/files?${fileQuery(root, path)}`, {
+    method: 'DELETE',
+  });
+}
+
+export interface TenantStatus {
+  id: string;
+  identity: string;
+  sandboxId: string;
+  createdAt: string;
+  /** Whether this is the caller's own tenant */
+  current: boolean;
+  phase?: GatewayPhase;
+  updatedAt?: string;
+  error?: string;
+  crashLoop?: boolean;
+}
+
+export interface TenantListResponse {
+  enabled: boolean;
+  mode: 'off' | 'email' | 'group';
+  tenants: TenantStatus[];
+}
+
+export async function listTenants(): Promise<TenantListResponse> {
+  return apiRequest<TenantListResponse>('/tenants');
+}
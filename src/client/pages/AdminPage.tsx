@@ -1,16 +1,43 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, type ChangeEvent } from 'react';
 import {
   listDevices,
   approveDevice,
   approveAllDevices,
   restartGateway,
+  getGatewayStatus,
+  probeGatewayHealth,
   getStorageStatus,
+  getSyncHistory,
   triggerSync,
+  rotateEncryptionKey,
+  listTenants,
+  listSnapshots,
+  createSnapshot,
+  diffSnapshot,
+  restoreSnapshot,
+  deleteSnapshot,
+  listFiles,
+  readFile,
+  writeFile,
+  renameFile,
+  deleteFile,
+  fileDownloadUrl,
+  isRedacted,
   AuthError,
   type PendingDevice,
   type PairedDevice,
   type DeviceListResponse,
   type StorageStatusResponse,
+  type GatewayStatusResponse,
+  type TenantListResponse,
+  type SnapshotListResponse,
+  type SnapshotDiff,
+  type SyncHistoryResponse,
+  type SyncResponse,
+  type FileRoot,
+  type FileEntry,
+  type FileListResponse,
+  type FileContentResponse,
 } from '../api';
 import './AdminPage.css';
 
@@ -29,6 +56,21 @@ function formatSyncTime(isoString: string | null) {
   }
 }
 
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatSyncStats(result: SyncResponse) {
+  if (result.uploaded === undefined) return null;
+  if (result.uploaded === 0 && !result.deleted) return 'no changes';
+  const parts = [`${result.uploaded} uploaded`, formatBytes(result.bytes ?? 0)];
+  if (result.deleted) parts.push(`${result.deleted} deleted`);
+  if (result.skipped?.length) parts.push(`${result.skipped.length} skipped`);
+  return parts.join(', ');
+}
+
 function formatTimestamp(ts: number) {
   const date = new Date(ts);
   return date.toLocaleString();
@@ -45,15 +87,306 @@ function formatTimeAgo(ts: number) {
   return `${days}d ago`;
 }
 
+function joinPath(dir: string, name: string) {
+  return dir ? `${dir}/${name}` : name;
+}
+
+// Browse and edit the workspace and skills directories in the container
+function FileBrowser({ onError }: { onError: (message: string | null) => void }) {
+  const [root, setRoot] = useState<FileRoot>('workspace');
+  const [listing, setListing] = useState<FileListResponse | null>(null);
+  const [openFile, setOpenFile] = useState<FileContentResponse | null>(null);
+  const [draft, setDraft] = useState('');
+  const [fileAction, setFileAction] = useState<string | null>(null);
+
+  const fetchFiles = useCallback(
+    async (fileRoot: FileRoot, path: string) => {
+      setFileAction('list');
+      try {
+        setListing(await listFiles(fileRoot, path));
+      } catch (err) {
+        onError(err instanceof Error ? err.message : 'Failed to list files');
+      } finally {
+        setFileAction(null);
+      }
+    },
+    [onError],
+  );
+
+  useEffect(() => {
+    setOpenFile(null);
+    fetchFiles(root, '');
+  }, [root, fetchFiles]);
+
+  const dir = listing?.path ?? '';
+
+  const handleOpen = async (entry: FileEntry) => {
+    if (entry.type === 'directory') {
+      setOpenFile(null);
+      await fetchFiles(root, entry.path);
+      return;
+    }
+    setFileAction(`open:${entry.path}`);
+    try {
+      const file = await readFile(root, entry.path);
+      setOpenFile(file);
+      setDraft(file.encoding === 'utf-8' ? file.content : '');
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setFileAction(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!openFile) return;
+    if (isRedacted(openFile)) {
+      onError('This file was shown with secrets redacted; saving it would overwrite them');
+      return;
+    }
+    setFileAction('save');
+    try {
+      const result = await writeFile(root, openFile.path, draft);
+      setOpenFile({ ...openFile, content: draft, size: result.size });
+      onError(null);
+      await fetchFiles(root, dir);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to save file');
+    } finally {
+      setFileAction(null);
+    }
+  };
+
+  const handleNewFile = async () => {
+    const name = prompt('New file name (e.g. notes/todo.md):');
+    if (!name) return;
+    setFileAction('save');
+    try {
+      const { path } = await writeFile(root, joinPath(dir, name), '');
+      await fetchFiles(root, dir);
+      setOpenFile(await readFile(root, path));
+      setDraft('');
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to create file');
+    } finally {
+      setFileAction(null);
+    }
+  };
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setFileAction('upload');
+    try {
+      await writeFile(root, joinPath(dir, file.name), file);
+      await fetchFiles(root, dir);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to upload file');
+    } finally {
+      setFileAction(null);
+    }
+  };
+
+  const handleRename = async (entry: FileEntry) => {
+    const to = prompt(`Rename ${entry.path} to:`, entry.path);
+    if (!to || to === entry.path) return;
+    setFileAction(`rename:${entry.path}`);
+    try {
+      await renameFile(root, entry.path, to);
+      if (openFile?.path === entry.path) setOpenFile(null);
+      await fetchFiles(root, dir);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to rename file');
+    } finally {
+      setFileAction(null);
+    }
+  };
+
+  const handleDelete = async (entry: FileEntry) => {
+    const what = entry.type === 'directory' ? `${entry.path} and everything in it` : entry.path;
+    if (!confirm(`Delete ${what}? It is also removed from R2 with the next backup.`)) {
+      return;
+    }
+    setFileAction(`delete:${entry.path}`);
+    try {
+      await deleteFile(root, entry.path);
+      if (openFile?.path.startsWith(entry.path)) setOpenFile(null);
+      await fetchFiles(root, dir);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to delete file');
+    } finally {
+      setFileAction(null);
+    }
+  };
+
+  return (
+    <section className="devices-section files-section">
+      <div className="section-header">
+        <h2>Files</h2>
+        <div className="header-actions">
+          <select
+            className="file-root"
+            value={root}
+            onChange={(event) => setRoot(event.target.value as FileRoot)}
+          >
+            <option value="workspace">Workspace</option>
+            <option value="skills">Skills</option>
+          </select>
+          <button
+            className="btn btn-secondary"
+            onClick={handleNewFile}
+            disabled={fileAction !== null}
+          >
+            New File
+          </button>
+          <label className={`btn btn-secondary${fileAction !== null ? ' disabled' : ''}`}>
+            {fileAction === 'upload' && <ButtonSpinner />}
+            {fileAction === 'upload' ? 'Uploading...' : 'Upload'}
+            <input type="file" hidden onChange={handleUpload} disabled={fileAction !== null} />
+          </label>
+          <button
+            className="btn btn-secondary"
+            onClick={() => fetchFiles(root, dir)}
+            disabled={fileAction !== null}
+          >
+            {fileAction === 'list' && <ButtonSpinner />}
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="file-path">
+        {dir && (
+          <button
+            className="btn btn-secondary btn-sm"
+            onClick={() =>
+              fetchFiles(root, dir.includes('/') ? dir.slice(0, dir.lastIndexOf('/')) : '')
+            }
+            disabled={fileAction !== null}
+          >
+            Up
+          </button>
+        )}
+        <code>/{dir}</code>
+      </div>
+
+      {listing && listing.entries.length === 0 ? (
+        <div className="empty-state">
+          <p>This directory is empty</p>
+        </div>
+      ) : (
+        <div className="file-list">
+          {listing?.entries.map((entry) => (
+            <div key={entry.path} className="file-row">
+              <button
+                className="file-name"
+                onClick={() => handleOpen(entry)}
+                disabled={fileAction !== null}
+              >
+                {entry.type === 'directory' ? `${entry.name}/` : entry.name}
+              </button>
+              <span className="file-meta">
+                {entry.type === 'file' && `${formatBytes(entry.size)} · `}
+                {formatSyncTime(entry.modifiedAt)}
+              </span>
+              <div className="header-actions">
+                {entry.type === 'file' && (
+                  <a className="btn btn-secondary btn-sm" href={fileDownloadUrl(root, entry.path)}>
+                    Download
+                  </a>
+                )}
+                <button
+                  className="btn btn-secondary btn-sm"
+                  onClick={() => handleRename(entry)}
+                  disabled={fileAction !== null}
+                >
+                  Rename
+                </button>
+                <button
+                  className="btn btn-danger btn-sm"
+                  onClick={() => handleDelete(entry)}
+                  disabled={fileAction !== null}
+                >
+                  {fileAction === `delete:${entry.path}` && <ButtonSpinner />}
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+          {listing?.truncated && <p className="hint">Only the first 1000 entries are shown.</p>}
+        </div>
+      )}
+
+      {openFile && (
+        <div className="file-editor">
+          <div className="snapshot-header">
+            <code>{openFile.path}</code>
+            <span className="file-meta">
+              {formatBytes(openFile.size)} · modified {formatSyncTime(openFile.modifiedAt)}
+            </span>
+            <div className="header-actions">
+              {openFile.encoding === 'utf-8' && (
+                <button
+                  className="btn btn-primary btn-sm"
+                  onClick={handleSave}
+                  disabled={
+                    fileAction !== null || draft === openFile.content || isRedacted(openFile)
+                  }
+                >
+                  {fileAction === 'save' && <ButtonSpinner />}
+                  {fileAction === 'save' ? 'Saving...' : 'Save'}
+                </button>
+              )}
+              <button className="btn btn-secondary btn-sm" onClick={() => setOpenFile(null)}>
+                Close
+              </button>
+            </div>
+          </div>
+          {isRedacted(openFile) && (
+            <p className="hint">
+              Secrets in this file are shown as [REDACTED], so it can't be saved from here. Download
+              it, edit it, and upload it instead.
+            </p>
+          )}
+          {openFile.encoding === 'utf-8' ? (
+            <textarea
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              spellCheck={false}
+            />
+          ) : (
+            <p className="hint">This is not a text file. Download it to view it.</p>
+          )}
+        </div>
+      )}
+
+      <p className="hint">
+        Changes are made in the running container and backed up to R2 with the next sync. Files are
+        limited to 5 MB.
+      </p>
+    </section>
+  );
+}
+
 export default function AdminPage() {
   const [pending, setPending] = useState<PendingDevice[]>([]);
   const [paired, setPaired] = useState<PairedDevice[]>([]);
   const [storageStatus, setStorageStatus] = useState<StorageStatusResponse | null>(null);
+  const [syncHistory, setSyncHistory] = useState<SyncHistoryResponse | null>(null);
+  const [gatewayStatus, setGatewayStatus] = useState<GatewayStatusResponse | null>(null);
+  const [tenantList, setTenantList] = useState<TenantListResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [actionInProgress, setActionInProgress] = useState<string | null>(null);
   const [restartInProgress, setRestartInProgress] = useState(false);
   const [syncInProgress, setSyncInProgress] = useState(false);
+  const [rotateInProgress, setRotateInProgress] = useState(false);
+  const [lastSyncResult, setLastSyncResult] = useState<SyncResponse | null>(null);
+  const [probeInProgress, setProbeInProgress] = useState(false);
+  const [snapshotList, setSnapshotList] = useState<SnapshotListResponse | null>(null);
+  const [snapshotAction, setSnapshotAction] = useState<string | null>(null);
+  const [snapshotDiff, setSnapshotDiff] = useState<SnapshotDiff | null>(null);
 
   const fetchDevices = useCallback(async () => {
     try {
@@ -82,16 +415,54 @@ export default function AdminPage() {
     try {
       const status = await getStorageStatus();
       setStorageStatus(status);
+      setSyncHistory(status.configured ? await getSyncHistory() : null);
     } catch (err) {
       // Don't show error for storage status - it's not critical
       console.error('Failed to fetch storage status:', err);
     }
   }, []);
 
+  const fetchGatewayStatus = useCallback(async () => {
+    try {
+      const status = await getGatewayStatus();
+      setGatewayStatus(status);
+    } catch (err) {
+      console.error('Failed to fetch gateway status:', err);
+    }
+  }, []);
+
+  const fetchTenants = useCallback(async () => {
+    try {
+      setTenantList(await listTenants());
+    } catch {
+      // Only tenant admins may list tenants; everyone else just doesn't see the section
+      setTenantList(null);
+    }
+  }, []);
+
+  const fetchSnapshots = useCallback(async () => {
+    try {
+      setSnapshotList(await listSnapshots());
+    } catch (err) {
+      // Snapshots need R2; without it the section is simply hidden
+      console.error('Failed to fetch snapshots:', err);
+      setSnapshotList(null);
+    }
+  }, []);
+
   useEffect(() => {
     fetchDevices();
     fetchStorageStatus();
-  }, [fetchDevices, fetchStorageStatus]);
+    fetchGatewayStatus();
+    fetchTenants();
+  }, [fetchDevices, fetchStorageStatus, fetchGatewayStatus, fetchTenants]);
+
+  useEffect(() => {
+    // Snapshots are copied server-side by rclone, so binding mode has none
+    if (storageStatus?.mode === 'rclone') {
+      fetchSnapshots();
+    }
+  }, [storageStatus?.mode, fetchSnapshots]);
 
   const handleApprove = async (requestId: string) => {
     setActionInProgress(requestId);
@@ -131,7 +502,7 @@ export default function AdminPage() {
   const handleRestartGateway = async () => {
     if (
       !confirm(
-        'Are you sure you want to restart the gateway? This will disconnect all clients temporarily.',
+        'Are you sure you want to restart the gateway? Workspace changes are synced to R2 and connected clients are disconnected once their pending requests finish.',
       )
     ) {
       return;
@@ -139,11 +510,27 @@ export default function AdminPage() {
 
     setRestartInProgress(true);
     try {
-      const result = await restartGateway();
+      let result;
+      try {
+        result = await restartGateway();
+      } catch (err) {
+        // A graceful restart refuses to run when the R2 sync fails
+        const message = err instanceof Error ? err.message : '';
+        if (
+          !message.startsWith('Sync to R2 failed') ||
+          !confirm(`${message}\n\nRestart anyway? Unsynced changes may be lost.`)
+        ) {
+          throw err;
+        }
+        result = await restartGateway(true);
+      }
       if (result.success) {
         setError(null);
+        await fetchGatewayStatus();
         // Show success message briefly
-        alert('Gateway restart initiated. Clients will reconnect automatically.');
+        alert(
+          `${result.message || 'Gateway restart initiated.'} Clients will reconnect automatically.`,
+        );
       } else {
         setError(result.error || 'Failed to restart gateway');
       }
@@ -154,6 +541,18 @@ export default function AdminPage() {
     }
   };
 
+  const handleProbe = async () => {
+    setProbeInProgress(true);
+    try {
+      const status = await probeGatewayHealth();
+      setGatewayStatus(status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check gateway health');
+    } finally {
+      setProbeInProgress(false);
+    }
+  };
+
   const handleSync = async () => {
     setSyncInProgress(true);
     try {
@@ -161,6 +560,7 @@ export default function AdminPage() {
       if (result.success) {
         // Update the storage status with new lastSync time
         setStorageStatus((prev) => (prev ? { ...prev, lastSync: result.lastSync || null } : null));
+        setLastSyncResult(result);
         setError(null);
       } else {
         setError(result.error || 'Sync failed');
@@ -168,10 +568,125 @@ export default function AdminPage() {
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to sync');
     } finally {
+      // The sync was recorded whether it succeeded or not
+      setSyncHistory(await getSyncHistory().catch(() => null));
       setSyncInProgress(false);
     }
   };
 
+  const handleRotateKey = async () => {
+    if (
+      !confirm(
+        'Encrypt with a new data key and upload everything in R2 again? The old key is kept for existing snapshots.',
+      )
+    ) {
+      return;
+    }
+    setRotateInProgress(true);
+    try {
+      const result = await rotateEncryptionKey();
+      if (!result.success) setError(result.error || 'Key rotation failed');
+      else setError(null);
+      await fetchStorageStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rotate the encryption key');
+    } finally {
+      setRotateInProgress(false);
+    }
+  };
+
+  const handleCreateSnapshot = async () => {
+    setSnapshotAction('create');
+    try {
+      try {
+        await createSnapshot();
+      } catch (err) {
+        // Taking a snapshot refuses to run when the R2 sync fails
+        const message = err instanceof Error ? err.message : '';
+        if (
+          !message.startsWith('Sync to R2 failed') ||
+          !confirm(`${message}\n\nSnapshot the data already in R2 instead?`)
+        ) {
+          throw err;
+        }
+        await createSnapshot(true);
+      }
+      setError(null);
+      await fetchSnapshots();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to take snapshot');
+    } finally {
+      setSnapshotAction(null);
+    }
+  };
+
+  const handleDiffSnapshot = async (id: string) => {
+    if (snapshotDiff?.from === id) {
+      setSnapshotDiff(null);
+      return;
+    }
+    setSnapshotAction(`diff:${id}`);
+    try {
+      setSnapshotDiff(await diffSnapshot(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare snapshot');
+    } finally {
+      setSnapshotAction(null);
+    }
+  };
+
+  const handleRestoreSnapshot = async (id: string) => {
+    if (
+      !confirm(
+        `Restore snapshot ${id}? The current data is snapshotted first, then replaced in the container and in R2, and the gateway restarts.`,
+      )
+    ) {
+      return;
+    }
+
+    setSnapshotAction(`restore:${id}`);
+    try {
+      let result;
+      try {
+        result = await restoreSnapshot(id);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : '';
+        if (
+          !message.startsWith('Sync to R2 failed') ||
+          !confirm(`${message}\n\nRestore anyway? Unsynced changes will be lost.`)
+        ) {
+          throw err;
+        }
+        result = await restoreSnapshot(id, true);
+      }
+      setError(null);
+      setSnapshotDiff(null);
+      await Promise.all([fetchSnapshots(), fetchGatewayStatus()]);
+      alert(`${result.message} The previous data was saved as ${result.preRestoreSnapshot}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore snapshot');
+    } finally {
+      setSnapshotAction(null);
+    }
+  };
+
+  const handleDeleteSnapshot = async (id: string) => {
+    if (!confirm(`Delete snapshot ${id}? This cannot be undone.`)) {
+      return;
+    }
+
+    setSnapshotAction(`delete:${id}`);
+    try {
+      await deleteSnapshot(id);
+      if (snapshotDiff?.from === id) setSnapshotDiff(null);
+      await fetchSnapshots();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete snapshot');
+    } finally {
+      setSnapshotAction(null);
+    }
+  };
+
   return (
     <div className="devices-page">
       {error && (
@@ -206,6 +721,41 @@ export default function AdminPage() {
         </div>
       )}
 
+      {storageStatus?.conflict?.detected && storageStatus.conflict.remote && (
+        <div className="warning-banner">
+          <div className="warning-content">
+            <strong>R2 Data Changed by Another Container</strong>
+            <p>
+              Container {storageStatus.conflict.remote.writer} wrote to R2 at{' '}
+              {formatSyncTime(storageStatus.conflict.remote.updatedAt)}, after this container last
+              synced.{' '}
+              {storageStatus.conflict.policy === 'refuse'
+                ? 'Backups are paused so its data is not overwritten (R2_CONFLICT_POLICY=refuse).'
+                : storageStatus.conflict.policy === 'keep-both'
+                  ? 'The next backup snapshots its data before overwriting it.'
+                  : 'The next backup overwrites its data.'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {syncHistory && syncHistory.consecutiveFailures > 0 && (
+        <div className="warning-banner">
+          <div className="warning-content">
+            <strong>Backups to R2 Are Failing</strong>
+            <p>
+              The last {syncHistory.consecutiveFailures} sync(s) failed. Last success:{' '}
+              {formatSyncTime(syncHistory.lastSuccessAt)}.
+            </p>
+            {syncHistory.records.find((record) => !record.success)?.error && (
+              <p className="missing-secrets">
+                {syncHistory.records.find((record) => !record.success)?.error}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
       {storageStatus?.configured && (
         <div className="success-banner">
           <div className="storage-status">
@@ -215,16 +765,49 @@ export default function AdminPage() {
               </span>
               <span className="last-sync">
                 Last backup: {formatSyncTime(storageStatus.lastSync)}
+                {lastSyncResult && formatSyncStats(lastSyncResult) && (
+                  <> · {formatSyncStats(lastSyncResult)}</>
+                )}
               </span>
+              {storageStatus.encryption?.enabled && (
+                <span className="last-sync">
+                  Encrypted with data key{' '}
+                  {storageStatus.encryption.currentKey ?? '(not yet created)'}
+                </span>
+              )}
+              {storageStatus.skipped.length > 0 && (
+                <span
+                  className="last-sync"
+                  title={storageStatus.skipped.map((file) => file.path).join('\n')}
+                >
+                  {storageStatus.skipped.length} files over the sync policy's size limits are not
+                  backed up
+                </span>
+              )}
+              {storageStatus.syncPolicyError && (
+                <span className="last-sync">{storageStatus.syncPolicyError}</span>
+              )}
+            </div>
+            <div className="header-actions">
+              {storageStatus.encryption?.enabled && (
+                <button
+                  className="btn btn-secondary btn-sm"
+                  onClick={handleRotateKey}
+                  disabled={rotateInProgress || syncInProgress}
+                >
+                  {rotateInProgress && <ButtonSpinner />}
+                  {rotateInProgress ? 'Rotating...' : 'Rotate Key'}
+                </button>
+              )}
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={handleSync}
+                disabled={syncInProgress}
+              >
+                {syncInProgress && <ButtonSpinner />}
+                {syncInProgress ? 'Syncing...' : 'Backup Now'}
+              </button>
             </div>
-            <button
-              className="btn btn-secondary btn-sm"
-              onClick={handleSync}
-              disabled={syncInProgress}
-            >
-              {syncInProgress && <ButtonSpinner />}
-              {syncInProgress ? 'Syncing...' : 'Backup Now'}
-            </button>
           </div>
         </div>
       )}
@@ -232,21 +815,177 @@ export default function AdminPage() {
       <section className="devices-section gateway-section">
         <div className="section-header">
           <h2>Gateway Controls</h2>
-          <button
-            className="btn btn-danger"
-            onClick={handleRestartGateway}
-            disabled={restartInProgress}
-          >
-            {restartInProgress && <ButtonSpinner />}
-            {restartInProgress ? 'Restarting...' : 'Restart Gateway'}
-          </button>
+          <div className="header-actions">
+            <button className="btn btn-secondary" onClick={handleProbe} disabled={probeInProgress}>
+              {probeInProgress && <ButtonSpinner />}
+              {probeInProgress ? 'Checking...' : 'Check Health'}
+            </button>
+            <button
+              className="btn btn-danger"
+              onClick={handleRestartGateway}
+              disabled={restartInProgress}
+            >
+              {restartInProgress && <ButtonSpinner />}
+              {restartInProgress ? 'Restarting...' : 'Restart Gateway'}
+            </button>
+          </div>
         </div>
+        {gatewayStatus && (
+          <div className="gateway-status">
+            <div className="detail-row">
+              <span className="label">State:</span>
+              <span className={`gateway-phase ${gatewayStatus.phase}`}>{gatewayStatus.phase}</span>
+            </div>
+            {gatewayStatus.probe && (
+              <div className="detail-row">
+                <span className="label">Health:</span>
+                <span className="value">
+                  {gatewayStatus.probe.outcome} ({gatewayStatus.probe.durationMs}ms,{' '}
+                  {formatSyncTime(gatewayStatus.probe.checkedAt)})
+                </span>
+              </div>
+            )}
+            {gatewayStatus.error && (
+              <div className="detail-row">
+                <span className="label">Error:</span>
+                <span className="value">{gatewayStatus.error}</span>
+              </div>
+            )}
+            {gatewayStatus.supervisor.consecutiveCrashes > 0 && (
+              <div className="detail-row">
+                <span className="label">Crashes:</span>
+                <span className="value">
+                  {gatewayStatus.supervisor.consecutiveCrashes} in a row, last{' '}
+                  {formatSyncTime(gatewayStatus.supervisor.lastCrashAt ?? null)}
+                  {!gatewayStatus.supervisor.crashLoop &&
+                    gatewayStatus.supervisor.nextRestartAt &&
+                    gatewayStatus.phase === 'crashed' &&
+                    ` (next restart ${formatSyncTime(gatewayStatus.supervisor.nextRestartAt)})`}
+                </span>
+              </div>
+            )}
+            {gatewayStatus.supervisor.crashLoop && (
+              <div className="crash-loop-warning">
+                <strong>Automatic restarts paused</strong>
+                <p>
+                  The gateway crashed {gatewayStatus.supervisor.consecutiveCrashes} times in a row.
+                  Fix the cause, then use Restart Gateway to start it again.
+                </p>
+                {gatewayStatus.supervisor.lastCrashReason && (
+                  <pre className="crash-reason">{gatewayStatus.supervisor.lastCrashReason}</pre>
+                )}
+              </div>
+            )}
+          </div>
+        )}
         <p className="hint">
-          Restart the gateway to apply configuration changes or recover from errors. All connected
-          clients will be temporarily disconnected.
+          Restart the gateway to apply configuration changes or recover from errors. Changes are
+          synced to R2 first, and connected clients are told the gateway is restarting and
+          disconnected once their pending requests finish.
         </p>
       </section>
 
+      {snapshotList && (
+        <section className="devices-section snapshot-section">
+          <div className="section-header">
+            <h2>Snapshots</h2>
+            <div className="header-actions">
+              <button
+                className="btn btn-primary"
+                onClick={handleCreateSnapshot}
+                disabled={snapshotAction !== null}
+              >
+                {snapshotAction === 'create' && <ButtonSpinner />}
+                {snapshotAction === 'create' ? 'Taking Snapshot...' : 'Take Snapshot'}
+              </button>
+              <button className="btn btn-secondary" onClick={fetchSnapshots}>
+                Refresh
+              </button>
+            </div>
+          </div>
+
+          {snapshotList.snapshots.length === 0 ? (
+            <div className="empty-state">
+              <p>No snapshots yet</p>
+              <p className="hint">
+                Snapshots are taken automatically before changes are synced to R2, at most every few
+                hours.
+              </p>
+            </div>
+          ) : (
+            <div className="snapshot-list">
+              {snapshotList.snapshots.map((snapshot) => (
+                <div key={snapshot.id} className="snapshot-row">
+                  <div className="snapshot-header">
+                    <span className="snapshot-time">{formatSyncTime(snapshot.createdAt)}</span>
+                    <span className={`device-badge snapshot-${snapshot.reason}`}>
+                      {snapshot.reason}
+                    </span>
+                    <div className="header-actions">
+                      <button
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => handleDiffSnapshot(snapshot.id)}
+                        disabled={snapshotAction !== null}
+                      >
+                        {snapshotAction === `diff:${snapshot.id}` && <ButtonSpinner />}
+                        {snapshotDiff?.from === snapshot.id ? 'Hide Changes' : 'Changes'}
+                      </button>
+                      <button
+                        className="btn btn-danger btn-sm"
+                        onClick={() => handleRestoreSnapshot(snapshot.id)}
+                        disabled={snapshotAction !== null}
+                      >
+                        {snapshotAction === `restore:${snapshot.id}` && <ButtonSpinner />}
+                        {snapshotAction === `restore:${snapshot.id}` ? 'Restoring...' : 'Restore'}
+                      </button>
+                      <button
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => handleDeleteSnapshot(snapshot.id)}
+                        disabled={snapshotAction !== null}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                  {snapshotDiff?.from === snapshot.id && (
+                    <div className="snapshot-diff">
+                      <p>
+                        Since this snapshot: {snapshotDiff.counts.added} added,{' '}
+                        {snapshotDiff.counts.changed} changed, {snapshotDiff.counts.removed}{' '}
+                        removed, {snapshotDiff.counts.unchanged} unchanged.
+                      </p>
+                      {snapshotDiff.added.map((path) => (
+                        <div key={`added:${path}`} className="diff-line added">
+                          + {path}
+                        </div>
+                      ))}
+                      {snapshotDiff.changed.map((path) => (
+                        <div key={`changed:${path}`} className="diff-line changed">
+                          ~ {path}
+                        </div>
+                      ))}
+                      {snapshotDiff.removed.map((path) => (
+                        <div key={`removed:${path}`} className="diff-line removed">
+                          - {path}
+                        </div>
+                      ))}
+                      {snapshotDiff.truncated && <p className="hint">Some paths are not shown.</p>}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="hint">
+            Restoring replaces the config and workspace with the snapshot. The current data is
+            snapshotted first, so a restore can be undone. The newest {snapshotList.keep} automatic
+            snapshots are kept.
+          </p>
+        </section>
+      )}
+
+      <FileBrowser onError={setError} />
+
       {loading ? (
         <div className="loading">
           <div className="spinner"></div>
@@ -405,6 +1144,65 @@ export default function AdminPage() {
           </section>
         </>
       )}
+
+      {tenantList?.enabled && (
+        <section className="devices-section">
+          <div className="section-header">
+            <h2>Tenants</h2>
+            <div className="header-actions">
+              <button className="btn btn-secondary" onClick={fetchTenants}>
+                Refresh
+              </button>
+            </div>
+          </div>
+
+          {tenantList.tenants.length === 0 ? (
+            <div className="empty-state">
+              <p>No tenants yet</p>
+            </div>
+          ) : (
+            <div className="devices-grid">
+              {tenantList.tenants.map((tenant) => (
+                <div key={tenant.id} className="device-card">
+                  <div className="device-header">
+                    <span className="device-name">
+                      {tenant.identity}
+                      {tenant.current && ' (you)'}
+                    </span>
+                    {tenant.phase && (
+                      <span className={`gateway-phase ${tenant.phase}`}>{tenant.phase}</span>
+                    )}
+                  </div>
+                  <div className="device-details">
+                    <div className="detail-row">
+                      <span className="label">Sandbox:</span>
+                      <span className="value">{tenant.sandboxId}</span>
+                    </div>
+                    {tenant.updatedAt && (
+                      <div className="detail-row">
+                        <span className="label">Updated:</span>
+                        <span className="value">{formatSyncTime(tenant.updatedAt)}</span>
+                      </div>
+                    )}
+                    {tenant.crashLoop && (
+                      <div className="detail-row">
+                        <span className="label">Restarts:</span>
+                        <span className="value">Paused after repeated crashes</span>
+                      </div>
+                    )}
+                    {tenant.error && (
+                      <div className="detail-row">
+                        <span className="label">Error:</span>
+                        <span className="value">{tenant.error}</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
     </div>
   );
 }
@@ -15,3 +15,12 @@ export const STARTUP_TIMEOUT_MS = 180_000;
 export function getR2BucketName(env?: { R2_BUCKET_NAME?: string }): string {
   return env?.R2_BUCKET_NAME || 'moltbot-data';
 }
+
+/**
+ * Prefix for this sandbox's objects in the R2 bucket.
+ * Empty for the shared sandbox; `tenants/<id>/` in multi-tenant mode.
+ */
+export function getR2Prefix(env?: { R2_PREFIX?: string }): string {
+  const prefix = env?.R2_PREFIX?.replace(/^\/+|\/+$/g, '');
+  return prefix ? `${prefix}/` : '';
+}
@@ -0,0 +1,269 @@
+import { createHash } from 'node:crypto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { bindingSyncTarget, restoreViaBinding, transferBatches } from './binding-sync';
+import { SYNC_DIRS } from './manifest';
+import { createTar, gunzip, gzip, parseTar } from './tar';
+import {
+  createFakeBucket,
+  createMockEnv,
+  createMockExecResult,
+  createMockSandbox,
+  suppressConsole,
+} from '../test-utils';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function md5(data: Uint8Array): string {
+  return createHash('md5').update(data).digest('hex');
+}
+
+/**
+ * Sandbox holding the files of one container directory: packs the requested
+ * files like tar would
+ */
+function containerWith(files: Record<string, string>) {
+  const mock = createMockSandbox();
+  const data = new Map(Object.entries(files).map(([path, text]) => [path, encoder.encode(text)]));
+  let fileList: string[] = [];
+  let archive = '';
+
+  mock.writeFileMock.mockImplementation(async (path: string, content: string) => {
+    if (path.endsWith('.list')) fileList = content.split('\n');
+    else archive = content;
+  });
+  mock.execMock.mockImplementation(async (command: string) => {
+    if (command.startsWith('tar -czf')) {
+      const entries = fileList.map((path) => ({
+        path,
+        data: data.get(path.replace(/^\.\//, '')) as Uint8Array,
+      }));
+      archive = Buffer.from(await gzip(createTar(entries))).toString('base64');
+    }
+    return createMockExecResult();
+  });
+  mock.readFileMock.mockImplementation(async () => ({
+    success: true,
+    content: archive,
+    encoding: 'base64',
+  }));
+
+  return mock;
+}
+
+const workspace = SYNC_DIRS[1];
+
+describe('bindingSyncTarget', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('uploads the requested files under the directory prefix', async () => {
+    const { bucket, text } = createFakeBucket();
+    const { sandbox, writeFileMock } = containerWith({
+      'edited.md': 'new',
+      'memory/added.md': 'hello',
+      'untouched.md': 'skip me',
+    });
+    const target = bindingSyncTarget(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }));
+
+    await target.upload(workspace, [
+      { path: 'edited.md', size: 3 },
+      { path: 'memory/added.md', size: 5 },
+    ]);
+
+    expect(text('workspace/edited.md')).toBe('new');
+    expect(text('workspace/memory/added.md')).toBe('hello');
+    expect(text('workspace/untouched.md')).toBeUndefined();
+    // Only the requested files are packed
+    expect(writeFileMock).toHaveBeenCalledWith(
+      '/tmp/.container-files.list',
+      './edited.md\n./memory/added.md',
+    );
+  });
+
+  it('packs the encrypted copies when encryption is enabled', async () => {
+    const { bucket, text } = createFakeBucket();
+    const { sandbox, execMock } = containerWith({ 'notes.md': 'MWENC1...' });
+    const env = createMockEnv({ MOLTBOT_BUCKET: bucket, R2_ENCRYPTION_KEY: 'secret' });
+
+    await bindingSyncTarget(sandbox, env).upload(workspace, [{ path: 'notes.md', size: 9 }]);
+
+    const ran = execMock.mock.calls.map(([command]) => command as string);
+    expect(ran[0]).toContain('r2-crypt.mjs encrypt /root/clawd /tmp/.r2-encrypted');
+    expect(ran[1]).toContain('-C /tmp/.r2-encrypted -T');
+    expect(ran).toContain('rm -rf /tmp/.r2-encrypted /tmp/.r2-encrypt.list');
+    expect(text('workspace/notes.md')).toBe('MWENC1...');
+  });
+
+  it('deletes files of a directory', async () => {
+    const { bucket, objects } = createFakeBucket();
+    objects.set('workspace/kept.md', encoder.encode('kept'));
+    objects.set('workspace/gone.md', encoder.encode('gone'));
+    const target = bindingSyncTarget(
+      createMockSandbox().sandbox,
+      createMockEnv({ MOLTBOT_BUCKET: bucket }),
+    );
+
+    await target.remove(workspace, ['gone.md']);
+
+    expect([...objects.keys()]).toEqual(['workspace/kept.md']);
+  });
+
+  it('lists what R2 holds as manifest entries', async () => {
+    const { bucket, objects } = createFakeBucket();
+    objects.set('workspace/notes.md', encoder.encode('notes'));
+    const target = bindingSyncTarget(
+      createMockSandbox().sandbox,
+      createMockEnv({ MOLTBOT_BUCKET: bucket }),
+    );
+
+    const entries = await target.listFiles(workspace);
+
+    expect(entries).toEqual([
+      { path: 'workspace/notes.md', md5: md5(encoder.encode('notes')), size: 5 },
+    ]);
+  });
+
+  it('keeps small objects like the manifest under the tenant prefix', async () => {
+    const { bucket, text } = createFakeBucket();
+    const target = bindingSyncTarget(
+      createMockSandbox().sandbox,
+      createMockEnv({ MOLTBOT_BUCKET: bucket, R2_PREFIX: 'tenants/alice-1234abcd' }),
+    );
+
+    expect(await target.readText('sync-manifest.tsv')).toBeNull();
+    await target.writeText('sync-manifest.tsv', '# manifest\n');
+
+    expect(text('tenants/alice-1234abcd/sync-manifest.tsv')).toBe('# manifest\n');
+    expect(await target.readText('sync-manifest.tsv')).toBe('# manifest\n');
+  });
+
+  it('fails when tar fails', async () => {
+    const { bucket } = createFakeBucket();
+    const { sandbox, execMock } = createMockSandbox();
+    execMock.mockResolvedValue(
+      createMockExecResult('', { exitCode: 2, stderr: 'tar: No space left on device' }),
+    );
+    const target = bindingSyncTarget(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }));
+
+    await expect(target.upload(workspace, [{ path: 'notes.md', size: 5 }])).rejects.toThrow(
+      'tar failed: tar: No space left on device',
+    );
+  });
+});
+
+describe('transferBatches', () => {
+  it('limits batches by file count and by bytes', () => {
+    const small = Array.from({ length: 150 }, (_, i) => ({ path: `${i}.md`, size: 10 }));
+    expect(transferBatches(small).map((batch) => batch.length)).toEqual([100, 50]);
+
+    const large = [5, 5, 20, 1].map((mb, i) => ({ path: `${i}.bin`, size: mb * 1024 * 1024 }));
+    expect(transferBatches(large).map((batch) => batch.map((file) => file.path))).toEqual([
+      ['0.bin'],
+      ['1.bin'],
+      ['2.bin'],
+      ['3.bin'],
+    ]);
+  });
+});
+
+describe('restoreViaBinding', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('unpacks each persisted directory into the container', async () => {
+    const { bucket, objects } = createFakeBucket();
+    objects.set('openclaw/openclaw.json', encoder.encode('{"restored":true}'));
+    objects.set('skills/weather/SKILL.md', encoder.encode('# Weather'));
+    const { sandbox, execMock, writeFileMock } = createMockSandbox();
+    execMock.mockResolvedValue(createMockExecResult('no'));
+
+    const restored = await restoreViaBinding(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }));
+
+    expect(restored).toBe(true);
+    const unpacks = execMock.mock.calls
+      .map(([command]) => command as string)
+      .filter((command) => command.includes('tar -xzf'));
+    expect(unpacks).toHaveLength(2);
+    expect(unpacks[0]).toContain('-C /root/.openclaw');
+    expect(unpacks[1]).toContain('-C /root/clawd/skills');
+    // Then anything encrypted is decrypted in place
+    expect(execMock).toHaveBeenLastCalledWith(
+      'node /usr/local/bin/r2-crypt.mjs decrypt /root/.openclaw /root/clawd /root/clawd/skills',
+      expect.anything(),
+    );
+
+    const [, content, options] = writeFileMock.mock.calls[0];
+    expect(options).toEqual({ encoding: 'base64' });
+    const entries = parseTar(await gunzip(new Uint8Array(Buffer.from(content, 'base64'))));
+    expect(entries.map((entry) => entry.path)).toEqual(['openclaw.json']);
+    expect(decoder.decode(entries[0].data)).toBe('{"restored":true}');
+  });
+
+  it('writes a large directory into the container one batch at a time', async () => {
+    const { bucket, objects } = createFakeBucket();
+    objects.set('openclaw/openclaw.json', encoder.encode('{}'));
+    for (let i = 0; i < 250; i++) objects.set(`workspace/notes/${i}.md`, encoder.encode('note'));
+    const { sandbox, execMock } = createMockSandbox();
+    execMock.mockResolvedValue(createMockExecResult('no'));
+
+    await restoreViaBinding(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }));
+
+    const unpacks = execMock.mock.calls
+      .map(([command]) => command as string)
+      .filter((command) => command.includes('tar -xzf') && command.includes('-C /root/clawd &&'));
+    expect(unpacks).toHaveLength(3);
+  });
+
+  it('remembers the generation it restored', async () => {
+    const { bucket, objects } = createFakeBucket();
+    const marker = { generation: 4, writer: 'ab12cd34', updatedAt: '2026-01-27T12:00:00.000Z' };
+    objects.set('sync-generation.json', encoder.encode(JSON.stringify(marker)));
+    objects.set('openclaw/openclaw.json', encoder.encode('{}'));
+    const { sandbox, execMock, writeFileMock } = createMockSandbox();
+    execMock.mockResolvedValue(createMockExecResult('no'));
+
+    await restoreViaBinding(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }));
+
+    expect(writeFileMock).toHaveBeenCalledWith(
+      '/tmp/.sync-generation.json',
+      JSON.stringify(marker),
+    );
+  });
+
+  it('leaves a container that already has a config alone', async () => {
+    const { bucket, objects } = createFakeBucket();
+    objects.set('openclaw/openclaw.json', encoder.encode('{}'));
+    const { sandbox, execMock, writeFileMock } = createMockSandbox();
+    execMock.mockResolvedValue(createMockExecResult('yes'));
+
+    const restored = await restoreViaBinding(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }));
+
+    expect(restored).toBe(false);
+    expect(writeFileMock).not.toHaveBeenCalled();
+  });
+
+  it('keeps going when one directory fails to unpack', async () => {
+    const { bucket, objects } = createFakeBucket();
+    objects.set('openclaw/openclaw.json', encoder.encode('{}'));
+    objects.set('workspace/notes.md', encoder.encode('notes'));
+    const { sandbox, execMock } = createMockSandbox();
+    execMock.mockImplementation(async (command: string) => {
+      if (command.startsWith('test -f')) return createMockExecResult('no');
+      if (command.includes('-C /root/.openclaw')) {
+        return createMockExecResult('', { exitCode: 2, stderr: 'tar: corrupt' });
+      }
+      return createMockExecResult();
+    });
+
+    const restored = await restoreViaBinding(sandbox, createMockEnv({ MOLTBOT_BUCKET: bucket }));
+
+    expect(restored).toBe(true);
+    expect(execMock).toHaveBeenCalledWith(
+      expect.stringContaining('-C /root/clawd &&'),
+      expect.anything(),
+    );
+  });
+});
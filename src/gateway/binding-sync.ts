@@ -0,0 +1,213 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { getR2Prefix } from '../config';
+import { GENERATION_NAME, parseGenerationMarker, writeLocalGeneration } from './conflict';
+import { clearStaging, decryptRestored, encryptForUpload, isEncryptionEnabled } from './encryption';
+import { SYNC_DIRS, type ManifestEntry, type SyncTarget } from './manifest';
+import { readContainerFiles, writeContainerFiles } from './container-files';
+import type { TarEntry } from './tar';
+
+/** R2 deletes at most 1000 keys per call */
+const DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Files moved between R2 and the container at once. Each batch is held in the
+ * Worker's memory, so a workspace of any size stays within its 128 MB.
+ */
+const TRANSFER_BATCH_FILES = 100;
+const TRANSFER_BATCH_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Key prefix of one persisted directory, e.g. "tenants/alice-1234abcd/workspace/"
+ */
+function bucketPrefix(env: MoltbotEnv, name: string): string {
+  return `${getR2Prefix(env)}${name}/`;
+}
+
+/**
+ * ETag and size of each object under a prefix, keyed by path relative to
+ * the prefix. The ETag of an object written in one put is its MD5.
+ */
+async function listBucketFiles(
+  bucket: R2Bucket,
+  prefix: string,
+): Promise<Map<string, { etag: string; size: number }>> {
+  const files = new Map<string, { etag: string; size: number }>();
+  let cursor: string | undefined;
+  do {
+    // eslint-disable-next-line no-await-in-loop -- listing pages are sequential
+    const page = await bucket.list({ prefix, cursor });
+    for (const object of page.objects) {
+      files.set(object.key.slice(prefix.length), { etag: object.etag, size: object.size });
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  return files;
+}
+
+/**
+ * Split files into batches of at most TRANSFER_BATCH_FILES files and
+ * TRANSFER_BATCH_BYTES bytes; a file over the byte limit gets a batch of its own
+ */
+export function transferBatches<T extends { size: number }>(files: T[]): T[][] {
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  let bytes = 0;
+  for (const file of files) {
+    if (
+      batch.length > 0 &&
+      (batch.length >= TRANSFER_BATCH_FILES || bytes + file.size > TRANSFER_BATCH_BYTES)
+    ) {
+      batches.push(batch);
+      batch = [];
+      bytes = 0;
+    }
+    batch.push(file);
+    bytes += file.size;
+  }
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
+
+/**
+ * Sync through the MOLTBOT_BUCKET binding: the Worker reads files out of
+ * the container with tar and writes them to R2 itself, so no R2 API
+ * credentials are needed
+ */
+export function bindingSyncTarget(sandbox: Sandbox, env: MoltbotEnv): SyncTarget {
+  const bucket = env.MOLTBOT_BUCKET;
+
+  return {
+    async readText(name) {
+      const object = await bucket.get(`${getR2Prefix(env)}${name}`);
+      return object ? object.text() : null;
+    },
+
+    async writeText(name, text) {
+      await bucket.put(`${getR2Prefix(env)}${name}`, text);
+    },
+
+    async listFiles(dir) {
+      const files = await listBucketFiles(bucket, bucketPrefix(env, dir.name));
+      return [...files].map(
+        ([path, file]): ManifestEntry => ({
+          path: `${dir.name}/${path}`,
+          md5: file.etag,
+          size: file.size,
+        }),
+      );
+    },
+
+    async upload(dir, files) {
+      const prefix = bucketPrefix(env, dir.name);
+      const encrypted = isEncryptionEnabled(env);
+      const source = encrypted
+        ? await encryptForUpload(
+            sandbox,
+            dir.local,
+            files.map((file) => file.path),
+          )
+        : dir.local;
+      try {
+        for (const batch of transferBatches(files)) {
+          // eslint-disable-next-line no-await-in-loop -- one batch in memory at a time
+          const entries = await readContainerFiles(
+            sandbox,
+            source,
+            batch.map((file) => file.path),
+          );
+          // eslint-disable-next-line no-await-in-loop -- one batch in memory at a time
+          await Promise.all(
+            entries.map((entry) => bucket.put(`${prefix}${entry.path}`, entry.data)),
+          );
+        }
+      } finally {
+        if (encrypted) await clearStaging(sandbox);
+      }
+    },
+
+    async remove(dir, paths) {
+      const prefix = bucketPrefix(env, dir.name);
+      for (let i = 0; i < paths.length; i += DELETE_BATCH_SIZE) {
+        const keys = paths.slice(i, i + DELETE_BATCH_SIZE).map((path) => `${prefix}${path}`);
+        // eslint-disable-next-line no-await-in-loop -- batches are small and sequential
+        await bucket.delete(keys);
+      }
+    },
+  };
+}
+
+/**
+ * Restore persisted data into a fresh container through the binding
+ *
+ * Runs before the startup script, which cannot reach R2 without S3 API
+ * credentials. A container that already has a config is left alone: its
+ * files are at least as new as the last sync. Throws if restored files are
+ * encrypted with keys the container doesn't have.
+ *
+ * @returns Whether anything was restored
+ */
+export async function restoreViaBinding(sandbox: Sandbox, env: MoltbotEnv): Promise<boolean> {
+  const check = await sandbox.exec('test -f /root/.openclaw/openclaw.json && echo yes || echo no');
+  if (check.stdout?.trim() === 'yes') {
+    console.log('[Gateway] Config already present, skipping restore from R2');
+    return false;
+  }
+
+  // Read first, so a sync that lands during the restore shows up as a conflict
+  const generation = await env.MOLTBOT_BUCKET.get(`${getR2Prefix(env)}${GENERATION_NAME}`);
+  const marker = parseGenerationMarker(generation ? await generation.text() : null);
+
+  let restored = false;
+  for (const dir of SYNC_DIRS) {
+    const prefix = bucketPrefix(env, dir.name);
+    try {
+      // eslint-disable-next-line no-await-in-loop -- directories are restored one at a time to bound memory use
+      const count = await restoreDirectory(sandbox, env.MOLTBOT_BUCKET, prefix, dir.local);
+      if (count > 0) {
+        console.log(`[Gateway] Restored ${count} files from R2 into ${dir.local}`);
+        restored = true;
+      }
+    } catch (err) {
+      // Like the startup script, a failed restore leaves the directory as it is
+      console.error(`[Gateway] WARNING: ${dir.name} restore failed:`, err);
+    }
+  }
+  // Encrypted files are decrypted with the keys prepareEncryption installed
+  if (restored)
+    await decryptRestored(
+      sandbox,
+      SYNC_DIRS.map((dir) => dir.local),
+    );
+  if (marker) await writeLocalGeneration(sandbox, marker);
+  return restored;
+}
+
+async function restoreDirectory(
+  sandbox: Sandbox,
+  bucket: R2Bucket,
+  prefix: string,
+  dir: string,
+): Promise<number> {
+  const listed = [...(await listBucketFiles(bucket, prefix))].map(([path, file]) => ({
+    path,
+    size: file.size,
+  }));
+
+  let restored = 0;
+  for (const batch of transferBatches(listed)) {
+    // eslint-disable-next-line no-await-in-loop -- one batch in memory at a time
+    const entries = await Promise.all(
+      batch.map(async ({ path }): Promise<TarEntry | null> => {
+        const object = await bucket.get(`${prefix}${path}`);
+        return object ? { path, data: new Uint8Array(await object.arrayBuffer()) } : null;
+      }),
+    );
+    const files = entries.filter((entry): entry is TarEntry => entry !== null);
+    // Written before the next batch is fetched, so only one is held at a time
+    // eslint-disable-next-line no-await-in-loop -- one batch in memory at a time
+    if (files.length > 0) await writeContainerFiles(sandbox, dir, files);
+    restored += files.length;
+  }
+  return restored;
+}
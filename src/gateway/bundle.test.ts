@@ -0,0 +1,273 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  InvalidBundleError,
+  MAX_BUNDLE_BYTES,
+  createBundle,
+  importBundle,
+  readBundle,
+  redactSecrets,
+  restoreSecrets,
+} from './bundle';
+import { createTar, gunzip, gzip, parseTar, type TarEntry } from './tar';
+import {
+  createMockEnv,
+  createMockExecResult,
+  createMockSandbox,
+  suppressConsole,
+} from '../test-utils';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const CONFIG = {
+  gateway: { auth: { mode: 'token', token: 'gateway-secret' } },
+  channels: { telegram: { enabled: true, botToken: '123:abc' } },
+  models: { providers: { anthropic: { apiKey: 'sk-ant-1', maxTokens: 4096 } } },
+};
+
+function entry(path: string, text: string): TarEntry {
+  return { path, data: encoder.encode(text) };
+}
+
+async function bundleOf(...entries: TarEntry[]): Promise<Uint8Array> {
+  return gzip(createTar(entries));
+}
+
+const MANIFEST = entry(
+  'bundle.json',
+  JSON.stringify({ format: 1, createdAt: '2026-01-27T12:00:00.000Z', redacted: [] }),
+);
+
+/**
+ * Container with files in each directory: lists them like find and md5sum,
+ * packs them like tar, and records what is unpacked into it
+ */
+function containerWith(dirs: Record<string, Record<string, string>>, version = '2026.2.3') {
+  const mock = createMockSandbox();
+  const unpacked = new Map<string, TarEntry[]>();
+  let fileList: string[] = [];
+  let archive = '';
+
+  mock.writeFileMock.mockImplementation(async (path: string, content: string) => {
+    if (path.endsWith('.list')) fileList = content.split('\n');
+    else archive = content;
+  });
+  mock.execMock.mockImplementation(async (command: string) => {
+    if (command.startsWith('test -f /root/.openclaw')) {
+      return createMockExecResult(dirs['/root/.openclaw'] ? 'openclaw' : 'none');
+    }
+    if (command.includes('--version')) return createMockExecResult(version);
+    if (command.startsWith('cat /root/.openclaw/openclaw.json')) {
+      return createMockExecResult(dirs['/root/.openclaw']?.['openclaw.json'] ?? '');
+    }
+    const listed = /^if \[ -d (\S+) \]/.exec(command)?.[1];
+    if (listed) {
+      return createMockExecResult(
+        Object.entries(dirs[listed] ?? {})
+          .map(([path, text]) => `${text.length}\t${path}`)
+          .join('\n'),
+      );
+    }
+    if (/^\(cd \S+ && tr/.test(command)) {
+      return createMockExecResult(fileList.map((path) => `${'a'.repeat(32)}  ${path}`).join('\n'));
+    }
+    const packed = /-C (\S+) -T/.exec(command)?.[1];
+    if (command.startsWith('tar -czf') && packed) {
+      const entries = fileList.map((path) =>
+        entry(path.replace(/^\.\//, ''), dirs[packed][path.replace(/^\.\//, '')]),
+      );
+      archive = Buffer.from(await gzip(createTar(entries))).toString('base64');
+    }
+    const target = /-C (\S+) &&/.exec(command)?.[1];
+    if (command.startsWith('mkdir -p') && target) {
+      unpacked.set(target, parseTar(await gunzip(new Uint8Array(Buffer.from(archive, 'base64')))));
+    }
+    return createMockExecResult();
+  });
+  mock.readFileMock.mockImplementation(async () => ({
+    success: true,
+    content: archive,
+    encoding: 'base64',
+  }));
+  return { ...mock, unpacked };
+}
+
+describe('redactSecrets and restoreSecrets', () => {
+  it('remove secret values and put them back from another config', () => {
+    const config = structuredClone(CONFIG);
+
+    const redacted = redactSecrets(config);
+
+    expect(redacted).toEqual([
+      '/gateway/auth/token',
+      '/channels/telegram/botToken',
+      '/models/providers/anthropic/apiKey',
+    ]);
+    expect(config.gateway.auth).toEqual({ mode: 'token' });
+    expect(config.models.providers.anthropic).toEqual({ maxTokens: 4096 });
+
+    const other = { channels: { telegram: { botToken: '456:def' } } };
+    expect(restoreSecrets(config, other, redacted)).toEqual(['/channels/telegram/botToken']);
+    expect(config.channels.telegram.botToken).toBe('456:def');
+  });
+});
+
+describe('readBundle', () => {
+  it('accepts a bundle with a config', async () => {
+    const bundle = await readBundle(
+      await bundleOf(
+        MANIFEST,
+        entry('openclaw/openclaw.json', '{}'),
+        entry('workspace/notes.md', 'hi'),
+      ),
+    );
+
+    expect(bundle.manifest.format).toBe(1);
+    expect(bundle.files.map((file) => file.path)).toEqual([
+      'openclaw/openclaw.json',
+      'workspace/notes.md',
+    ]);
+  });
+
+  it.each([
+    ['something that is not gzipped', async () => encoder.encode('hello')],
+    ['a bundle without a manifest', () => bundleOf(entry('openclaw/openclaw.json', '{}'))],
+    [
+      'a bundle of another format',
+      () => bundleOf(entry('bundle.json', '{"format":2}'), entry('openclaw/openclaw.json', '{}')),
+    ],
+    ['a bundle without a config', () => bundleOf(MANIFEST, entry('workspace/notes.md', 'hi'))],
+    [
+      'a config that is not JSON',
+      () => bundleOf(MANIFEST, entry('openclaw/openclaw.json', '{oops')),
+    ],
+    [
+      'paths outside the persisted directories',
+      () =>
+        bundleOf(
+          MANIFEST,
+          entry('openclaw/openclaw.json', '{}'),
+          entry('workspace/../../etc/passwd', 'x'),
+        ),
+    ],
+  ])('rejects %s', async (_, create) => {
+    await expect(readBundle(await create())).rejects.toThrow(InvalidBundleError);
+  });
+
+  it('stops decompressing once the tarball passes the size limit', async () => {
+    // Zeros compress to a tiny archive that inflates far past the limit
+    const bomb = await gzip(new Uint8Array(MAX_BUNDLE_BYTES + 1024 * 1024));
+
+    await expect(readBundle(bomb)).rejects.toThrow(/larger than 16 MB/);
+  });
+});
+
+describe('createBundle', () => {
+  it('packs each directory without the config secrets', async () => {
+    const { sandbox } = containerWith({
+      '/root/.openclaw': {
+        'openclaw.json': JSON.stringify(CONFIG),
+        'devices/paired.json': '{"device-1":{},"device-2":{}}',
+      },
+      '/root/clawd': { 'notes.md': 'hello' },
+    });
+
+    const { archive, manifest } = await createBundle(
+      sandbox,
+      createMockEnv({ OPENCLAW_VERSION: '2026.2.3' }),
+    );
+
+    expect(manifest).toMatchObject({
+      format: 1,
+      openclaw: { version: '2026.2.3', pinned: '2026.2.3' },
+      files: { openclaw: 2, workspace: 1 },
+      pairedDevices: 2,
+    });
+    expect(manifest.redacted).toHaveLength(3);
+
+    const files = new Map(
+      parseTar(await gunzip(archive)).map((file) => [file.path, decoder.decode(file.data)]),
+    );
+    expect([...files.keys()]).toEqual([
+      'bundle.json',
+      'openclaw/devices/paired.json',
+      'openclaw/openclaw.json',
+      'workspace/notes.md',
+    ]);
+    expect(files.get('openclaw/openclaw.json')).not.toContain('sk-ant-1');
+    expect(files.get('openclaw/openclaw.json')).not.toContain('123:abc');
+  });
+
+  it('fails without a config', async () => {
+    const { sandbox } = containerWith({});
+
+    await expect(createBundle(sandbox, createMockEnv())).rejects.toThrow('No config file found');
+  });
+});
+
+describe('importBundle', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('writes the files and keeps the secrets of the config it replaces', async () => {
+    const { sandbox, unpacked } = containerWith(
+      { '/root/.openclaw': { 'openclaw.json': JSON.stringify(CONFIG) } },
+      '2026.2.9',
+    );
+    const exported = structuredClone(CONFIG);
+    const redacted = redactSecrets(exported);
+    exported.channels.telegram.enabled = false;
+    const bundle = await readBundle(
+      await bundleOf(
+        entry(
+          'bundle.json',
+          JSON.stringify({
+            format: 1,
+            createdAt: '2026-01-27T12:00:00.000Z',
+            openclaw: { version: '2026.2.3', pinned: null },
+            redacted: [...redacted, '/channels/discord/token'],
+          }),
+        ),
+        entry('openclaw/openclaw.json', JSON.stringify(exported)),
+        entry('skills/weather/SKILL.md', '# Weather'),
+      ),
+    );
+
+    const result = await importBundle(sandbox, createMockEnv(), bundle);
+
+    expect(result).toMatchObject({ files: 2, restoredSecrets: 3 });
+    expect(result.warnings).toEqual([
+      'The bundle was exported from OpenClaw 2026.2.3, this deployment runs 2026.2.9',
+      "1 secret(s) left out of the export are not in this deployment's config: /channels/discord/token",
+    ]);
+    const [config] = unpacked.get('/root/.openclaw') ?? [];
+    expect(JSON.parse(decoder.decode(config.data))).toEqual({
+      ...CONFIG,
+      channels: { telegram: { enabled: false, botToken: '123:abc' } },
+    });
+    expect(unpacked.get('/root/clawd/skills')?.map((file) => file.path)).toEqual([
+      'weather/SKILL.md',
+    ]);
+  });
+
+  it('writes the files while holding the sync lock', async () => {
+    const { sandbox, execMock, startProcessMock } = containerWith({
+      '/root/.openclaw': { 'openclaw.json': JSON.stringify(CONFIG) },
+    });
+    const bundle = await readBundle(
+      await bundleOf(MANIFEST, entry('openclaw/openclaw.json', JSON.stringify(CONFIG))),
+    );
+
+    await importBundle(sandbox, createMockEnv(), bundle);
+
+    const [holder] = startProcessMock.mock.calls[0] as [string];
+    const held = /touch (\S+);/.exec(holder)?.[1];
+    const run = execMock.mock.calls.map(([command]) => command as string);
+    const wait = run.findIndex((command) => command.includes(`until [ -e ${held} ]`));
+    const unpack = run.findIndex((command) => command.includes('tar -xzf'));
+    expect(wait).toBeGreaterThan(-1);
+    expect(unpack).toBeGreaterThan(wait);
+    expect(run.lastIndexOf(`rm -f ${held}`)).toBeGreaterThan(unpack);
+  });
+});
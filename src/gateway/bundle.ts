@@ -0,0 +1,375 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { SECRET_KEY_PATTERN } from '../utils/logging';
+import { SYNC_DIRS, listLocalEntries, type SyncDir } from './manifest';
+import { createSyncFilter, getSyncPolicy } from './sync-policy';
+import { readContainerFiles, writeContainerFiles } from './container-files';
+import { detectConfigDir, withSyncLock } from './sync';
+import { openClawBin } from './upgrade';
+import { SizeLimitError, createTar, gunzip, gzip, parseTar, type TarEntry } from './tar';
+
+/**
+ * Export and import of a whole assistant, to move it between deployments.
+ *
+ * A bundle is a gzipped tarball laid out like the R2 prefixes sync writes:
+ * openclaw/ (the config directory, including paired devices), workspace/ and
+ * skills/, plus bundle.json describing it. Secret values in openclaw.json are
+ * left out of the export; an import fills them back in from the config it
+ * replaces, so channel tokens and API keys of the target deployment survive.
+ */
+
+export const BUNDLE_FORMAT = 1;
+
+/**
+ * Limit on both the uploaded archive and the tarball inside it. An import holds
+ * a few copies of the bundle at once, which has to fit in a Worker's 128 MB.
+ * Larger assistants are moved by copying their R2 prefixes.
+ */
+export const MAX_BUNDLE_BYTES = 16 * 1024 * 1024;
+
+const MANIFEST_PATH = 'bundle.json';
+const CONFIG_PATH = 'openclaw/openclaw.json';
+const PAIRED_DEVICES_PATH = 'openclaw/devices/paired.json';
+
+export interface BundleManifest {
+  format: number;
+  /** ISO timestamp of the export */
+  createdAt: string;
+  openclaw: {
+    /** What `openclaw --version` printed */
+    version: string | null;
+    /** Version pinned with the upgrade endpoint, or null for the bundled one */
+    pinned: string | null;
+  };
+  /** Files per directory */
+  files: Record<string, number>;
+  /** JSON pointers of the secret values left out of openclaw.json */
+  redacted: string[];
+  /** Devices paired with the gateway, if the config directory records them */
+  pairedDevices: number | null;
+}
+
+export interface Bundle {
+  manifest: BundleManifest;
+  /** Files by path, e.g. "workspace/notes.md" */
+  files: TarEntry[];
+}
+
+export interface BundleImportResult {
+  manifest: BundleManifest;
+  /** Files written into the container */
+  files: number;
+  /** Secrets carried over from the config the import replaced */
+  restoredSecrets: number;
+  warnings: string[];
+}
+
+/**
+ * A bundle that can't be imported; the import leaves the container alone
+ */
+export class InvalidBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidBundleError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePointer(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Remove secret string values from a config, in place
+ *
+ * @returns JSON pointers of the removed values
+ */
+export function redactSecrets(config: unknown, pointer = ''): string[] {
+  if (!isObject(config)) return [];
+  const redacted: string[] = [];
+  for (const [key, value] of Object.entries(config)) {
+    const path = `${pointer}/${escapePointer(key)}`;
+    if (typeof value === 'string' && SECRET_KEY_PATTERN.test(key) && value !== '') {
+      delete config[key];
+      redacted.push(path);
+    } else {
+      redacted.push(...redactSecrets(value, path));
+    }
+  }
+  return redacted;
+}
+
+function parsePointer(pointer: string): string[] {
+  return pointer.split('/').slice(1).map(unescapePointer);
+}
+
+function getAt(config: unknown, segments: string[]): unknown {
+  let value = config;
+  for (const segment of segments) {
+    if (!isObject(value)) return undefined;
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Put redacted secrets back from another config
+ *
+ * @returns The pointers that were filled in
+ */
+export function restoreSecrets(config: unknown, from: unknown, pointers: string[]): string[] {
+  const restored: string[] = [];
+  for (const pointer of pointers) {
+    const segments = parsePointer(pointer);
+    const parent = getAt(config, segments.slice(0, -1));
+    const value = getAt(from, segments);
+    if (isObject(parent) && typeof value === 'string') {
+      parent[segments[segments.length - 1]] = value;
+      restored.push(pointer);
+    }
+  }
+  return restored;
+}
+
+async function openClawVersion(sandbox: Sandbox, env: MoltbotEnv): Promise<string | null> {
+  const result = await sandbox.exec(
+    `${openClawBin(env.OPENCLAW_VERSION)} --version 2>/dev/null || true`,
+  );
+  return result.stdout?.trim() || null;
+}
+
+function countDevices(file: TarEntry | undefined): number | null {
+  if (!file) return null;
+  try {
+    const devices = JSON.parse(decoder.decode(file.data)) as unknown;
+    if (Array.isArray(devices)) return devices.length;
+    return isObject(devices) ? Object.keys(devices).length : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pack the assistant in the container into a bundle
+ */
+export async function createBundle(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+): Promise<{ archive: Uint8Array; manifest: BundleManifest }> {
+  const configDir = await detectConfigDir(sandbox);
+  if (!configDir) throw new Error('No config file found, nothing to export');
+
+  // A bundle holds what syncs persist
+  const filter = createSyncFilter(getSyncPolicy(env));
+  const files: TarEntry[] = [];
+  const counts: Record<string, number> = {};
+  let bytes = 0;
+  for (const dir of SYNC_DIRS) {
+    const local: SyncDir = dir.name === 'openclaw' ? { ...dir, local: configDir } : dir;
+    // eslint-disable-next-line no-await-in-loop -- one directory at a time to bound container load
+    const entries = await listLocalEntries(sandbox, local, filter);
+    if (!entries || entries.length === 0) continue;
+
+    bytes += entries.reduce((total, entry) => total + entry.size, 0);
+    if (bytes > MAX_BUNDLE_BYTES) {
+      throw new Error(`The assistant is larger than ${MAX_BUNDLE_BYTES / 1024 / 1024} MB`);
+    }
+    const relative = entries.map((entry) => entry.path.slice(dir.name.length + 1));
+    // eslint-disable-next-line no-await-in-loop -- one directory at a time to bound memory use
+    for (const file of await readContainerFiles(sandbox, local.local, relative)) {
+      // A legacy config directory is migrated like a restore from a legacy backup
+      const path = file.path === 'clawdbot.json' ? 'openclaw.json' : file.path;
+      files.push({ path: `${dir.name}/${path}`, data: file.data });
+    }
+    counts[dir.name] = relative.length;
+  }
+
+  const config = files.find((file) => file.path === CONFIG_PATH);
+  if (!config) throw new Error('No config file found, nothing to export');
+  const parsed = JSON.parse(decoder.decode(config.data)) as unknown;
+  const redacted = redactSecrets(parsed);
+  config.data = encoder.encode(`${JSON.stringify(parsed, null, 2)}\n`);
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    createdAt: new Date().toISOString(),
+    openclaw: {
+      version: await openClawVersion(sandbox, env),
+      pinned: env.OPENCLAW_VERSION ?? null,
+    },
+    files: counts,
+    redacted,
+    pairedDevices: countDevices(files.find((file) => file.path === PAIRED_DEVICES_PATH)),
+  };
+  const entries = [
+    { path: MANIFEST_PATH, data: encoder.encode(`${JSON.stringify(manifest, null, 2)}\n`) },
+    ...files,
+  ];
+  const tar = createTar(entries);
+  // Tar headers count towards the limit an import checks
+  if (tar.length > MAX_BUNDLE_BYTES) {
+    throw new Error(`The assistant is larger than ${MAX_BUNDLE_BYTES / 1024 / 1024} MB`);
+  }
+  return { archive: await gzip(tar), manifest };
+}
+
+function isSafePath(path: string): boolean {
+  const segments = path.split('/');
+  return (
+    SYNC_DIRS.some((dir) => segments[0] === dir.name) &&
+    segments.length > 1 &&
+    segments.every((segment) => segment !== '' && segment !== '.' && segment !== '..')
+  );
+}
+
+/**
+ * Unpack and validate a bundle
+ *
+ * Decompression stops once the tarball passes MAX_BUNDLE_BYTES.
+ *
+ * @throws InvalidBundleError if it is not a bundle this version can import
+ */
+export async function readBundle(data: Uint8Array): Promise<Bundle> {
+  let entries: TarEntry[];
+  try {
+    entries = parseTar(await gunzip(data, MAX_BUNDLE_BYTES));
+  } catch (err) {
+    if (err instanceof SizeLimitError) {
+      throw new InvalidBundleError(
+        `The bundle is larger than ${MAX_BUNDLE_BYTES / 1024 / 1024} MB`,
+      );
+    }
+    throw new InvalidBundleError(
+      `Not a gzipped tarball: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+
+  const manifestFile = entries.find((entry) => entry.path === MANIFEST_PATH);
+  if (!manifestFile) throw new InvalidBundleError(`The bundle has no ${MANIFEST_PATH}`);
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(decoder.decode(manifestFile.data)) as BundleManifest;
+  } catch {
+    throw new InvalidBundleError(`${MANIFEST_PATH} is not valid JSON`);
+  }
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new InvalidBundleError(
+      `Unsupported bundle format ${String(manifest.format)}, expected ${BUNDLE_FORMAT}`,
+    );
+  }
+
+  const files = entries.filter((entry) => entry !== manifestFile);
+  const unsafe = files.find((file) => !isSafePath(file.path));
+  if (unsafe) throw new InvalidBundleError(`Unexpected path in the bundle: ${unsafe.path}`);
+
+  const config = files.find((file) => file.path === CONFIG_PATH);
+  if (!config) throw new InvalidBundleError(`The bundle has no ${CONFIG_PATH}`);
+  try {
+    if (!isObject(JSON.parse(decoder.decode(config.data)))) throw new Error('not an object');
+  } catch {
+    throw new InvalidBundleError(`${CONFIG_PATH} is not a JSON object`);
+  }
+
+  return { manifest: { ...manifest, redacted: manifest.redacted ?? [] }, files };
+}
+
+/**
+ * What to look out for before importing a bundle into this deployment
+ */
+export async function checkBundle(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  bundle: Bundle,
+): Promise<string[]> {
+  const warnings: string[] = [];
+  const version = await openClawVersion(sandbox, env);
+  if (
+    bundle.manifest.openclaw?.version &&
+    version &&
+    bundle.manifest.openclaw.version !== version
+  ) {
+    warnings.push(
+      `The bundle was exported from OpenClaw ${bundle.manifest.openclaw.version}, this deployment runs ${version}`,
+    );
+  }
+  return warnings;
+}
+
+async function readCurrentConfig(sandbox: Sandbox): Promise<unknown> {
+  const configDir = await detectConfigDir(sandbox);
+  if (!configDir) return null;
+  const name = configDir.endsWith('.clawdbot') ? 'clawdbot.json' : 'openclaw.json';
+  const result = await sandbox.exec(`cat ${configDir}/${name}`);
+  try {
+    return JSON.parse(result.stdout || '') as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a bundle into the container, over the files already there. The files
+ * are written under the sync lock, so a background sync can't push the files
+ * they replace back halfway through, and R2's data is claimed for this
+ * container once done. The gateway must be restarted afterwards to load the
+ * imported config.
+ */
+export async function importBundle(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  bundle: Bundle,
+): Promise<BundleImportResult> {
+  const warnings = await checkBundle(sandbox, env, bundle);
+
+  const config = bundle.files.find((file) => file.path === CONFIG_PATH) as TarEntry;
+  const imported = JSON.parse(decoder.decode(config.data)) as unknown;
+  const restored = restoreSecrets(
+    imported,
+    await readCurrentConfig(sandbox),
+    bundle.manifest.redacted,
+  );
+  const missing = bundle.manifest.redacted.length - restored.length;
+  if (missing > 0) {
+    warnings.push(
+      `${missing} secret(s) left out of the export are not in this deployment's config: ${bundle.manifest.redacted
+        .filter((pointer) => !restored.includes(pointer))
+        .join(', ')}`,
+    );
+  }
+  const files = bundle.files.map((file) =>
+    file === config
+      ? { path: file.path, data: encoder.encode(`${JSON.stringify(imported, null, 2)}\n`) }
+      : file,
+  );
+
+  await withSyncLock(sandbox, env, async () => {
+    for (const dir of SYNC_DIRS) {
+      const prefix = `${dir.name}/`;
+      const entries = files
+        .filter((file) => file.path.startsWith(prefix))
+        .map((file) => ({ path: file.path.slice(prefix.length), data: file.data }));
+      // eslint-disable-next-line no-await-in-loop -- one directory at a time to bound memory use
+      if (entries.length > 0) await writeContainerFiles(sandbox, dir.local, entries);
+    }
+  });
+
+  console.log(
+    `[Gateway] Imported bundle from ${bundle.manifest.createdAt}: ${files.length} files, ${restored.length} secrets carried over`,
+  );
+  return {
+    manifest: bundle.manifest,
+    files: files.length,
+    restoredSecrets: restored.length,
+    warnings,
+  };
+}
@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  CONFIG_HISTORY_LIMIT,
+  ConfigEditError,
+  applyConfigPatch,
+  diffConfig,
+  editContainerConfig,
+  managedConfigPaths,
+  maskSecrets,
+  needsRestart,
+  type ConfigEdit,
+} from './config-edit';
+import {
+  createMockEnv,
+  createMockExecResult,
+  createMockSandbox,
+  suppressConsole,
+} from '../test-utils';
+
+const CONFIG = {
+  gateway: { port: 18789, mode: 'local', auth: { token: 'gw-secret' } },
+  agents: { defaults: { workspace: '/root/clawd', skills: ['a', 'b'] } },
+  channels: { telegram: { botToken: 'tg-secret', enabled: true } },
+};
+
+function mockContainer(config: unknown, validate = createMockExecResult()) {
+  const mock = createMockSandbox();
+  mock.execMock.mockImplementation(async (command: string) => {
+    if (command.startsWith('cat ')) return createMockExecResult(JSON.stringify(config));
+    if (command.includes('config validate')) return validate;
+    return createMockExecResult();
+  });
+  return mock;
+}
+
+function editError(fn: () => unknown): ConfigEditError {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof ConfigEditError) return err;
+    throw err;
+  }
+  throw new Error('expected a ConfigEditError');
+}
+
+describe('maskSecrets', () => {
+  it('masks string values under secret keys only', () => {
+    expect(maskSecrets(CONFIG)).toEqual({
+      gateway: { port: 18789, mode: 'local', auth: { token: '[REDACTED]' } },
+      agents: { defaults: { workspace: '/root/clawd', skills: ['a', 'b'] } },
+      channels: { telegram: { botToken: '[REDACTED]', enabled: true } },
+    });
+  });
+});
+
+describe('applyConfigPatch', () => {
+  it('applies operations in order to a copy', () => {
+    const result = applyConfigPatch(CONFIG, [
+      { op: 'replace', path: '/agents/defaults/workspace', value: '/data' },
+      { op: 'add', path: '/agents/defaults/skills/-', value: 'c' },
+      { op: 'remove', path: '/agents/defaults/skills/0' },
+      { op: 'add', path: '/channels/telegram/dm', value: { policy: 'pairing' } },
+    ]);
+
+    expect(result.agents).toEqual({ defaults: { workspace: '/data', skills: ['b', 'c'] } });
+    expect(result.channels).toEqual({
+      telegram: { botToken: 'tg-secret', enabled: true, dm: { policy: 'pairing' } },
+    });
+    expect(CONFIG.agents.defaults.workspace).toBe('/root/clawd');
+  });
+
+  it('refuses malformed patches and paths that do not exist', () => {
+    expect(editError(() => applyConfigPatch(CONFIG, {})).message).toMatch(/non-empty list/);
+    expect(editError(() => applyConfigPatch(CONFIG, [{ op: 'move', path: '/a' }])).message).toMatch(
+      /Unsupported operation "move"/,
+    );
+    expect(
+      editError(() => applyConfigPatch(CONFIG, [{ op: 'remove', path: '/agents/list' }])).message,
+    ).toBe('remove /agents/list: no such setting');
+    expect(
+      editError(() =>
+        applyConfigPatch(CONFIG, [{ op: 'add', path: '/agents/defaults/skills/5', value: 'x' }]),
+      ).message,
+    ).toMatch(/out of range/);
+  });
+
+  it('refuses paths that would reach an object prototype', () => {
+    for (const path of ['/__proto__/x', '/agents/constructor/prototype/x', '/gateway/__proto__']) {
+      const error = editError(() => applyConfigPatch(CONFIG, [{ op: 'add', path, value: true }]));
+      expect(error.reason).toBe('invalid');
+    }
+    expect(({} as Record<string, unknown>).x).toBeUndefined();
+  });
+
+  it('only follows settings the config has itself', () => {
+    expect(
+      editError(() =>
+        applyConfigPatch(CONFIG, [{ op: 'add', path: '/agents/hasOwnProperty/x', value: 1 }]),
+      ).message,
+    ).toBe('add /agents/hasOwnProperty/x: no such setting');
+  });
+
+  it('refuses masked secrets so they are not written back', () => {
+    const error = editError(() =>
+      applyConfigPatch(CONFIG, [
+        { op: 'replace', path: '/channels/telegram', value: maskSecrets(CONFIG.channels.telegram) },
+      ]),
+    );
+
+    expect(error.reason).toBe('invalid');
+    expect(error.message).toMatch(/masked secret/);
+  });
+
+  it('reports a failed test operation as a conflict', () => {
+    const error = editError(() =>
+      applyConfigPatch(CONFIG, [
+        { op: 'test', path: '/agents/defaults/workspace', value: '/other' },
+        { op: 'replace', path: '/agents/defaults/workspace', value: '/data' },
+      ]),
+    );
+
+    expect(error.reason).toBe('conflict');
+  });
+});
+
+describe('diffConfig', () => {
+  it('lists added, removed and changed values with secrets masked', () => {
+    const after = {
+      gateway: { port: 18789, mode: 'local', auth: { token: 'new-secret' } },
+      agents: { defaults: { skills: ['a'] } },
+      channels: { telegram: { botToken: 'tg-secret', enabled: true }, slack: { enabled: false } },
+    };
+
+    expect(diffConfig(CONFIG, after)).toEqual([
+      { path: '/gateway/auth/token', before: '[REDACTED]', after: '[REDACTED]' },
+      { path: '/agents/defaults/workspace', before: '/root/clawd' },
+      { path: '/agents/defaults/skills', before: ['a', 'b'], after: ['a'] },
+      { path: '/channels/slack', after: { enabled: false } },
+    ]);
+  });
+
+  it('restarts the gateway only for settings it reads at startup', () => {
+    expect(needsRestart([{ path: '/gateway/auth/token' }])).toBe(true);
+    expect(needsRestart([{ path: '/plugins/entries/x' }])).toBe(true);
+    expect(needsRestart([{ path: '/agents/defaults/workspace' }, { path: '/gatewayish' }])).toBe(
+      false,
+    );
+  });
+});
+
+describe('managedConfigPaths', () => {
+  it('lists the settings the Worker sets as JSON pointers', () => {
+    expect(managedConfigPaths(createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'tok' }))).toEqual(
+      expect.arrayContaining(['/gateway/port', '/gateway/auth/token']),
+    );
+  });
+
+  it('lists only the keys merged channel settings set', () => {
+    const paths = managedConfigPaths(
+      createMockEnv({ DISCORD_BOT_TOKEN: 'dc', DISCORD_DM_POLICY: 'allowlist' }),
+    );
+
+    expect(paths).toEqual(
+      expect.arrayContaining([
+        '/channels/discord/token',
+        '/channels/discord/enabled',
+        '/channels/discord/dm/policy',
+      ]),
+    );
+    expect(paths).not.toContain('/channels/discord');
+    expect(paths).not.toContain('/channels/discord/dm/allowFrom');
+  });
+});
+
+describe('editContainerConfig', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  const env = createMockEnv();
+  const patch = [{ op: 'replace', path: '/agents/defaults/workspace', value: '/data' }];
+
+  it('validates, writes the config and records the edit', async () => {
+    const { sandbox, execMock, writeFileMock, configHistory } = mockContainer(CONFIG);
+
+    const result = await editContainerConfig(sandbox, env, patch, { user: 'ada@example.com' });
+
+    expect(result.applied).toBe('hot-reload');
+    expect(result.changes).toEqual([
+      { path: '/agents/defaults/workspace', before: '/root/clawd', after: '/data' },
+    ]);
+    expect(execMock).toHaveBeenCalledWith(
+      expect.stringMatching(/^OPENCLAW_CONFIG_PATH=\/tmp\/\.config-edit\.json .* config validate$/),
+      expect.anything(),
+    );
+    const written = writeFileMock.mock.calls.find(
+      ([path]) => path === '/root/.openclaw/openclaw.json',
+    );
+    expect(JSON.parse(written?.[1] as string).agents.defaults.workspace).toBe('/data');
+    expect(configHistory()).toEqual([
+      expect.objectContaining({ user: 'ada@example.com', applied: 'hot-reload' }),
+    ]);
+  });
+
+  it('previews a dry run without writing anything', async () => {
+    const { sandbox, writeFileMock, configHistory } = mockContainer(CONFIG);
+
+    const result = await editContainerConfig(sandbox, env, patch, { dryRun: true });
+
+    expect(result.changes).toHaveLength(1);
+    expect(writeFileMock).not.toHaveBeenCalledWith(
+      '/root/.openclaw/openclaw.json',
+      expect.anything(),
+    );
+    expect(configHistory()).toEqual([]);
+  });
+
+  it('refuses an edit made against an older revision', async () => {
+    const { sandbox, writeFileMock } = mockContainer(CONFIG);
+
+    await expect(
+      editContainerConfig(sandbox, env, patch, { revision: 'deadbeefdeadbeef' }),
+    ).rejects.toMatchObject({ reason: 'conflict' });
+    expect(writeFileMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses changes to settings the Worker manages', async () => {
+    const { sandbox } = mockContainer(CONFIG);
+
+    await expect(
+      editContainerConfig(sandbox, env, [{ op: 'replace', path: '/gateway/port', value: 9000 }]),
+    ).rejects.toMatchObject({
+      reason: 'invalid',
+      details: ['/gateway/port is managed; change the Worker secret that sets it instead'],
+    });
+  });
+
+  it('reports new schema errors and what OpenClaw refused', async () => {
+    const { sandbox } = mockContainer(CONFIG);
+    await expect(
+      editContainerConfig(sandbox, env, [
+        { op: 'add', path: '/channels/telegram/dmPolicy', value: 'everyone' },
+      ]),
+    ).rejects.toMatchObject({ details: [expect.stringContaining('channels.telegram.dmPolicy')] });
+
+    const refused = mockContainer(
+      CONFIG,
+      createMockExecResult('', { exitCode: 1, stderr: 'agents.defaults: Unrecognized key' }),
+    );
+    await expect(editContainerConfig(refused.sandbox, env, patch)).rejects.toMatchObject({
+      message: 'OpenClaw refused the edited config',
+      details: ['agents.defaults: Unrecognized key'],
+    });
+  });
+
+  it('keeps the most recent edits', async () => {
+    const old: ConfigEdit = { at: '', user: null, changes: [], applied: 'hot-reload' };
+    const mock = mockContainer(CONFIG);
+    await mock.sandbox.setConfigHistory(Array.from({ length: CONFIG_HISTORY_LIMIT }, () => old));
+
+    await editContainerConfig(mock.sandbox, env, patch);
+
+    expect(mock.configHistory()).toHaveLength(CONFIG_HISTORY_LIMIT);
+    expect(mock.configHistory()[CONFIG_HISTORY_LIMIT - 1].changes).toHaveLength(1);
+  });
+});
@@ -0,0 +1,427 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { REDACTED, SECRET_KEY_PATTERN } from '../utils/logging';
+import { CONFIG_SCHEMA, validateConfigValue } from './config-schema';
+import { buildConfigOverlay } from './config-overlay';
+import { openClawBin } from './upgrade';
+
+/**
+ * Editing openclaw.json from the admin API.
+ *
+ * Edits are JSON Patch operations (RFC 6902) against the config in the
+ * container. Each one is checked against the schema and by `openclaw config
+ * validate` before it is written, and recorded with the Access user who
+ * made it. Secret values never leave the Worker: the config and the changes
+ * are shown with them masked.
+ */
+
+const CONFIG_FILE = '/root/.openclaw/openclaw.json';
+
+/** Where an edited config waits to be validated */
+const CANDIDATE_FILE = '/tmp/.config-edit.json';
+
+const VALIDATE_TIMEOUT_MS = 60_000;
+
+/** Edits kept in the history */
+export const CONFIG_HISTORY_LIMIT = 50;
+
+/** Settings OpenClaw only reads at startup; changing them restarts the gateway */
+const RESTART_PATHS = /^\/(gateway|plugins)(\/|$)/;
+
+/** Maximum length of validation output kept in an error */
+const OUTPUT_MAX_LENGTH = 2000;
+
+export type ConfigPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string };
+
+export type ConfigEditErrorReason = 'invalid' | 'conflict' | 'not-found';
+
+export class ConfigEditError extends Error {
+  constructor(
+    message: string,
+    readonly reason: ConfigEditErrorReason,
+    /** What validation found */
+    readonly details: string[] = [],
+  ) {
+    super(message);
+    this.name = 'ConfigEditError';
+  }
+}
+
+export interface ConfigChange {
+  /** JSON pointer of the value */
+  path: string;
+  /** Left out when the value was added; secrets masked */
+  before?: unknown;
+  /** Left out when the value was removed; secrets masked */
+  after?: unknown;
+}
+
+/** How the gateway picks up an edit */
+export type ConfigApplyMode = 'hot-reload' | 'restart';
+
+export interface ConfigEdit {
+  /** ISO timestamp */
+  at: string;
+  /** Email of the Access user who made the edit, null in dev mode without Access */
+  user: string | null;
+  changes: ConfigChange[];
+  applied: ConfigApplyMode;
+}
+
+export interface ConfigEditStore {
+  getConfigHistory(): Promise<ConfigEdit[]>;
+  setConfigHistory(history: ConfigEdit[]): Promise<void>;
+}
+
+export interface ContainerConfig {
+  config: Record<string, unknown>;
+  /** Identifies this version of the file, to refuse edits made against an older one */
+  revision: string;
+}
+
+export interface ConfigEditResult {
+  changes: ConfigChange[];
+  applied: ConfigApplyMode;
+  /** The config after the edit, secrets masked */
+  config: unknown;
+  /** Revision of the file after the edit */
+  revision: string;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === 'object' && value !== null;
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/** Segments that would reach an object's prototype instead of a setting */
+const FORBIDDEN_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+function parsePointer(pointer: string): string[] {
+  if (!pointer.startsWith('/')) {
+    throw new ConfigEditError(`${pointer || '""'} is not a JSON pointer to a setting`, 'invalid');
+  }
+  const segments = pointer
+    .slice(1)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  const forbidden = segments.find((segment) => FORBIDDEN_SEGMENTS.has(segment));
+  if (forbidden !== undefined) {
+    throw new ConfigEditError(`${pointer}: ${forbidden} is not a setting`, 'invalid');
+  }
+  return segments;
+}
+
+/** The value a pointer segment names in a container, following own properties only */
+function childOf(value: unknown, segment: string): unknown {
+  return isContainer(value) && Object.hasOwn(value, segment)
+    ? (value as Record<string, unknown>)[segment]
+    : undefined;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => isEqual(item, b[i]))
+    );
+  }
+  if (!isObject(a) || !isObject(b)) return false;
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.hasOwn(b, key) && isEqual(a[key], b[key]))
+  );
+}
+
+function hasMaskedValue(value: unknown): boolean {
+  if (value === REDACTED) return true;
+  if (!isContainer(value)) return false;
+  return Object.values(value).some(hasMaskedValue);
+}
+
+/**
+ * A copy of a config with every secret value masked
+ */
+export function maskSecrets(value: unknown, key = ''): unknown {
+  if (typeof value === 'string') {
+    return value && SECRET_KEY_PATTERN.test(key) ? REDACTED : value;
+  }
+  if (Array.isArray(value)) return value.map((item) => maskSecrets(item, key));
+  if (!isObject(value)) return value;
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, maskSecrets(v, k)]));
+}
+
+function parseOperation(operation: unknown): ConfigPatchOperation {
+  if (!isObject(operation) || typeof operation.path !== 'string') {
+    throw new ConfigEditError('Each operation needs an op and a path', 'invalid');
+  }
+  const { op, path } = operation;
+  if (op === 'remove') return { op, path };
+  if (op !== 'add' && op !== 'replace' && op !== 'test') {
+    throw new ConfigEditError(
+      `Unsupported operation ${JSON.stringify(op)} (use add, remove, replace or test)`,
+      'invalid',
+    );
+  }
+  if (!('value' in operation)) throw new ConfigEditError(`${op} ${path} needs a value`, 'invalid');
+  if (op !== 'test' && hasMaskedValue(operation.value)) {
+    throw new ConfigEditError(
+      `${path} holds a masked secret; send the secret itself, or leave the setting out of the patch`,
+      'invalid',
+    );
+  }
+  return { op, path, value: operation.value };
+}
+
+/**
+ * Apply JSON Patch operations to a copy of a config. Operations apply in
+ * order, and none do if one fails.
+ *
+ * @throws ConfigEditError if the patch is malformed or an operation can't apply
+ */
+export function applyConfigPatch(
+  config: Record<string, unknown>,
+  patch: unknown,
+): Record<string, unknown> {
+  if (!Array.isArray(patch) || patch.length === 0) {
+    throw new ConfigEditError('The patch must be a non-empty list of operations', 'invalid');
+  }
+  const result = structuredClone(config);
+
+  for (const operation of patch.map(parseOperation)) {
+    const segments = parsePointer(operation.path);
+    const key = segments[segments.length - 1];
+    let parent: unknown = result;
+    for (const segment of segments.slice(0, -1)) {
+      parent = childOf(parent, segment);
+    }
+    if (!isContainer(parent)) {
+      throw new ConfigEditError(`${operation.op} ${operation.path}: no such setting`, 'invalid');
+    }
+
+    if (Array.isArray(parent)) {
+      const index = key === '-' ? parent.length : Number(key);
+      const bound = operation.op === 'add' ? parent.length : parent.length - 1;
+      if (!/^(0|[1-9]\d*)$/.test(key) && !(key === '-' && operation.op === 'add')) {
+        throw new ConfigEditError(`${operation.path}: ${key} is not a list index`, 'invalid');
+      }
+      if (index > bound) {
+        throw new ConfigEditError(`${operation.path}: index ${key} is out of range`, 'invalid');
+      }
+      if (operation.op === 'test') {
+        if (!isEqual(parent[index], operation.value)) {
+          throw new ConfigEditError(`test ${operation.path} failed`, 'conflict');
+        }
+      } else if (operation.op === 'remove') {
+        parent.splice(index, 1);
+      } else {
+        parent.splice(index, operation.op === 'add' ? 0 : 1, structuredClone(operation.value));
+      }
+      continue;
+    }
+
+    const exists = Object.hasOwn(parent, key);
+    if (!exists && operation.op !== 'add') {
+      throw new ConfigEditError(`${operation.op} ${operation.path}: no such setting`, 'invalid');
+    }
+    if (operation.op === 'test') {
+      if (!isEqual(parent[key], operation.value)) {
+        throw new ConfigEditError(`test ${operation.path} failed`, 'conflict');
+      }
+    } else if (operation.op === 'remove') {
+      delete parent[key];
+    } else {
+      parent[key] = structuredClone(operation.value);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The values that differ between two configs, with secrets masked. Lists
+ * are compared whole.
+ */
+export function diffConfig(before: unknown, after: unknown, pointer = ''): ConfigChange[] {
+  if (isEqual(before, after)) return [];
+  if (!isObject(before) || !isObject(after)) {
+    const key = pointer.slice(pointer.lastIndexOf('/') + 1);
+    return [{ path: pointer, before: maskSecrets(before, key), after: maskSecrets(after, key) }];
+  }
+
+  const changes: ConfigChange[] = [];
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const path = `${pointer}/${escapePointer(key)}`;
+    if (!Object.hasOwn(after, key)) changes.push({ path, before: maskSecrets(before[key], key) });
+    else if (!Object.hasOwn(before, key))
+      changes.push({ path, after: maskSecrets(after[key], key) });
+    else changes.push(...diffConfig(before[key], after[key], path));
+  }
+  return changes;
+}
+
+/**
+ * Whether the gateway must restart to pick up changes; it reloads the others
+ * itself when openclaw.json changes
+ */
+export function needsRestart(changes: ConfigChange[]): boolean {
+  return changes.some((change) => RESTART_PATHS.test(change.path));
+}
+
+/**
+ * JSON pointers of the settings the Worker sets from its environment on
+ * every start, which edits can't change
+ */
+export function managedConfigPaths(env: MoltbotEnv): string[] {
+  // Merged settings only manage the keys they set
+  const leaves = (path: string[], value: unknown, merge?: boolean): string[][] =>
+    merge && isObject(value)
+      ? Object.entries(value).flatMap(([key, item]) => leaves([...path, key], item, merge))
+      : [path];
+  return buildConfigOverlay(env)
+    .set.flatMap((entry) => leaves(entry.path, entry.value, entry.merge))
+    .map((path) => `/${path.map((key) => escapePointer(key)).join('/')}`);
+}
+
+function valueAt(config: unknown, pointer: string): unknown {
+  let value = config;
+  for (const segment of parsePointer(pointer)) {
+    value = childOf(value, segment);
+  }
+  return value;
+}
+
+async function revisionOf(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest).slice(0, 8))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Read openclaw.json from the container
+ *
+ * @throws ConfigEditError if there is no config yet, or it is not a JSON object
+ */
+export async function readContainerConfig(sandbox: Sandbox): Promise<ContainerConfig> {
+  const result = await sandbox.exec(`cat ${CONFIG_FILE} 2>/dev/null`);
+  if (!result.success || !result.stdout) {
+    throw new ConfigEditError('There is no openclaw.json yet', 'not-found');
+  }
+  let config: unknown;
+  try {
+    config = JSON.parse(result.stdout);
+  } catch {
+    throw new ConfigEditError('openclaw.json is not valid JSON', 'invalid');
+  }
+  if (!isObject(config)) throw new ConfigEditError('openclaw.json is not an object', 'invalid');
+  return { config, revision: await revisionOf(result.stdout) };
+}
+
+/**
+ * Check an edited config: the schema, the settings the Worker manages, and
+ * then OpenClaw itself
+ *
+ * @throws ConfigEditError with what each check found
+ */
+async function checkEditedConfig(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  text: string,
+): Promise<void> {
+  const managed = managedConfigPaths(env).filter(
+    (path) => !isEqual(valueAt(before, path), valueAt(after, path)),
+  );
+  if (managed.length > 0) {
+    throw new ConfigEditError(
+      'The patch changes settings the Worker sets from its environment on every start',
+      'invalid',
+      managed.map((path) => `${path} is managed; change the Worker secret that sets it instead`),
+    );
+  }
+
+  // Problems the config already had are left for the schema check at startup
+  const existing = new Set(validateConfigValue(before, CONFIG_SCHEMA, ''));
+  const errors = validateConfigValue(after, CONFIG_SCHEMA, '').filter(
+    (error) => !existing.has(error),
+  );
+  if (errors.length > 0) {
+    throw new ConfigEditError('The edited config does not match the schema', 'invalid', errors);
+  }
+
+  await sandbox.writeFile(CANDIDATE_FILE, text);
+  const result = await sandbox.exec(
+    `OPENCLAW_CONFIG_PATH=${CANDIDATE_FILE} ${openClawBin(env.OPENCLAW_VERSION)} config validate`,
+    { timeout: VALIDATE_TIMEOUT_MS },
+  );
+  if (!result.success) {
+    const output = (result.stderr || result.stdout || '').trim().slice(-OUTPUT_MAX_LENGTH);
+    throw new ConfigEditError('OpenClaw refused the edited config', 'invalid', [output]);
+  }
+}
+
+/**
+ * Apply a JSON Patch to openclaw.json in the container, after checking it
+ *
+ * @param options.revision - Revision the patch was made against; the edit is
+ *   refused if the file changed since
+ * @param options.dryRun - Check the patch and report the changes without writing them
+ * @param options.user - Access user recorded in the history
+ * @throws ConfigEditError if the patch doesn't apply or the result is not valid
+ */
+export async function editContainerConfig(
+  sandbox: Sandbox & ConfigEditStore,
+  env: MoltbotEnv,
+  patch: unknown,
+  options: { revision?: string; dryRun?: boolean; user?: string | null } = {},
+): Promise<ConfigEditResult> {
+  const current = await readContainerConfig(sandbox);
+  if (options.revision && options.revision !== current.revision) {
+    throw new ConfigEditError(
+      'openclaw.json changed since it was read; reload it and edit again',
+      'conflict',
+    );
+  }
+
+  const edited = applyConfigPatch(current.config, patch);
+  const changes = diffConfig(current.config, edited);
+  const applied: ConfigApplyMode = needsRestart(changes) ? 'restart' : 'hot-reload';
+  const text = JSON.stringify(edited, null, 2);
+  if (changes.length > 0) {
+    await checkEditedConfig(sandbox, env, current.config, edited, text);
+  }
+  const result = { changes, applied, config: maskSecrets(edited) };
+  if (options.dryRun || changes.length === 0) {
+    return { ...result, revision: current.revision };
+  }
+
+  await sandbox.writeFile(CONFIG_FILE, text);
+  await sandbox.exec(`rm -f ${CANDIDATE_FILE}`);
+  const edit: ConfigEdit = {
+    at: new Date().toISOString(),
+    user: options.user ?? null,
+    changes,
+    applied,
+  };
+  const history = [...(await sandbox.getConfigHistory()), edit].slice(-CONFIG_HISTORY_LIMIT);
+  await sandbox.setConfigHistory(history);
+  console.log(
+    `[Gateway] Config edited by ${edit.user ?? 'unknown user'}: ${changes.map((change) => change.path).join(', ')}`,
+  );
+
+  return { ...result, revision: await revisionOf(text) };
+}
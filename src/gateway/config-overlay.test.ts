@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  CONFIG_OVERLAY_PATH,
+  buildConfigOverlay,
+  installConfigOverlay,
+  validateConfigOverlay,
+  type ConfigOverlay,
+} from './config-overlay';
+import { CONFIG_SCHEMA } from './config-schema';
+import { applyConfigOverlay } from '../../config-overlay.mjs';
+import { createMockEnv, createMockSandbox, suppressConsole } from '../test-utils';
+
+const SCRIPT = fileURLToPath(new URL('../../config-overlay.mjs', import.meta.url));
+
+function settings(overlay: ConfigOverlay): Record<string, unknown> {
+  return Object.fromEntries(overlay.set.map((entry) => [entry.path.join('.'), entry.value]));
+}
+
+describe('buildConfigOverlay', () => {
+  it('always sets the gateway port, mode and trusted proxies', () => {
+    const overlay = buildConfigOverlay(createMockEnv());
+
+    expect(settings(overlay)).toEqual({
+      'gateway.port': 18789,
+      'gateway.mode': 'local',
+      'gateway.trustedProxies': ['10.1.0.0'],
+    });
+    expect(overlay.warnings).toEqual([]);
+  });
+
+  it('sets the gateway token and insecure control UI auth in dev mode', () => {
+    const overlay = buildConfigOverlay(
+      createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'gw-token', DEV_MODE: 'true' }),
+    );
+
+    expect(settings(overlay)).toMatchObject({
+      'gateway.auth.token': 'gw-token',
+      'gateway.controlUi.allowInsecureAuth': true,
+    });
+  });
+
+  it('adds an AI Gateway provider for the model override', () => {
+    const overlay = buildConfigOverlay(
+      createMockEnv({
+        CF_AI_GATEWAY_MODEL: 'workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+        CF_AI_GATEWAY_ACCOUNT_ID: 'acct',
+        CF_AI_GATEWAY_GATEWAY_ID: 'gw',
+        CLOUDFLARE_AI_GATEWAY_API_KEY: 'cf-key',
+      }),
+    );
+
+    expect(settings(overlay)).toMatchObject({
+      'models.providers.cf-ai-gw-workers-ai': {
+        baseUrl: 'https://gateway.ai.cloudflare.com/v1/acct/gw/workers-ai/v1',
+        apiKey: 'cf-key',
+        api: 'openai-completions',
+        models: [
+          {
+            id: '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+            name: '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+            contextWindow: 131072,
+            maxTokens: 8192,
+          },
+        ],
+      },
+      'agents.defaults.model': {
+        primary: 'cf-ai-gw-workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+      },
+    });
+  });
+
+  it('uses the Anthropic API for Anthropic models', () => {
+    const overlay = buildConfigOverlay(
+      createMockEnv({
+        CF_AI_GATEWAY_MODEL: 'anthropic/claude-sonnet-4-5',
+        CF_AI_GATEWAY_ACCOUNT_ID: 'acct',
+        CF_AI_GATEWAY_GATEWAY_ID: 'gw',
+        CLOUDFLARE_AI_GATEWAY_API_KEY: 'cf-key',
+      }),
+    );
+
+    expect(settings(overlay)['models.providers.cf-ai-gw-anthropic']).toMatchObject({
+      baseUrl: 'https://gateway.ai.cloudflare.com/v1/acct/gw/anthropic',
+      api: 'anthropic-messages',
+    });
+  });
+
+  it('warns about a model override it cannot reach', () => {
+    const overlay = buildConfigOverlay(createMockEnv({ CF_AI_GATEWAY_MODEL: 'openai/gpt-4o' }));
+
+    expect(settings(overlay)).not.toHaveProperty(['agents.defaults.model']);
+    expect(overlay.warnings).toEqual([
+      'CF_AI_GATEWAY_MODEL set but missing required config (account ID, gateway ID, or API key)',
+    ]);
+  });
+
+  it('merges channel settings into the channel objects', () => {
+    const overlay = buildConfigOverlay(
+      createMockEnv({
+        TELEGRAM_BOT_TOKEN: 'tg',
+        TELEGRAM_DM_ALLOW_FROM: '123, 456',
+        DISCORD_BOT_TOKEN: 'dc',
+        DISCORD_DM_POLICY: 'open',
+        SLACK_BOT_TOKEN: 'xoxb',
+        SLACK_APP_TOKEN: 'xapp',
+      }),
+    );
+
+    expect(settings(overlay)).toMatchObject({
+      'channels.telegram': {
+        botToken: 'tg',
+        enabled: true,
+        dmPolicy: 'pairing',
+        allowFrom: ['123', '456'],
+      },
+      'channels.discord': { token: 'dc', enabled: true, dm: { policy: 'open', allowFrom: ['*'] } },
+      'channels.slack': { botToken: 'xoxb', appToken: 'xapp', enabled: true },
+    });
+    expect(overlay.set.filter((entry) => entry.path[0] === 'channels')).toEqual(
+      Array.from({ length: 3 }, () => expect.objectContaining({ merge: true })),
+    );
+  });
+
+  it('leaves out a channel with an unknown DM policy', () => {
+    const overlay = buildConfigOverlay(
+      createMockEnv({ TELEGRAM_BOT_TOKEN: 'tg', TELEGRAM_DM_POLICY: 'everyone' }),
+    );
+
+    expect(settings(overlay)).not.toHaveProperty(['channels.telegram']);
+    expect(overlay.warnings[0]).toContain('channels.telegram.dmPolicy must be one of');
+  });
+
+  it('needs both Slack tokens', () => {
+    const overlay = buildConfigOverlay(createMockEnv({ SLACK_BOT_TOKEN: 'xoxb' }));
+
+    expect(settings(overlay)).not.toHaveProperty(['channels.slack']);
+  });
+});
+
+describe('validateConfigOverlay', () => {
+  it('refuses paths the schema does not know', () => {
+    const result = validateConfigOverlay([
+      { path: ['gateway', 'port'], value: 18789 },
+      { path: ['plugins', 'entries'], value: {} },
+    ]);
+
+    expect(result.set).toHaveLength(1);
+    expect(result.warnings).toEqual([
+      'Left out plugins.entries: plugins.entries is not a known setting',
+    ]);
+  });
+});
+
+describe('applyConfigOverlay', () => {
+  it('sets values at their paths and keeps everything else', () => {
+    const config = {
+      gateway: { port: 3000, auth: { mode: 'token' } },
+      channels: { telegram: { botToken: 'old', streamMode: 'partial' } },
+      agents: 'not an object',
+    };
+
+    applyConfigOverlay(config, {
+      set: [
+        { path: ['gateway', 'port'], value: 18789 },
+        { path: ['gateway', 'auth', 'token'], value: 'gw-token' },
+        { path: ['channels', 'telegram'], value: { botToken: 'new' } },
+        { path: ['agents', 'defaults', 'model'], value: { primary: 'a/b' } },
+      ],
+    });
+
+    expect(config).toEqual({
+      gateway: { port: 18789, auth: { mode: 'token', token: 'gw-token' } },
+      channels: { telegram: { botToken: 'new' } },
+      agents: { defaults: { model: { primary: 'a/b' } } },
+    });
+  });
+
+  it('merges settings into objects, keeping the keys they do not set', () => {
+    const config = {
+      channels: {
+        discord: {
+          token: 'old',
+          groupPolicy: 'allowlist',
+          dm: { policy: 'pairing', allowFrom: ['1'] },
+        },
+      },
+    };
+
+    applyConfigOverlay(config, {
+      set: [
+        {
+          path: ['channels', 'discord'],
+          value: { token: 'new', enabled: true, dm: { policy: 'allowlist' } },
+          merge: true,
+        },
+      ],
+    });
+
+    expect(config.channels.discord).toEqual({
+      token: 'new',
+      enabled: true,
+      groupPolicy: 'allowlist',
+      dm: { policy: 'allowlist', allowFrom: ['1'] },
+    });
+  });
+});
+
+describe('installConfigOverlay', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('writes the valid settings for the startup script', async () => {
+    const { sandbox, writeFileMock } = createMockSandbox();
+
+    await installConfigOverlay(sandbox, createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'gw-token' }));
+
+    const [path, content] = writeFileMock.mock.calls[0];
+    expect(path).toBe(CONFIG_OVERLAY_PATH);
+    expect(JSON.parse(content).set).toContainEqual({
+      path: ['gateway', 'auth', 'token'],
+      value: 'gw-token',
+    });
+    expect(JSON.parse(content).schema).toEqual(CONFIG_SCHEMA);
+  });
+
+  it('is applied by the startup script, which prunes with the schema', async () => {
+    const { sandbox, writeFileMock } = createMockSandbox();
+    await installConfigOverlay(sandbox, createMockEnv({ TELEGRAM_BOT_TOKEN: 'tg' }));
+    const dir = mkdtempSync(join(tmpdir(), 'config-overlay-'));
+    const [config, overlay, check] = ['openclaw.json', 'overlay.json', 'check.json'].map((name) =>
+      join(dir, name),
+    );
+    writeFileSync(overlay, writeFileMock.mock.calls[0][1]);
+    writeFileSync(
+      config,
+      JSON.stringify({
+        channels: {
+          telegram: { dm: { policy: 'open' }, groupPolicy: 'open' },
+          discord: { token: 'dc', intents: ['guilds'] },
+        },
+      }),
+    );
+
+    execFileSync('node', [SCRIPT, config, overlay, check]);
+
+    expect(JSON.parse(readFileSync(config, 'utf8'))).toMatchObject({
+      gateway: { port: 18789, mode: 'local' },
+      channels: { telegram: { botToken: 'tg', dmPolicy: 'pairing', groupPolicy: 'open' } },
+    });
+    expect(JSON.parse(readFileSync(check, 'utf8')).pruned).toEqual([
+      'channels.telegram.dm',
+      'channels.discord.intents',
+    ]);
+  });
+});
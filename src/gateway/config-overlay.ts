@@ -0,0 +1,152 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { MOLTBOT_PORT } from '../config';
+import { buildEnvVars } from './env';
+import { CONFIG_SCHEMA, configRuleAt, validateConfigValue } from './config-schema';
+import { modelSettings } from './models';
+
+/**
+ * The settings the Worker keeps in openclaw.json: gateway auth and
+ * networking, the models and their providers, and the chat channels.
+ *
+ * They are computed from the Worker environment as an overlay, a list of
+ * values to set at paths in the config, and written to the container before
+ * the gateway starts. start-openclaw.sh applies the overlay after
+ * `openclaw onboard`, with config-overlay.mjs, so changing them only takes
+ * a Worker deploy.
+ */
+
+/** Where start-openclaw.sh reads the overlay from */
+export const CONFIG_OVERLAY_PATH = '/tmp/.config-overlay.json';
+
+/** Sandbox networking proxies requests to the gateway from this address */
+const TRUSTED_PROXIES = ['10.1.0.0'];
+
+export interface ConfigSet {
+  /** Keys from the root of openclaw.json; the value replaces whatever is there */
+  path: string[];
+  value: unknown;
+  /**
+   * Set only the keys the value has, merging nested objects the same way, so
+   * the keys the user set in the object there are kept
+   */
+  merge?: boolean;
+}
+
+export interface ConfigOverlay {
+  set: ConfigSet[];
+  /** Settings left out because the environment doesn't describe them fully or validly */
+  warnings: string[];
+}
+
+/**
+ * Check each setting of an overlay against the schema
+ *
+ * @returns The valid settings, and a warning for each one left out
+ */
+export function validateConfigOverlay(set: ConfigSet[]): ConfigOverlay {
+  const valid: ConfigSet[] = [];
+  const warnings: string[] = [];
+  for (const entry of set) {
+    const path = entry.path.join('.');
+    const rule = configRuleAt(entry.path);
+    const errors = rule
+      ? validateConfigValue(entry.value, rule, path)
+      : [`${path} is not a known setting`];
+    if (errors.length > 0) warnings.push(`Left out ${path}: ${errors.join('; ')}`);
+    else valid.push(entry);
+  }
+  return { set: valid, warnings };
+}
+
+/**
+ * Channel settings are merged into the channel object, so allowlists, group
+ * settings and the like that the user set are kept. Stale keys from old R2
+ * backups are pruned by the startup script instead.
+ */
+function channels(vars: Record<string, string>): ConfigSet[] {
+  const set: ConfigSet[] = [];
+
+  if (vars.TELEGRAM_BOT_TOKEN) {
+    const dmPolicy = vars.TELEGRAM_DM_POLICY || 'pairing';
+    const telegram: Record<string, unknown> = {
+      botToken: vars.TELEGRAM_BOT_TOKEN,
+      enabled: true,
+      dmPolicy,
+    };
+    if (vars.TELEGRAM_DM_ALLOW_FROM) {
+      telegram.allowFrom = vars.TELEGRAM_DM_ALLOW_FROM.split(',').map((id) => id.trim());
+    } else if (dmPolicy === 'open') {
+      telegram.allowFrom = ['*'];
+    }
+    set.push({ path: ['channels', 'telegram'], value: telegram, merge: true });
+  }
+
+  // Discord uses a nested dm object: dm.policy, dm.allowFrom (per DiscordDmConfig)
+  if (vars.DISCORD_BOT_TOKEN) {
+    const policy = vars.DISCORD_DM_POLICY || 'pairing';
+    set.push({
+      path: ['channels', 'discord'],
+      value: {
+        token: vars.DISCORD_BOT_TOKEN,
+        enabled: true,
+        dm: policy === 'open' ? { policy, allowFrom: ['*'] } : { policy },
+      },
+      merge: true,
+    });
+  }
+
+  if (vars.SLACK_BOT_TOKEN && vars.SLACK_APP_TOKEN) {
+    set.push({
+      path: ['channels', 'slack'],
+      value: { botToken: vars.SLACK_BOT_TOKEN, appToken: vars.SLACK_APP_TOKEN, enabled: true },
+      merge: true,
+    });
+  }
+
+  return set;
+}
+
+/**
+ * Compute the overlay for an environment. The legacy AI Gateway base URL
+ * needs no setting: the Anthropic SDK picks up ANTHROPIC_BASE_URL itself.
+ */
+export function buildConfigOverlay(env: MoltbotEnv): ConfigOverlay {
+  const vars = buildEnvVars(env);
+  const warnings: string[] = [];
+
+  const set: ConfigSet[] = [
+    { path: ['gateway', 'port'], value: MOLTBOT_PORT },
+    { path: ['gateway', 'mode'], value: 'local' },
+    { path: ['gateway', 'trustedProxies'], value: TRUSTED_PROXIES },
+  ];
+  if (vars.OPENCLAW_GATEWAY_TOKEN) {
+    set.push({ path: ['gateway', 'auth', 'token'], value: vars.OPENCLAW_GATEWAY_TOKEN });
+  }
+  if (vars.OPENCLAW_DEV_MODE === 'true') {
+    set.push({ path: ['gateway', 'controlUi', 'allowInsecureAuth'], value: true });
+  }
+  set.push(...modelSettings(vars, warnings), ...channels(vars));
+
+  const validated = validateConfigOverlay(set);
+  return { set: validated.set, warnings: [...warnings, ...validated.warnings] };
+}
+
+/**
+ * Hand the overlay for this environment to start-openclaw.sh, with the
+ * schema it prunes unknown keys by once the overlay is applied
+ */
+export async function installConfigOverlay(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+): Promise<ConfigOverlay> {
+  const overlay = buildConfigOverlay(env);
+  for (const warning of overlay.warnings) {
+    console.warn(`[Gateway] Config overlay: ${warning}`);
+  }
+  await sandbox.writeFile(
+    CONFIG_OVERLAY_PATH,
+    JSON.stringify({ set: overlay.set, schema: CONFIG_SCHEMA }),
+  );
+  return overlay;
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CONFIG_CHECK_PATH,
+  CONFIG_SCHEMA,
+  checkContainerConfig,
+  validateConfigValue,
+} from './config-schema';
+import { pruneConfig } from '../../config-overlay.mjs';
+import { createMockExecResult, createMockSandbox } from '../test-utils';
+
+describe('validateConfigValue', () => {
+  it('reports each problem with its path', () => {
+    const errors = validateConfigValue(
+      {
+        gateway: { port: 70000, auth: { token: '' } },
+        agents: { defaults: { model: { primary: 'a/b', extra: true } } },
+        channels: { slack: { botToken: 'xoxb' } },
+      },
+      CONFIG_SCHEMA,
+      '',
+    );
+
+    expect(errors).toEqual([
+      'gateway.port must be between 1 and 65535',
+      'gateway.auth.token must be a non-empty string',
+      'agents.defaults.model.extra is not a known setting',
+      'channels.slack.appToken is required',
+    ]);
+  });
+
+  it('accepts keys it does not list in objects onboarding also writes', () => {
+    const config = {
+      wizard: { lastRunAt: '2026-01-27T12:00:00Z' },
+      gateway: { port: 18789, bind: 'lan', auth: { mode: 'token' } },
+      agents: { defaults: { workspace: '/root/clawd' } },
+      channels: {
+        whatsapp: { enabled: true },
+        telegram: { botToken: 'tg', groupPolicy: 'allowlist', groups: { '*': {} } },
+      },
+    };
+
+    expect(validateConfigValue(config, CONFIG_SCHEMA, '')).toEqual([]);
+  });
+});
+
+describe('pruneConfig', () => {
+  it('removes unknown keys from the objects the project writes', () => {
+    const config = {
+      gateway: { port: 18789, bind: 'lan', auth: { mode: 'token', legacyToken: 'x' } },
+      agents: { defaults: { workspace: '/root/clawd', model: { primary: 'a/b', provider: 'a' } } },
+      channels: {
+        telegram: { botToken: 'tg', dm: { policy: 'open' }, groupPolicy: 'allowlist' },
+        discord: {
+          token: 'dc',
+          botName: 'old',
+          dm: { policy: 'pairing', groupEnabled: true, legacy: true },
+        },
+        slack: { botToken: 'xoxb', appToken: 'xapp', socketMode: true },
+        whatsapp: { enabled: true },
+      },
+    };
+
+    const pruned = pruneConfig(config, CONFIG_SCHEMA);
+
+    expect(pruned).toEqual([
+      'gateway.auth.legacyToken',
+      'agents.defaults.model.provider',
+      'channels.telegram.dm',
+      'channels.discord.botName',
+      'channels.discord.dm.legacy',
+      'channels.slack.socketMode',
+    ]);
+    expect(config).toEqual({
+      gateway: { port: 18789, bind: 'lan', auth: { mode: 'token' } },
+      agents: { defaults: { workspace: '/root/clawd', model: { primary: 'a/b' } } },
+      channels: {
+        telegram: { botToken: 'tg', groupPolicy: 'allowlist' },
+        discord: { token: 'dc', dm: { policy: 'pairing', groupEnabled: true } },
+        slack: { botToken: 'xoxb', appToken: 'xapp' },
+        whatsapp: { enabled: true },
+      },
+    });
+  });
+
+  it('prunes an unknown channel key even when the channel is not configured', () => {
+    const config = { channels: { discord: { token: 'dc', enabled: false, intents: ['x'] } } };
+
+    expect(pruneConfig(config, CONFIG_SCHEMA)).toEqual(['channels.discord.intents']);
+    expect(config.channels.discord).toEqual({ token: 'dc', enabled: false });
+  });
+
+  it('leaves values of the wrong type in place', () => {
+    const config = { channels: { telegram: { botToken: 'tg', dmPolicy: 'everyone' } } };
+
+    expect(pruneConfig(config, CONFIG_SCHEMA)).toEqual([]);
+    expect(config.channels.telegram.dmPolicy).toBe('everyone');
+  });
+});
+
+describe('checkContainerConfig', () => {
+  it('checks openclaw.json and reads the startup report', async () => {
+    const { sandbox, execMock } = createMockSandbox();
+    execMock.mockImplementation(async (command: string) => {
+      if (command.includes('openclaw.json')) {
+        return createMockExecResult(JSON.stringify({ gateway: { port: 'x' } }));
+      }
+      if (command.includes(CONFIG_CHECK_PATH)) {
+        return createMockExecResult(
+          JSON.stringify({
+            checkedAt: '2026-01-27T12:00:00.000Z',
+            pruned: ['channels.telegram.dm'],
+          }),
+        );
+      }
+      return createMockExecResult();
+    });
+
+    expect(await checkContainerConfig(sandbox)).toEqual({
+      exists: true,
+      errors: ['gateway.port must be a number'],
+      pruned: ['channels.telegram.dm'],
+      checkedAt: '2026-01-27T12:00:00.000Z',
+    });
+  });
+
+  it('reports a config that is not JSON', async () => {
+    const { sandbox, execMock } = createMockSandbox();
+    execMock.mockImplementation(async (command: string) =>
+      createMockExecResult(command.includes('openclaw.json') ? '{ nope' : ''),
+    );
+
+    const check = await checkContainerConfig(sandbox);
+
+    expect(check.errors).toEqual(['openclaw.json is not valid JSON']);
+    expect(check.checkedAt).toBeNull();
+  });
+});
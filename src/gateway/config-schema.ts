@@ -0,0 +1,291 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+
+/**
+ * A schema for the part of openclaw.json this project writes. OpenClaw
+ * validates its config strictly and refuses to start on a key it doesn't
+ * know, which for stale keys from old R2 backups shows only as a gateway
+ * that never opens its port (issue #47). start-openclaw.sh therefore prunes
+ * unknown keys with this schema before it launches the gateway, and reports
+ * what it pruned in CONFIG_CHECK_PATH.
+ */
+
+/** Where start-openclaw.sh reports the keys it pruned */
+export const CONFIG_CHECK_PATH = '/tmp/.config-check.json';
+
+const CONFIG_FILE = '/root/.openclaw/openclaw.json';
+
+const DM_POLICIES = ['pairing', 'allowlist', 'open', 'disabled'] as const;
+
+export type ConfigRule =
+  | { type: 'string'; enum?: readonly string[]; url?: boolean }
+  | { type: 'number'; integer?: boolean; min?: number; max?: number }
+  | { type: 'boolean' }
+  /** A setting the project doesn't write; OpenClaw checks the value itself */
+  | { type: 'any' }
+  | { type: 'array'; items: ConfigRule }
+  | {
+      type: 'object';
+      fields: Record<string, ConfigRule>;
+      required?: readonly string[];
+      /** Keys it doesn't list belong to OpenClaw and are kept; otherwise they are pruned */
+      open?: boolean;
+    }
+  /** An object with arbitrary keys, each holding the same kind of value */
+  | { type: 'record'; values: ConfigRule };
+
+const str = (rule: Omit<Extract<ConfigRule, { type: 'string' }>, 'type'> = {}): ConfigRule => ({
+  type: 'string',
+  ...rule,
+});
+const strings: ConfigRule = { type: 'array', items: str() };
+const bool: ConfigRule = { type: 'boolean' };
+const any: ConfigRule = { type: 'any' };
+const int = (min: number, max: number): ConfigRule => ({ type: 'number', integer: true, min, max });
+/** An object the project writes: keys it doesn't list are pruned */
+const obj = (fields: Record<string, ConfigRule>, required: readonly string[] = []): ConfigRule => ({
+  type: 'object',
+  fields,
+  required,
+});
+/** An object the project sets some keys of, alongside what onboarding and the user write */
+const open = (
+  fields: Record<string, ConfigRule>,
+  required: readonly string[] = [],
+): ConfigRule => ({
+  type: 'object',
+  fields,
+  required,
+  open: true,
+});
+
+/** Settings users add to a channel, next to the ones the project writes */
+const CHANNEL_SETTINGS = {
+  groupPolicy: any,
+  groupAllowFrom: any,
+  historyLimit: any,
+  textChunkLimit: any,
+  mediaMaxMb: any,
+  replyToMode: any,
+  actions: any,
+};
+
+/**
+ * The objects the project writes are strict, so a stale key restored from an
+ * old R2 backup is pruned there: the channels, `gateway.auth`,
+ * `gateway.controlUi` and `agents.defaults.model`. The settings users add
+ * to a channel are listed, with values left to OpenClaw to check. The
+ * objects around them are open, keeping what onboarding and the user write.
+ */
+export const CONFIG_SCHEMA: ConfigRule = open({
+  gateway: open({
+    port: int(1, 65535),
+    mode: str({ enum: ['local', 'remote'] }),
+    trustedProxies: strings,
+    auth: obj({ mode: any, token: str(), password: any }),
+    controlUi: obj({ enabled: any, basePath: any, allowInsecureAuth: bool }),
+  }),
+  models: open({
+    providers: {
+      type: 'record',
+      values: open(
+        {
+          baseUrl: str({ url: true }),
+          apiKey: str(),
+          api: str({ enum: ['anthropic-messages', 'openai-completions'] }),
+          models: {
+            type: 'array',
+            items: open(
+              {
+                id: str(),
+                name: str(),
+                contextWindow: int(1, 10_000_000),
+                maxTokens: int(1, 10_000_000),
+              },
+              ['id', 'name'],
+            ),
+          },
+        },
+        ['baseUrl', 'api', 'models'],
+      ),
+    },
+  }),
+  agents: open({
+    defaults: open({
+      model: obj({ primary: str(), fallbacks: strings }, ['primary']),
+    }),
+  }),
+  // Channels the project doesn't configure are OpenClaw's
+  channels: open({
+    // Telegram takes the DM settings at the top level; a nested dm object is
+    // the Discord shape, left in Telegram configs by old R2 backups
+    telegram: obj(
+      {
+        botToken: str(),
+        enabled: bool,
+        dmPolicy: str({ enum: DM_POLICIES }),
+        allowFrom: strings,
+        groups: any,
+        streamMode: any,
+        webhookUrl: any,
+        webhookSecret: any,
+        ...CHANNEL_SETTINGS,
+      },
+      ['botToken'],
+    ),
+    discord: obj(
+      {
+        token: str(),
+        enabled: bool,
+        dm: obj({
+          enabled: any,
+          policy: str({ enum: DM_POLICIES }),
+          allowFrom: strings,
+          groupEnabled: any,
+          groupChannels: any,
+        }),
+        guilds: any,
+        ...CHANNEL_SETTINGS,
+      },
+      ['token'],
+    ),
+    slack: obj(
+      {
+        botToken: str(),
+        appToken: str(),
+        enabled: bool,
+        dm: any,
+        channels: any,
+        slashCommand: any,
+        ...CHANNEL_SETTINGS,
+      },
+      ['botToken', 'appToken'],
+    ),
+  }),
+});
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** The rule an object lists for a key, never one inherited from Object.prototype */
+function fieldRule(rule: Extract<ConfigRule, { type: 'object' }>, key: string): ConfigRule | null {
+  return Object.hasOwn(rule.fields, key) ? rule.fields[key] : null;
+}
+
+/** Whether an object rule removes a key it finds */
+function isPruned(rule: Extract<ConfigRule, { type: 'object' }>, key: string): boolean {
+  return !fieldRule(rule, key) && !rule.open;
+}
+
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Check a value against a rule
+ *
+ * @param path - Where the value is, prefixed to each problem; empty for the root
+ * @returns A description of each problem, with the path it was found at
+ */
+export function validateConfigValue(value: unknown, rule: ConfigRule, path: string): string[] {
+  const at = path || 'The config';
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string' || value === '') return [`${at} must be a non-empty string`];
+      if (rule.enum && !rule.enum.includes(value)) {
+        return [`${at} must be one of ${rule.enum.join(', ')}, not "${value}"`];
+      }
+      if (rule.url && !/^https?:\/\/[^/]+/.test(value)) return [`${at} must be an http(s) URL`];
+      return [];
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${at} must be a number`];
+      if (rule.integer && !Number.isInteger(value)) return [`${at} must be an integer`];
+      if (
+        (rule.min !== undefined && value < rule.min) ||
+        (rule.max !== undefined && value > rule.max)
+      ) {
+        return [`${at} must be between ${rule.min} and ${rule.max}`];
+      }
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${at} must be true or false`];
+    case 'any':
+      return [];
+    case 'array':
+      if (!Array.isArray(value)) return [`${at} must be a list`];
+      return value.flatMap((item, i) => validateConfigValue(item, rule.items, `${path}[${i}]`));
+    case 'record':
+      if (!isObject(value)) return [`${at} must be an object`];
+      return Object.entries(value).flatMap(([key, item]) =>
+        validateConfigValue(item, rule.values, childPath(path, key)),
+      );
+    case 'object': {
+      if (!isObject(value)) return [`${at} must be an object`];
+      const errors = (rule.required ?? [])
+        .filter((key) => !Object.hasOwn(value, key))
+        .map((key) => `${childPath(path, key)} is required`);
+      for (const [key, item] of Object.entries(value)) {
+        const field = fieldRule(rule, key);
+        if (field) errors.push(...validateConfigValue(item, field, childPath(path, key)));
+        else if (isPruned(rule, key)) errors.push(`${childPath(path, key)} is not a known setting`);
+      }
+      return errors;
+    }
+  }
+}
+
+/**
+ * The rule for the value at a path, or null if the schema doesn't list it
+ */
+export function configRuleAt(path: string[]): ConfigRule | null {
+  let rule: ConfigRule = CONFIG_SCHEMA;
+  for (const key of path) {
+    const field = rule.type === 'object' ? fieldRule(rule, key) : null;
+    if (field) rule = field;
+    else if (rule.type === 'record') rule = rule.values;
+    else return null;
+  }
+  return rule;
+}
+
+export interface ConfigCheck {
+  /** Whether openclaw.json exists */
+  exists: boolean;
+  /** Where openclaw.json doesn't match the schema */
+  errors: string[];
+  /** Keys start-openclaw.sh pruned the last time it started the gateway */
+  pruned: string[];
+  /** When start-openclaw.sh last checked the config, null if it hasn't */
+  checkedAt: string | null;
+}
+
+/**
+ * Check the container's openclaw.json against the schema, and read what the
+ * startup script pruned from it
+ */
+export async function checkContainerConfig(sandbox: Sandbox): Promise<ConfigCheck> {
+  const check: ConfigCheck = { exists: false, errors: [], pruned: [], checkedAt: null };
+
+  const file = await sandbox.exec(`cat ${CONFIG_FILE} 2>/dev/null`);
+  if (file.success && file.stdout) {
+    check.exists = true;
+    try {
+      check.errors = validateConfigValue(JSON.parse(file.stdout), CONFIG_SCHEMA, '');
+    } catch {
+      check.errors = ['openclaw.json is not valid JSON'];
+    }
+  }
+
+  const report = await sandbox.exec(`cat ${CONFIG_CHECK_PATH} 2>/dev/null`);
+  if (report.success && report.stdout) {
+    try {
+      const parsed = JSON.parse(report.stdout) as { pruned?: unknown; checkedAt?: unknown };
+      if (Array.isArray(parsed.pruned)) check.pruned = parsed.pruned.map(String);
+      if (typeof parsed.checkedAt === 'string') check.checkedAt = parsed.checkedAt;
+    } catch {
+      // A report cut short is as good as none
+    }
+  }
+
+  return check;
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { getConflictPolicy, isConflict, parseGenerationMarker } from './conflict';
+import { createMockEnv } from '../test-utils';
+
+describe('getConflictPolicy', () => {
+  it('defaults to refuse', () => {
+    expect(getConflictPolicy(createMockEnv())).toBe('refuse');
+    expect(getConflictPolicy(createMockEnv({ R2_CONFLICT_POLICY: 'merge' }))).toBe('refuse');
+  });
+
+  it('accepts the other policies in any case', () => {
+    expect(getConflictPolicy(createMockEnv({ R2_CONFLICT_POLICY: ' Keep-Both ' }))).toBe(
+      'keep-both',
+    );
+    expect(getConflictPolicy(createMockEnv({ R2_CONFLICT_POLICY: 'last-writer-wins' }))).toBe(
+      'last-writer-wins',
+    );
+  });
+});
+
+describe('parseGenerationMarker', () => {
+  it('parses what the startup script writes', () => {
+    expect(
+      parseGenerationMarker(
+        '{"generation":7,"writer":"ab12cd34","updatedAt":"2026-01-27T12:00:00+00:00"}\n',
+      ),
+    ).toEqual({ generation: 7, writer: 'ab12cd34', updatedAt: '2026-01-27T12:00:00+00:00' });
+  });
+
+  it('rejects anything without a generation', () => {
+    expect(parseGenerationMarker(null)).toBeNull();
+    expect(parseGenerationMarker('not json')).toBeNull();
+    expect(parseGenerationMarker('{"writer":"ab12cd34"}')).toBeNull();
+  });
+});
+
+function marker(generation: number) {
+  return { generation, writer: 'ab12cd34', updatedAt: '' };
+}
+
+describe('isConflict', () => {
+  it('is a conflict when R2 moved on since the last sync', () => {
+    expect(isConflict(marker(2), marker(3))).toBe(true);
+  });
+
+  it('is a conflict when this container never saw the data in R2', () => {
+    expect(isConflict(null, marker(1))).toBe(true);
+  });
+
+  it('is not a conflict when the generations match or R2 has no marker', () => {
+    expect(isConflict(marker(3), marker(3))).toBe(false);
+    expect(isConflict(null, null)).toBe(false);
+    expect(isConflict(marker(3), null)).toBe(false);
+  });
+});
@@ -0,0 +1,180 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { getR2SyncMode } from './r2';
+import { createSnapshot } from './snapshots';
+
+/**
+ * Conflict detection between containers sharing R2 data.
+ *
+ * Every sync that writes to R2 bumps a generation marker,
+ * `sync-generation.json`, and the container remembers the marker it last
+ * synced or restored. When R2's generation differs, another container (e.g. a
+ * preview deployment sharing the bucket) has written since, and
+ * R2_CONFLICT_POLICY decides what happens:
+ * - refuse: the sync fails and R2 is left alone (the default)
+ * - keep-both: R2's data is kept as a "conflict" snapshot, then overwritten
+ * - last-writer-wins: R2 is overwritten
+ *
+ * start-openclaw.sh reads and writes the same files and applies the same
+ * policy, to its sync loop and to the restore when it runs again in a
+ * container that already synced.
+ */
+
+export type ConflictPolicy = 'refuse' | 'keep-both' | 'last-writer-wins';
+
+const CONFLICT_POLICIES = new Set<string>(['refuse', 'keep-both', 'last-writer-wins']);
+
+/** Object name of the marker, under the sandbox's R2 prefix */
+export const GENERATION_NAME = 'sync-generation.json';
+
+/** Marker this container last synced or restored */
+const LOCAL_GENERATION_PATH = '/tmp/.sync-generation.json';
+
+/** Random ID of this container, recorded as the writer of its syncs */
+const WRITER_ID_PATH = '/tmp/.sync-writer';
+
+/** The last conflict a sync ran into */
+const LAST_CONFLICT_PATH = '/tmp/.sync-conflict.json';
+
+export interface GenerationMarker {
+  /** Incremented by every sync that writes to R2 */
+  generation: number;
+  /** ID of the container that wrote it */
+  writer: string;
+  /** ISO timestamp of the write */
+  updatedAt: string;
+}
+
+export interface ConflictRecord {
+  /** ISO timestamp of when the sync found the conflict */
+  detectedAt: string;
+  /** The marker written by the other container */
+  remote: GenerationMarker;
+  action: 'refused' | 'kept-both' | 'overwritten';
+  /** Snapshot of R2's data, for keep-both */
+  snapshot?: string;
+}
+
+export interface SyncConflictStatus {
+  policy: ConflictPolicy;
+  /** Whether R2 was written by another container since this one last synced */
+  detected: boolean;
+  /** Marker this container last synced or restored */
+  local: GenerationMarker | null;
+  remote: GenerationMarker | null;
+  lastConflict: ConflictRecord | null;
+}
+
+/**
+ * Conflict policy from R2_CONFLICT_POLICY; anything unrecognized refuses
+ */
+export function getConflictPolicy(env: MoltbotEnv): ConflictPolicy {
+  const policy = env.R2_CONFLICT_POLICY?.trim().toLowerCase();
+  return policy && CONFLICT_POLICIES.has(policy) ? (policy as ConflictPolicy) : 'refuse';
+}
+
+/**
+ * @returns The marker, or null if the text is missing or not a marker
+ */
+export function parseGenerationMarker(text: string | null): GenerationMarker | null {
+  if (!text) return null;
+  try {
+    const marker = JSON.parse(text) as Partial<GenerationMarker>;
+    if (typeof marker.generation !== 'number' || !Number.isInteger(marker.generation)) return null;
+    return {
+      generation: marker.generation,
+      writer: typeof marker.writer === 'string' ? marker.writer : 'unknown',
+      updatedAt: typeof marker.updatedAt === 'string' ? marker.updatedAt : '',
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether R2 was written by another container since this one last synced.
+ * A container that never synced or restored conflicts with any marker: it
+ * has never seen that data.
+ */
+export function isConflict(local: GenerationMarker | null, remote: GenerationMarker | null) {
+  return remote !== null && remote.generation !== local?.generation;
+}
+
+export async function readLocalGeneration(sandbox: Sandbox): Promise<GenerationMarker | null> {
+  const result = await sandbox.exec(`cat ${LOCAL_GENERATION_PATH} 2>/dev/null || true`);
+  return parseGenerationMarker(result.stdout || null);
+}
+
+export async function writeLocalGeneration(
+  sandbox: Sandbox,
+  marker: GenerationMarker,
+): Promise<void> {
+  await sandbox.writeFile(LOCAL_GENERATION_PATH, JSON.stringify(marker));
+}
+
+/**
+ * The marker for a sync that is about to overwrite R2
+ */
+export async function nextGeneration(
+  sandbox: Sandbox,
+  remote: GenerationMarker | null,
+): Promise<GenerationMarker> {
+  const result = await sandbox.exec(
+    `test -s ${WRITER_ID_PATH} || head -c 4 /dev/urandom | od -An -tx1 | tr -d ' \\n' > ${WRITER_ID_PATH}; cat ${WRITER_ID_PATH}`,
+  );
+  return {
+    generation: (remote?.generation ?? 0) + 1,
+    writer: result.stdout?.trim() || 'unknown',
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export async function readLastConflict(sandbox: Sandbox): Promise<ConflictRecord | null> {
+  const result = await sandbox.exec(`cat ${LAST_CONFLICT_PATH} 2>/dev/null || true`);
+  try {
+    return result.stdout ? (JSON.parse(result.stdout) as ConflictRecord) : null;
+  } catch {
+    return null;
+  }
+}
+
+function describeConflict(remote: GenerationMarker): string {
+  return `R2 was written by container ${remote.writer} at ${remote.updatedAt || 'an unknown time'} (generation ${remote.generation}) since this container last synced`;
+}
+
+/**
+ * Apply the conflict policy before a sync overwrites R2
+ *
+ * @returns Why the sync must not go ahead, or null to continue
+ */
+export async function resolveConflict(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  remote: GenerationMarker,
+): Promise<string | null> {
+  const policy = getConflictPolicy(env);
+  const record: ConflictRecord = {
+    detectedAt: new Date().toISOString(),
+    remote,
+    action: 'overwritten',
+  };
+  let refusal: string | null = null;
+
+  if (policy === 'refuse') {
+    refusal = `${describeConflict(remote)}. Set R2_CONFLICT_POLICY to keep-both or last-writer-wins to overwrite it.`;
+  } else if (policy === 'keep-both') {
+    if (getR2SyncMode(env) === 'binding') {
+      // Snapshots are server-side rclone copies
+      refusal = `${describeConflict(remote)}. keep-both needs R2 API credentials to snapshot R2's data first.`;
+    } else {
+      const snapshot = await createSnapshot(sandbox, env, 'conflict');
+      record.action = 'kept-both';
+      record.snapshot = snapshot.id;
+    }
+  }
+  if (refusal) record.action = 'refused';
+
+  console.warn(`[Gateway] Sync conflict: ${describeConflict(remote)}; ${record.action}`);
+  await sandbox.writeFile(LAST_CONFLICT_PATH, JSON.stringify(record));
+  return refusal;
+}
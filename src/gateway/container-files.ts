@@ -0,0 +1,59 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import { createTar, gunzip, gzip, parseTar, type TarEntry } from './tar';
+
+const TAR_TIMEOUT_MS = 120_000;
+
+/** Where the container packs files for the Worker to read, and unpacks what it writes */
+const ARCHIVE_PATH = '/tmp/.container-files.tgz';
+const FILE_LIST_PATH = '/tmp/.container-files.list';
+
+/**
+ * Pack files of a container directory into a tarball and read it back
+ *
+ * @param paths - Paths relative to the directory; files that have gone
+ *   missing since they were listed are left out
+ */
+export async function readContainerFiles(
+  sandbox: Sandbox,
+  dir: string,
+  paths: string[],
+): Promise<TarEntry[]> {
+  await sandbox.writeFile(FILE_LIST_PATH, paths.map((path) => `./${path}`).join('\n'));
+  const pack = await sandbox.exec(
+    `tar -czf ${ARCHIVE_PATH} --ignore-failed-read -C ${dir} -T ${FILE_LIST_PATH}`,
+    {
+      timeout: TAR_TIMEOUT_MS,
+    },
+  );
+  if (!pack.success) {
+    throw new Error(
+      `tar failed: ${pack.stderr?.trim().slice(-500) || `exit code ${pack.exitCode}`}`,
+    );
+  }
+  const file = await sandbox.readFile(ARCHIVE_PATH, { encoding: 'base64' });
+  await sandbox.exec(`rm -f ${ARCHIVE_PATH} ${FILE_LIST_PATH}`);
+  const archive = Buffer.from(file.content, file.encoding === 'utf-8' ? 'utf-8' : 'base64');
+  return parseTar(await gunzip(new Uint8Array(archive)));
+}
+
+/**
+ * Unpack files into a container directory, creating it if needed. Files
+ * already there and not in `files` are left alone.
+ */
+export async function writeContainerFiles(
+  sandbox: Sandbox,
+  dir: string,
+  files: TarEntry[],
+): Promise<void> {
+  const archive = await gzip(createTar(files));
+  await sandbox.writeFile(ARCHIVE_PATH, Buffer.from(archive).toString('base64'), {
+    encoding: 'base64',
+  });
+  const unpack = await sandbox.exec(
+    `mkdir -p ${dir} && tar -xzf ${ARCHIVE_PATH} -C ${dir} && rm -f ${ARCHIVE_PATH}`,
+    { timeout: TAR_TIMEOUT_MS },
+  );
+  if (!unpack.success) {
+    throw new Error(unpack.stderr?.trim().slice(-500) || `tar exited with ${unpack.exitCode}`);
+  }
+}
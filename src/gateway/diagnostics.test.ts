@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { diagnoseStartupFailure, extractExcerpt } from './diagnostics';
+import { createMockEnv } from '../test-utils';
+
+const env = createMockEnv({ ANTHROPIC_API_KEY: 'sk-ant-test' });
+
+describe('diagnoseStartupFailure', () => {
+  it('recognizes an invalid provider key and names the secret to fix', () => {
+    const diagnosis = diagnoseStartupFailure(
+      { stderr: 'Error: 401 {"type":"authentication_error","message":"invalid x-api-key"}' },
+      env,
+    );
+    expect(diagnosis.kind).toBe('invalid_provider_key');
+    expect(diagnosis.remediation).toContain('wrangler secret put ANTHROPIC_API_KEY');
+  });
+
+  it('names the AI Gateway key when that is the configured provider', () => {
+    const diagnosis = diagnoseStartupFailure(
+      { stderr: 'invalid api key' },
+      createMockEnv({
+        CLOUDFLARE_AI_GATEWAY_API_KEY: 'key',
+        CF_AI_GATEWAY_ACCOUNT_ID: 'account',
+        CF_AI_GATEWAY_GATEWAY_ID: 'gateway',
+      }),
+    );
+    expect(diagnosis.remediation).toContain('CLOUDFLARE_AI_GATEWAY_API_KEY');
+  });
+
+  it('recognizes config schema validation failures', () => {
+    const diagnosis = diagnoseStartupFailure(
+      {
+        stderr:
+          'Invalid config at /root/.openclaw/openclaw.json:\n  agents: Unrecognized key "legacy"',
+      },
+      env,
+    );
+    expect(diagnosis.kind).toBe('config_invalid');
+  });
+
+  it('blames the config when it fails the schema check and the output explains nothing', () => {
+    const configCheck = {
+      exists: true,
+      errors: ['gateway.port must be a number'],
+      pruned: [],
+      checkedAt: null,
+    };
+
+    const diagnosis = diagnoseStartupFailure(
+      { stderr: 'exit status 1', phase: 'starting', configCheck },
+      env,
+    );
+
+    expect(diagnosis.kind).toBe('config_invalid');
+    expect(diagnosis.configCheck).toBe(configCheck);
+  });
+
+  it('scrubs secrets from the excerpt', () => {
+    const diagnosis = diagnoseStartupFailure(
+      { stderr: 'Error: 401 invalid x-api-key sk-ant-test' },
+      createMockEnv({ ANTHROPIC_API_KEY: 'sk-ant-test' }),
+    );
+    expect(diagnosis.excerpt).toBe('Error: 401 invalid x-api-key [REDACTED]');
+  });
+
+  it('recognizes R2 restore failures reported by the startup script', () => {
+    const diagnosis = diagnoseStartupFailure(
+      {
+        stdout:
+          '[lifecycle] restoring\nERROR : AccessDenied: Access Denied\nWARNING: config restore failed with exit code 1',
+        phase: 'starting',
+      },
+      env,
+    );
+    expect(diagnosis.kind).toBe('r2_restore_failed');
+  });
+
+  it('recognizes port conflicts', () => {
+    const diagnosis = diagnoseStartupFailure(
+      { stderr: 'Error: listen EADDRINUSE: address already in use 0.0.0.0:18789' },
+      env,
+    );
+    expect(diagnosis.kind).toBe('port_conflict');
+  });
+
+  it('recognizes out of memory from the output or the exit code', () => {
+    expect(
+      diagnoseStartupFailure(
+        {
+          stderr:
+            'FATAL ERROR: Reached heap limit Allocation failed - JavaScript heap out of memory',
+        },
+        env,
+      ).kind,
+    ).toBe('out_of_memory');
+    expect(diagnoseStartupFailure({ stderr: 'Killed', exitCode: 137 }, env)).toMatchObject({
+      kind: 'out_of_memory',
+      exitCode: 137,
+    });
+  });
+
+  it('attributes unexplained failures to the phase they happened in', () => {
+    expect(diagnoseStartupFailure({ stderr: 'exit status 1', phase: 'onboarding' }, env).kind).toBe(
+      'onboarding_failed',
+    );
+    expect(diagnoseStartupFailure({ stderr: 'exit status 1', phase: 'restoring' }, env).kind).toBe(
+      'r2_restore_failed',
+    );
+  });
+
+  it('reports a missing provider when nothing else explains the failure', () => {
+    expect(diagnoseStartupFailure({ stderr: 'exit status 1' }, createMockEnv()).kind).toBe(
+      'missing_provider_key',
+    );
+  });
+
+  it('falls back to unknown with the tail of the output', () => {
+    const diagnosis = diagnoseStartupFailure(
+      { stderr: 'something unexpected', phase: 'starting' },
+      env,
+    );
+    expect(diagnosis.kind).toBe('unknown');
+    expect(diagnosis.excerpt).toBe('something unexpected');
+    expect(diagnosis.remediation).toContain('wrangler tail');
+  });
+
+  it('classifies errors thrown before the startup script ran', () => {
+    const diagnosis = diagnoseStartupFailure({ message: 'Container ran out of memory (OOM)' }, env);
+    expect(diagnosis.kind).toBe('out_of_memory');
+    expect(diagnosis.excerpt).toBe('Container ran out of memory (OOM)');
+  });
+});
+
+describe('extractExcerpt', () => {
+  const output = Array.from({ length: 30 }, (_, i) => `line ${i}`).join('\n');
+
+  it('keeps the lines around the first match', () => {
+    expect(extractExcerpt(output, /line 10$/)).toBe(
+      [
+        'line 7',
+        'line 8',
+        'line 9',
+        'line 10',
+        'line 11',
+        'line 12',
+        'line 13',
+        'line 14',
+        'line 15',
+      ].join('\n'),
+    );
+  });
+
+  it('keeps the tail when nothing matches', () => {
+    const excerpt = extractExcerpt(output, /missing/);
+    expect(excerpt?.split('\n')).toHaveLength(15);
+    expect(excerpt?.endsWith('line 29')).toBe(true);
+  });
+
+  it('caps the excerpt length', () => {
+    expect(extractExcerpt('x'.repeat(5000))).toHaveLength(2000);
+  });
+});
@@ -0,0 +1,229 @@
+import type { MoltbotEnv } from '../types';
+import type { GatewayPhase } from './lifecycle';
+import type { ConfigCheck } from './config-schema';
+import { redactText, secretValues } from '../utils/logging';
+
+/** Lines of context kept before and after the line that identified a failure */
+const EXCERPT_LINES_BEFORE = 3;
+const EXCERPT_LINES_AFTER = 5;
+
+/** Lines of output kept when no line identified the failure */
+const EXCERPT_TAIL_LINES = 15;
+
+/** Maximum length of a log excerpt */
+const EXCERPT_MAX_LENGTH = 2000;
+
+/** Exit code of a process killed with SIGKILL, which is what the OOM killer sends */
+const EXIT_CODE_SIGKILL = 137;
+
+export type StartupFailureKind =
+  | 'invalid_provider_key'
+  | 'missing_provider_key'
+  | 'config_invalid'
+  | 'r2_restore_failed'
+  | 'port_conflict'
+  | 'out_of_memory'
+  | 'onboarding_failed'
+  | 'unknown';
+
+export interface StartupDiagnosis {
+  kind: StartupFailureKind;
+  /** One-line description of what went wrong */
+  summary: string;
+  /** What to do about it */
+  remediation: string;
+  /** Startup phase the failure happened in */
+  phase?: GatewayPhase;
+  exitCode?: number;
+  /** Log lines around the line that identified the failure */
+  excerpt?: string;
+  /** openclaw.json checked against the schema after the failure */
+  configCheck?: ConfigCheck;
+}
+
+/**
+ * What is known about a failed gateway startup
+ */
+export interface StartupFailure {
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number | null;
+  /** Startup phase the gateway was in when it failed */
+  phase?: GatewayPhase;
+  /** Error thrown while starting, when there is no process output */
+  message?: string;
+  /** openclaw.json checked against the schema after the failure */
+  configCheck?: ConfigCheck;
+}
+
+interface DiagnosisRule {
+  kind: StartupFailureKind;
+  pattern: RegExp;
+  summary: string;
+  remediation: (env: MoltbotEnv) => string;
+}
+
+/**
+ * Name of the secret onboarding uses for the AI provider, in the order
+ * start-openclaw.sh picks them
+ */
+function providerKeyName(env: MoltbotEnv): string | null {
+  if (
+    env.CLOUDFLARE_AI_GATEWAY_API_KEY &&
+    env.CF_AI_GATEWAY_ACCOUNT_ID &&
+    env.CF_AI_GATEWAY_GATEWAY_ID
+  ) {
+    return 'CLOUDFLARE_AI_GATEWAY_API_KEY';
+  }
+  if (env.ANTHROPIC_API_KEY) return 'ANTHROPIC_API_KEY';
+  if (env.OPENAI_API_KEY) return 'OPENAI_API_KEY';
+  if (env.AI_GATEWAY_API_KEY && env.AI_GATEWAY_BASE_URL) return 'AI_GATEWAY_API_KEY';
+  return null;
+}
+
+// Checked in order; the first rule matching the output wins
+const RULES: readonly DiagnosisRule[] = [
+  {
+    kind: 'out_of_memory',
+    pattern: /heap out of memory|Allocation failed|Cannot allocate memory|ENOMEM|\bOOM\b/i,
+    summary: 'The gateway ran out of memory',
+    remediation: () =>
+      'Restart the gateway. If it keeps happening, use a larger instance_type in wrangler.jsonc or reduce the number of skills and plugins loaded at startup.',
+  },
+  {
+    kind: 'port_conflict',
+    pattern: /EADDRINUSE|address already in use/i,
+    summary: 'The gateway port is already in use',
+    remediation: () =>
+      'Another gateway process is still holding port 18789. Restart the gateway with force from the admin UI to kill it.',
+  },
+  {
+    kind: 'invalid_provider_key',
+    pattern:
+      /invalid x-api-key|invalid[ _]api[ _]key|incorrect api key|authentication_error|401 Unauthorized|api key (?:is )?(?:invalid|not valid)/i,
+    summary: 'The AI provider rejected the API key',
+    remediation: (env) => {
+      const name = providerKeyName(env) ?? 'ANTHROPIC_API_KEY';
+      return `Check that ${name} is a valid, active key for its provider and set it again with: wrangler secret put ${name}`;
+    },
+  },
+  {
+    kind: 'config_invalid',
+    pattern:
+      /invalid config|config (?:is )?invalid|config validation|schema validation|unrecognized keys?|unknown (?:config )?key|openclaw\.json.*(?:invalid|error|unexpected token)/i,
+    summary: 'openclaw.json failed schema validation',
+    remediation: () =>
+      'The config restored from R2 or patched at startup is not valid for this OpenClaw version. Unknown keys in the settings this project writes are pruned at startup; fix or remove the other offending keys in openclaw.json (GET /debug/container-config lists what the schema check found), or upgrade OpenClaw to a version that accepts them.',
+  },
+  {
+    kind: 'r2_restore_failed',
+    pattern:
+      /WARNING: (?:legacy )?(?:config|workspace|skills) restore failed|AccessDenied|NoSuchBucket|SignatureDoesNotMatch|InvalidAccessKeyId/,
+    summary: 'Restoring data from R2 failed',
+    remediation: () =>
+      'Check R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY and CF_ACCOUNT_ID, and that the API token has read and write access to the bucket.',
+  },
+  {
+    kind: 'onboarding_failed',
+    pattern: /onboard(?:ing)? failed|error: .*onboard/i,
+    summary: 'openclaw onboard failed',
+    remediation: () =>
+      'Onboarding creates openclaw.json from the AI provider secrets. Check that the provider secrets are set, then restart the gateway.',
+  },
+];
+
+const MISSING_PROVIDER_KEY: Omit<DiagnosisRule, 'pattern'> = {
+  kind: 'missing_provider_key',
+  summary: 'No AI provider is configured',
+  remediation: () =>
+    'Set ANTHROPIC_API_KEY, OPENAI_API_KEY, or CLOUDFLARE_AI_GATEWAY_API_KEY with CF_AI_GATEWAY_ACCOUNT_ID and CF_AI_GATEWAY_GATEWAY_ID using: wrangler secret put <VARIABLE_NAME>',
+};
+
+// Failures nothing in the output explains are attributed to the phase they happened in
+const PHASE_FALLBACKS: Partial<Record<GatewayPhase, StartupFailureKind>> = {
+  restoring: 'r2_restore_failed',
+  onboarding: 'onboarding_failed',
+};
+
+const UNKNOWN: Omit<DiagnosisRule, 'pattern'> = {
+  kind: 'unknown',
+  summary: 'The gateway failed to start',
+  remediation: () =>
+    'Check the log excerpt and the worker logs (wrangler tail), then restart the gateway from the admin UI.',
+};
+
+function truncate(text: string): string | undefined {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.slice(-EXCERPT_MAX_LENGTH) : undefined;
+}
+
+/**
+ * Pick the log lines around the first line matching a pattern
+ */
+export function extractExcerpt(output: string, pattern?: RegExp): string | undefined {
+  const lines = output.split('\n');
+  const index = pattern ? lines.findIndex((line) => pattern.test(line)) : -1;
+  if (index === -1) {
+    return truncate(lines.slice(-EXCERPT_TAIL_LINES).join('\n'));
+  }
+  return truncate(
+    lines
+      .slice(Math.max(0, index - EXCERPT_LINES_BEFORE), index + EXCERPT_LINES_AFTER + 1)
+      .join('\n'),
+  );
+}
+
+/**
+ * Classify a failed gateway startup and suggest how to fix it
+ *
+ * Matches the startup output against known failures, then falls back to the
+ * exit code, the schema check of openclaw.json, the provider configuration
+ * and the phase the startup failed in.
+ *
+ * @param failure - Output, exit code and phase of the failed startup
+ * @param env - Environment the gateway was started with
+ * @returns The diagnosis, with the log lines that identified the failure
+ */
+export function diagnoseStartupFailure(failure: StartupFailure, env: MoltbotEnv): StartupDiagnosis {
+  // stderr first: it usually names the cause, while stdout has the script's progress.
+  // The excerpt is stored with the gateway state and shown on the error page, so
+  // secrets the output echoes are scrubbed first
+  const output = redactText(
+    [failure.stderr, failure.stdout, failure.message]
+      .filter((text): text is string => !!text?.trim())
+      .join('\n'),
+    secretValues(env),
+  );
+  const exitCode = failure.exitCode ?? undefined;
+
+  const diagnose = (rule: Omit<DiagnosisRule, 'pattern'>, pattern?: RegExp): StartupDiagnosis => ({
+    kind: rule.kind,
+    summary: rule.summary,
+    remediation: rule.remediation(env),
+    phase: failure.phase,
+    exitCode,
+    excerpt: output ? extractExcerpt(output, pattern) : undefined,
+    configCheck: failure.configCheck,
+  });
+
+  const matched = RULES.find((rule) => rule.pattern.test(output));
+  if (matched) {
+    return diagnose(matched, matched.pattern);
+  }
+
+  const byKind = (kind: StartupFailureKind) => RULES.find((rule) => rule.kind === kind) ?? UNKNOWN;
+  if (exitCode === EXIT_CODE_SIGKILL) {
+    return diagnose(byKind('out_of_memory'));
+  }
+  if (failure.configCheck?.errors.length) {
+    return diagnose(byKind('config_invalid'));
+  }
+  if (!providerKeyName(env)) {
+    return diagnose(MISSING_PROVIDER_KEY);
+  }
+  const fallback = failure.phase && PHASE_FALLBACKS[failure.phase];
+  if (fallback) {
+    return diagnose(byKind(fallback));
+  }
+  return diagnose(UNKNOWN);
+}
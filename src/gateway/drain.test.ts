@@ -0,0 +1,272 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  RESTARTING_EVENT,
+  drainProxySessions,
+  releaseProxySession,
+  waitForDrain,
+  watchProxySession,
+  type DrainState,
+  type ProxySessions,
+} from './drain';
+import type { GatewayState } from './lifecycle';
+import { createMockSandbox, suppressConsole } from '../test-utils';
+
+function createFakeSocket() {
+  return { send: vi.fn(), close: vi.fn() } as unknown as WebSocket & {
+    send: ReturnType<typeof vi.fn>;
+    close: ReturnType<typeof vi.fn>;
+  };
+}
+
+function readyState(draining?: GatewayState['draining']): GatewayState {
+  return {
+    phase: 'ready',
+    processId: 'gateway-1',
+    updatedAt: new Date().toISOString(),
+    draining,
+  };
+}
+
+function drainingFor(ms: number): DrainState {
+  return {
+    startedAt: new Date().toISOString(),
+    deadline: new Date(Date.now() + ms).toISOString(),
+  };
+}
+
+/**
+ * Sandbox whose waitForDrain resolves when the test starts a drain
+ */
+function drainableSandbox() {
+  const mock = createMockSandbox({ gatewayState: readyState() });
+  let notify: ((drain: DrainState | null) => void) | undefined;
+  vi.mocked(mock.sandbox.waitForDrain).mockImplementation(
+    () => new Promise((resolve) => (notify = resolve)),
+  );
+  return { ...mock, startDrain: (ms: number) => notify?.(drainingFor(ms)) };
+}
+
+const req = (id: string) => JSON.stringify({ type: 'req', id, method: 'chat.send', params: {} });
+const res = (id: string) => JSON.stringify({ type: 'res', id, ok: true, payload: {} });
+
+describe('watchProxySession', () => {
+  beforeEach(() => {
+    suppressConsole();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('relays frames normally while the gateway is not draining', async () => {
+    const { sandbox } = drainableSandbox();
+    const client = createFakeSocket();
+    const container = createFakeSocket();
+
+    const session = watchProxySession(sandbox, client, container);
+    expect(session.fromClient(req('1'))).toBe(true);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(client.send).not.toHaveBeenCalled();
+    expect(client.close).not.toHaveBeenCalled();
+    session.close();
+  });
+
+  it('does not poll the sandbox while waiting for a drain', async () => {
+    const { sandbox } = drainableSandbox();
+    const session = watchProxySession(sandbox, createFakeSocket(), createFakeSocket());
+
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(sandbox.waitForDrain).toHaveBeenCalledTimes(1);
+    expect(sandbox.getGatewayState).not.toHaveBeenCalled();
+    session.close();
+  });
+
+  it('sends a restarting frame and closes once pending requests are answered', async () => {
+    const { sandbox, startDrain } = drainableSandbox();
+    const client = createFakeSocket();
+    const container = createFakeSocket();
+    const session = watchProxySession(sandbox, client, container);
+
+    session.fromClient(req('1'));
+    startDrain(30_000);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const frame = JSON.parse(client.send.mock.calls[0][0]);
+    expect(frame.type).toBe('event');
+    expect(frame.event).toBe(RESTARTING_EVENT);
+    expect(client.close).not.toHaveBeenCalled();
+
+    session.fromContainer(res('1'));
+    expect(client.close).toHaveBeenCalledWith(1012, 'Gateway restarting');
+    expect(container.close).toHaveBeenCalledWith(1012, 'Gateway restarting');
+    expect(sandbox.releaseProxySession).toHaveBeenCalled();
+  });
+
+  it('refuses new requests while draining', async () => {
+    const { sandbox, startDrain } = drainableSandbox();
+    const client = createFakeSocket();
+    const session = watchProxySession(sandbox, client, createFakeSocket());
+
+    session.fromClient(req('1'));
+    startDrain(30_000);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(session.fromClient(req('2'))).toBe(false);
+    const refusal = JSON.parse(client.send.mock.calls[1][0]);
+    expect(refusal).toMatchObject({ type: 'res', id: '2', ok: false });
+    expect(refusal.error.message).toBe('Gateway is restarting');
+    session.close();
+  });
+
+  it('closes at the drain deadline even with requests outstanding', async () => {
+    const { sandbox, startDrain } = drainableSandbox();
+    const client = createFakeSocket();
+    watchProxySession(sandbox, client, createFakeSocket()).fromClient(req('1'));
+
+    startDrain(5000);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(client.close).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(client.close).toHaveBeenCalledWith(1012, 'Gateway restarting');
+  });
+});
+
+describe('watchProxySession when the sandbox restarts', () => {
+  beforeEach(() => {
+    suppressConsole();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('registers again and still gets the drain', async () => {
+    const { sandbox, startDrain } = drainableSandbox();
+    vi.mocked(sandbox.waitForDrain).mockRejectedValueOnce(new Error('Durable Object reset'));
+    const client = createFakeSocket();
+    watchProxySession(sandbox, client, createFakeSocket());
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sandbox.waitForDrain).toHaveBeenCalledTimes(2);
+    expect(client.close).not.toHaveBeenCalled();
+
+    startDrain(30_000);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(client.close).toHaveBeenCalledWith(1012, 'Gateway restarting');
+  });
+
+  it('closes the socket when the sandbox cannot be reached', async () => {
+    const { sandbox } = createMockSandbox({ gatewayState: readyState() });
+    vi.mocked(sandbox.waitForDrain).mockRejectedValue(new Error('Durable Object unavailable'));
+    const client = createFakeSocket();
+    const container = createFakeSocket();
+    watchProxySession(sandbox, client, container);
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sandbox.waitForDrain).toHaveBeenCalledTimes(2);
+    expect(client.close).toHaveBeenCalledWith(1012, 'Sandbox restarted');
+    expect(container.close).toHaveBeenCalledWith(1012, 'Sandbox restarted');
+    expect(sandbox.releaseProxySession).toHaveBeenCalled();
+  });
+});
+
+describe('waitForDrain', () => {
+  it('resolves with the drain once the sandbox starts one', async () => {
+    const { sandbox } = createMockSandbox({ gatewayState: readyState() });
+    const sessions: ProxySessions = new Map();
+
+    const waiting = waitForDrain(sandbox, sessions, 'session-1');
+    await vi.waitFor(() => expect(sessions.has('session-1')).toBe(true));
+    const drain = drainingFor(30_000);
+    sessions.get('session-1')?.(drain);
+
+    await expect(waiting).resolves.toBe(drain);
+  });
+
+  it('resolves right away for a session opened during a drain', async () => {
+    const drain = drainingFor(30_000);
+    const { sandbox } = createMockSandbox({ gatewayState: readyState(drain) });
+    const sessions: ProxySessions = new Map();
+
+    await expect(waitForDrain(sandbox, sessions, 'session-1')).resolves.toEqual(drain);
+    expect(sessions.size).toBe(1);
+  });
+
+  it('ignores a drain left over from an interrupted restart', async () => {
+    const { sandbox } = createMockSandbox({ gatewayState: readyState(drainingFor(-1000)) });
+    const sessions: ProxySessions = new Map();
+
+    const waiting = waitForDrain(sandbox, sessions, 'session-1');
+    await vi.waitFor(() => expect(sessions.has('session-1')).toBe(true));
+    releaseProxySession(sessions, 'session-1');
+
+    await expect(waiting).resolves.toBeNull();
+    expect(sessions.size).toBe(0);
+  });
+});
+
+describe('drainProxySessions', () => {
+  beforeEach(() => {
+    suppressConsole();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function openSessions(count: number) {
+    const notify = vi.fn();
+    const sessions: ProxySessions = new Map(
+      Array.from({ length: count }, (_, i) => [`session-${i}`, notify] as const),
+    );
+    return { sessions, notify };
+  }
+
+  it('returns immediately when no sessions are open', async () => {
+    const { sandbox, gatewayState } = createMockSandbox({ gatewayState: readyState() });
+
+    await expect(drainProxySessions(sandbox, new Map())).resolves.toBe(0);
+    expect(gatewayState().draining).toBeUndefined();
+  });
+
+  it('marks the gateway draining, tells each session and waits for them to close', async () => {
+    const { sandbox, gatewayState } = createMockSandbox({ gatewayState: readyState() });
+    const { sessions, notify } = openSessions(2);
+
+    const drained = drainProxySessions(sandbox, sessions, 30_000);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(gatewayState().draining).toBeDefined();
+    expect(gatewayState().phase).toBe('ready');
+    expect(notify).toHaveBeenCalledTimes(2);
+    expect(notify).toHaveBeenCalledWith(gatewayState().draining);
+
+    sessions.clear();
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(drained).resolves.toBe(0);
+  });
+
+  it('gives up at the timeout', async () => {
+    const { sandbox } = createMockSandbox({ gatewayState: readyState() });
+
+    const drained = drainProxySessions(sandbox, openSessions(1).sessions, 5000);
+    await vi.advanceTimersByTimeAsync(6000);
+
+    await expect(drained).resolves.toBe(1);
+  });
+
+  it('does not drain a gateway that is not running', async () => {
+    const { sandbox, gatewayState } = createMockSandbox();
+    const { sessions, notify } = openSessions(1);
+
+    await expect(drainProxySessions(sandbox, sessions)).resolves.toBe(0);
+    expect(gatewayState().draining).toBeUndefined();
+    expect(notify).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,240 @@
+import type { MoltbotSandbox } from '../sandbox';
+import { transitionGateway, type GatewayState } from './lifecycle';
+
+/** How often a drain checks whether the open sessions have closed */
+const DRAIN_CHECK_INTERVAL_MS = 1000;
+
+/** Default time to wait for proxied WebSocket sessions to finish before restarting */
+export const DEFAULT_DRAIN_TIMEOUT_MS = 30_000;
+
+/** A drain watch registered again that fails within this long is given up */
+const WATCH_RETRY_WINDOW_MS = 5000;
+
+/** WebSocket close code for "Service Restart" (RFC 6455 registry) */
+const SERVICE_RESTART_CLOSE_CODE = 1012;
+
+/** Event sent to proxied WebSocket clients when the gateway is about to restart */
+export const RESTARTING_EVENT = 'moltworker.restarting';
+
+export interface DrainState {
+  /** ISO timestamp of when draining started */
+  startedAt: string;
+  /** ISO timestamp after which the gateway restarts regardless of open sessions */
+  deadline: string;
+}
+
+/**
+ * Open proxied WebSocket sessions, each with the callback that tells it a
+ * drain started (or null once it is released)
+ */
+export type ProxySessions = Map<string, (drain: DrainState | null) => void>;
+
+/**
+ * The drain in progress, if any
+ *
+ * A drain past its deadline is left over from an interrupted restart.
+ */
+function activeDrain(state: GatewayState): DrainState | null {
+  if (!state.draining || Date.now() >= Date.parse(state.draining.deadline)) return null;
+  return state.draining;
+}
+
+/**
+ * Register a proxied WebSocket session and wait until it has to wrap up
+ *
+ * @param sandbox - The sandbox instance
+ * @param sessions - The sandbox's open sessions
+ * @param sessionId - ID of the session
+ * @returns The drain, once one starts, or null once the session is released
+ */
+export async function waitForDrain(
+  sandbox: MoltbotSandbox,
+  sessions: ProxySessions,
+  sessionId: string,
+): Promise<DrainState | null> {
+  const drain = activeDrain(await sandbox.getGatewayState());
+  return new Promise((resolve) => {
+    sessions.set(sessionId, resolve);
+    if (drain) resolve(drain);
+  });
+}
+
+/**
+ * Forget a proxied WebSocket session, ending its wait for a drain
+ */
+export function releaseProxySession(sessions: ProxySessions, sessionId: string): void {
+  sessions.get(sessionId)?.(null);
+  sessions.delete(sessionId);
+}
+
+/**
+ * Frame sent to clients when a drain begins, in the gateway's own event format
+ */
+export function buildRestartingFrame(drain: DrainState) {
+  return {
+    type: 'event',
+    event: RESTARTING_EVENT,
+    payload: { reason: 'gateway_restart', deadline: drain.deadline },
+  };
+}
+
+function parseFrame(data: unknown): { type?: string; id?: string } | null {
+  if (typeof data !== 'string') return null;
+  try {
+    const frame = JSON.parse(data);
+    return frame && typeof frame === 'object' ? frame : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface ProxySession {
+  /**
+   * Inspect a client frame before it is relayed
+   * @returns false if the frame must not be sent to the gateway
+   */
+  fromClient(data: unknown): boolean;
+  /** Inspect a gateway frame after it is relayed */
+  fromContainer(data: unknown): void;
+  /** Stop watching; call when either side closes */
+  close(): void;
+}
+
+/**
+ * Watch a proxied WebSocket for a gateway drain
+ *
+ * Requests are counted until the gateway answers them. When the sandbox starts
+ * a drain the client gets a "restarting" event, new requests are refused, and
+ * the socket is closed once outstanding requests are answered or the drain
+ * deadline passes.
+ *
+ * @param sandbox - The sandbox instance
+ * @param clientWs - Worker side of the client WebSocket pair
+ * @param containerWs - WebSocket to the gateway
+ */
+export function watchProxySession(
+  sandbox: MoltbotSandbox,
+  clientWs: WebSocket,
+  containerWs: WebSocket,
+): ProxySession {
+  const sessionId = crypto.randomUUID();
+  const pending = new Set<string>();
+  let drain: DrainState | null = null;
+  let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const release = () => {
+    if (closed) return;
+    closed = true;
+    clearTimeout(deadlineTimer);
+    sandbox.releaseProxySession(sessionId).catch((err: unknown) => {
+      console.error('[WS] Failed to release proxy session:', err);
+    });
+  };
+
+  const finishIfDrained = () => {
+    if (!drain || closed) return;
+    if (pending.size > 0 && Date.now() < Date.parse(drain.deadline)) return;
+    console.log('[WS] Closing proxied session for gateway restart');
+    release();
+    clientWs.close(SERVICE_RESTART_CLOSE_CODE, 'Gateway restarting');
+    containerWs.close(SERVICE_RESTART_CLOSE_CODE, 'Gateway restarting');
+  };
+
+  const onDrain = (started: DrainState | null) => {
+    if (!started || closed) return;
+    drain = started;
+    clientWs.send(JSON.stringify(buildRestartingFrame(drain)));
+    deadlineTimer = setTimeout(finishIfDrained, Date.parse(drain.deadline) - Date.now());
+    finishIfDrained();
+  };
+
+  // The sandbox keeps its sessions in memory, so the wait fails when its
+  // Durable Object restarts. Register again; if the sandbox can't be reached
+  // at all, close the socket rather than leave it open without a watcher.
+  const watch = (retry: boolean) => {
+    const since = Date.now();
+    sandbox.waitForDrain(sessionId).then(onDrain, (err: unknown) => {
+      if (closed) return;
+      if (retry && Date.now() - since < WATCH_RETRY_WINDOW_MS) {
+        console.error('[WS] Cannot watch for a gateway drain, closing proxied session:', err);
+        release();
+        clientWs.close(SERVICE_RESTART_CLOSE_CODE, 'Sandbox restarted');
+        containerWs.close(SERVICE_RESTART_CLOSE_CODE, 'Sandbox restarted');
+        return;
+      }
+      console.warn('[WS] Lost the gateway drain watch, registering again:', err);
+      watch(true);
+    });
+  };
+  watch(false);
+
+  return {
+    fromClient(data) {
+      const frame = parseFrame(data);
+      if (frame?.type !== 'req' || typeof frame.id !== 'string') return true;
+      if (drain) {
+        clientWs.send(
+          JSON.stringify({
+            type: 'res',
+            id: frame.id,
+            ok: false,
+            error: { code: 'UNAVAILABLE', message: 'Gateway is restarting', retryable: true },
+          }),
+        );
+        return false;
+      }
+      pending.add(frame.id);
+      return true;
+    },
+    fromContainer(data) {
+      const frame = parseFrame(data);
+      if (frame?.type === 'res' && typeof frame.id === 'string') {
+        pending.delete(frame.id);
+        finishIfDrained();
+      }
+    },
+    close: release,
+  };
+}
+
+/**
+ * Tell proxied WebSocket sessions to wrap up and wait for them to close
+ *
+ * @param sandbox - The sandbox instance
+ * @param sessions - The sandbox's open sessions, told when the drain starts
+ * @param timeoutMs - Maximum time to wait
+ * @returns The number of sessions still open when the wait ended
+ */
+export async function drainProxySessions(
+  sandbox: MoltbotSandbox,
+  sessions: ProxySessions,
+  timeoutMs: number = DEFAULT_DRAIN_TIMEOUT_MS,
+): Promise<number> {
+  const state = await sandbox.getGatewayState();
+  if ((state.phase !== 'ready' && state.phase !== 'degraded') || sessions.size === 0) {
+    return 0;
+  }
+
+  const startedAt = Date.now();
+  const draining: DrainState = {
+    startedAt: new Date(startedAt).toISOString(),
+    deadline: new Date(startedAt + timeoutMs).toISOString(),
+  };
+  // Recorded so sessions that open during the drain wrap up too
+  await transitionGateway(sandbox, state.phase, { draining });
+  console.log(`[Gateway] Draining ${sessions.size} WebSocket session(s)...`);
+  for (const notify of sessions.values()) notify(draining);
+
+  // Sessions close themselves once their requests are answered
+  while (sessions.size > 0 && Date.now() - startedAt < timeoutMs) {
+    // eslint-disable-next-line no-await-in-loop -- intentional sequential polling
+    await new Promise((r) => setTimeout(r, DRAIN_CHECK_INTERVAL_MS));
+  }
+
+  const remaining = sessions.size;
+  if (remaining > 0) {
+    console.log(`[Gateway] Drain timed out with ${remaining} session(s) still open`);
+  }
+  return remaining;
+}
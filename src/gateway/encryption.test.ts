@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  KEYRING_NAME,
+  decryptRestored,
+  encryptForUpload,
+  getEncryptionStatus,
+  installDataKeys,
+  rotateDataKey,
+} from './encryption';
+import {
+  createMockEnv,
+  createMockExecResult,
+  createMockSandbox,
+  suppressConsole,
+} from '../test-utils';
+
+const KEY = Buffer.alloc(32, 7).toString('base64');
+const OTHER_KEY = 'a passphrase that is not base64';
+
+function createStore() {
+  const objects = new Map<string, string>();
+  return {
+    objects,
+    readText: async (name: string) => objects.get(name) ?? null,
+    writeText: async (name: string, text: string) => {
+      objects.set(name, text);
+    },
+  };
+}
+
+/**
+ * The data keys the last call handed to the container
+ */
+function installedKeys(writeFileMock: ReturnType<typeof createMockSandbox>['writeFileMock']) {
+  const calls = writeFileMock.mock.calls.filter(([path]) => path === '/tmp/.r2-data-keys.json');
+  return JSON.parse(calls[calls.length - 1][1] as string) as {
+    current: string;
+    keys: Record<string, string>;
+  };
+}
+
+describe('installDataKeys', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('creates a keyring on first use', async () => {
+    const { sandbox, writeFileMock } = createMockSandbox();
+    const store = createStore();
+
+    const created = await installDataKeys(
+      sandbox,
+      store,
+      createMockEnv({ R2_ENCRYPTION_KEY: KEY }),
+    );
+
+    expect(created).toBe(true);
+    const keys = installedKeys(writeFileMock);
+    expect(Object.keys(keys.keys)).toEqual([keys.current]);
+    expect(Buffer.from(keys.keys[keys.current], 'base64')).toHaveLength(32);
+    // Only the wrapped key is stored in R2
+    expect(store.objects.get(KEYRING_NAME)).not.toContain(keys.keys[keys.current]);
+  });
+
+  it('unwraps the same keys on later starts', async () => {
+    const { sandbox, writeFileMock } = createMockSandbox();
+    const store = createStore();
+    const env = createMockEnv({ R2_ENCRYPTION_KEY: KEY });
+    await installDataKeys(sandbox, store, env);
+    const first = installedKeys(writeFileMock);
+
+    expect(await installDataKeys(sandbox, store, env)).toBe(false);
+    expect(installedKeys(writeFileMock)).toEqual(first);
+  });
+
+  it('refuses a keyring wrapped with another key', async () => {
+    const { sandbox } = createMockSandbox();
+    const store = createStore();
+    await installDataKeys(sandbox, store, createMockEnv({ R2_ENCRYPTION_KEY: KEY }));
+
+    await expect(
+      installDataKeys(sandbox, store, createMockEnv({ R2_ENCRYPTION_KEY: OTHER_KEY })),
+    ).rejects.toThrow('R2_ENCRYPTION_KEY_PREVIOUS');
+  });
+
+  it('re-wraps the keyring when the key encryption key changes', async () => {
+    const { sandbox, writeFileMock } = createMockSandbox();
+    const store = createStore();
+    await installDataKeys(sandbox, store, createMockEnv({ R2_ENCRYPTION_KEY: KEY }));
+    const before = installedKeys(writeFileMock);
+    const wrapped = store.objects.get(KEYRING_NAME);
+
+    await installDataKeys(
+      sandbox,
+      store,
+      createMockEnv({ R2_ENCRYPTION_KEY: OTHER_KEY, R2_ENCRYPTION_KEY_PREVIOUS: KEY }),
+    );
+
+    expect(installedKeys(writeFileMock)).toEqual(before);
+    expect(store.objects.get(KEYRING_NAME)).not.toBe(wrapped);
+    // The old key is no longer needed
+    await installDataKeys(sandbox, store, createMockEnv({ R2_ENCRYPTION_KEY: OTHER_KEY }));
+    expect(installedKeys(writeFileMock)).toEqual(before);
+  });
+});
+
+describe('rotateDataKey', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('adds a current key and keeps the old ones', async () => {
+    const { sandbox, writeFileMock } = createMockSandbox();
+    const store = createStore();
+    const env = createMockEnv({ R2_ENCRYPTION_KEY: KEY });
+    await installDataKeys(sandbox, store, env);
+    const before = installedKeys(writeFileMock);
+
+    const id = await rotateDataKey(sandbox, store, env);
+
+    const after = installedKeys(writeFileMock);
+    expect(after.current).toBe(id);
+    expect(id).not.toBe(before.current);
+    expect(after.keys[before.current]).toBe(before.keys[before.current]);
+
+    const status = await getEncryptionStatus(store, env);
+    expect(status.currentKey).toBe(id);
+    expect(status.keys.map((key) => key.id)).toEqual([before.current, id]);
+  });
+});
+
+describe('getEncryptionStatus', () => {
+  it('reports no keys before the first sync', async () => {
+    expect(await getEncryptionStatus(createStore(), createMockEnv())).toEqual({
+      enabled: false,
+      currentKey: null,
+      keys: [],
+    });
+  });
+});
+
+describe('encryptForUpload and decryptRestored', () => {
+  it('run the container encryption tool', async () => {
+    const { sandbox, execMock, writeFileMock } = createMockSandbox();
+
+    const staging = await encryptForUpload(sandbox, '/root/clawd', ['notes.md', 'memory/a.md']);
+    await decryptRestored(sandbox, ['/root/.openclaw', '/root/clawd']);
+
+    expect(writeFileMock).toHaveBeenCalledWith('/tmp/.r2-encrypt.list', 'notes.md\nmemory/a.md');
+    expect(execMock.mock.calls[0][0]).toContain(
+      `node /usr/local/bin/r2-crypt.mjs encrypt /root/clawd ${staging} /tmp/.r2-encrypt.list`,
+    );
+    expect(execMock.mock.calls[1][0]).toBe(
+      'node /usr/local/bin/r2-crypt.mjs decrypt /root/.openclaw /root/clawd',
+    );
+  });
+
+  it('fail when the tool does', async () => {
+    const { sandbox, execMock } = createMockSandbox();
+    execMock.mockResolvedValue(
+      createMockExecResult('', {
+        exitCode: 1,
+        stderr: 'r2-crypt: data key ab12cd34 is not available',
+      }),
+    );
+
+    await expect(decryptRestored(sandbox, ['/root/.openclaw'])).rejects.toThrow(
+      'data key ab12cd34 is not available',
+    );
+  });
+});
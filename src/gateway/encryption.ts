@@ -0,0 +1,319 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import type { SyncTarget } from './manifest';
+
+/**
+ * Client-side encryption of the files persisted to R2.
+ *
+ * Envelope encryption: files are encrypted with data keys, and the data
+ * keys are stored in R2, in `encryption-keys.json`, wrapped with the key
+ * encryption key from the R2_ENCRYPTION_KEY secret. The key encryption key
+ * never leaves the Worker; the unwrapped data keys are written into the
+ * container, where r2-crypt.mjs encrypts files before they are uploaded and
+ * decrypts them after they are restored.
+ *
+ * Rotating the data key adds a new current key and re-uploads everything
+ * with it. Older keys stay in the keyring so snapshots taken before the
+ * rotation can still be restored. Changing R2_ENCRYPTION_KEY itself only
+ * re-wraps the keyring, when the old key is in R2_ENCRYPTION_KEY_PREVIOUS.
+ */
+
+/** Object name of the keyring, under the sandbox's R2 prefix */
+export const KEYRING_NAME = 'encryption-keys.json';
+
+/** Where the container's encryption tool reads the unwrapped data keys */
+const DATA_KEYS_PATH = '/tmp/.r2-data-keys.json';
+
+const CRYPT_TOOL = '/usr/local/bin/r2-crypt.mjs';
+
+/** Encrypted copies of the files being uploaded */
+const STAGING_DIR = '/tmp/.r2-encrypted';
+const STAGING_LIST_PATH = '/tmp/.r2-encrypt.list';
+
+const CRYPT_TIMEOUT_MS = 120_000;
+
+const IV_LENGTH = 12;
+
+interface WrappedKey {
+  /** Base64 of the IV followed by the AES-GCM ciphertext of the key */
+  wrapped: string;
+  createdAt: string;
+}
+
+interface Keyring {
+  version: 1;
+  /** Fingerprint of the key encryption key the data keys are wrapped with */
+  kek: string;
+  /** ID of the data key new files are encrypted with */
+  current: string;
+  keys: Record<string, WrappedKey>;
+}
+
+/** The unwrapped data keys, as the container's encryption tool reads them */
+interface DataKeys {
+  current: string;
+  /** Base64 key by ID */
+  keys: Record<string, string>;
+}
+
+export interface EncryptionStatus {
+  enabled: boolean;
+  /** ID of the data key new files are encrypted with */
+  currentKey: string | null;
+  /** Data keys in the keyring, including retired ones kept for old snapshots */
+  keys: { id: string; createdAt: string }[];
+}
+
+type KeyringStore = Pick<SyncTarget, 'readText' | 'writeText'>;
+
+export function isEncryptionEnabled(env: MoltbotEnv): boolean {
+  return !!env.R2_ENCRYPTION_KEY;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64');
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(Buffer.from(text, 'base64'));
+}
+
+/**
+ * Raw bytes of a key encryption key: the secret itself if it is 32 bytes of
+ * base64, else its SHA-256
+ */
+async function keyBytes(secret: string): Promise<Uint8Array<ArrayBuffer>> {
+  if (/^[A-Za-z0-9+/]{43}=$/.test(secret.trim())) return fromBase64(secret.trim());
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret)));
+}
+
+async function fingerprint(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Buffer.from(digest.slice(0, 8)).toString('hex');
+}
+
+interface KeyEncryptionKey {
+  key: CryptoKey;
+  fingerprint: string;
+}
+
+async function importKek(secret: string): Promise<KeyEncryptionKey> {
+  const bytes = await keyBytes(secret);
+  return {
+    key: await crypto.subtle.importKey('raw', bytes, 'AES-GCM', false, ['encrypt', 'decrypt']),
+    fingerprint: await fingerprint(bytes),
+  };
+}
+
+function newKeyId(): string {
+  return Buffer.from(crypto.getRandomValues(new Uint8Array(4))).toString('hex');
+}
+
+/** The key ID is authenticated with the key, so a wrapped key can't be moved to another ID */
+async function wrapKey(
+  kek: KeyEncryptionKey,
+  id: string,
+  raw: Uint8Array<ArrayBuffer>,
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(id) },
+    kek.key,
+    raw,
+  );
+  const wrapped = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  wrapped.set(iv);
+  wrapped.set(new Uint8Array(ciphertext), IV_LENGTH);
+  return toBase64(wrapped);
+}
+
+async function unwrapKey(
+  kek: KeyEncryptionKey,
+  id: string,
+  wrapped: string,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const bytes = fromBase64(wrapped);
+  const raw = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: bytes.slice(0, IV_LENGTH),
+      additionalData: new TextEncoder().encode(id),
+    },
+    kek.key,
+    bytes.slice(IV_LENGTH),
+  );
+  return new Uint8Array(raw);
+}
+
+async function addDataKey(keyring: Keyring, kek: KeyEncryptionKey): Promise<string> {
+  const id = newKeyId();
+  keyring.keys[id] = {
+    wrapped: await wrapKey(kek, id, crypto.getRandomValues(new Uint8Array(32))),
+    createdAt: new Date().toISOString(),
+  };
+  keyring.current = id;
+  return id;
+}
+
+function parseKeyring(text: string | null): Keyring | null {
+  if (!text) return null;
+  try {
+    const keyring = JSON.parse(text) as Keyring;
+    return keyring.version === 1 && keyring.keys[keyring.current] ? keyring : null;
+  } catch {
+    return null;
+  }
+}
+
+async function unwrapAll(keyring: Keyring, kek: KeyEncryptionKey): Promise<DataKeys> {
+  const keys: Record<string, string> = {};
+  for (const [id, { wrapped }] of Object.entries(keyring.keys)) {
+    // eslint-disable-next-line no-await-in-loop -- a keyring holds a handful of keys
+    keys[id] = toBase64(await unwrapKey(kek, id, wrapped));
+  }
+  return { current: keyring.current, keys };
+}
+
+/**
+ * Read the keyring and unwrap its data keys, creating the keyring on first
+ * use and re-wrapping it when R2_ENCRYPTION_KEY has changed
+ *
+ * @returns The keyring, the key its data keys are wrapped with, and whether
+ *   the keyring was just created
+ */
+async function openKeyring(
+  store: KeyringStore,
+  env: MoltbotEnv,
+): Promise<{ keyring: Keyring; kek: KeyEncryptionKey; created: boolean }> {
+  if (!env.R2_ENCRYPTION_KEY) throw new Error('R2_ENCRYPTION_KEY is not set');
+  const kek = await importKek(env.R2_ENCRYPTION_KEY);
+  const keyring = parseKeyring(await store.readText(KEYRING_NAME));
+
+  if (!keyring) {
+    const created: Keyring = { version: 1, kek: kek.fingerprint, current: '', keys: {} };
+    const id = await addDataKey(created, kek);
+    await store.writeText(KEYRING_NAME, JSON.stringify(created, null, 2));
+    console.log(`[Gateway] Created R2 encryption keyring with data key ${id}`);
+    return { keyring: created, kek, created: true };
+  }
+  if (keyring.kek === kek.fingerprint) return { keyring, kek, created: false };
+
+  const previous = env.R2_ENCRYPTION_KEY_PREVIOUS
+    ? await importKek(env.R2_ENCRYPTION_KEY_PREVIOUS)
+    : null;
+  if (previous?.fingerprint !== keyring.kek) {
+    throw new Error(
+      'The R2 data keys are wrapped with a different R2_ENCRYPTION_KEY. Set R2_ENCRYPTION_KEY_PREVIOUS to the old key to re-wrap them.',
+    );
+  }
+  const keys = await unwrapAll(keyring, previous);
+  for (const [id, raw] of Object.entries(keys.keys)) {
+    // eslint-disable-next-line no-await-in-loop -- a keyring holds a handful of keys
+    keyring.keys[id].wrapped = await wrapKey(kek, id, fromBase64(raw));
+  }
+  keyring.kek = kek.fingerprint;
+  await store.writeText(KEYRING_NAME, JSON.stringify(keyring, null, 2));
+  console.log('[Gateway] Re-wrapped R2 data keys with the new R2_ENCRYPTION_KEY');
+  return { keyring, kek, created: false };
+}
+
+/**
+ * Unwrap the data keys and hand them to the container
+ *
+ * @returns Whether the keyring was just created, so data persisted before
+ *   encryption was enabled still needs encrypting
+ */
+export async function installDataKeys(
+  sandbox: Sandbox,
+  store: KeyringStore,
+  env: MoltbotEnv,
+): Promise<boolean> {
+  const { keyring, kek, created } = await openKeyring(store, env);
+  await writeDataKeys(sandbox, await unwrapAll(keyring, kek));
+  return created;
+}
+
+async function writeDataKeys(sandbox: Sandbox, keys: DataKeys): Promise<void> {
+  await sandbox.writeFile(DATA_KEYS_PATH, JSON.stringify(keys));
+  await sandbox.exec(`chmod 600 ${DATA_KEYS_PATH}`);
+}
+
+/**
+ * Add a new current data key and hand it to the container. Files keep the
+ * key they were encrypted with until they are uploaded again.
+ *
+ * @returns ID of the new key
+ */
+export async function rotateDataKey(
+  sandbox: Sandbox,
+  store: KeyringStore,
+  env: MoltbotEnv,
+): Promise<string> {
+  const { keyring, kek } = await openKeyring(store, env);
+  const id = await addDataKey(keyring, kek);
+  await store.writeText(KEYRING_NAME, JSON.stringify(keyring, null, 2));
+  await writeDataKeys(sandbox, await unwrapAll(keyring, kek));
+  console.log(`[Gateway] Rotated R2 data key to ${id}`);
+  return id;
+}
+
+export async function getEncryptionStatus(
+  store: KeyringStore,
+  env: MoltbotEnv,
+): Promise<EncryptionStatus> {
+  const keyring = parseKeyring(await store.readText(KEYRING_NAME));
+  return {
+    enabled: isEncryptionEnabled(env),
+    currentKey: keyring?.current ?? null,
+    keys: Object.entries(keyring?.keys ?? {}).map(([id, key]) => ({
+      id,
+      createdAt: key.createdAt,
+    })),
+  };
+}
+
+async function runCrypt(sandbox: Sandbox, command: string, failure: string): Promise<void> {
+  const result = await sandbox.exec(command, { timeout: CRYPT_TIMEOUT_MS });
+  if (!result.success) {
+    throw new Error(
+      `${failure}: ${result.stderr?.trim().slice(-500) || `exit code ${result.exitCode}`}`,
+    );
+  }
+}
+
+/**
+ * Encrypt files of a container directory for upload
+ *
+ * @returns The staging directory holding the encrypted files, at the same
+ *   relative paths
+ */
+export async function encryptForUpload(
+  sandbox: Sandbox,
+  dir: string,
+  paths: string[],
+): Promise<string> {
+  await sandbox.writeFile(STAGING_LIST_PATH, paths.join('\n'));
+  await runCrypt(
+    sandbox,
+    `rm -rf ${STAGING_DIR} && node ${CRYPT_TOOL} encrypt ${dir} ${STAGING_DIR} ${STAGING_LIST_PATH}`,
+    `Failed to encrypt files of ${dir}`,
+  );
+  return STAGING_DIR;
+}
+
+export async function clearStaging(sandbox: Sandbox): Promise<void> {
+  await sandbox.exec(`rm -rf ${STAGING_DIR} ${STAGING_LIST_PATH}`);
+}
+
+/**
+ * Decrypt restored files in place. Plaintext files are left alone, so this
+ * also runs when encryption is off, and fails if anything restored is
+ * encrypted with a key the container doesn't have.
+ */
+export async function decryptRestored(sandbox: Sandbox, dirs: string[]): Promise<void> {
+  await runCrypt(
+    sandbox,
+    `node ${CRYPT_TOOL} decrypt ${dirs.join(' ')}`,
+    'Failed to decrypt files restored from R2',
+  );
+}
@@ -138,6 +138,12 @@ describe('buildEnvVars', () => {
     expect(result.CF_AI_GATEWAY_MODEL).toBe('workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast');
   });
 
+  it('passes AI_MODELS to container', () => {
+    const env = createMockEnv({ AI_MODELS: '["anthropic/claude-sonnet-4-5", "openai/gpt-4o"]' });
+    const result = buildEnvVars(env);
+    expect(result.AI_MODELS).toBe('["anthropic/claude-sonnet-4-5", "openai/gpt-4o"]');
+  });
+
   it('passes CF_ACCOUNT_ID to container', () => {
     const env = createMockEnv({ CF_ACCOUNT_ID: 'acct-123' });
     const result = buildEnvVars(env);
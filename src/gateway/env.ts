@@ -41,11 +41,13 @@ export function buildEnvVars(env: MoltbotEnv): Record<string, string> {
   if (env.DEV_MODE) envVars.OPENCLAW_DEV_MODE = env.DEV_MODE;
   if (env.TELEGRAM_BOT_TOKEN) envVars.TELEGRAM_BOT_TOKEN = env.TELEGRAM_BOT_TOKEN;
   if (env.TELEGRAM_DM_POLICY) envVars.TELEGRAM_DM_POLICY = env.TELEGRAM_DM_POLICY;
+  if (env.TELEGRAM_DM_ALLOW_FROM) envVars.TELEGRAM_DM_ALLOW_FROM = env.TELEGRAM_DM_ALLOW_FROM;
   if (env.DISCORD_BOT_TOKEN) envVars.DISCORD_BOT_TOKEN = env.DISCORD_BOT_TOKEN;
   if (env.DISCORD_DM_POLICY) envVars.DISCORD_DM_POLICY = env.DISCORD_DM_POLICY;
   if (env.SLACK_BOT_TOKEN) envVars.SLACK_BOT_TOKEN = env.SLACK_BOT_TOKEN;
   if (env.SLACK_APP_TOKEN) envVars.SLACK_APP_TOKEN = env.SLACK_APP_TOKEN;
   if (env.CF_AI_GATEWAY_MODEL) envVars.CF_AI_GATEWAY_MODEL = env.CF_AI_GATEWAY_MODEL;
+  if (env.AI_MODELS) envVars.AI_MODELS = env.AI_MODELS;
   if (env.CF_ACCOUNT_ID) envVars.CF_ACCOUNT_ID = env.CF_ACCOUNT_ID;
   if (env.CDP_SECRET) envVars.CDP_SECRET = env.CDP_SECRET;
   if (env.WORKER_URL) envVars.WORKER_URL = env.WORKER_URL;
@@ -54,6 +56,17 @@ export function buildEnvVars(env: MoltbotEnv): Record<string, string> {
   if (env.R2_ACCESS_KEY_ID) envVars.R2_ACCESS_KEY_ID = env.R2_ACCESS_KEY_ID;
   if (env.R2_SECRET_ACCESS_KEY) envVars.R2_SECRET_ACCESS_KEY = env.R2_SECRET_ACCESS_KEY;
   if (env.R2_BUCKET_NAME) envVars.R2_BUCKET_NAME = env.R2_BUCKET_NAME;
+  if (env.R2_PREFIX) envVars.R2_PREFIX = env.R2_PREFIX;
+  // In binding mode the Worker restores and syncs; the script leaves R2 alone
+  if (env.R2_SYNC_MODE) envVars.R2_SYNC_MODE = env.R2_SYNC_MODE;
+  if (env.R2_CONFLICT_POLICY) envVars.R2_CONFLICT_POLICY = env.R2_CONFLICT_POLICY;
+  if (env.R2_SNAPSHOT_KEEP) envVars.R2_SNAPSHOT_KEEP = env.R2_SNAPSHOT_KEEP;
+  if (env.R2_SNAPSHOT_INTERVAL_HOURS) {
+    envVars.R2_SNAPSHOT_INTERVAL_HOURS = env.R2_SNAPSHOT_INTERVAL_HOURS;
+  }
+
+  // OpenClaw version pinned from the admin API (installed by start-openclaw.sh)
+  if (env.OPENCLAW_VERSION) envVars.OPENCLAW_VERSION = env.OPENCLAW_VERSION;
 
   return envVars;
 }
@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  FileAccessError,
+  MAX_FILE_BYTES,
+  deleteWorkspaceFile,
+  listWorkspaceFiles,
+  normalizeFilePath,
+  parseFileList,
+  readWorkspaceFile,
+  renameWorkspaceFile,
+  writeWorkspaceFile,
+} from './files';
+import { createMockExecResult, createMockSandbox, suppressConsole } from '../test-utils';
+
+/**
+ * Sandbox whose paths resolve to themselves, unless listed in `links`, and
+ * stat as given in `stats` (`%F\t%s\t%Y`); everything else succeeds silently
+ */
+function filesSandbox(stats: Record<string, string>, links: Record<string, string> = {}) {
+  const mock = createMockSandbox();
+  mock.execMock.mockImplementation(async (command: string) => {
+    const match = command.match(/^realpath -m -- '([^']*)'/);
+    if (match) {
+      const path = match[1];
+      const stat = stats[path];
+      return createMockExecResult(`${links[path] ?? path}\n${stat ? `${stat}\n` : ''}`);
+    }
+    return createMockExecResult();
+  });
+  return mock;
+}
+
+function commands(execMock: ReturnType<typeof createMockSandbox>['execMock']): string[] {
+  return execMock.mock.calls.map(([command]) => command as string);
+}
+
+async function reasonOf(promise: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof FileAccessError) return error.reason;
+    throw error;
+  }
+  return undefined;
+}
+
+describe('normalizeFilePath', () => {
+  it('strips surrounding slashes', () => {
+    expect(normalizeFilePath('/memory/notes.md/')).toBe('memory/notes.md');
+    expect(normalizeFilePath('')).toBe('');
+  });
+
+  it('refuses paths that could leave the root', () => {
+    expect(() => normalizeFilePath('../.openclaw/openclaw.json')).toThrow(FileAccessError);
+    expect(() => normalizeFilePath('memory/../../etc')).toThrow(FileAccessError);
+    expect(() => normalizeFilePath('memory//notes.md')).toThrow(FileAccessError);
+    expect(() => normalizeFilePath('notes\n.md')).toThrow(FileAccessError);
+  });
+});
+
+describe('parseFileList', () => {
+  it('lists directories first, then files by name', () => {
+    const output = [
+      'f\t12\t1769515200.5\tzeta.md',
+      'd\t4096\t1769515200\tmemory',
+      'f\t3\t1769515200\talpha\twith tab.md',
+      'l\t0\t1769515200\tbroken-link',
+      '',
+    ].join('\0');
+
+    expect(parseFileList(output, 'notes')).toEqual([
+      {
+        name: 'memory',
+        path: 'notes/memory',
+        type: 'directory',
+        size: 4096,
+        modifiedAt: '2026-01-27T12:00:00.000Z',
+      },
+      {
+        name: 'alpha\twith tab.md',
+        path: 'notes/alpha\twith tab.md',
+        type: 'file',
+        size: 3,
+        modifiedAt: '2026-01-27T12:00:00.000Z',
+      },
+      {
+        name: 'zeta.md',
+        path: 'notes/zeta.md',
+        type: 'file',
+        size: 12,
+        modifiedAt: '2026-01-27T12:00:00.500Z',
+      },
+    ]);
+  });
+});
+
+describe('listWorkspaceFiles', () => {
+  it('lists a directory under the root', async () => {
+    const { sandbox, execMock } = filesSandbox({
+      '/root/clawd/memory': 'directory\t4096\t1769515200',
+    });
+
+    const listing = await listWorkspaceFiles(sandbox, 'workspace', 'memory');
+
+    expect(listing).toEqual({ root: 'workspace', path: 'memory', entries: [], truncated: false });
+    expect(commands(execMock)[1]).toContain("find -L '/root/clawd/memory' -mindepth 1");
+  });
+
+  it('lists a root that does not exist yet as empty', async () => {
+    const { sandbox } = filesSandbox({});
+
+    const listing = await listWorkspaceFiles(sandbox, 'skills', '');
+
+    expect(listing.entries).toEqual([]);
+  });
+
+  it('refuses a symlink that leads out of the root', async () => {
+    const { sandbox } = filesSandbox(
+      { '/root/clawd/config': 'directory\t4096\t1769515200' },
+      { '/root/clawd/config': '/root/.openclaw' },
+    );
+
+    expect(await reasonOf(listWorkspaceFiles(sandbox, 'workspace', 'config'))).toBe('invalid');
+  });
+});
+
+describe('readWorkspaceFile', () => {
+  it('reads a file', async () => {
+    const { sandbox, readFileMock } = filesSandbox({
+      '/root/clawd/MEMORY.md': 'regular file\t5\t1769515200',
+    });
+    readFileMock.mockResolvedValue({ content: btoa('hello'), encoding: 'base64' });
+
+    const file = await readWorkspaceFile(sandbox, 'workspace', 'MEMORY.md');
+
+    expect(new TextDecoder().decode(file.data)).toBe('hello');
+    expect(file.modifiedAt).toBe('2026-01-27T12:00:00.000Z');
+    expect(readFileMock).toHaveBeenCalledWith('/root/clawd/MEMORY.md', { encoding: 'base64' });
+  });
+
+  it('refuses missing, oversized and directory paths', async () => {
+    const { sandbox } = filesSandbox({
+      '/root/clawd/video.mp4': `regular file\t${MAX_FILE_BYTES + 1}\t1769515200`,
+      '/root/clawd/memory': 'directory\t4096\t1769515200',
+    });
+
+    expect(await reasonOf(readWorkspaceFile(sandbox, 'workspace', 'missing.md'))).toBe('not-found');
+    expect(await reasonOf(readWorkspaceFile(sandbox, 'workspace', 'video.mp4'))).toBe('too-large');
+    expect(await reasonOf(readWorkspaceFile(sandbox, 'workspace', 'memory'))).toBe('invalid');
+  });
+});
+
+describe('writeWorkspaceFile', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('creates the parent directory and writes the file', async () => {
+    const { sandbox, execMock, writeFileMock } = filesSandbox({});
+
+    const result = await writeWorkspaceFile(
+      sandbox,
+      'skills',
+      "notes/it's.md",
+      new TextEncoder().encode('hi'),
+    );
+
+    expect(result).toEqual({ path: "notes/it's.md", size: 2 });
+    expect(commands(execMock)).toContain("mkdir -p -- '/root/clawd/skills/notes'");
+    expect(writeFileMock).toHaveBeenCalledWith("/root/clawd/skills/notes/it's.md", btoa('hi'), {
+      encoding: 'base64',
+    });
+  });
+
+  it('refuses to replace a directory', async () => {
+    const { sandbox, writeFileMock } = filesSandbox({
+      '/root/clawd/memory': 'directory\t4096\t1769515200',
+    });
+
+    expect(
+      await reasonOf(writeWorkspaceFile(sandbox, 'workspace', 'memory', new Uint8Array())),
+    ).toBe('exists');
+    expect(writeFileMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('renameWorkspaceFile', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('moves a file without replacing the target', async () => {
+    const { sandbox, execMock } = filesSandbox({
+      '/root/clawd/old.md': 'regular file\t5\t1769515200',
+    });
+
+    await renameWorkspaceFile(sandbox, 'workspace', 'old.md', 'archive/new.md');
+
+    expect(commands(execMock)).toContain(
+      "mkdir -p -- '/root/clawd/archive' && mv -n -T -- '/root/clawd/old.md' '/root/clawd/archive/new.md'",
+    );
+  });
+
+  it('refuses an existing target', async () => {
+    const { sandbox } = filesSandbox({
+      '/root/clawd/a.md': 'regular file\t5\t1769515200',
+      '/root/clawd/b.md': 'regular empty file\t0\t1769515200',
+    });
+
+    expect(await reasonOf(renameWorkspaceFile(sandbox, 'workspace', 'a.md', 'b.md'))).toBe(
+      'exists',
+    );
+  });
+
+  it('refuses to move a directory into itself', async () => {
+    const { sandbox } = filesSandbox({});
+
+    expect(await reasonOf(renameWorkspaceFile(sandbox, 'workspace', 'memory', 'memory/old'))).toBe(
+      'invalid',
+    );
+  });
+});
+
+describe('deleteWorkspaceFile', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('deletes a path under the root', async () => {
+    const { sandbox, execMock } = filesSandbox({
+      '/root/clawd/memory': 'directory\t4096\t1769515200',
+    });
+
+    await deleteWorkspaceFile(sandbox, 'workspace', 'memory');
+
+    expect(commands(execMock)).toContain("rm -rf -- '/root/clawd/memory'");
+  });
+
+  it('refuses to delete the root itself', async () => {
+    const { sandbox, execMock } = filesSandbox({});
+
+    expect(await reasonOf(deleteWorkspaceFile(sandbox, 'skills', '/'))).toBe('invalid');
+    expect(execMock).not.toHaveBeenCalled();
+  });
+});
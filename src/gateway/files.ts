@@ -0,0 +1,292 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+
+/**
+ * Browsing and editing files in the agent's workspace and skills directories
+ * from the admin UI. Paths are relative to a root directory; any path that
+ * resolves outside it, through `..` or a symlink, is refused.
+ */
+
+export type FileRoot = 'workspace' | 'skills';
+
+const FILE_ROOTS: Record<FileRoot, string> = {
+  workspace: '/root/clawd',
+  skills: '/root/clawd/skills',
+};
+
+/** Files larger than this can't be read, downloaded or uploaded */
+export const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+const MAX_PATH_LENGTH = 1024;
+
+/** Entries listed per directory */
+const MAX_LIST_ENTRIES = 1000;
+
+export type FileErrorReason = 'invalid' | 'not-found' | 'exists' | 'too-large';
+
+export class FileAccessError extends Error {
+  constructor(
+    message: string,
+    readonly reason: FileErrorReason,
+  ) {
+    super(message);
+    this.name = 'FileAccessError';
+  }
+}
+
+export interface FileEntry {
+  name: string;
+  /** Relative to the root */
+  path: string;
+  type: 'file' | 'directory';
+  size: number;
+  modifiedAt: string;
+}
+
+export interface FileListing {
+  root: FileRoot;
+  path: string;
+  entries: FileEntry[];
+  /** Whether the directory has more entries than are listed */
+  truncated: boolean;
+}
+
+export interface FileContent {
+  path: string;
+  size: number;
+  modifiedAt: string;
+  data: Uint8Array;
+}
+
+interface FileStat {
+  type: 'file' | 'directory' | 'other';
+  size: number;
+  modifiedAt: string;
+}
+
+export function isFileRoot(value: unknown): value is FileRoot {
+  return typeof value === 'string' && value in FILE_ROOTS;
+}
+
+/**
+ * Normalize a path relative to a root: strip surrounding slashes, and refuse
+ * anything that could step out of it
+ *
+ * @throws FileAccessError if the path is not a plain relative path
+ */
+export function normalizeFilePath(path: string): string {
+  const trimmed = path.replace(/^\/+|\/+$/g, '');
+  if (trimmed.length > MAX_PATH_LENGTH) {
+    throw new FileAccessError('Path is too long', 'invalid');
+  }
+  // eslint-disable-next-line no-control-regex -- control characters are what is refused
+  if (/[\u0000-\u001f]/.test(trimmed)) {
+    throw new FileAccessError('Path contains control characters', 'invalid');
+  }
+  if (trimmed && trimmed.split('/').some((segment) => ['', '.', '..'].includes(segment))) {
+    throw new FileAccessError(`Invalid path: ${path}`, 'invalid');
+  }
+  return trimmed;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function parentOf(path: string): string {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+function absolutePath(root: FileRoot, path: string): string {
+  return path ? `${FILE_ROOTS[root]}/${path}` : FILE_ROOTS[root];
+}
+
+/**
+ * Resolve symlinks in a path and stat what it points to
+ *
+ * @returns The stat, or null if nothing is there
+ * @throws FileAccessError if the path resolves outside the root
+ */
+async function statPath(sandbox: Sandbox, root: FileRoot, path: string): Promise<FileStat | null> {
+  const absolute = quote(absolutePath(root, path));
+  const result = await sandbox.exec(
+    `realpath -m -- ${absolute} && (stat -L -c '%F\t%s\t%Y' -- ${absolute} 2>/dev/null || true)`,
+  );
+  const [resolved = '', stat = ''] = (result.stdout || '').split('\n');
+  const rootDir = FILE_ROOTS[root];
+  if (resolved !== rootDir && !resolved.startsWith(`${rootDir}/`)) {
+    throw new FileAccessError(`Path is outside the ${root} directory: ${path}`, 'invalid');
+  }
+  if (!stat) return null;
+  const [kind, size, mtime] = stat.split('\t');
+  return {
+    type: kind === 'directory' ? 'directory' : kind.endsWith('regular file') ? 'file' : 'other',
+    size: Number(size) || 0,
+    modifiedAt: new Date(Number(mtime) * 1000).toISOString(),
+  };
+}
+
+/**
+ * Parse `find -printf '%y\t%s\t%T@\t%f\0'` output into entries, directories
+ * first
+ */
+export function parseFileList(output: string, dir: string): FileEntry[] {
+  const entries: FileEntry[] = [];
+  for (const record of output.split('\0')) {
+    const [kind, size, mtime, ...rest] = record.split('\t');
+    const name = rest.join('\t');
+    if (!name || (kind !== 'f' && kind !== 'd')) continue;
+    entries.push({
+      name,
+      path: dir ? `${dir}/${name}` : name,
+      type: kind === 'd' ? 'directory' : 'file',
+      size: Number(size) || 0,
+      modifiedAt: new Date(Number(mtime) * 1000).toISOString(),
+    });
+  }
+  entries.sort((a, b) =>
+    a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'directory' ? -1 : 1,
+  );
+  return entries;
+}
+
+/**
+ * List a directory. A root directory that doesn't exist yet lists as empty.
+ */
+export async function listWorkspaceFiles(
+  sandbox: Sandbox,
+  root: FileRoot,
+  dir: string,
+): Promise<FileListing> {
+  const path = normalizeFilePath(dir);
+  const stat = await statPath(sandbox, root, path);
+  if (!stat) {
+    if (!path) return { root, path, entries: [], truncated: false };
+    throw new FileAccessError(`No such directory: ${path}`, 'not-found');
+  }
+  if (stat.type !== 'directory') throw new FileAccessError(`Not a directory: ${path}`, 'invalid');
+
+  const result = await sandbox.exec(
+    `find -L ${quote(absolutePath(root, path))} -mindepth 1 -maxdepth 1 -printf '%y\\t%s\\t%T@\\t%f\\0'`,
+  );
+  const entries = parseFileList(result.stdout || '', path);
+  return {
+    root,
+    path,
+    entries: entries.slice(0, MAX_LIST_ENTRIES),
+    truncated: entries.length > MAX_LIST_ENTRIES,
+  };
+}
+
+/**
+ * Read a file
+ *
+ * @throws FileAccessError if it doesn't exist, is a directory or is larger than MAX_FILE_BYTES
+ */
+export async function readWorkspaceFile(
+  sandbox: Sandbox,
+  root: FileRoot,
+  filePath: string,
+): Promise<FileContent> {
+  const path = normalizeFilePath(filePath);
+  const stat = path ? await statPath(sandbox, root, path) : null;
+  if (!stat) throw new FileAccessError(`No such file: ${path}`, 'not-found');
+  if (stat.type !== 'file') throw new FileAccessError(`Not a file: ${path}`, 'invalid');
+  if (stat.size > MAX_FILE_BYTES) {
+    throw new FileAccessError(
+      `Files larger than ${MAX_FILE_BYTES / 1024 / 1024} MB can't be read`,
+      'too-large',
+    );
+  }
+
+  const file = await sandbox.readFile(absolutePath(root, path), { encoding: 'base64' });
+  const data = Buffer.from(file.content, file.encoding === 'utf-8' ? 'utf-8' : 'base64');
+  return { path, size: stat.size, modifiedAt: stat.modifiedAt, data: new Uint8Array(data) };
+}
+
+/**
+ * Create or replace a file, creating its parent directories
+ *
+ * @throws FileAccessError if the path is a directory or the data is larger than MAX_FILE_BYTES
+ */
+export async function writeWorkspaceFile(
+  sandbox: Sandbox,
+  root: FileRoot,
+  filePath: string,
+  data: Uint8Array,
+): Promise<{ path: string; size: number }> {
+  const path = normalizeFilePath(filePath);
+  if (!path) throw new FileAccessError('A file path is required', 'invalid');
+  if (data.byteLength > MAX_FILE_BYTES) {
+    throw new FileAccessError(
+      `Files are limited to ${MAX_FILE_BYTES / 1024 / 1024} MB`,
+      'too-large',
+    );
+  }
+  const stat = await statPath(sandbox, root, path);
+  if (stat && stat.type !== 'file') throw new FileAccessError(`Not a file: ${path}`, 'exists');
+
+  const absolute = absolutePath(root, path);
+  const mkdir = await sandbox.exec(`mkdir -p -- ${quote(absolutePath(root, parentOf(path)))}`);
+  if (!mkdir.success) {
+    throw new Error(`Failed to create the directory: ${mkdir.stderr?.trim() || mkdir.exitCode}`);
+  }
+  await sandbox.writeFile(absolute, Buffer.from(data).toString('base64'), { encoding: 'base64' });
+  console.log(`[Gateway] Wrote ${root}/${path} (${data.byteLength} bytes)`);
+  return { path, size: data.byteLength };
+}
+
+/**
+ * Rename or move a file or directory within a root
+ *
+ * @throws FileAccessError if the source doesn't exist or the target does
+ */
+export async function renameWorkspaceFile(
+  sandbox: Sandbox,
+  root: FileRoot,
+  fromPath: string,
+  toPath: string,
+): Promise<{ from: string; to: string }> {
+  const from = normalizeFilePath(fromPath);
+  const to = normalizeFilePath(toPath);
+  if (!from || !to) throw new FileAccessError('Both paths are required', 'invalid');
+  if (to === from || to.startsWith(`${from}/`)) {
+    throw new FileAccessError(`Can't move ${from} into itself`, 'invalid');
+  }
+  if (!(await statPath(sandbox, root, from))) {
+    throw new FileAccessError(`No such file: ${from}`, 'not-found');
+  }
+  if (await statPath(sandbox, root, to))
+    throw new FileAccessError(`${to} already exists`, 'exists');
+
+  const result = await sandbox.exec(
+    `mkdir -p -- ${quote(absolutePath(root, parentOf(to)))} && mv -n -T -- ${quote(absolutePath(root, from))} ${quote(absolutePath(root, to))}`,
+  );
+  if (!result.success) {
+    throw new Error(`Failed to rename ${from}: ${result.stderr?.trim() || result.exitCode}`);
+  }
+  console.log(`[Gateway] Renamed ${root}/${from} to ${root}/${to}`);
+  return { from, to };
+}
+
+/**
+ * Delete a file, or a directory and everything in it
+ *
+ * @throws FileAccessError if it doesn't exist
+ */
+export async function deleteWorkspaceFile(
+  sandbox: Sandbox,
+  root: FileRoot,
+  filePath: string,
+): Promise<void> {
+  const path = normalizeFilePath(filePath);
+  if (!path) throw new FileAccessError(`The ${root} directory itself can't be deleted`, 'invalid');
+  if (!(await statPath(sandbox, root, path))) {
+    throw new FileAccessError(`No such file: ${path}`, 'not-found');
+  }
+
+  const result = await sandbox.exec(`rm -rf -- ${quote(absolutePath(root, path))}`);
+  if (!result.success) {
+    throw new Error(`Failed to delete ${path}: ${result.stderr?.trim() || result.exitCode}`);
+  }
+  console.log(`[Gateway] Deleted ${root}/${path}`);
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { classifyConnectError, probeGateway } from './health';
+import { createMockEnv, createMockSandbox, suppressConsole } from '../test-utils';
+
+type Listener = (event: any) => void;
+
+/**
+ * Minimal server-side WebSocket that answers the connect request with a canned frame
+ */
+function createFakeWebSocket(reply: ((request: any) => object | null) | null) {
+  const listeners: Record<string, Listener[]> = {};
+  const sent: any[] = [];
+  const emit = (type: string, event: object) => {
+    for (const listener of listeners[type] || []) listener(event);
+  };
+
+  const ws = {
+    accept: vi.fn(() => {
+      if (reply) {
+        queueMicrotask(() =>
+          emit('message', {
+            data: JSON.stringify({ type: 'event', event: 'connect.challenge', payload: {} }),
+          }),
+        );
+      }
+    }),
+    addEventListener: (type: string, listener: Listener) => {
+      (listeners[type] ||= []).push(listener);
+    },
+    send: vi.fn((data: string) => {
+      const request = JSON.parse(data);
+      sent.push(request);
+      const response = reply?.(request);
+      if (response) {
+        queueMicrotask(() => emit('message', { data: JSON.stringify(response) }));
+      }
+    }),
+    close: vi.fn(),
+  };
+
+  return { ws, sent, emit };
+}
+
+function mockGateway(
+  containerFetchMock: ReturnType<typeof vi.fn>,
+  ws: object | null,
+  httpStatus = 200,
+) {
+  containerFetchMock
+    .mockResolvedValueOnce(new Response('ok', { status: httpStatus }))
+    .mockResolvedValueOnce({ status: ws ? 101 : 200, webSocket: ws });
+}
+
+describe('classifyConnectError', () => {
+  it('treats token errors as unauthorized', () => {
+    expect(classifyConnectError('unauthorized: gateway token mismatch')).toBe('unauthorized');
+  });
+
+  it('treats pairing requirements as a healthy gateway', () => {
+    expect(classifyConnectError('device identity required')).toBe('ok');
+    expect(classifyConnectError('pairing required')).toBe('ok');
+  });
+
+  it('treats anything else as rejected', () => {
+    expect(classifyConnectError('protocol mismatch')).toBe('rejected');
+  });
+});
+
+describe('probeGateway', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('reports ok when the gateway accepts the connect request', async () => {
+    const { sandbox, containerFetchMock } = createMockSandbox();
+    const { ws, sent } = createFakeWebSocket((request) => ({
+      type: 'res',
+      id: request.id,
+      ok: true,
+      payload: {},
+    }));
+    mockGateway(containerFetchMock, ws);
+
+    const result = await probeGateway(
+      sandbox,
+      createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'secret-token' }),
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.outcome).toBe('ok');
+    expect(result.httpStatus).toBe(200);
+    expect(sent[0].method).toBe('connect');
+    expect(sent[0].params.auth).toEqual({ token: 'secret-token' });
+    expect(ws.close).toHaveBeenCalled();
+  });
+
+  it('reports unauthorized when the gateway rejects the token', async () => {
+    const { sandbox, containerFetchMock } = createMockSandbox();
+    const { ws } = createFakeWebSocket((request) => ({
+      type: 'res',
+      id: request.id,
+      ok: false,
+      error: { code: 'INVALID_REQUEST', message: 'unauthorized: gateway token mismatch' },
+    }));
+    mockGateway(containerFetchMock, ws);
+
+    const result = await probeGateway(sandbox, createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'wrong' }));
+
+    expect(result.ok).toBe(false);
+    expect(result.outcome).toBe('unauthorized');
+    expect(result.error).toBe('unauthorized: gateway token mismatch');
+  });
+
+  it('reports http_error without attempting a handshake on a 5xx response', async () => {
+    const { sandbox, containerFetchMock } = createMockSandbox();
+    containerFetchMock.mockResolvedValueOnce(new Response('boom', { status: 502 }));
+
+    const result = await probeGateway(sandbox, createMockEnv());
+
+    expect(result.outcome).toBe('http_error');
+    expect(result.httpStatus).toBe(502);
+    expect(containerFetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports no_handshake when the WebSocket upgrade fails', async () => {
+    const { sandbox, containerFetchMock } = createMockSandbox();
+    mockGateway(containerFetchMock, null);
+
+    const result = await probeGateway(sandbox, createMockEnv());
+
+    expect(result.outcome).toBe('no_handshake');
+    expect(result.error).toContain('WebSocket upgrade failed');
+  });
+
+  it('reports no_handshake when the gateway never sends a challenge', async () => {
+    const { sandbox, containerFetchMock } = createMockSandbox();
+    const { ws } = createFakeWebSocket(null);
+    mockGateway(containerFetchMock, ws);
+
+    const result = await probeGateway(sandbox, createMockEnv(), 10);
+
+    expect(result.outcome).toBe('no_handshake');
+    expect(result.error).toBe('No handshake within 10ms');
+  });
+
+  it('reports unreachable when the container cannot be fetched', async () => {
+    const { sandbox, containerFetchMock } = createMockSandbox();
+    containerFetchMock.mockRejectedValueOnce(new Error('Container is not running'));
+
+    const result = await probeGateway(sandbox, createMockEnv());
+
+    expect(result.outcome).toBe('unreachable');
+    expect(result.error).toBe('Container is not running');
+  });
+});
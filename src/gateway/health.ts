@@ -0,0 +1,216 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { MOLTBOT_PORT } from '../config';
+
+/** Maximum time to wait for the gateway to answer the WebSocket handshake */
+const HANDSHAKE_TIMEOUT_MS = 10_000;
+
+/** Gateway WebSocket protocol version spoken by the probe */
+const PROTOCOL_VERSION = 3;
+
+/**
+ * Outcome of a gateway health probe
+ * - ok: the gateway completed (or correctly gated) the WebSocket handshake
+ * - unreachable: the HTTP or WebSocket request could not be made
+ * - http_error: the gateway answered HTTP with a server error
+ * - no_handshake: the port is open but the gateway never spoke its protocol
+ * - unauthorized: the gateway rejected our token (gateway.auth is misconfigured)
+ * - rejected: the gateway rejected the handshake for another reason
+ */
+export type GatewayProbeOutcome =
+  | 'ok'
+  | 'unreachable'
+  | 'http_error'
+  | 'no_handshake'
+  | 'unauthorized'
+  | 'rejected';
+
+export interface GatewayProbeResult {
+  ok: boolean;
+  outcome: GatewayProbeOutcome;
+  /** ISO timestamp of when the probe finished */
+  checkedAt: string;
+  durationMs: number;
+  /** Status code of the HTTP request to the Control UI */
+  httpStatus?: number;
+  error?: string;
+}
+
+interface HandshakeResult {
+  outcome: GatewayProbeOutcome;
+  error?: string;
+}
+
+/**
+ * Classify an error returned by the gateway for our connect request
+ */
+export function classifyConnectError(message: string): GatewayProbeOutcome {
+  if (message.startsWith('unauthorized')) {
+    return 'unauthorized';
+  }
+  // Without a shared token the gateway requires a paired device. Getting this far
+  // means the gateway is up and enforcing its auth policy.
+  if (message.includes('device identity required') || message.includes('pairing required')) {
+    return 'ok';
+  }
+  return 'rejected';
+}
+
+function buildConnectFrame(id: string, token: string | undefined) {
+  return {
+    type: 'req',
+    id,
+    method: 'connect',
+    params: {
+      minProtocol: PROTOCOL_VERSION,
+      maxProtocol: PROTOCOL_VERSION,
+      client: {
+        id: 'openclaw-probe',
+        displayName: 'Moltworker health probe',
+        version: '1.0.0',
+        platform: 'cloudflare-workers',
+        mode: 'probe',
+      },
+      role: 'operator',
+      scopes: [],
+      auth: token ? { token } : undefined,
+    },
+  };
+}
+
+/**
+ * Open a WebSocket to the gateway and run the connect handshake
+ */
+async function handshakeGateway(
+  sandbox: Sandbox,
+  token: string | undefined,
+  timeoutMs: number,
+): Promise<HandshakeResult> {
+  const request = new Request(`http://localhost:${MOLTBOT_PORT}/`, {
+    headers: { Upgrade: 'websocket' },
+  });
+  const response = await sandbox.containerFetch(request, MOLTBOT_PORT);
+  const ws = response.webSocket;
+  if (!ws) {
+    return {
+      outcome: 'no_handshake',
+      error: `WebSocket upgrade failed with HTTP ${response.status}`,
+    };
+  }
+  ws.accept();
+
+  const connectId = `probe-${Date.now()}`;
+
+  return new Promise<HandshakeResult>((resolve) => {
+    let settled = false;
+    const finish = (result: HandshakeResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      try {
+        ws.close(1000, 'Health probe complete');
+      } catch {
+        // Already closed
+      }
+      resolve(result);
+    };
+
+    const timer = setTimeout(
+      () => finish({ outcome: 'no_handshake', error: `No handshake within ${timeoutMs}ms` }),
+      timeoutMs,
+    );
+
+    ws.addEventListener('message', (event) => {
+      let frame: {
+        type?: string;
+        event?: string;
+        id?: string;
+        ok?: boolean;
+        error?: { message?: string };
+      };
+      try {
+        frame = JSON.parse(typeof event.data === 'string' ? event.data : '');
+      } catch {
+        return;
+      }
+
+      // The gateway opens with a challenge; only then is connect accepted
+      if (frame.type === 'event' && frame.event === 'connect.challenge') {
+        ws.send(JSON.stringify(buildConnectFrame(connectId, token)));
+        return;
+      }
+
+      if (frame.type === 'res' && frame.id === connectId) {
+        if (frame.ok) {
+          finish({ outcome: 'ok' });
+        } else {
+          const message = frame.error?.message || 'Connect rejected';
+          finish({ outcome: classifyConnectError(message), error: message });
+        }
+      }
+    });
+
+    ws.addEventListener('close', (event) => {
+      if (event.reason) {
+        finish({ outcome: classifyConnectError(event.reason), error: event.reason });
+      } else {
+        finish({
+          outcome: 'no_handshake',
+          error: `Gateway closed the connection (code ${event.code})`,
+        });
+      }
+    });
+  });
+}
+
+/**
+ * Check that the OpenClaw gateway actually serves requests, not just that its port is open
+ *
+ * Fetches the Control UI over HTTP, then performs the gateway WebSocket handshake,
+ * authenticating with MOLTBOT_GATEWAY_TOKEN when it is set.
+ *
+ * @param sandbox - The sandbox instance
+ * @param env - Worker environment bindings
+ * @param timeoutMs - Maximum time to wait for the handshake
+ * @returns The probe result
+ */
+export async function probeGateway(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  timeoutMs: number = HANDSHAKE_TIMEOUT_MS,
+): Promise<GatewayProbeResult> {
+  const startedAt = Date.now();
+  const result = (
+    outcome: GatewayProbeOutcome,
+    details: { httpStatus?: number; error?: string } = {},
+  ): GatewayProbeResult => ({
+    ok: outcome === 'ok',
+    outcome,
+    checkedAt: new Date().toISOString(),
+    durationMs: Date.now() - startedAt,
+    ...details,
+  });
+
+  let httpStatus: number;
+  try {
+    const response = await sandbox.containerFetch(
+      new Request(`http://localhost:${MOLTBOT_PORT}/`),
+      MOLTBOT_PORT,
+    );
+    httpStatus = response.status;
+    await response.body?.cancel();
+  } catch (e) {
+    return result('unreachable', { error: e instanceof Error ? e.message : String(e) });
+  }
+
+  if (httpStatus >= 500) {
+    return result('http_error', { httpStatus, error: `Gateway returned HTTP ${httpStatus}` });
+  }
+
+  try {
+    const handshake = await handshakeGateway(sandbox, env.MOLTBOT_GATEWAY_TOKEN, timeoutMs);
+    return result(handshake.outcome, { httpStatus, error: handshake.error });
+  } catch (e) {
+    return result('unreachable', { httpStatus, error: e instanceof Error ? e.message : String(e) });
+  }
+}
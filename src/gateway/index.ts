@@ -1,4 +1,124 @@
-export { ensureMoltbotGateway, findExistingMoltbotProcess } from './process';
+export {
+  ensureMoltbotGateway,
+  findExistingMoltbotProcess,
+  stopMoltbotGateway,
+  verifyMoltbotGateway,
+} from './process';
+export {
+  diagnoseStartupFailure,
+  type StartupDiagnosis,
+  type StartupFailureKind,
+} from './diagnostics';
+export { probeGateway, type GatewayProbeOutcome, type GatewayProbeResult } from './health';
+export {
+  transitionGateway,
+  type GatewayPhase,
+  type GatewayState,
+  type GatewayStateStore,
+} from './lifecycle';
+export { superviseGateway, type SupervisorState } from './supervisor';
+export {
+  DEFAULT_DRAIN_TIMEOUT_MS,
+  RESTARTING_EVENT,
+  watchProxySession,
+  type DrainState,
+} from './drain';
+export {
+  isUpgradeInProgress,
+  isValidOpenClawVersion,
+  openClawBin,
+  type OpenClawVersionState,
+  type UpgradeStatus,
+} from './upgrade';
+export { getKeepWarmSchedule } from './schedule';
+export {
+  CONFIG_OVERLAY_PATH,
+  buildConfigOverlay,
+  type ConfigOverlay,
+  type ConfigSet,
+} from './config-overlay';
+export {
+  ConfigEditError,
+  editContainerConfig,
+  managedConfigPaths,
+  maskSecrets,
+  readContainerConfig,
+  type ConfigChange,
+  type ConfigEdit,
+  type ConfigEditErrorReason,
+  type ConfigEditResult,
+} from './config-edit';
+export {
+  CONFIG_SCHEMA,
+  checkContainerConfig,
+  validateConfigValue,
+  type ConfigCheck,
+  type ConfigRule,
+} from './config-schema';
 export { waitForProcess } from './utils';
-export { ensureRcloneConfig } from './r2';
-export { syncToR2 } from './sync';
+export { ensureRcloneConfig, getR2SyncMode, type R2SyncMode } from './r2';
+export { getStorageEncryption, getSyncConflictStatus, rotateEncryptionKey, syncToR2 } from './sync';
+export { type EncryptionStatus } from './encryption';
+export { getSyncPolicy, readSkippedFiles, type SkippedFile, type SyncPolicy } from './sync-policy';
+export {
+  collectContainerSyncs,
+  getSyncAlertConfig,
+  recordSyncs,
+  syncAndRecord,
+  syncRecord,
+  type SyncHistory,
+  type SyncHistoryStore,
+  type SyncRecord,
+  type SyncTrigger,
+} from './sync-history';
+export {
+  type ConflictPolicy,
+  type ConflictRecord,
+  type GenerationMarker,
+  type SyncConflictStatus,
+} from './conflict';
+export {
+  InvalidBundleError,
+  MAX_BUNDLE_BYTES,
+  checkBundle,
+  createBundle,
+  importBundle,
+  readBundle,
+  type BundleImportResult,
+  type BundleManifest,
+} from './bundle';
+export { SizeLimitError, readStream } from './tar';
+export {
+  MigrationError,
+  archiveLegacyBackup,
+  getLegacyStatus,
+  migrateLegacyData,
+  planMigration,
+  type LegacyStatus,
+  type MigrationPlan,
+} from './migration';
+export {
+  FileAccessError,
+  MAX_FILE_BYTES,
+  deleteWorkspaceFile,
+  isFileRoot,
+  listWorkspaceFiles,
+  readWorkspaceFile,
+  renameWorkspaceFile,
+  writeWorkspaceFile,
+  type FileEntry,
+  type FileErrorReason,
+  type FileListing,
+  type FileRoot,
+} from './files';
+export {
+  createSnapshot,
+  deleteSnapshot,
+  diffSnapshots,
+  getSnapshotKeep,
+  isValidSnapshotId,
+  listSnapshots,
+  restoreSnapshot,
+  type Snapshot,
+  type SnapshotDiff,
+} from './snapshots';
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  canTransition,
+  initialGatewayState,
+  nextGatewayState,
+  parseStartupPhase,
+  parseStartupProgress,
+  transitionGateway,
+} from './lifecycle';
+import { createMockSandbox, suppressConsole } from '../test-utils';
+
+describe('canTransition', () => {
+  it('follows the startup sequence', () => {
+    expect(canTransition('stopped', 'restoring')).toBe(true);
+    expect(canTransition('restoring', 'onboarding')).toBe(true);
+    expect(canTransition('onboarding', 'starting')).toBe(true);
+    expect(canTransition('starting', 'ready')).toBe(true);
+  });
+
+  it('allows degrading and recovering a ready gateway', () => {
+    expect(canTransition('ready', 'degraded')).toBe(true);
+    expect(canTransition('degraded', 'ready')).toBe(true);
+  });
+
+  it('allows restarting after a crash', () => {
+    expect(canTransition('crashed', 'restoring')).toBe(true);
+  });
+
+  it('rejects skipping straight to ready', () => {
+    expect(canTransition('stopped', 'ready')).toBe(false);
+    expect(canTransition('crashed', 'ready')).toBe(false);
+  });
+
+  it('rejects going back to an earlier startup phase', () => {
+    expect(canTransition('starting', 'restoring')).toBe(false);
+  });
+
+  it('allows staying in the same phase', () => {
+    expect(canTransition('ready', 'ready')).toBe(true);
+  });
+});
+
+describe('nextGatewayState', () => {
+  it('throws on an invalid transition', () => {
+    expect(() => nextGatewayState(initialGatewayState(), 'ready')).toThrow(
+      'Invalid gateway transition: stopped -> ready',
+    );
+  });
+
+  it('keeps the process ID across transitions', () => {
+    const state = nextGatewayState(initialGatewayState(), 'restoring', { processId: 'gw-1' });
+    expect(nextGatewayState(state, 'starting').processId).toBe('gw-1');
+  });
+
+  it('clears the process ID when stopped', () => {
+    const state = nextGatewayState(initialGatewayState(), 'restoring', { processId: 'gw-1' });
+    expect(nextGatewayState(state, 'stopped').processId).toBeUndefined();
+  });
+
+  it('drops the previous error on the next transition', () => {
+    const crashed = nextGatewayState(
+      nextGatewayState(initialGatewayState(), 'restoring'),
+      'crashed',
+      { error: 'boom' },
+    );
+    expect(crashed.error).toBe('boom');
+    expect(nextGatewayState(crashed, 'restoring').error).toBeUndefined();
+  });
+
+  it('keeps startup progress until the startup ends', () => {
+    const restoring = nextGatewayState(initialGatewayState(), 'restoring', {
+      progress: 'Restoring config from R2',
+    });
+    const onboarding = nextGatewayState(restoring, 'onboarding');
+    expect(onboarding.progress).toBe('Restoring config from R2');
+    expect(nextGatewayState(onboarding, 'crashed').progress).toBeUndefined();
+  });
+
+  it('clears a drain once the gateway leaves the drained phase', () => {
+    const draining = {
+      startedAt: '2026-01-27T12:00:00.000Z',
+      deadline: '2026-01-27T12:00:30.000Z',
+    };
+    const ready = { phase: 'ready' as const, updatedAt: '2026-01-27T12:00:00.000Z', draining };
+    expect(nextGatewayState(ready, 'ready').draining).toEqual(draining);
+    expect(nextGatewayState(ready, 'stopped').draining).toBeUndefined();
+  });
+});
+
+describe('parseStartupPhase', () => {
+  it('returns null when no marker was printed', () => {
+    expect(parseStartupPhase('Config directory: /root/.openclaw\n')).toBeNull();
+  });
+
+  it('returns the most recent marker', () => {
+    const stdout = [
+      '[lifecycle] restoring',
+      'Checking R2 for existing backup...',
+      '[lifecycle] onboarding',
+      'Using existing config',
+    ].join('\n');
+    expect(parseStartupPhase(stdout)).toBe('onboarding');
+  });
+
+  it('ignores markers embedded in other output', () => {
+    expect(parseStartupPhase('echo "[lifecycle] starting" done')).toBeNull();
+  });
+});
+
+describe('parseStartupProgress', () => {
+  it('returns null when no step was reported', () => {
+    expect(parseStartupProgress('[lifecycle] restoring\n')).toBeNull();
+  });
+
+  it('returns the most recent step', () => {
+    const stdout = [
+      '[lifecycle] restoring',
+      '[progress] Checking R2 for existing backup',
+      '[progress] Restoring workspace from R2 (12 files)',
+      'Workspace restored',
+    ].join('\n');
+    expect(parseStartupProgress(stdout)).toBe('Restoring workspace from R2 (12 files)');
+  });
+});
+
+describe('transitionGateway', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('persists the new state', async () => {
+    const { sandbox, gatewayState } = createMockSandbox();
+
+    const state = await transitionGateway(sandbox, 'restoring', { processId: 'gw-1' });
+
+    expect(state.phase).toBe('restoring');
+    expect(gatewayState()).toEqual(state);
+  });
+
+  it('does not persist an invalid transition', async () => {
+    const { sandbox, gatewayState } = createMockSandbox();
+
+    await expect(transitionGateway(sandbox, 'ready')).rejects.toThrow('Invalid gateway transition');
+    expect(gatewayState().phase).toBe('stopped');
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Gateway lifecycle state machine
+ *
+ * The lifecycle state is persisted in the Sandbox Durable Object and is the single
+ * source of truth for whether the OpenClaw gateway is up. Routes read it instead of
+ * re-listing container processes.
+ */
+
+import type { StartupDiagnosis } from './diagnostics';
+import type { DrainState } from './drain';
+import type { GatewayProbeResult } from './health';
+
+export type GatewayPhase =
+  | 'stopped'
+  | 'restoring'
+  | 'onboarding'
+  | 'starting'
+  | 'ready'
+  | 'degraded'
+  | 'crashed';
+
+export interface GatewayState {
+  phase: GatewayPhase;
+  /** ID of the sandbox process running start-openclaw.sh */
+  processId?: string;
+  /** ISO timestamp of the last transition */
+  updatedAt: string;
+  /** Reason for the last crash or degradation */
+  error?: string;
+  /** Classification of a failed startup, with a suggested fix */
+  diagnosis?: StartupDiagnosis;
+  /** Result of the most recent health probe against the running gateway */
+  probe?: GatewayProbeResult;
+  /** Latest step reported by start-openclaw.sh while starting up */
+  progress?: string;
+  /** Set while proxied WebSocket sessions are being drained for a restart */
+  draining?: DrainState;
+}
+
+/**
+ * Durable Object storage for the gateway lifecycle state
+ */
+export interface GatewayStateStore {
+  getGatewayState(): Promise<GatewayState>;
+  setGatewayState(state: GatewayState): Promise<void>;
+}
+
+/** Phases during which start-openclaw.sh is still working towards a listening gateway */
+export const STARTUP_PHASES: readonly GatewayPhase[] = ['restoring', 'onboarding', 'starting'];
+
+const TRANSITIONS: Record<GatewayPhase, readonly GatewayPhase[]> = {
+  stopped: ['restoring', 'starting'],
+  restoring: ['onboarding', 'starting', 'crashed', 'stopped'],
+  onboarding: ['starting', 'crashed', 'stopped'],
+  // A gateway whose port opens but fails its health probe is degraded, not ready
+  starting: ['ready', 'degraded', 'crashed', 'stopped'],
+  ready: ['degraded', 'crashed', 'stopped'],
+  degraded: ['ready', 'crashed', 'stopped'],
+  crashed: ['restoring', 'starting', 'stopped'],
+};
+
+// start-openclaw.sh prints "[lifecycle] <phase>" when it enters a new phase
+const PHASE_MARKER = /^\[lifecycle\] (restoring|onboarding|starting)$/gm;
+
+// ...and "[progress] <message>" for each step within a phase
+const PROGRESS_MARKER = /^\[progress\] (.+)$/gm;
+
+export function initialGatewayState(): GatewayState {
+  return { phase: 'stopped', updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Check whether the lifecycle allows moving between two phases.
+ * Staying in the same phase is always allowed.
+ */
+export function canTransition(from: GatewayPhase, to: GatewayPhase): boolean {
+  return from === to || TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Compute the next lifecycle state
+ *
+ * @throws Error if the transition is not allowed by the state machine
+ */
+export function nextGatewayState(
+  current: GatewayState,
+  phase: GatewayPhase,
+  update: Partial<Omit<GatewayState, 'phase' | 'updatedAt'>> = {},
+): GatewayState {
+  if (!canTransition(current.phase, phase)) {
+    throw new Error(`Invalid gateway transition: ${current.phase} -> ${phase}`);
+  }
+
+  const next: GatewayState = {
+    phase,
+    processId: current.processId,
+    updatedAt: new Date().toISOString(),
+    probe: current.probe,
+    progress: current.progress,
+    draining: current.draining,
+    ...update,
+  };
+  // Errors only describe the phase they were recorded in
+  if (!('error' in update)) delete next.error;
+  if (phase === 'stopped') delete next.processId;
+  // A probe describes one gateway process; a relaunch starts without one
+  if (phase === 'stopped' || phase === 'restoring') delete next.probe;
+  // Progress only describes a startup in flight
+  if (!STARTUP_PHASES.includes(phase)) delete next.progress;
+  // A drain ends with the gateway leaving the phase it was drained in
+  if (phase !== current.phase && !('draining' in update)) delete next.draining;
+  return next;
+}
+
+/**
+ * Move the persisted lifecycle state to a new phase
+ *
+ * @param store - The sandbox holding the lifecycle state
+ * @param phase - Target phase
+ * @param update - Extra fields to record with the transition
+ * @returns The new state
+ */
+export async function transitionGateway(
+  store: GatewayStateStore,
+  phase: GatewayPhase,
+  update: Partial<Omit<GatewayState, 'phase' | 'updatedAt'>> = {},
+): Promise<GatewayState> {
+  const current = await store.getGatewayState();
+  const next = nextGatewayState(current, phase, update);
+  if (next.phase !== current.phase) {
+    console.log(`[Gateway] Lifecycle: ${current.phase} -> ${next.phase}`);
+  }
+  await store.setGatewayState(next);
+  return next;
+}
+
+/**
+ * Find the latest startup phase reported by start-openclaw.sh
+ *
+ * @param stdout - Output of the startup script so far
+ * @returns The most recent phase marker, or null if none was printed yet
+ */
+export function parseStartupPhase(stdout: string): GatewayPhase | null {
+  let phase: GatewayPhase | null = null;
+  for (const match of stdout.matchAll(PHASE_MARKER)) {
+    phase = match[1] as GatewayPhase;
+  }
+  return phase;
+}
+
+/**
+ * Find the latest startup step reported by start-openclaw.sh
+ *
+ * @param stdout - Output of the startup script so far
+ * @returns The most recent progress message, or null if none was printed yet
+ */
+export function parseStartupProgress(stdout: string): string | null {
+  let progress: string | null = null;
+  for (const match of stdout.matchAll(PROGRESS_MARKER)) {
+    progress = match[1].trim();
+  }
+  return progress;
+}
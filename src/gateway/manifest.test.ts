@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SYNC_DIRS,
+  diffManifests,
+  listLocalEntries,
+  parseManifest,
+  serializeManifest,
+  type ManifestEntry,
+  type SyncManifest,
+} from './manifest';
+import { DEFAULT_SYNC_POLICY, createSyncFilter } from './sync-policy';
+import { createMockExecResult, createMockSandbox } from '../test-utils';
+
+const HASH_A = 'a'.repeat(32);
+const HASH_B = 'b'.repeat(32);
+
+function manifestOf(...entries: ManifestEntry[]): SyncManifest {
+  return new Map(entries.map((entry) => [entry.path, entry]));
+}
+
+describe('parseManifest and serializeManifest', () => {
+  it('round-trip entries in path order', () => {
+    const manifest = manifestOf(
+      { path: 'workspace/notes.md', md5: HASH_B, size: 12 },
+      { path: 'openclaw/openclaw.json', md5: HASH_A, size: 2 },
+    );
+
+    const text = serializeManifest(manifest);
+
+    expect(text).toBe(
+      `# moltworker sync manifest v1\n${HASH_A}\t2\topenclaw/openclaw.json\n${HASH_B}\t12\tworkspace/notes.md\n`,
+    );
+    expect(parseManifest(text)).toEqual(manifest);
+  });
+
+  it('keep paths with spaces and tabs after the size', () => {
+    const text = serializeManifest(
+      manifestOf({ path: 'workspace/my notes\tdraft.md', md5: HASH_A, size: 1 }),
+    );
+    expect([...(parseManifest(text)?.keys() ?? [])]).toEqual(['workspace/my notes\tdraft.md']);
+  });
+
+  it('reject text that is not a manifest', () => {
+    expect(parseManifest('')).toBeNull();
+    expect(parseManifest('<Error><Code>NoSuchKey</Code></Error>')).toBeNull();
+  });
+});
+
+describe('diffManifests', () => {
+  it('finds new, changed and deleted files', () => {
+    const previous = manifestOf(
+      { path: 'workspace/same.md', md5: HASH_A, size: 1 },
+      { path: 'workspace/edited.md', md5: HASH_A, size: 1 },
+      { path: 'workspace/deleted.md', md5: HASH_A, size: 1 },
+    );
+    const current = manifestOf(
+      { path: 'workspace/same.md', md5: HASH_A, size: 1 },
+      { path: 'workspace/edited.md', md5: HASH_B, size: 3 },
+      { path: 'workspace/added.md', md5: HASH_B, size: 5 },
+    );
+
+    const { changed, deleted } = diffManifests(previous, current);
+
+    expect(changed.map((entry) => entry.path)).toEqual([
+      'workspace/edited.md',
+      'workspace/added.md',
+    ]);
+    expect(deleted).toEqual(['workspace/deleted.md']);
+  });
+});
+
+describe('listLocalEntries', () => {
+  const workspace = SYNC_DIRS[1];
+
+  it('hashes the files the sync policy selects', async () => {
+    const { sandbox, execMock, writeFileMock } = createMockSandbox();
+    execMock
+      .mockResolvedValueOnce(
+        createMockExecResult(
+          ['5\tnotes.md', '0\tmemory/empty.md', '9\tnode_modules/x/index.js'].join('\n'),
+        ),
+      )
+      .mockResolvedValueOnce(
+        createMockExecResult([`${HASH_B}  memory/empty.md`, `${HASH_A}  notes.md`].join('\n')),
+      );
+
+    const entries = await listLocalEntries(
+      sandbox,
+      workspace,
+      createSyncFilter(DEFAULT_SYNC_POLICY),
+    );
+
+    expect(entries).toEqual([
+      { path: 'workspace/memory/empty.md', md5: HASH_B, size: 0 },
+      { path: 'workspace/notes.md', md5: HASH_A, size: 5 },
+    ]);
+    const [listCommand] = execMock.mock.calls[0];
+    expect(listCommand).toContain('(cd /root/clawd && find . -type f');
+    expect(listCommand).toContain("! -path './skills/*'");
+    expect(writeFileMock).toHaveBeenCalledWith('/tmp/.sync-hash.list', 'memory/empty.md\nnotes.md');
+  });
+
+  it('leaves out files deleted before they were hashed', async () => {
+    const { sandbox, execMock } = createMockSandbox();
+    execMock
+      .mockResolvedValueOnce(createMockExecResult('5\tnotes.md\n3\tgone.md'))
+      .mockResolvedValueOnce(createMockExecResult(`${HASH_A}  notes.md`));
+
+    const entries = await listLocalEntries(
+      sandbox,
+      workspace,
+      createSyncFilter(DEFAULT_SYNC_POLICY),
+    );
+
+    expect(entries?.map((entry) => entry.path)).toEqual(['workspace/notes.md']);
+  });
+
+  it('returns null for a directory that does not exist', async () => {
+    const { sandbox, execMock } = createMockSandbox();
+    execMock.mockResolvedValue(createMockExecResult('missing\n'));
+
+    expect(
+      await listLocalEntries(sandbox, workspace, createSyncFilter(DEFAULT_SYNC_POLICY)),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { SyncFilter } from './sync-policy';
+
+/**
+ * Sync manifest: the MD5 and size of every file persisted in R2, so a sync
+ * uploads only what changed and deletes exactly what was removed.
+ *
+ * Stored in R2 as `sync-manifest.tsv` next to openclaw/, workspace/ and
+ * skills/, and cached in the container after every sync. One line per file:
+ * "<md5>\t<size>\t<path>", where the path starts with the directory name.
+ * The background loop in start-openclaw.sh reads and writes the same format.
+ */
+
+const MANIFEST_HEADER = '# moltworker sync manifest v1';
+
+/** Object name of the manifest, under the sandbox's R2 prefix */
+export const MANIFEST_NAME = 'sync-manifest.tsv';
+
+/** Manifest of the last successful sync, kept in the container */
+export const LOCAL_MANIFEST_PATH = '/tmp/.sync-manifest.tsv';
+
+const LIST_TIMEOUT_MS = 120_000;
+
+/** Printed instead of a listing when a directory does not exist */
+const MISSING_DIR = 'missing';
+
+/** Files to hash, handed to md5sum */
+const HASH_LIST_PATH = '/tmp/.sync-hash.list';
+
+/**
+ * find filters for the skills, which are persisted as their own directory.
+ * What else is synced is up to the sync policy (see sync-policy.ts).
+ */
+const WORKSPACE_FILTERS = "! -path './skills/*'";
+
+export interface SyncDir {
+  /** Directory in R2: openclaw, workspace or skills */
+  name: string;
+  /** Directory in the container; the config directory is detected at sync time */
+  local: string;
+  filters: string;
+}
+
+/**
+ * Directories persisted to R2, in the order they are synced. The config
+ * comes first: a sync fails if it can't be saved.
+ */
+export const SYNC_DIRS: readonly SyncDir[] = [
+  { name: 'openclaw', local: '/root/.openclaw', filters: '' },
+  { name: 'workspace', local: '/root/clawd', filters: WORKSPACE_FILTERS },
+  { name: 'skills', local: '/root/clawd/skills', filters: '' },
+];
+
+export interface ManifestEntry {
+  /** Path in R2 relative to the sandbox's prefix, e.g. "workspace/notes.md" */
+  path: string;
+  md5: string;
+  size: number;
+}
+
+export type SyncManifest = Map<string, ManifestEntry>;
+
+export interface ManifestDiff {
+  /** Files that are new or whose content changed */
+  changed: ManifestEntry[];
+  /** Paths of files that no longer exist */
+  deleted: string[];
+}
+
+/**
+ * Where a sync writes files: the R2 API through rclone, or the bucket binding
+ */
+export interface SyncTarget {
+  /** A small object under the sandbox's prefix, like the manifest, or null if there is none */
+  readText(name: string): Promise<string | null>;
+  writeText(name: string, text: string): Promise<void>;
+  /** What R2 holds for a directory, for the first sync without a manifest */
+  listFiles(dir: SyncDir): Promise<ManifestEntry[]>;
+  /** Upload files of a container directory, by path relative to it */
+  upload(dir: SyncDir, files: { path: string; size: number }[]): Promise<void>;
+  /** Delete files of a directory from R2, by path relative to it */
+  remove(dir: SyncDir, paths: string[]): Promise<void>;
+}
+
+/**
+ * @returns The manifest, or null if the text is not a sync manifest
+ */
+export function parseManifest(text: string): SyncManifest | null {
+  if (!text.startsWith(MANIFEST_HEADER)) return null;
+  const manifest: SyncManifest = new Map();
+  for (const line of text.split('\n')) {
+    const match = /^([0-9a-f]{32})\t(\d+)\t(.+)$/.exec(line);
+    if (match) {
+      manifest.set(match[3], { md5: match[1], size: Number(match[2]), path: match[3] });
+    }
+  }
+  return manifest;
+}
+
+export function serializeManifest(manifest: SyncManifest): string {
+  const lines = [...manifest.values()].map((entry) => `${entry.md5}\t${entry.size}\t${entry.path}`);
+  lines.sort();
+  return `${[MANIFEST_HEADER, ...lines].join('\n')}\n`;
+}
+
+/**
+ * Compare the files in the container with the last synced manifest
+ */
+export function diffManifests(previous: SyncManifest, current: SyncManifest): ManifestDiff {
+  const changed = [...current.values()].filter(
+    (entry) => previous.get(entry.path)?.md5 !== entry.md5,
+  );
+  const deleted = [...previous.keys()].filter((path) => !current.has(path));
+  return { changed, deleted };
+}
+
+/**
+ * Hash the files of a container directory that the sync policy persists
+ *
+ * @returns Entries with paths prefixed by the directory's name in R2, or
+ *   null if the directory does not exist
+ */
+export async function listLocalEntries(
+  sandbox: Sandbox,
+  dir: SyncDir,
+  filter: SyncFilter,
+): Promise<ManifestEntry[] | null> {
+  // In a subshell, so the session's working directory is left alone
+  const listing = await sandbox.exec(
+    `if [ -d ${dir.local} ]; then (cd ${dir.local} && find . -type f ${dir.filters} -printf '%s\\t%P\\n'); else echo ${MISSING_DIR}; fi`,
+    { timeout: LIST_TIMEOUT_MS },
+  );
+  if (listing.stdout?.trim() === MISSING_DIR) return null;
+
+  const files: ManifestEntry[] = [];
+  for (const line of (listing.stdout || '').split('\n')) {
+    const match = /^(\d+)\t(.+)$/.exec(line);
+    if (match) files.push({ path: `${dir.name}/${match[2]}`, md5: '', size: Number(match[1]) });
+  }
+  // Only what is synced is hashed, so excluded trees like node_modules cost a listing at most
+  const selected = filter.select(files);
+  if (selected.length === 0) return [];
+
+  const relative = (path: string) => path.slice(dir.name.length + 1);
+  await sandbox.writeFile(HASH_LIST_PATH, selected.map((entry) => relative(entry.path)).join('\n'));
+  const result = await sandbox.exec(
+    `(cd ${dir.local} && tr '\\n' '\\0' < ${HASH_LIST_PATH} | xargs -0 -r md5sum --)`,
+    { timeout: LIST_TIMEOUT_MS },
+  );
+
+  const hashes = new Map<string, string>();
+  for (const line of (result.stdout || '').split('\n')) {
+    // md5sum escapes names containing newlines or backslashes with a leading "\"; skip those
+    const hash = /^([0-9a-f]{32}) [ *](.+)$/.exec(line);
+    if (hash) hashes.set(hash[2], hash[1]);
+  }
+  // A file deleted since it was listed has no hash, and is left out
+  return selected.flatMap((entry) => {
+    const md5 = hashes.get(relative(entry.path));
+    return md5 ? [{ ...entry, md5 }] : [];
+  });
+}
+
+/**
+ * Read the manifest of the last sync from the container's cache
+ *
+ * @returns The manifest text, or null if this container hasn't synced yet
+ */
+export async function readLocalManifest(sandbox: Sandbox): Promise<string | null> {
+  const result = await sandbox.exec(`cat ${LOCAL_MANIFEST_PATH} 2>/dev/null || true`);
+  return result.stdout || null;
+}
+
+export async function writeLocalManifest(sandbox: Sandbox, text: string): Promise<void> {
+  await sandbox.writeFile(LOCAL_MANIFEST_PATH, text);
+}
+
+/**
+ * Forget the last synced state, so the next sync compares against R2 itself.
+ * Needed whenever R2 changes behind the sync's back, like a snapshot restore.
+ */
+export async function clearLocalManifest(sandbox: Sandbox): Promise<void> {
+  await sandbox.exec(`rm -f ${LOCAL_MANIFEST_PATH}`);
+}
@@ -0,0 +1,302 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  MigrationError,
+  archiveLegacyBackup,
+  getLegacyStatus,
+  migrateLegacyConfig,
+  migrateLegacyData,
+  planMigration,
+} from './migration';
+import {
+  createFakeBucket,
+  createMockEnv,
+  createMockEnvWithR2,
+  createMockExecResult,
+  createMockSandbox,
+  suppressConsole,
+} from '../test-utils';
+
+const LEGACY_CONFIG = JSON.stringify({
+  agent: { model: 'anthropic/claude-sonnet-4-5', workspace: '/root/.clawdbot/workspace' },
+  telegram: { botToken: 'telegram-token' },
+  gateway: { token: 'gateway-token' },
+});
+
+interface ContainerState {
+  /** Files of /root/.clawdbot as `size\tpath` lines */
+  legacy?: string;
+  /** Files of /root/.openclaw as `size\tpath` lines */
+  current?: string;
+  /** Output of rclone lsjson for clawdbot/ */
+  remote?: { Path: string; Size: number }[];
+  config?: string;
+}
+
+/**
+ * Answer the commands of a migration by what they do; everything else
+ * succeeds silently
+ */
+function migrationSandbox(state: ContainerState = {}) {
+  const mock = createMockSandbox();
+  mock.execMock.mockImplementation(async (command: string) => {
+    if (command.startsWith('test -f /tmp/.rclone-configured')) return createMockExecResult('yes');
+    if (command.includes('find /root/.clawdbot ')) return createMockExecResult(state.legacy ?? '');
+    if (command.includes('find /root/.openclaw ')) return createMockExecResult(state.current ?? '');
+    if (command.startsWith('test -f /root/.openclaw/openclaw.json')) {
+      return createMockExecResult(state.current?.includes('openclaw.json') ? 'yes' : 'no');
+    }
+    if (command.startsWith('rclone lsjson')) {
+      return createMockExecResult(JSON.stringify(state.remote ?? []));
+    }
+    if (command === 'cat /root/.clawdbot/clawdbot.json' || command.startsWith('rclone cat')) {
+      return createMockExecResult(state.config ?? LEGACY_CONFIG);
+    }
+    return createMockExecResult();
+  });
+  return mock;
+}
+
+function commands(execMock: ReturnType<typeof createMockSandbox>['execMock']): string[] {
+  return execMock.mock.calls.map(([command]) => command as string);
+}
+
+describe('migrateLegacyConfig', () => {
+  it('moves keys to their current place', () => {
+    const config = JSON.parse(LEGACY_CONFIG);
+
+    const changes = migrateLegacyConfig(config);
+
+    expect(config).toEqual({
+      agents: {
+        defaults: {
+          model: 'anthropic/claude-sonnet-4-5',
+          workspace: '/root/.openclaw/workspace',
+        },
+      },
+      channels: { telegram: { botToken: 'telegram-token' } },
+      gateway: { auth: { token: 'gateway-token' } },
+    });
+    expect(changes).toEqual([
+      { action: 'moved', path: 'agent', to: 'agents.defaults' },
+      { action: 'moved', path: 'telegram', to: 'channels.telegram' },
+      { action: 'moved', path: 'gateway.token', to: 'gateway.auth.token' },
+      { action: 'rewritten', path: 'agents.defaults.workspace' },
+    ]);
+  });
+
+  it('nests the Discord DM settings', () => {
+    const config: Record<string, unknown> = {
+      discord: { token: 'discord-token', dmPolicy: 'pairing', allowFrom: ['123'] },
+    };
+
+    migrateLegacyConfig(config);
+
+    expect(config).toEqual({
+      channels: {
+        discord: { token: 'discord-token', dm: { policy: 'pairing', allowFrom: ['123'] } },
+      },
+    });
+  });
+
+  it('drops a key whose new place is taken', () => {
+    const config: Record<string, unknown> = {
+      telegram: { botToken: 'old' },
+      channels: { telegram: { botToken: 'new' } },
+    };
+
+    const changes = migrateLegacyConfig(config);
+
+    expect(config).toEqual({ channels: { telegram: { botToken: 'new' } } });
+    expect(changes).toEqual([{ action: 'dropped', path: 'telegram' }]);
+  });
+});
+
+describe('getLegacyStatus', () => {
+  it('reports legacy data in R2 and in the container', async () => {
+    const { sandbox } = migrationSandbox({
+      legacy: '120\tclawdbot.json\n30\tidentity/device.json',
+      current: '80\topenclaw.json',
+      remote: [{ Path: 'clawdbot.json', Size: 100 }],
+    });
+
+    const status = await getLegacyStatus(sandbox, createMockEnvWithR2());
+
+    expect(status).toEqual({
+      r2: { files: 1, bytes: 100, hasConfig: true },
+      container: { files: 2, bytes: 150, hasConfig: true },
+      hasConfig: true,
+    });
+  });
+
+  it('leaves out R2 when it is not configured', async () => {
+    const { sandbox } = migrationSandbox();
+
+    const status = await getLegacyStatus(sandbox, createMockEnv());
+
+    expect(status).toEqual({ r2: null, container: null, hasConfig: false });
+  });
+});
+
+describe('planMigration', () => {
+  it('prefers the legacy directory in the container', async () => {
+    const { sandbox } = migrationSandbox({
+      legacy: '120\tclawdbot.json\n30\tidentity/device.json\n10\tcredentials/telegram.json',
+      current: '10\tcredentials/telegram.json',
+      remote: [{ Path: 'clawdbot.json', Size: 100 }],
+    });
+
+    const plan = await planMigration(sandbox, createMockEnvWithR2());
+
+    expect(plan).toMatchObject({
+      source: 'container',
+      files: ['identity/device.json'],
+      conflicts: ['credentials/telegram.json'],
+      replacesConfig: false,
+      archivesR2: true,
+    });
+    expect(plan.changes).toHaveLength(4);
+  });
+
+  it('falls back to the legacy backup in R2', async () => {
+    const { sandbox } = migrationSandbox({
+      remote: [
+        { Path: 'clawdbot.json', Size: 100 },
+        { Path: 'identity/device.json', Size: 30 },
+      ],
+    });
+
+    const plan = await planMigration(sandbox, createMockEnvWithR2());
+
+    expect(plan.source).toBe('r2');
+    expect(plan.files).toEqual(['identity/device.json']);
+  });
+
+  it('fails without a legacy config', async () => {
+    const { sandbox } = migrationSandbox({ legacy: '30\tidentity/device.json' });
+
+    await expect(planMigration(sandbox, createMockEnv())).rejects.toThrow(MigrationError);
+  });
+
+  it('fails on a legacy config that is not JSON', async () => {
+    const { sandbox } = migrationSandbox({ legacy: '5\tclawdbot.json', config: '{ nope' });
+
+    await expect(planMigration(sandbox, createMockEnv())).rejects.toThrow(/not valid JSON/);
+  });
+});
+
+describe('migrateLegacyData', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('refuses to replace openclaw.json without overwrite', async () => {
+    const { sandbox, writeFileMock } = migrationSandbox({
+      legacy: '120\tclawdbot.json',
+      current: '80\topenclaw.json',
+    });
+
+    await expect(migrateLegacyData(sandbox, createMockEnv())).rejects.toThrow(MigrationError);
+    expect(writeFileMock).not.toHaveBeenCalled();
+  });
+
+  it('copies the legacy directory and moves it out of the way', async () => {
+    const { sandbox, execMock, writeFileMock } = migrationSandbox({
+      legacy: '120\tclawdbot.json\n30\tidentity/device.json',
+      current: '80\topenclaw.json',
+    });
+
+    const result = await migrateLegacyData(sandbox, createMockEnv(), true);
+
+    expect(commands(execMock)).toContain(
+      'mkdir -p /root/.openclaw && cp -rn /root/.clawdbot/. /root/.openclaw/ && rm -f /root/.openclaw/clawdbot.json',
+    );
+    const [path, content] = writeFileMock.mock.calls[0];
+    expect(path).toBe('/root/.openclaw/openclaw.json');
+    expect(JSON.parse(content).gateway).toEqual({ auth: { token: 'gateway-token' } });
+    expect(result.movedTo).toMatch(/^\/root\/\.clawdbot\.migrated-\d{8}T\d{6}Z$/);
+    expect(commands(execMock)).toContain(`mv /root/.clawdbot ${result.movedTo}`);
+  });
+
+  it('downloads a legacy backup from R2 first', async () => {
+    const { sandbox, execMock } = migrationSandbox({
+      remote: [{ Path: 'clawdbot.json', Size: 100 }],
+    });
+
+    const result = await migrateLegacyData(sandbox, createMockEnvWithR2());
+
+    const run = commands(execMock);
+    const download = run.findIndex((command) =>
+      command.startsWith('rclone copy r2:moltbot-data/clawdbot/ /tmp/.clawdbot-migration/'),
+    );
+    expect(download).toBeGreaterThan(-1);
+    expect(run.slice(download)).toContain(
+      'mkdir -p /root/.openclaw && cp -rn /tmp/.clawdbot-migration/. /root/.openclaw/ && rm -f /root/.openclaw/clawdbot.json',
+    );
+    expect(result.movedTo).toBeNull();
+  });
+
+  it('holds the sync lock and advances the generation before releasing it', async () => {
+    const { sandbox, execMock, startProcessMock, writeFileMock } = migrationSandbox({
+      legacy: '120\tclawdbot.json',
+    });
+
+    await migrateLegacyData(sandbox, createMockEnvWithR2());
+
+    const [holder] = startProcessMock.mock.calls[0] as [string];
+    expect(holder).toMatch(/^flock -w 60 \/tmp\/\.r2-sync\.lock /);
+    const held = /touch (\S+);/.exec(holder)?.[1];
+    const run = commands(execMock);
+    const copy = run.findIndex((command) => command.includes('cp -rn /root/.clawdbot/.'));
+    expect(run.findIndex((command) => command.includes(`until [ -e ${held} ]`))).toBeLessThan(copy);
+    expect(run[run.length - 1]).toBe(`rm -f ${held}`);
+    expect(writeFileMock).toHaveBeenCalledWith(
+      '/tmp/.sync-generation.json',
+      expect.stringContaining('"generation":1'),
+    );
+  });
+});
+
+describe('archiveLegacyBackup', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('moves the legacy backup under legacy/ through the binding', async () => {
+    const { sandbox } = createMockSandbox();
+    const { bucket, objects } = createFakeBucket({
+      entries: {
+        'clawdbot/clawdbot.json': '{}',
+        'clawdbot/identity/device.json': '{"id":1}',
+        'openclaw/openclaw.json': '{}',
+      },
+    });
+
+    const archived = await archiveLegacyBackup(
+      sandbox,
+      createMockEnv({ R2_SYNC_MODE: 'binding', MOLTBOT_BUCKET: bucket }),
+    );
+
+    expect(archived).toMatch(/^legacy\/clawdbot-\d{8}T\d{6}Z\/$/);
+    const keys = [...objects.keys()];
+    keys.sort();
+    expect(keys).toEqual([
+      `${archived}clawdbot.json`,
+      `${archived}identity/device.json`,
+      'openclaw/openclaw.json',
+      // Restores no longer find the backup, which other containers should notice
+      'sync-generation.json',
+    ]);
+  });
+
+  it('does nothing without a legacy backup', async () => {
+    const { sandbox } = createMockSandbox();
+    const { bucket } = createFakeBucket({ entries: { 'openclaw/openclaw.json': '{}' } });
+
+    const archived = await archiveLegacyBackup(
+      sandbox,
+      createMockEnv({ R2_SYNC_MODE: 'binding', MOLTBOT_BUCKET: bucket }),
+    );
+
+    expect(archived).toBeNull();
+  });
+});
@@ -0,0 +1,495 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { getR2Prefix } from '../config';
+import { RCLONE_FLAGS, ensureRcloneConfig, getR2SyncMode, rcloneRemote } from './r2';
+import { writeContainerFiles } from './container-files';
+import { withSyncLock } from './sync';
+import type { TarEntry } from './tar';
+
+/**
+ * Migration of data left by Clawdbot, as OpenClaw was called before:
+ *
+ * - R2: a backup of the config directory under clawdbot/, with clawdbot.json
+ * - Container: the config directory /root/.clawdbot, with clawdbot.json
+ *
+ * Migrating copies the legacy config directory into /root/.openclaw, moving
+ * config keys whose place changed since, and moves the legacy data out of
+ * the way: the container directory to /root/.clawdbot.migrated-<timestamp>
+ * and, once the result is synced, the R2 prefix to
+ * legacy/clawdbot-<timestamp>/. A dry run reports the same plan without
+ * changing anything.
+ */
+
+const LEGACY_NAME = 'clawdbot';
+const LEGACY_DIR = '/root/.clawdbot';
+const LEGACY_CONFIG = 'clawdbot.json';
+const CONFIG_DIR = '/root/.openclaw';
+const CONFIG_NAME = 'openclaw.json';
+
+/** Where a legacy backup in R2 is downloaded to before it is migrated */
+const STAGING_DIR = '/tmp/.clawdbot-migration';
+
+/** Prefix in R2 that migrated legacy backups are archived under */
+const ARCHIVE_PREFIX = 'legacy/';
+
+const COPY_TIMEOUT_MS = 300_000;
+
+/** R2 deletes at most 1000 keys per call */
+const DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Config keys whose place changed since Clawdbot, applied in order, as dot
+ * paths. A key whose new place is already taken is dropped.
+ */
+const CONFIG_MOVES: readonly { from: string; to: string }[] = [
+  { from: 'agent', to: 'agents.defaults' },
+  { from: 'telegram', to: 'channels.telegram' },
+  { from: 'discord', to: 'channels.discord' },
+  { from: 'slack', to: 'channels.slack' },
+  { from: 'whatsapp', to: 'channels.whatsapp' },
+  { from: 'gateway.token', to: 'gateway.auth.token' },
+  // Discord's DM settings are nested (DiscordDmConfig)
+  { from: 'channels.discord.dmPolicy', to: 'channels.discord.dm.policy' },
+  { from: 'channels.discord.allowFrom', to: 'channels.discord.dm.allowFrom' },
+];
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+export interface LegacyLocation {
+  files: number;
+  bytes: number;
+  /** Whether clawdbot.json is among the files */
+  hasConfig: boolean;
+}
+
+export interface LegacyStatus {
+  /** The legacy backup in R2, or null if there is none or R2 is not configured */
+  r2: LegacyLocation | null;
+  /** The legacy config directory in the container, or null if there is none */
+  container: LegacyLocation | null;
+  /** Whether the container already has an OpenClaw config */
+  hasConfig: boolean;
+}
+
+export interface ConfigChange {
+  action: 'moved' | 'dropped' | 'rewritten';
+  /** Dot path of the key in the legacy config */
+  path: string;
+  /** Where a moved key ends up */
+  to?: string;
+}
+
+export interface MigrationPlan {
+  /** Where the legacy config is migrated from; the container's copy is the newer */
+  source: 'container' | 'r2';
+  changes: ConfigChange[];
+  /** Files copied into the OpenClaw config directory besides the config */
+  files: string[];
+  /** Files that already exist in the OpenClaw config directory; those are kept */
+  conflicts: string[];
+  /** Whether the migrated config replaces an existing openclaw.json */
+  replacesConfig: boolean;
+  /** Whether the legacy backup in R2 is archived after the migration */
+  archivesR2: boolean;
+}
+
+export interface MigrationResult extends MigrationPlan {
+  /** Where the legacy config directory in the container was moved, if there was one */
+  movedTo: string | null;
+}
+
+interface LegacyFile {
+  path: string;
+  size: number;
+}
+
+/**
+ * The legacy backup in R2, through rclone or the MOLTBOT_BUCKET binding
+ */
+interface LegacyBackup {
+  list(): Promise<LegacyFile[]>;
+  readConfig(): Promise<string | null>;
+  /** Copy every file into a container directory */
+  download(dir: string): Promise<void>;
+  /** Move every file under another prefix */
+  archive(prefix: string): Promise<void>;
+}
+
+async function run(sandbox: Sandbox, command: string, failure: string): Promise<string> {
+  const result = await sandbox.exec(command, { timeout: COPY_TIMEOUT_MS });
+  if (!result.success) {
+    const stderr = result.stderr?.trim().slice(-500);
+    throw new Error(stderr ? `${failure}: ${stderr}` : failure);
+  }
+  return result.stdout || '';
+}
+
+function timestamp(date: Date = new Date()): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+function rcloneBackup(sandbox: Sandbox, env: MoltbotEnv): LegacyBackup {
+  const remote = rcloneRemote(env, `${LEGACY_NAME}/`);
+  return {
+    async list() {
+      // A bucket without a legacy backup has no clawdbot/ directory to list
+      const stdout = await run(
+        sandbox,
+        `rclone lsjson -R --files-only ${remote} ${RCLONE_FLAGS} 2>/dev/null || echo '[]'`,
+        'Failed to list the legacy backup',
+      );
+      const entries = JSON.parse(stdout || '[]') as { Path: string; Size: number }[];
+      return entries.map((entry) => ({ path: entry.Path, size: entry.Size }));
+    },
+    async readConfig() {
+      const result = await sandbox.exec(`rclone cat ${remote}${LEGACY_CONFIG} ${RCLONE_FLAGS}`, {
+        timeout: COPY_TIMEOUT_MS,
+      });
+      return result.success ? result.stdout || '' : null;
+    },
+    async download(dir) {
+      await run(
+        sandbox,
+        `rclone copy ${remote} ${dir}/ ${RCLONE_FLAGS}`,
+        'Failed to download the legacy backup',
+      );
+    },
+    async archive(prefix) {
+      await run(
+        sandbox,
+        `rclone move ${remote} ${rcloneRemote(env, prefix)} --delete-empty-src-dirs ${RCLONE_FLAGS}`,
+        'Failed to archive the legacy backup',
+      );
+    },
+  };
+}
+
+function bindingBackup(sandbox: Sandbox, env: MoltbotEnv): LegacyBackup {
+  const bucket = env.MOLTBOT_BUCKET;
+  const prefix = `${getR2Prefix(env)}${LEGACY_NAME}/`;
+
+  async function keys(): Promise<R2Object[]> {
+    const objects: R2Object[] = [];
+    let cursor: string | undefined;
+    do {
+      // eslint-disable-next-line no-await-in-loop -- listing pages are sequential
+      const page = await bucket.list({ prefix, cursor });
+      objects.push(...page.objects);
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+    return objects;
+  }
+
+  return {
+    async list() {
+      return (await keys()).map((object) => ({
+        path: object.key.slice(prefix.length),
+        size: object.size,
+      }));
+    },
+    async readConfig() {
+      const object = await bucket.get(`${prefix}${LEGACY_CONFIG}`);
+      return object ? object.text() : null;
+    },
+    async download(dir) {
+      const files = await Promise.all(
+        (await keys()).map(async (object): Promise<TarEntry> => {
+          const body = await bucket.get(object.key);
+          return {
+            path: object.key.slice(prefix.length),
+            data: new Uint8Array(body ? await body.arrayBuffer() : new ArrayBuffer(0)),
+          };
+        }),
+      );
+      await writeContainerFiles(sandbox, dir, files);
+    },
+    async archive(target) {
+      const objects = await keys();
+      const archivePrefix = `${getR2Prefix(env)}${target}`;
+      for (const object of objects) {
+        // eslint-disable-next-line no-await-in-loop -- one object in memory at a time
+        const body = await bucket.get(object.key);
+        if (!body) continue;
+        // eslint-disable-next-line no-await-in-loop
+        const data = await body.arrayBuffer();
+        // eslint-disable-next-line no-await-in-loop
+        await bucket.put(`${archivePrefix}${object.key.slice(prefix.length)}`, data);
+      }
+      for (let i = 0; i < objects.length; i += DELETE_BATCH_SIZE) {
+        // eslint-disable-next-line no-await-in-loop -- batches are small and sequential
+        await bucket.delete(objects.slice(i, i + DELETE_BATCH_SIZE).map((object) => object.key));
+      }
+    },
+  };
+}
+
+/**
+ * @returns The legacy backup in R2, or null if R2 is not configured
+ */
+async function legacyBackup(sandbox: Sandbox, env: MoltbotEnv): Promise<LegacyBackup | null> {
+  const mode = getR2SyncMode(env);
+  if (mode === 'binding') return bindingBackup(sandbox, env);
+  if (mode === 'rclone' && (await ensureRcloneConfig(sandbox, env))) {
+    return rcloneBackup(sandbox, env);
+  }
+  return null;
+}
+
+async function listContainerFiles(sandbox: Sandbox, dir: string): Promise<LegacyFile[]> {
+  const result = await sandbox.exec(
+    `if [ -d ${dir} ]; then find ${dir} -type f -printf '%s\\t%P\\n'; fi`,
+  );
+  const files: LegacyFile[] = [];
+  for (const line of (result.stdout || '').split('\n')) {
+    const tab = line.indexOf('\t');
+    if (tab > 0) files.push({ size: Number(line.slice(0, tab)), path: line.slice(tab + 1) });
+  }
+  return files;
+}
+
+function locationOf(files: LegacyFile[]): LegacyLocation | null {
+  if (files.length === 0) return null;
+  return {
+    files: files.length,
+    bytes: files.reduce((total, file) => total + file.size, 0),
+    hasConfig: files.some((file) => file.path === LEGACY_CONFIG),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * @returns The object holding the last key of the path, and that key;
+ *   null if a parent is missing and `create` is false
+ */
+function parentOf(
+  config: Record<string, unknown>,
+  path: string,
+  create: boolean,
+): { parent: Record<string, unknown>; key: string } | null {
+  const keys = path.split('.');
+  let parent = config;
+  for (const key of keys.slice(0, -1)) {
+    if (!isObject(parent[key])) {
+      if (!create || key in parent) return null;
+      parent[key] = {};
+    }
+    parent = parent[key] as Record<string, unknown>;
+  }
+  return { parent, key: keys[keys.length - 1] };
+}
+
+/**
+ * Replace legacy directory paths in string values, e.g. a workspace under
+ * /root/.clawdbot
+ */
+function rewritePaths(value: unknown, path: string, changes: ConfigChange[]): unknown {
+  if (typeof value === 'string') {
+    if (!value.includes(LEGACY_DIR)) return value;
+    changes.push({ action: 'rewritten', path });
+    return value.split(LEGACY_DIR).join(CONFIG_DIR);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => rewritePaths(item, `${path}.${i}`, changes));
+  }
+  if (isObject(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      value[key] = rewritePaths(item, path ? `${path}.${key}` : key, changes);
+    }
+  }
+  return value;
+}
+
+/**
+ * Move the keys of a legacy config to their current place, in place
+ *
+ * @returns The changes made, in order
+ */
+export function migrateLegacyConfig(config: Record<string, unknown>): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  for (const move of CONFIG_MOVES) {
+    const from = parentOf(config, move.from, false);
+    if (!from || !(from.key in from.parent)) continue;
+    const value = from.parent[from.key];
+    delete from.parent[from.key];
+
+    const to = parentOf(config, move.to, true);
+    if (!to || to.key in to.parent) {
+      changes.push({ action: 'dropped', path: move.from });
+    } else {
+      to.parent[to.key] = value;
+      changes.push({ action: 'moved', path: move.from, to: move.to });
+    }
+  }
+  rewritePaths(config, '', changes);
+  return changes;
+}
+
+function parseConfig(text: string | null): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text ?? '');
+  } catch {
+    throw new MigrationError(`The legacy ${LEGACY_CONFIG} is not valid JSON`);
+  }
+  if (!isObject(parsed)) throw new MigrationError(`The legacy ${LEGACY_CONFIG} is not an object`);
+  return parsed;
+}
+
+/**
+ * What legacy data exists in R2 and in the container
+ */
+export async function getLegacyStatus(sandbox: Sandbox, env: MoltbotEnv): Promise<LegacyStatus> {
+  const backup = await legacyBackup(sandbox, env);
+  const check = await sandbox.exec(`test -f ${CONFIG_DIR}/${CONFIG_NAME} && echo yes || echo no`);
+  return {
+    r2: backup ? locationOf(await backup.list()) : null,
+    container: locationOf(await listContainerFiles(sandbox, LEGACY_DIR)),
+    hasConfig: check.stdout?.trim() === 'yes',
+  };
+}
+
+interface PreparedMigration {
+  plan: MigrationPlan;
+  config: Record<string, unknown>;
+  backup: LegacyBackup | null;
+}
+
+async function prepareMigration(sandbox: Sandbox, env: MoltbotEnv): Promise<PreparedMigration> {
+  const backup = await legacyBackup(sandbox, env);
+  const remoteFiles = backup ? await backup.list() : [];
+  const localFiles = await listContainerFiles(sandbox, LEGACY_DIR);
+
+  let source: MigrationPlan['source'];
+  let files: LegacyFile[];
+  let configText: string | null;
+  if (locationOf(localFiles)?.hasConfig) {
+    source = 'container';
+    files = localFiles;
+    configText = (await sandbox.exec(`cat ${LEGACY_DIR}/${LEGACY_CONFIG}`)).stdout || '';
+  } else if (backup && locationOf(remoteFiles)?.hasConfig) {
+    source = 'r2';
+    files = remoteFiles;
+    configText = await backup.readConfig();
+  } else {
+    throw new MigrationError('No legacy Clawdbot config found in R2 or in the container');
+  }
+
+  const config = parseConfig(configText);
+  const changes = migrateLegacyConfig(config);
+  const existing = new Set(
+    (await listContainerFiles(sandbox, CONFIG_DIR)).map((file) => file.path),
+  );
+  const copied = files.map((file) => file.path).filter((path) => path !== LEGACY_CONFIG);
+  copied.sort();
+
+  return {
+    config,
+    backup: remoteFiles.length > 0 ? backup : null,
+    plan: {
+      source,
+      changes,
+      files: copied.filter((path) => !existing.has(path)),
+      conflicts: copied.filter((path) => existing.has(path)),
+      replacesConfig: existing.has(CONFIG_NAME),
+      archivesR2: remoteFiles.length > 0,
+    },
+  };
+}
+
+/**
+ * Work out what a migration would do, without changing anything
+ *
+ * @throws MigrationError if there is no legacy config to migrate
+ */
+export async function planMigration(sandbox: Sandbox, env: MoltbotEnv): Promise<MigrationPlan> {
+  return (await prepareMigration(sandbox, env)).plan;
+}
+
+/**
+ * Migrate the legacy config directory into the container's OpenClaw config
+ * directory. Files already there are kept. Sync to R2 afterwards, then
+ * archive the legacy backup with archiveLegacyBackup, and restart the
+ * gateway to load the migrated config. Runs under the sync lock, and claims
+ * R2's data for this container once done.
+ *
+ * @param overwrite - Replace an existing openclaw.json with the migrated config
+ * @throws MigrationError if there is nothing to migrate, or the config would be replaced without `overwrite`
+ */
+export async function migrateLegacyData(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  overwrite = false,
+): Promise<MigrationResult> {
+  return withSyncLock(sandbox, env, async () => {
+    const { plan, config, backup } = await prepareMigration(sandbox, env);
+    if (plan.replacesConfig && !overwrite) {
+      throw new MigrationError(
+        `${CONFIG_DIR}/${CONFIG_NAME} already exists; migrate with overwrite to replace it`,
+      );
+    }
+
+    let dir = LEGACY_DIR;
+    if (plan.source === 'r2' && backup) {
+      await run(sandbox, `rm -rf ${STAGING_DIR} && mkdir -p ${STAGING_DIR}`, 'Failed to stage');
+      await backup.download(STAGING_DIR);
+      dir = STAGING_DIR;
+    }
+
+    await run(
+      sandbox,
+      `mkdir -p ${CONFIG_DIR} && cp -rn ${dir}/. ${CONFIG_DIR}/ && rm -f ${CONFIG_DIR}/${LEGACY_CONFIG}`,
+      'Failed to copy the legacy config directory',
+    );
+    await sandbox.writeFile(`${CONFIG_DIR}/${CONFIG_NAME}`, `${JSON.stringify(config, null, 2)}\n`);
+
+    let movedTo: string | null = null;
+    if (plan.source === 'container') {
+      movedTo = `${LEGACY_DIR}.migrated-${timestamp()}`;
+      // Otherwise syncs would keep finding the legacy directory
+      await run(
+        sandbox,
+        `mv ${LEGACY_DIR} ${movedTo}`,
+        'Failed to move the legacy config directory',
+      );
+    } else {
+      await sandbox.exec(`rm -rf ${STAGING_DIR}`);
+    }
+
+    console.log(
+      `[Gateway] Migrated legacy config from ${plan.source}: ${plan.changes.length} config changes, ${plan.files.length} files`,
+    );
+    return { ...plan, movedTo };
+  });
+}
+
+/**
+ * Move the legacy backup in R2 under legacy/, so restores no longer fall
+ * back to it
+ *
+ * @returns Where it was archived, or null if there was nothing to archive
+ */
+export async function archiveLegacyBackup(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+): Promise<string | null> {
+  const backup = await legacyBackup(sandbox, env);
+  if (!backup || (await backup.list()).length === 0) return null;
+  // Restores fall back to the legacy backup, so moving it changes what they find
+  return withSyncLock(sandbox, env, async () => {
+    const prefix = `${ARCHIVE_PREFIX}${LEGACY_NAME}-${timestamp()}/`;
+    await backup.archive(prefix);
+    console.log(`[Gateway] Archived the legacy backup to ${prefix}`);
+    return prefix;
+  });
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import { modelSettings, parseModelList, parseModelRef } from './models';
+
+const GATEWAY_VARS = {
+  CF_AI_GATEWAY_ACCOUNT_ID: 'acct',
+  CF_AI_GATEWAY_GATEWAY_ID: 'gw',
+  CLOUDFLARE_AI_GATEWAY_API_KEY: 'cf-key',
+};
+
+describe('parseModelRef', () => {
+  it('routes models by their provider', () => {
+    expect(parseModelRef('anthropic/claude-sonnet-4-5')).toEqual({
+      provider: 'anthropic',
+      gateway: false,
+      id: 'claude-sonnet-4-5',
+      contextWindow: 131072,
+      maxTokens: 8192,
+    });
+    expect(parseModelRef('ai-gateway/groq/llama-3.3-70b')).toMatchObject({
+      provider: 'groq',
+      gateway: true,
+      id: 'llama-3.3-70b',
+    });
+    expect(parseModelRef('workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast')).toMatchObject({
+      provider: 'workers-ai',
+      gateway: true,
+      id: '@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+    });
+  });
+
+  it('refuses unknown providers and missing model IDs', () => {
+    expect(() => parseModelRef('groq/llama-3.3-70b')).toThrow(/unknown provider "groq"/);
+    expect(() => parseModelRef('openai/')).toThrow(/must be provider\/model-id/);
+    expect(() => parseModelRef('ai-gateway/openai')).toThrow(/must be provider\/model-id/);
+  });
+});
+
+describe('parseModelList', () => {
+  it('reads strings and objects with limits, leaving out invalid entries', () => {
+    const { models, warnings } = parseModelList(
+      JSON.stringify([
+        { model: 'anthropic/claude-sonnet-4-5', contextWindow: 200000, maxTokens: 64000 },
+        'openai/gpt-4o',
+        { model: 'openai/gpt-4o-mini', maxTokens: 0 },
+        { model: 'openai/o3', temperature: 1 },
+        42,
+      ]),
+    );
+
+    expect(models.map((model) => [model.id, model.contextWindow, model.maxTokens])).toEqual([
+      ['claude-sonnet-4-5', 200000, 64000],
+      ['gpt-4o', 131072, 8192],
+    ]);
+    expect(warnings).toEqual([
+      'Left out an AI_MODELS entry: openai/gpt-4o-mini: maxTokens must be a whole number from 1 to 10000000',
+      'Left out an AI_MODELS entry: openai/o3: unknown field temperature',
+      'Left out an AI_MODELS entry: entries must be "provider/model-id" or an object with a model',
+    ]);
+  });
+
+  it('refuses anything but a JSON list', () => {
+    expect(parseModelList('anthropic/claude-sonnet-4-5').warnings).toEqual([
+      'AI_MODELS is not valid JSON',
+    ]);
+    expect(parseModelList('{"model": "openai/gpt-4o"}').warnings).toEqual([
+      'AI_MODELS must be a JSON list of models',
+    ]);
+  });
+});
+
+describe('modelSettings', () => {
+  it('sets a provider per route and the first model as primary with fallbacks', () => {
+    const warnings: string[] = [];
+
+    const set = modelSettings(
+      {
+        ...GATEWAY_VARS,
+        ANTHROPIC_API_KEY: 'sk-ant',
+        OPENAI_API_KEY: 'sk-openai',
+        AI_MODELS: JSON.stringify([
+          { model: 'anthropic/claude-sonnet-4-5', contextWindow: 200000 },
+          'openai/gpt-4o',
+          'ai-gateway/openai/gpt-4o',
+          'anthropic/claude-haiku-4-5',
+        ]),
+      },
+      warnings,
+    );
+
+    expect(warnings).toEqual([]);
+    expect(set).toEqual([
+      {
+        path: ['models', 'providers', 'direct-anthropic'],
+        value: {
+          baseUrl: 'https://api.anthropic.com',
+          apiKey: 'sk-ant',
+          api: 'anthropic-messages',
+          models: [
+            {
+              id: 'claude-sonnet-4-5',
+              name: 'claude-sonnet-4-5',
+              contextWindow: 200000,
+              maxTokens: 8192,
+            },
+            {
+              id: 'claude-haiku-4-5',
+              name: 'claude-haiku-4-5',
+              contextWindow: 131072,
+              maxTokens: 8192,
+            },
+          ],
+        },
+      },
+      {
+        path: ['models', 'providers', 'direct-openai'],
+        value: {
+          baseUrl: 'https://api.openai.com/v1',
+          apiKey: 'sk-openai',
+          api: 'openai-completions',
+          models: [{ id: 'gpt-4o', name: 'gpt-4o', contextWindow: 131072, maxTokens: 8192 }],
+        },
+      },
+      {
+        path: ['models', 'providers', 'cf-ai-gw-openai'],
+        value: {
+          baseUrl: 'https://gateway.ai.cloudflare.com/v1/acct/gw/openai',
+          apiKey: 'cf-key',
+          api: 'openai-completions',
+          models: [{ id: 'gpt-4o', name: 'gpt-4o', contextWindow: 131072, maxTokens: 8192 }],
+        },
+      },
+      {
+        path: ['agents', 'defaults', 'model'],
+        value: {
+          primary: 'direct-anthropic/claude-sonnet-4-5',
+          fallbacks: [
+            'direct-openai/gpt-4o',
+            'cf-ai-gw-openai/gpt-4o',
+            'direct-anthropic/claude-haiku-4-5',
+          ],
+        },
+      },
+    ]);
+  });
+
+  it('skips models whose provider has no key and keeps the rest', () => {
+    const warnings: string[] = [];
+
+    const set = modelSettings(
+      {
+        OPENAI_API_KEY: 'sk-openai',
+        CF_AI_GATEWAY_MODEL: 'anthropic/claude-sonnet-4-5',
+        AI_MODELS:
+          '["anthropic/claude-sonnet-4-5", "workers-ai/@cf/qwen/qwq-32b", "openai/gpt-4o"]',
+      },
+      warnings,
+    );
+
+    expect(set[set.length - 1].value).toEqual({ primary: 'direct-openai/gpt-4o' });
+    expect(warnings).toEqual([
+      'CF_AI_GATEWAY_MODEL is ignored because AI_MODELS is set',
+      'Left out model anthropic/claude-sonnet-4-5: missing required config (ANTHROPIC_API_KEY)',
+      'Left out model workers-ai/@cf/qwen/qwq-32b: missing required config (account ID, gateway ID, or API key)',
+    ]);
+  });
+
+  it('uses the Workers AI API for Workers AI models without a gateway', () => {
+    const set = modelSettings(
+      {
+        CF_ACCOUNT_ID: 'acct-123',
+        CLOUDFLARE_AI_GATEWAY_API_KEY: 'cf-key',
+        AI_MODELS: '["workers-ai/@cf/qwen/qwq-32b"]',
+      },
+      [],
+    );
+
+    expect(set[0].value).toMatchObject({
+      baseUrl: 'https://api.cloudflare.com/client/v4/accounts/acct-123/ai/v1',
+    });
+  });
+
+  it('sets nothing when no model is configured or reachable', () => {
+    const warnings: string[] = [];
+
+    expect(modelSettings({}, warnings)).toEqual([]);
+    expect(modelSettings({ AI_MODELS: '["openai/gpt-4o"]' }, warnings)).toEqual([]);
+    expect(warnings).toEqual([
+      'Left out model openai/gpt-4o: missing required config (OPENAI_API_KEY)',
+    ]);
+  });
+});
@@ -0,0 +1,251 @@
+import type { ConfigSet } from './config-overlay';
+
+/**
+ * The models the agent uses, in order: the first is its primary model, and
+ * OpenClaw falls back to the others in turn when a provider fails.
+ *
+ * Set in AI_MODELS as a JSON list. Each entry is "provider/model-id", or an
+ * object with the model and its limits:
+ *
+ *   ["anthropic/claude-sonnet-4-5",
+ *    {"model": "openai/gpt-4o", "contextWindow": 128000, "maxTokens": 16384},
+ *    "ai-gateway/groq/llama-3.3-70b",
+ *    "workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast"]
+ *
+ * `anthropic/` and `openai/` models use ANTHROPIC_API_KEY and OPENAI_API_KEY
+ * directly; `ai-gateway/<provider>/` models go through Cloudflare AI Gateway
+ * with CLOUDFLARE_AI_GATEWAY_API_KEY; `workers-ai/` models go through AI
+ * Gateway when it is configured, and to the Workers AI API otherwise.
+ * CF_AI_GATEWAY_MODEL sets a single AI Gateway model, the same as
+ * AI_MODELS=["ai-gateway/<CF_AI_GATEWAY_MODEL>"].
+ */
+
+/** Limits of a model whose entry doesn't set them */
+const DEFAULT_CONTEXT_WINDOW = 131072;
+const DEFAULT_MAX_TOKENS = 8192;
+
+const MAX_LIMIT = 10_000_000;
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export interface ModelSpec {
+  /** The provider serving the model, e.g. "anthropic" or "workers-ai" */
+  provider: string;
+  /** Whether requests go through Cloudflare AI Gateway */
+  gateway: boolean;
+  id: string;
+  contextWindow: number;
+  maxTokens: number;
+}
+
+interface ResolvedProvider {
+  /** Key of the provider in models.providers */
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  api: 'anthropic-messages' | 'openai-completions';
+}
+
+/**
+ * Parse a "provider/model-id" reference
+ *
+ * @throws If the provider is not one models can be configured for
+ */
+export function parseModelRef(
+  ref: string,
+  limits: Partial<Pick<ModelSpec, 'contextWindow' | 'maxTokens'>> = {},
+): ModelSpec {
+  const [route, ...rest] = ref.trim().split('/');
+  const spec = (provider: string, gateway: boolean, id: string): ModelSpec => {
+    if (!provider || !id) throw new Error(`${ref} must be provider/model-id`);
+    return {
+      provider,
+      gateway,
+      id,
+      contextWindow: limits.contextWindow ?? DEFAULT_CONTEXT_WINDOW,
+      maxTokens: limits.maxTokens ?? DEFAULT_MAX_TOKENS,
+    };
+  };
+  switch (route) {
+    case 'anthropic':
+    case 'openai':
+      return spec(route, false, rest.join('/'));
+    case 'workers-ai':
+      return spec(route, true, rest.join('/'));
+    case 'ai-gateway':
+      return spec(rest[0] ?? '', true, rest.slice(1).join('/'));
+    default:
+      throw new Error(
+        `${ref} has an unknown provider "${route}" (use anthropic/, openai/, ai-gateway/ or workers-ai/)`,
+      );
+  }
+}
+
+function parseLimit(value: unknown, field: string, ref: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_LIMIT) {
+    throw new Error(`${ref}: ${field} must be a whole number from 1 to ${MAX_LIMIT}`);
+  }
+  return value;
+}
+
+/**
+ * Parse one AI_MODELS entry
+ *
+ * @throws If the entry is not a valid model
+ */
+function parseModelEntry(entry: unknown): ModelSpec {
+  if (typeof entry === 'string') return parseModelRef(entry);
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    throw new Error('entries must be "provider/model-id" or an object with a model');
+  }
+  const fields = entry as Record<string, unknown>;
+  if (typeof fields.model !== 'string') throw new Error('model must be "provider/model-id"');
+  const unknown = Object.keys(fields).filter(
+    (field) => !['model', 'contextWindow', 'maxTokens'].includes(field),
+  );
+  if (unknown.length > 0) {
+    throw new Error(`${fields.model}: unknown field ${unknown.join(', ')}`);
+  }
+  return parseModelRef(fields.model, {
+    contextWindow: parseLimit(fields.contextWindow, 'contextWindow', fields.model),
+    maxTokens: parseLimit(fields.maxTokens, 'maxTokens', fields.model),
+  });
+}
+
+/**
+ * The models in AI_MODELS, leaving out entries that aren't valid
+ *
+ * @returns The models in order, and a warning for each entry left out
+ */
+export function parseModelList(raw: string): { models: ModelSpec[]; warnings: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { models: [], warnings: ['AI_MODELS is not valid JSON'] };
+  }
+  if (!Array.isArray(parsed)) {
+    return { models: [], warnings: ['AI_MODELS must be a JSON list of models'] };
+  }
+
+  const models: ModelSpec[] = [];
+  const warnings: string[] = [];
+  for (const entry of parsed) {
+    try {
+      models.push(parseModelEntry(entry));
+    } catch (err) {
+      warnings.push(`Left out an AI_MODELS entry: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return { models, warnings };
+}
+
+/**
+ * Where a model is served from and with which key
+ *
+ * @returns The provider, or what is missing to reach the model
+ */
+function resolveProvider(
+  model: ModelSpec,
+  vars: Record<string, string>,
+): ResolvedProvider | { missing: string } {
+  if (!model.gateway) {
+    const apiKey = model.provider === 'anthropic' ? vars.ANTHROPIC_API_KEY : vars.OPENAI_API_KEY;
+    if (!apiKey) return { missing: `${model.provider.toUpperCase()}_API_KEY` };
+    return model.provider === 'anthropic'
+      ? {
+          name: 'direct-anthropic',
+          baseUrl: vars.ANTHROPIC_BASE_URL || ANTHROPIC_BASE_URL,
+          apiKey,
+          api: 'anthropic-messages',
+        }
+      : { name: 'direct-openai', baseUrl: OPENAI_BASE_URL, apiKey, api: 'openai-completions' };
+  }
+
+  const accountId = vars.CF_AI_GATEWAY_ACCOUNT_ID;
+  const gatewayId = vars.CF_AI_GATEWAY_GATEWAY_ID;
+  const apiKey = vars.CLOUDFLARE_AI_GATEWAY_API_KEY;
+  let baseUrl: string | undefined;
+  if (accountId && gatewayId) {
+    baseUrl = `https://gateway.ai.cloudflare.com/v1/${accountId}/${gatewayId}/${model.provider}`;
+    if (model.provider === 'workers-ai') baseUrl += '/v1';
+  } else if (model.provider === 'workers-ai' && vars.CF_ACCOUNT_ID) {
+    baseUrl = `https://api.cloudflare.com/client/v4/accounts/${vars.CF_ACCOUNT_ID}/ai/v1`;
+  }
+  if (!baseUrl || !apiKey) return { missing: 'account ID, gateway ID, or API key' };
+  return {
+    name: `cf-ai-gw-${model.provider}`,
+    baseUrl,
+    apiKey,
+    api: model.provider === 'anthropic' ? 'anthropic-messages' : 'openai-completions',
+  };
+}
+
+/**
+ * The providers of the configured models, and the default model with its
+ * fallbacks, from AI_MODELS or CF_AI_GATEWAY_MODEL
+ */
+export function modelSettings(vars: Record<string, string>, warnings: string[]): ConfigSet[] {
+  let models: ModelSpec[];
+  if (vars.AI_MODELS?.trim()) {
+    const list = parseModelList(vars.AI_MODELS);
+    models = list.models;
+    warnings.push(...list.warnings);
+    if (vars.CF_AI_GATEWAY_MODEL) {
+      warnings.push('CF_AI_GATEWAY_MODEL is ignored because AI_MODELS is set');
+    }
+  } else if (vars.CF_AI_GATEWAY_MODEL) {
+    try {
+      models = [parseModelRef(`ai-gateway/${vars.CF_AI_GATEWAY_MODEL}`)];
+    } catch {
+      warnings.push(
+        `CF_AI_GATEWAY_MODEL must be provider/model-id, not "${vars.CF_AI_GATEWAY_MODEL}"`,
+      );
+      return [];
+    }
+  } else {
+    return [];
+  }
+
+  const providers = new Map<string, ResolvedProvider & { models: ModelSpec[] }>();
+  const refs: string[] = [];
+  for (const model of models) {
+    const provider = resolveProvider(model, vars);
+    if ('missing' in provider) {
+      warnings.push(
+        vars.AI_MODELS?.trim()
+          ? `Left out model ${model.provider}/${model.id}: missing required config (${provider.missing})`
+          : `CF_AI_GATEWAY_MODEL set but missing required config (${provider.missing})`,
+      );
+      continue;
+    }
+    const ref = `${provider.name}/${model.id}`;
+    if (refs.includes(ref)) continue;
+    refs.push(ref);
+    const entry = providers.get(provider.name) ?? { ...provider, models: [] };
+    entry.models.push(model);
+    providers.set(provider.name, entry);
+  }
+  if (refs.length === 0) return [];
+
+  const set: ConfigSet[] = [...providers.values()].map(({ name, models: served, ...provider }) => ({
+    path: ['models', 'providers', name],
+    value: {
+      ...provider,
+      models: served.map((model) => ({
+        id: model.id,
+        name: model.id,
+        contextWindow: model.contextWindow,
+        maxTokens: model.maxTokens,
+      })),
+    },
+  }));
+  const [primary, ...fallbacks] = refs;
+  set.push({
+    path: ['agents', 'defaults', 'model'],
+    value: fallbacks.length > 0 ? { primary, fallbacks } : { primary },
+  });
+  return set;
+}
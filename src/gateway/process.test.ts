@@ -1,145 +1,335 @@
-import { describe, it, expect, vi } from 'vitest';
-import { findExistingMoltbotProcess } from './process';
-import type { Sandbox, Process } from '@cloudflare/sandbox';
-import { createMockSandbox } from '../test-utils';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ensureMoltbotGateway,
+  findExistingMoltbotProcess,
+  stopMoltbotGateway,
+  verifyMoltbotGateway,
+} from './process';
+import type { Process } from '@cloudflare/sandbox';
+import type { GatewayState } from './lifecycle';
+import type { GatewayProbeResult } from './health';
+import { createMockEnv, createMockSandbox, suppressConsole } from '../test-utils';
+
+const { probeGatewayMock, restoreViaBindingMock } = vi.hoisted(() => ({
+  probeGatewayMock: vi.fn(),
+  restoreViaBindingMock: vi.fn(),
+}));
+vi.mock('./health', () => ({ probeGateway: probeGatewayMock }));
+vi.mock('./binding-sync', () => ({ restoreViaBinding: restoreViaBindingMock }));
+
+function probeResult(overrides: Partial<GatewayProbeResult> = {}): GatewayProbeResult {
+  return {
+    ok: true,
+    outcome: 'ok',
+    checkedAt: '2026-01-27T12:00:00.000Z',
+    durationMs: 5,
+    ...overrides,
+  };
+}
 
 function createFullMockProcess(overrides: Partial<Process> = {}): Process {
   return {
     id: 'test-id',
-    command: 'openclaw gateway',
+    command: '/usr/local/bin/start-openclaw.sh',
     status: 'running',
     startTime: new Date(),
     endTime: undefined,
     exitCode: undefined,
-    waitForPort: vi.fn(),
+    waitForPort: vi.fn().mockResolvedValue(undefined),
     kill: vi.fn(),
     getLogs: vi.fn().mockResolvedValue({ stdout: '', stderr: '' }),
     ...overrides,
   } as Process;
 }
 
+function stateWith(phase: GatewayState['phase'], processId?: string): GatewayState {
+  return { phase, processId, updatedAt: '2026-01-27T12:00:00.000Z' };
+}
+
 describe('findExistingMoltbotProcess', () => {
-  it('returns null when no processes exist', async () => {
-    const { sandbox } = createMockSandbox({ processes: [] });
+  it('returns null when no gateway process is recorded', async () => {
+    const { sandbox, getProcessMock } = createMockSandbox();
     const result = await findExistingMoltbotProcess(sandbox);
     expect(result).toBeNull();
+    expect(getProcessMock).not.toHaveBeenCalled();
   });
 
-  it('returns null when only CLI commands are running', async () => {
-    const processes = [
-      createFullMockProcess({ command: 'openclaw devices list --json', status: 'running' }),
-      createFullMockProcess({ command: 'openclaw --version', status: 'completed' }),
-    ];
-    const { sandbox, listProcessesMock } = createMockSandbox();
-    listProcessesMock.mockResolvedValue(processes);
+  it('returns the recorded process when running', async () => {
+    const gatewayProcess = createFullMockProcess({ id: 'gateway-1', status: 'running' });
+    const { sandbox, getProcessMock } = createMockSandbox({
+      gatewayState: stateWith('ready', 'gateway-1'),
+    });
+    getProcessMock.mockResolvedValue(gatewayProcess);
 
     const result = await findExistingMoltbotProcess(sandbox);
-    expect(result).toBeNull();
+    expect(result).toBe(gatewayProcess);
+    expect(getProcessMock).toHaveBeenCalledWith('gateway-1');
   });
 
-  it('returns gateway process when running (openclaw)', async () => {
-    const gatewayProcess = createFullMockProcess({
-      id: 'gateway-1',
-      command: 'openclaw gateway --port 18789',
-      status: 'running',
+  it('returns the recorded process when starting', async () => {
+    const gatewayProcess = createFullMockProcess({ id: 'gateway-1', status: 'starting' });
+    const { sandbox, getProcessMock } = createMockSandbox({
+      gatewayState: stateWith('restoring', 'gateway-1'),
     });
-    const processes = [
-      createFullMockProcess({ command: 'openclaw devices list', status: 'completed' }),
-      gatewayProcess,
-    ];
-    const { sandbox, listProcessesMock } = createMockSandbox();
-    listProcessesMock.mockResolvedValue(processes);
+    getProcessMock.mockResolvedValue(gatewayProcess);
 
     const result = await findExistingMoltbotProcess(sandbox);
     expect(result).toBe(gatewayProcess);
   });
 
-  it('returns gateway process when starting via startup script', async () => {
-    const gatewayProcess = createFullMockProcess({
-      id: 'gateway-1',
-      command: '/usr/local/bin/start-openclaw.sh',
-      status: 'starting',
+  it('ignores a recorded process that has exited', async () => {
+    const { sandbox, getProcessMock } = createMockSandbox({
+      gatewayState: stateWith('ready', 'gateway-1'),
     });
-    const { sandbox, listProcessesMock } = createMockSandbox();
-    listProcessesMock.mockResolvedValue([gatewayProcess]);
+    getProcessMock.mockResolvedValue(createFullMockProcess({ status: 'failed' }));
 
     const result = await findExistingMoltbotProcess(sandbox);
-    expect(result).toBe(gatewayProcess);
+    expect(result).toBeNull();
   });
 
-  it('matches legacy clawdbot gateway command (transition compat)', async () => {
-    const gatewayProcess = createFullMockProcess({
-      id: 'gateway-1',
-      command: 'clawdbot gateway --port 18789',
-      status: 'running',
+  it('returns a recorded process that is still alive after a crash was recorded', async () => {
+    const gatewayProcess = createFullMockProcess({ id: 'gateway-1' });
+    const { sandbox, getProcessMock } = createMockSandbox({
+      gatewayState: stateWith('crashed', 'gateway-1'),
     });
-    const { sandbox, listProcessesMock } = createMockSandbox();
-    listProcessesMock.mockResolvedValue([gatewayProcess]);
+    getProcessMock.mockResolvedValue(gatewayProcess);
 
     const result = await findExistingMoltbotProcess(sandbox);
     expect(result).toBe(gatewayProcess);
   });
 
-  it('matches legacy start-moltbot.sh command (transition compat)', async () => {
+  it('falls back to matching the gateway command when nothing is recorded', async () => {
     const gatewayProcess = createFullMockProcess({
-      id: 'gateway-1',
-      command: '/usr/local/bin/start-moltbot.sh',
-      status: 'running',
+      id: 'unrecorded',
+      command: 'openclaw gateway --port 18789',
     });
     const { sandbox, listProcessesMock } = createMockSandbox();
-    listProcessesMock.mockResolvedValue([gatewayProcess]);
+    listProcessesMock.mockResolvedValue([
+      createFullMockProcess({ command: 'openclaw devices list --json' }),
+      gatewayProcess,
+    ]);
 
     const result = await findExistingMoltbotProcess(sandbox);
     expect(result).toBe(gatewayProcess);
   });
 
-  it('ignores completed gateway processes', async () => {
-    const processes = [
-      createFullMockProcess({ command: 'openclaw gateway', status: 'completed' }),
-      createFullMockProcess({ command: 'start-openclaw.sh', status: 'failed' }),
-    ];
+  it('does not match CLI commands or exited gateways', async () => {
     const { sandbox, listProcessesMock } = createMockSandbox();
-    listProcessesMock.mockResolvedValue(processes);
+    listProcessesMock.mockResolvedValue([
+      createFullMockProcess({ command: 'openclaw devices list --json' }),
+      createFullMockProcess({ command: 'openclaw gateway --port 18789', status: 'completed' }),
+    ]);
 
     const result = await findExistingMoltbotProcess(sandbox);
     expect(result).toBeNull();
   });
 
-  it('handles listProcesses errors gracefully', async () => {
-    const sandbox = {
-      listProcesses: vi.fn().mockRejectedValue(new Error('Network error')),
-    } as unknown as Sandbox;
+  it('handles getProcess errors gracefully', async () => {
+    const { sandbox, getProcessMock } = createMockSandbox({
+      gatewayState: stateWith('ready', 'gateway-1'),
+    });
+    getProcessMock.mockRejectedValue(new Error('Network error'));
 
     const result = await findExistingMoltbotProcess(sandbox);
     expect(result).toBeNull();
   });
+});
+
+describe('ensureMoltbotGateway', () => {
+  beforeEach(() => {
+    suppressConsole();
+    probeGatewayMock.mockReset().mockResolvedValue(probeResult());
+    restoreViaBindingMock.mockReset();
+  });
+
+  it('starts a new gateway and records it as ready', async () => {
+    const gatewayProcess = createFullMockProcess({ id: 'openclaw-gateway-1' });
+    const { sandbox, startProcessMock, gatewayState } = createMockSandbox();
+    startProcessMock.mockResolvedValue(gatewayProcess);
+
+    const result = await ensureMoltbotGateway(sandbox, createMockEnv());
+
+    expect(result).toBe(gatewayProcess);
+    expect(startProcessMock).toHaveBeenCalledWith(
+      '/usr/local/bin/start-openclaw.sh',
+      expect.objectContaining({ processId: expect.stringMatching(/^openclaw-gateway-/) }),
+    );
+    expect(gatewayState().phase).toBe('ready');
+    expect(gatewayState().processId).toBe(startProcessMock.mock.calls[0][1].processId);
+  });
 
-  it('returns first matching gateway process', async () => {
-    const firstGateway = createFullMockProcess({
+  it('restores through the bucket binding before starting in binding mode', async () => {
+    const { sandbox, startProcessMock } = createMockSandbox();
+    startProcessMock.mockResolvedValue(createFullMockProcess());
+    restoreViaBindingMock.mockImplementation(async () => {
+      expect(startProcessMock).not.toHaveBeenCalled();
+      return true;
+    });
+
+    await ensureMoltbotGateway(sandbox, createMockEnv({ R2_SYNC_MODE: 'binding' }));
+
+    expect(restoreViaBindingMock).toHaveBeenCalledOnce();
+    expect(startProcessMock.mock.calls[0][1].env).toMatchObject({ R2_SYNC_MODE: 'binding' });
+  });
+
+  it('reuses a ready gateway without starting a new one', async () => {
+    const gatewayProcess = createFullMockProcess({ id: 'gateway-1' });
+    const { sandbox, getProcessMock, startProcessMock, gatewayState } = createMockSandbox({
+      gatewayState: stateWith('ready', 'gateway-1'),
+    });
+    getProcessMock.mockResolvedValue(gatewayProcess);
+
+    const result = await ensureMoltbotGateway(sandbox, createMockEnv());
+
+    expect(result).toBe(gatewayProcess);
+    expect(startProcessMock).not.toHaveBeenCalled();
+    expect(gatewayState().phase).toBe('ready');
+  });
+
+  it('adopts a running gateway the lifecycle state does not know about', async () => {
+    const gatewayProcess = createFullMockProcess({ id: 'unrecorded' });
+    const { sandbox, listProcessesMock, startProcessMock, gatewayState } = createMockSandbox();
+    listProcessesMock.mockResolvedValue([gatewayProcess]);
+
+    await ensureMoltbotGateway(sandbox, createMockEnv());
+
+    expect(startProcessMock).not.toHaveBeenCalled();
+    expect(gatewayState().phase).toBe('ready');
+    expect(gatewayState().processId).toBe('unrecorded');
+  });
+
+  it('records a crash when the previous gateway exited, then restarts', async () => {
+    const { sandbox, getProcessMock, startProcessMock, gatewayState } = createMockSandbox({
+      gatewayState: stateWith('ready', 'gateway-1'),
+    });
+    getProcessMock.mockResolvedValue(null);
+    startProcessMock.mockResolvedValue(createFullMockProcess({ id: 'gateway-2' }));
+
+    await ensureMoltbotGateway(sandbox, createMockEnv());
+
+    const setStateMock = sandbox.setGatewayState as ReturnType<typeof vi.fn>;
+    const phases = setStateMock.mock.calls.map(([state]) => state.phase);
+    expect(phases).toEqual(['crashed', 'restoring', 'starting', 'ready']);
+    expect(gatewayState().processId).toMatch(/^openclaw-gateway-/);
+  });
+
+  it('records a crash with stderr when the gateway never opens its port', async () => {
+    const gatewayProcess = createFullMockProcess({
+      waitForPort: vi.fn().mockRejectedValue(new Error('timeout')),
+      getLogs: vi.fn().mockResolvedValue({ stdout: '', stderr: 'Invalid config' }),
+    });
+    const { sandbox, startProcessMock, gatewayState } = createMockSandbox();
+    startProcessMock.mockResolvedValue(gatewayProcess);
+
+    await expect(ensureMoltbotGateway(sandbox, createMockEnv())).rejects.toThrow(
+      'OpenClaw gateway failed to start. Stderr: Invalid config',
+    );
+    expect(gatewayState().phase).toBe('crashed');
+    expect(gatewayState().error).toBe('Invalid config');
+    expect(gatewayState().diagnosis?.kind).toBe('config_invalid');
+    expect(gatewayState().diagnosis?.phase).toBe('restoring');
+  });
+
+  it('diagnoses a gateway killed for running out of memory from its exit code', async () => {
+    const gatewayProcess = createFullMockProcess({
       id: 'gateway-1',
-      command: 'openclaw gateway',
-      status: 'running',
+      waitForPort: vi.fn().mockRejectedValue(new Error('Process exited')),
+      getLogs: vi.fn().mockResolvedValue({ stdout: '[lifecycle] starting', stderr: '' }),
     });
-    const secondGateway = createFullMockProcess({
-      id: 'gateway-2',
-      command: 'start-openclaw.sh',
-      status: 'starting',
+    const { sandbox, startProcessMock, getProcessMock, gatewayState } = createMockSandbox();
+    startProcessMock.mockResolvedValue(gatewayProcess);
+    getProcessMock.mockResolvedValue(
+      createFullMockProcess({ id: 'gateway-1', status: 'completed', exitCode: 137 }),
+    );
+
+    await expect(
+      ensureMoltbotGateway(sandbox, createMockEnv({ ANTHROPIC_API_KEY: 'sk-ant-test' })),
+    ).rejects.toThrow('OpenClaw gateway failed to start');
+    expect(gatewayState().diagnosis?.kind).toBe('out_of_memory');
+    expect(gatewayState().diagnosis?.exitCode).toBe(137);
+  });
+});
+
+describe('verifyMoltbotGateway', () => {
+  beforeEach(() => {
+    suppressConsole();
+    probeGatewayMock.mockReset();
+  });
+
+  it('records a passing probe and keeps the gateway ready', async () => {
+    const { sandbox, gatewayState } = createMockSandbox({
+      gatewayState: stateWith('ready', 'gateway-1'),
     });
-    const { sandbox, listProcessesMock } = createMockSandbox();
-    listProcessesMock.mockResolvedValue([firstGateway, secondGateway]);
+    probeGatewayMock.mockResolvedValue(probeResult());
 
-    const result = await findExistingMoltbotProcess(sandbox);
-    expect(result?.id).toBe('gateway-1');
+    const state = await verifyMoltbotGateway(sandbox, createMockEnv());
+
+    expect(state.phase).toBe('ready');
+    expect(gatewayState().probe?.outcome).toBe('ok');
   });
 
-  it('does not match openclaw onboard as a gateway process', async () => {
-    const processes = [
-      createFullMockProcess({ command: 'openclaw onboard --non-interactive', status: 'running' }),
-    ];
-    const { sandbox, listProcessesMock } = createMockSandbox();
-    listProcessesMock.mockResolvedValue(processes);
+  it('marks the gateway degraded when the handshake is unauthorized', async () => {
+    const { sandbox, gatewayState } = createMockSandbox({
+      gatewayState: stateWith('ready', 'gateway-1'),
+    });
+    probeGatewayMock.mockResolvedValue(
+      probeResult({ ok: false, outcome: 'unauthorized', error: 'unauthorized: token_mismatch' }),
+    );
+
+    const state = await verifyMoltbotGateway(sandbox, createMockEnv());
+
+    expect(state.phase).toBe('degraded');
+    expect(gatewayState().error).toContain('unauthorized: token_mismatch');
+  });
+
+  it('returns to ready once a degraded gateway passes its probe', async () => {
+    const { sandbox } = createMockSandbox({
+      gatewayState: { ...stateWith('degraded', 'gateway-1'), error: 'Health probe failed' },
+    });
+    probeGatewayMock.mockResolvedValue(probeResult());
+
+    const state = await verifyMoltbotGateway(sandbox, createMockEnv());
+
+    expect(state.phase).toBe('ready');
+    expect(state.error).toBeUndefined();
+  });
+
+  it('does not probe a stopped gateway', async () => {
+    const { sandbox } = createMockSandbox();
+
+    const state = await verifyMoltbotGateway(sandbox, createMockEnv());
+
+    expect(state.phase).toBe('stopped');
+    expect(probeGatewayMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('stopMoltbotGateway', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('kills the recorded process and marks the gateway stopped', async () => {
+    const gatewayProcess = createFullMockProcess({ id: 'gateway-1' });
+    const { sandbox, getProcessMock, gatewayState } = createMockSandbox({
+      gatewayState: stateWith('ready', 'gateway-1'),
+    });
+    getProcessMock.mockResolvedValue(gatewayProcess);
+
+    const result = await stopMoltbotGateway(sandbox);
+
+    expect(result).toBe(gatewayProcess);
+    expect(gatewayProcess.kill).toHaveBeenCalled();
+    expect(gatewayState().phase).toBe('stopped');
+    expect(gatewayState().processId).toBeUndefined();
+  });
+
+  it('marks the gateway stopped when nothing is running', async () => {
+    const { sandbox, gatewayState } = createMockSandbox();
+
+    const result = await stopMoltbotGateway(sandbox);
 
-    const result = await findExistingMoltbotProcess(sandbox);
     expect(result).toBeNull();
+    expect(gatewayState().phase).toBe('stopped');
   });
 });
@@ -1,38 +1,96 @@
-import type { Sandbox, Process } from '@cloudflare/sandbox';
+import type { Process } from '@cloudflare/sandbox';
 import type { MoltbotEnv } from '../types';
+import type { MoltbotSandbox } from '../sandbox';
 import { MOLTBOT_PORT, STARTUP_TIMEOUT_MS } from '../config';
 import { buildEnvVars } from './env';
-import { ensureRcloneConfig } from './r2';
+import { ensureRcloneConfig, getR2SyncMode } from './r2';
+import { restoreViaBinding } from './binding-sync';
+import { prepareEncryption } from './sync';
+import { getSyncPolicy, installSyncPolicy } from './sync-policy';
+import { installConfigOverlay } from './config-overlay';
+import { checkContainerConfig, type ConfigCheck } from './config-schema';
+import { probeGateway, type GatewayProbeOutcome } from './health';
+import { diagnoseStartupFailure } from './diagnostics';
+import {
+  STARTUP_PHASES,
+  canTransition,
+  parseStartupPhase,
+  parseStartupProgress,
+  transitionGateway,
+  type GatewayState,
+} from './lifecycle';
+
+/** How often to check start-openclaw.sh output for lifecycle markers */
+const PHASE_POLL_INTERVAL_MS = 2000;
+
+/** Quick reachability check for a gateway that was previously ready */
+const READY_RECHECK_TIMEOUT_MS = 5000;
+
+/** Health probe attempts before a freshly started gateway is considered degraded */
+const STARTUP_PROBE_ATTEMPTS = 5;
+const PROBE_RETRY_DELAY_MS = 2000;
+
+/** Probe failures that may clear up while the gateway finishes initializing */
+const TRANSIENT_PROBE_OUTCOMES: ReadonlySet<GatewayProbeOutcome> = new Set([
+  'unreachable',
+  'http_error',
+  'no_handshake',
+]);
 
 /**
- * Find an existing OpenClaw gateway process
+ * Check whether a process command line is the gateway rather than a CLI call
+ */
+function isGatewayCommand(command: string): boolean {
+  // Match gateway process (openclaw gateway or legacy clawdbot gateway)
+  // Don't match CLI commands like "openclaw devices list"
+  const isGatewayProcess =
+    command.includes('start-openclaw.sh') ||
+    command.includes('openclaw gateway') ||
+    // Legacy: match old startup script during transition
+    command.includes('start-moltbot.sh') ||
+    command.includes('clawdbot gateway');
+  const isCliCommand =
+    command.includes('openclaw devices') ||
+    command.includes('openclaw --version') ||
+    command.includes('openclaw onboard') ||
+    command.includes('clawdbot devices') ||
+    command.includes('clawdbot --version');
+  return isGatewayProcess && !isCliCommand;
+}
+
+function isAlive(proc: Process): boolean {
+  return proc.status === 'starting' || proc.status === 'running';
+}
+
+/**
+ * Find the running OpenClaw gateway process
+ *
+ * Looks up the process recorded in the lifecycle state first. When that one is
+ * gone, or nothing was recorded (a Durable Object whose storage was reset over a
+ * running container), falls back to matching the command lines of the
+ * container's processes, so a live gateway is adopted instead of duplicated.
  *
  * @param sandbox - The sandbox instance
  * @returns The process if found and running/starting, null otherwise
  */
-export async function findExistingMoltbotProcess(sandbox: Sandbox): Promise<Process | null> {
+export async function findExistingMoltbotProcess(sandbox: MoltbotSandbox): Promise<Process | null> {
+  try {
+    const state = await sandbox.getGatewayState();
+    if (state.processId) {
+      const proc = await sandbox.getProcess(state.processId);
+      if (proc && isAlive(proc)) {
+        return proc;
+      }
+    }
+  } catch (e) {
+    console.log('Could not look up gateway process:', e);
+  }
+
   try {
     const processes = await sandbox.listProcesses();
     for (const proc of processes) {
-      // Match gateway process (openclaw gateway or legacy clawdbot gateway)
-      // Don't match CLI commands like "openclaw devices list"
-      const isGatewayProcess =
-        proc.command.includes('start-openclaw.sh') ||
-        proc.command.includes('openclaw gateway') ||
-        // Legacy: match old startup script during transition
-        proc.command.includes('start-moltbot.sh') ||
-        proc.command.includes('clawdbot gateway');
-      const isCliCommand =
-        proc.command.includes('openclaw devices') ||
-        proc.command.includes('openclaw --version') ||
-        proc.command.includes('openclaw onboard') ||
-        proc.command.includes('clawdbot devices') ||
-        proc.command.includes('clawdbot --version');
-
-      if (isGatewayProcess && !isCliCommand) {
-        if (proc.status === 'starting' || proc.status === 'running') {
-          return proc;
-        }
+      if (isGatewayCommand(proc.command) && isAlive(proc)) {
+        return proc;
       }
     }
   } catch (e) {
@@ -41,22 +99,177 @@ export async function findExistingMoltbotProcess(sandbox: Sandbox): Promise<Proc
   return null;
 }
 
+/**
+ * Record a running gateway process that the lifecycle state does not point at
+ *
+ * A gateway found by its command line, or one still alive after being marked
+ * crashed, is tracked again as starting so the usual port wait and health probe
+ * decide whether it is ready.
+ */
+async function adoptGatewayProcess(sandbox: MoltbotSandbox, process: Process): Promise<void> {
+  const state = await sandbox.getGatewayState();
+  if (state.processId === process.id && state.phase !== 'stopped' && state.phase !== 'crashed') {
+    return;
+  }
+
+  console.log('[Gateway] Adopting running gateway process:', process.id);
+  if (state.phase === 'stopped' || state.phase === 'crashed') {
+    await transitionGateway(sandbox, 'starting', { processId: process.id });
+  } else {
+    await transitionGateway(sandbox, state.phase, { processId: process.id });
+  }
+}
+
+/**
+ * Record the latest phase and step printed by start-openclaw.sh
+ */
+async function updateStartupPhase(sandbox: MoltbotSandbox, process: Process): Promise<void> {
+  try {
+    const logs = await process.getLogs();
+    const stdout = logs.stdout || '';
+    const state = await sandbox.getGatewayState();
+    if (state.processId !== process.id || !STARTUP_PHASES.includes(state.phase)) {
+      return;
+    }
+
+    const reported = parseStartupPhase(stdout);
+    const phase = reported && canTransition(state.phase, reported) ? reported : state.phase;
+    const progress = parseStartupProgress(stdout);
+    if (phase !== state.phase || (progress && progress !== state.progress)) {
+      await transitionGateway(sandbox, phase, progress ? { progress } : {});
+    }
+  } catch (e) {
+    console.log('[Gateway] Could not read startup phase:', e);
+  }
+}
+
+/**
+ * Read the exit code of a startup process that may have exited
+ */
+async function readExitCode(
+  sandbox: MoltbotSandbox,
+  process: Process,
+): Promise<number | undefined> {
+  try {
+    const current = await sandbox.getProcess(process.id);
+    return current?.exitCode ?? process.exitCode ?? undefined;
+  } catch {
+    return process.exitCode ?? undefined;
+  }
+}
+
+/**
+ * Wait for the gateway port while tracking startup phases
+ */
+async function waitForGatewayPort(
+  sandbox: MoltbotSandbox,
+  process: Process,
+  timeout: number,
+): Promise<void> {
+  const portReady = process.waitForPort(MOLTBOT_PORT, { mode: 'tcp', timeout });
+
+  for (;;) {
+    // eslint-disable-next-line no-await-in-loop -- intentional sequential polling
+    const outcome = await Promise.race([
+      portReady.then(() => 'ready' as const),
+      new Promise<'poll'>((r) => setTimeout(() => r('poll'), PHASE_POLL_INTERVAL_MS)),
+    ]);
+    if (outcome === 'ready') break;
+    await updateStartupPhase(sandbox, process); // eslint-disable-line no-await-in-loop -- intentional sequential polling
+  }
+
+  // The port can open between two polls, before the "starting" marker was seen
+  const state = await sandbox.getGatewayState();
+  if (state.phase === 'restoring' || state.phase === 'onboarding') {
+    await transitionGateway(sandbox, 'starting');
+  }
+}
+
+/**
+ * Probe the gateway and record the result in the lifecycle state
+ *
+ * A gateway that is starting, ready or degraded moves to ready or degraded
+ * depending on the probe. Other phases are returned untouched, since probing
+ * would wake a stopped container.
+ *
+ * @param sandbox - The sandbox instance
+ * @param env - Worker environment bindings
+ * @param attempts - How many times to retry transient probe failures
+ * @returns The updated lifecycle state
+ */
+export async function verifyMoltbotGateway(
+  sandbox: MoltbotSandbox,
+  env: MoltbotEnv,
+  attempts: number = 1,
+): Promise<GatewayState> {
+  const state = await sandbox.getGatewayState();
+  if (state.phase !== 'starting' && state.phase !== 'ready' && state.phase !== 'degraded') {
+    return state;
+  }
+
+  console.log('[Gateway] Verifying gateway health...');
+  let probe = await probeGateway(sandbox, env);
+  for (
+    let attempt = 1;
+    attempt < attempts && TRANSIENT_PROBE_OUTCOMES.has(probe.outcome);
+    attempt++
+  ) {
+    // eslint-disable-next-line no-await-in-loop -- intentional sequential polling
+    await new Promise((r) => setTimeout(r, PROBE_RETRY_DELAY_MS));
+    probe = await probeGateway(sandbox, env); // eslint-disable-line no-await-in-loop -- intentional sequential polling
+  }
+
+  if (probe.ok) {
+    return transitionGateway(sandbox, 'ready', { probe });
+  }
+  console.error('[Gateway] Health probe failed:', probe.outcome, probe.error);
+  return transitionGateway(sandbox, 'degraded', {
+    probe,
+    error: `Health probe failed (${probe.outcome}): ${probe.error || 'unknown error'}`,
+  });
+}
+
+/**
+ * Verify the gateway, throwing if it is not healthy
+ */
+async function requireHealthyGateway(
+  sandbox: MoltbotSandbox,
+  env: MoltbotEnv,
+  attempts: number,
+): Promise<void> {
+  const state = await verifyMoltbotGateway(sandbox, env, attempts);
+  if (state.phase !== 'ready') {
+    throw new Error(`OpenClaw gateway is not healthy. ${state.error || ''}`.trim());
+  }
+}
+
 /**
  * Ensure the OpenClaw gateway is running
  *
  * This will:
- * 1. Mount R2 storage if configured
+ * 1. Configure rclone for R2 persistence if credentials are set
  * 2. Check for an existing gateway process
- * 3. Wait for it to be ready, or start a new one
+ * 3. Wait for it to be ready, or start a new one (restoring from R2 through
+ *    the bucket binding first when R2_SYNC_MODE is "binding")
+ *
+ * Every step is recorded in the lifecycle state persisted in the sandbox.
+ * Call it through `MoltbotSandbox.startGateway()` so concurrent requests
+ * share a single startup instead of racing each other.
  *
  * @param sandbox - The sandbox instance
  * @param env - Worker environment bindings
  * @returns The running gateway process
  */
-export async function ensureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv): Promise<Process> {
+export async function ensureMoltbotGateway(
+  sandbox: MoltbotSandbox,
+  env: MoltbotEnv,
+): Promise<Process> {
   // Configure rclone for R2 persistence (non-blocking if not configured).
   // The startup script uses rclone to restore data from R2 on boot.
-  await ensureRcloneConfig(sandbox, env);
+  const syncMode = getR2SyncMode(env);
+  if (syncMode !== 'binding') {
+    await ensureRcloneConfig(sandbox, env);
+  }
 
   // Check if gateway is already running or starting
   const existingProcess = await findExistingMoltbotProcess(sandbox);
@@ -67,15 +280,41 @@ export async function ensureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv): P
       'status:',
       existingProcess.status,
     );
+    await adoptGatewayProcess(sandbox, existingProcess);
+
+    const state = await sandbox.getGatewayState();
+    if (state.phase === 'ready' || state.phase === 'degraded') {
+      let reachable = false;
+      try {
+        await existingProcess.waitForPort(MOLTBOT_PORT, {
+          mode: 'tcp',
+          timeout: READY_RECHECK_TIMEOUT_MS,
+        });
+        reachable = true;
+      } catch {
+        await transitionGateway(sandbox, 'degraded', {
+          error: 'Gateway process is running but not reachable',
+        });
+      }
+
+      if (reachable) {
+        // A degraded gateway gets another probe so it can recover
+        if (state.phase === 'degraded') {
+          await requireHealthyGateway(sandbox, env, 1);
+        }
+        return existingProcess;
+      }
+    }
 
     // Always use full startup timeout - a process can be "running" but not ready yet
-    // (e.g., just started by another concurrent request). Using a shorter timeout
-    // causes race conditions where we kill processes that are still initializing.
+    // (e.g., launched before the Durable Object was evicted). Using a shorter timeout
+    // kills processes that are still initializing.
+    let listening = false;
     try {
       console.log('Waiting for gateway on port', MOLTBOT_PORT, 'timeout:', STARTUP_TIMEOUT_MS);
-      await existingProcess.waitForPort(MOLTBOT_PORT, { mode: 'tcp', timeout: STARTUP_TIMEOUT_MS });
+      await waitForGatewayPort(sandbox, existingProcess, STARTUP_TIMEOUT_MS);
       console.log('Gateway is reachable');
-      return existingProcess;
+      listening = true;
       // eslint-disable-next-line no-unused-vars
     } catch (_e) {
       // Timeout waiting for port - process is likely dead or stuck, kill and restart
@@ -85,6 +324,21 @@ export async function ensureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv): P
       } catch (killError) {
         console.log('Failed to kill process:', killError);
       }
+      await transitionGateway(sandbox, 'crashed', {
+        error: 'Gateway was not reachable within the startup timeout',
+      });
+    }
+
+    if (listening) {
+      await requireHealthyGateway(sandbox, env, STARTUP_PROBE_ATTEMPTS);
+      return existingProcess;
+    }
+  } else {
+    const state = await sandbox.getGatewayState();
+    if (state.phase !== 'stopped' && state.phase !== 'crashed') {
+      await transitionGateway(sandbox, 'crashed', {
+        error: 'Gateway process exited unexpectedly',
+      });
     }
   }
 
@@ -92,47 +346,125 @@ export async function ensureMoltbotGateway(sandbox: Sandbox, env: MoltbotEnv): P
   console.log('Starting new OpenClaw gateway...');
   const envVars = buildEnvVars(env);
   const command = '/usr/local/bin/start-openclaw.sh';
+  const processId = `openclaw-gateway-${Date.now()}`;
 
   console.log('Starting process with command:', command);
   console.log('Environment vars being passed:', Object.keys(envVars));
 
+  // Restores decrypt with the data keys, and syncs encrypt with them
+  await prepareEncryption(sandbox, env);
+
+  // The background sync loop persists what the sync policy selects, and
+  // pauses without one rather than sync with other rules than the Worker
+  try {
+    await installSyncPolicy(sandbox, getSyncPolicy(env));
+  } catch (err) {
+    console.error('[Gateway] Background sync paused:', err instanceof Error ? err.message : err);
+  }
+
+  // Applied to openclaw.json by the startup script once onboarding has created it
+  await installConfigOverlay(sandbox, env);
+
+  // The startup script begins by restoring from R2
+  // Without R2 API credentials the script can't reach R2, so restore through the binding first
+  if (syncMode === 'binding') {
+    await transitionGateway(sandbox, 'restoring', {
+      processId,
+      progress: 'Restoring from R2 through the bucket binding',
+    });
+    await restoreViaBinding(sandbox, env);
+  } else {
+    await transitionGateway(sandbox, 'restoring', { processId });
+  }
+
   let process: Process;
   try {
     process = await sandbox.startProcess(command, {
+      processId,
       env: Object.keys(envVars).length > 0 ? envVars : undefined,
     });
     console.log('Process started with id:', process.id, 'status:', process.status);
   } catch (startErr) {
     console.error('Failed to start process:', startErr);
+    const error = startErr instanceof Error ? startErr.message : 'Failed to start process';
+    await transitionGateway(sandbox, 'crashed', {
+      error,
+      diagnosis: diagnoseStartupFailure({ message: error }, env),
+    });
     throw startErr;
   }
 
   // Wait for the gateway to be ready
   try {
     console.log('[Gateway] Waiting for OpenClaw gateway to be ready on port', MOLTBOT_PORT);
-    await process.waitForPort(MOLTBOT_PORT, { mode: 'tcp', timeout: STARTUP_TIMEOUT_MS });
-    console.log('[Gateway] OpenClaw gateway is ready!');
+    await waitForGatewayPort(sandbox, process, STARTUP_TIMEOUT_MS);
+    console.log('[Gateway] OpenClaw gateway is listening');
 
     const logs = await process.getLogs();
     if (logs.stdout) console.log('[Gateway] stdout:', logs.stdout);
     if (logs.stderr) console.log('[Gateway] stderr:', logs.stderr);
   } catch (e) {
     console.error('[Gateway] waitForPort failed:', e);
+    const { phase } = await sandbox.getGatewayState();
+    const exitCode = await readExitCode(sandbox, process);
+    let stderr: string | undefined;
+    let stdout: string | undefined;
     try {
       const logs = await process.getLogs();
+      stderr = logs.stderr;
+      stdout = logs.stdout;
       console.error('[Gateway] startup failed. Stderr:', logs.stderr);
       console.error('[Gateway] startup failed. Stdout:', logs.stdout);
-      throw new Error(`OpenClaw gateway failed to start. Stderr: ${logs.stderr || '(empty)'}`, {
-        cause: e,
-      });
     } catch (logErr) {
       console.error('[Gateway] Failed to get logs:', logErr);
+      await transitionGateway(sandbox, 'crashed', {
+        error: 'Gateway failed to start',
+        diagnosis: diagnoseStartupFailure({ exitCode, phase }, env),
+      });
       throw e;
     }
+    // Stale keys OpenClaw refuses are one reason the port never opens
+    let configCheck: ConfigCheck | undefined;
+    try {
+      configCheck = await checkContainerConfig(sandbox);
+    } catch (checkErr) {
+      console.error('[Gateway] Failed to check openclaw.json:', checkErr);
+    }
+    const diagnosis = diagnoseStartupFailure({ stderr, stdout, exitCode, phase, configCheck }, env);
+    console.error(`[Gateway] Startup failure diagnosed as ${diagnosis.kind}: ${diagnosis.summary}`);
+    await transitionGateway(sandbox, 'crashed', {
+      error: stderr?.slice(-500) || 'Gateway failed to start',
+      diagnosis,
+    });
+    throw new Error(`OpenClaw gateway failed to start. Stderr: ${stderr || '(empty)'}`, {
+      cause: e,
+    });
   }
 
-  // Verify gateway is actually responding
-  console.log('[Gateway] Verifying gateway health...');
+  await requireHealthyGateway(sandbox, env, STARTUP_PROBE_ATTEMPTS);
+  console.log('[Gateway] OpenClaw gateway is ready!');
 
   return process;
 }
+
+/**
+ * Stop the OpenClaw gateway
+ *
+ * @param sandbox - The sandbox instance
+ * @returns The process that was killed, or null if none was running
+ */
+export async function stopMoltbotGateway(sandbox: MoltbotSandbox): Promise<Process | null> {
+  const existingProcess = await findExistingMoltbotProcess(sandbox);
+
+  if (existingProcess) {
+    console.log('Killing existing gateway process:', existingProcess.id);
+    try {
+      await existingProcess.kill();
+    } catch (killErr) {
+      console.error('Error killing process:', killErr);
+    }
+  }
+
+  await transitionGateway(sandbox, 'stopped');
+  return existingProcess;
+}
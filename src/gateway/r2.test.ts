@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { ensureRcloneConfig } from './r2';
+import { ensureRcloneConfig, getR2SyncMode } from './r2';
 import {
   createMockEnv,
   createMockEnvWithR2,
@@ -71,3 +71,18 @@ describe('ensureRcloneConfig', () => {
     });
   });
 });
+
+describe('getR2SyncMode', () => {
+  it('uses rclone when the R2 API credentials are set', () => {
+    expect(getR2SyncMode(createMockEnvWithR2())).toBe('rclone');
+  });
+
+  it('is null without credentials', () => {
+    expect(getR2SyncMode(createMockEnv())).toBeNull();
+  });
+
+  it('uses the bucket binding when R2_SYNC_MODE is binding', () => {
+    expect(getR2SyncMode(createMockEnv({ R2_SYNC_MODE: 'binding' }))).toBe('binding');
+    expect(getR2SyncMode(createMockEnvWithR2({ R2_SYNC_MODE: 'Binding' }))).toBe('binding');
+  });
+});
@@ -1,10 +1,42 @@
 import type { Sandbox } from '@cloudflare/sandbox';
 import type { MoltbotEnv } from '../types';
-import { getR2BucketName } from '../config';
+import { getR2BucketName, getR2Prefix } from '../config';
 
 const RCLONE_CONF_PATH = '/root/.config/rclone/rclone.conf';
 const CONFIGURED_FLAG = '/tmp/.rclone-configured';
 
+export const RCLONE_FLAGS = '--transfers=16 --fast-list --s3-no-check-bucket';
+
+/**
+ * How data is persisted to R2:
+ * - rclone: rclone in the container syncs through the S3 API (needs R2 API credentials)
+ * - binding: the Worker syncs through the MOLTBOT_BUCKET binding (R2_SYNC_MODE=binding)
+ */
+export type R2SyncMode = 'rclone' | 'binding';
+
+function hasRcloneCredentials(env: MoltbotEnv): boolean {
+  return !!(env.R2_ACCESS_KEY_ID && env.R2_SECRET_ACCESS_KEY && env.CF_ACCOUNT_ID);
+}
+
+/**
+ * How this deployment persists data to R2
+ *
+ * @returns The sync mode, or null if R2 storage is not configured
+ */
+export function getR2SyncMode(env: MoltbotEnv): R2SyncMode | null {
+  if (env.R2_SYNC_MODE?.trim().toLowerCase() === 'binding') {
+    return env.MOLTBOT_BUCKET ? 'binding' : null;
+  }
+  return hasRcloneCredentials(env) ? 'rclone' : null;
+}
+
+/**
+ * rclone path of this sandbox's data in R2
+ */
+export function rcloneRemote(env: MoltbotEnv, prefix: string): string {
+  return `r2:${getR2BucketName(env)}/${getR2Prefix(env)}${prefix}`;
+}
+
 /**
  * Ensure rclone is configured in the container for R2 access.
  * Idempotent — checks for a flag file to skip re-configuration.
@@ -12,7 +44,7 @@ const CONFIGURED_FLAG = '/tmp/.rclone-configured';
  * @returns true if rclone is configured, false if credentials are missing
  */
 export async function ensureRcloneConfig(sandbox: Sandbox, env: MoltbotEnv): Promise<boolean> {
-  if (!env.R2_ACCESS_KEY_ID || !env.R2_SECRET_ACCESS_KEY || !env.CF_ACCOUNT_ID) {
+  if (!hasRcloneCredentials(env)) {
     console.log(
       'R2 storage not configured (missing R2_ACCESS_KEY_ID, R2_SECRET_ACCESS_KEY, or CF_ACCOUNT_ID)',
     );
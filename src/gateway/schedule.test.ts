@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getKeepWarmSchedule,
+  getScheduledSleepAfter,
+  isKeepWarm,
+  nextKeepWarmChange,
+  parseKeepWarmSchedule,
+  syncBeforeSleep,
+} from './schedule';
+import type { GatewayState } from './lifecycle';
+import { createMockEnv, createMockSandbox, suppressConsole } from '../test-utils';
+
+const { syncAndRecordMock, recordUnsyncedSleepMock } = vi.hoisted(() => ({
+  syncAndRecordMock: vi.fn(),
+  recordUnsyncedSleepMock: vi.fn(),
+}));
+vi.mock('./sync-history', () => ({
+  syncAndRecord: syncAndRecordMock,
+  recordUnsyncedSleep: recordUnsyncedSleepMock,
+}));
+
+function gateway(phase: GatewayState['phase']): GatewayState {
+  return { phase, updatedAt: new Date().toISOString() };
+}
+
+describe('parseKeepWarmSchedule', () => {
+  it('parses day ranges and times', () => {
+    const schedule = parseKeepWarmSchedule('mon-fri 08:00-20:00, sat 10:00-14:00');
+
+    expect(schedule.timeZone).toBe('UTC');
+    expect(schedule.windows).toHaveLength(2);
+    expect([...schedule.windows[0].days]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.windows[0].start).toBe(8 * 60);
+    expect(schedule.windows[0].end).toBe(20 * 60);
+    expect([...schedule.windows[1].days]).toEqual([6]);
+  });
+
+  it('accepts day lists, wrapping ranges and daily windows', () => {
+    const schedule = parseKeepWarmSchedule(
+      'mon/wed/fri 09:00-17:00, fri-mon 00:00-24:00, 22:00-06:00',
+    );
+
+    expect([...schedule.windows[0].days]).toEqual([1, 3, 5]);
+    expect([...schedule.windows[1].days]).toEqual([5, 6, 0, 1]);
+    expect(schedule.windows[2].days.size).toBe(7);
+  });
+
+  it('rejects malformed schedules', () => {
+    expect(() => parseKeepWarmSchedule('')).toThrow('no windows');
+    expect(() => parseKeepWarmSchedule('weekdays 08:00-20:00')).toThrow('Invalid day');
+    expect(() => parseKeepWarmSchedule('mon 8am-8pm')).toThrow('Invalid time');
+    expect(() => parseKeepWarmSchedule('mon 08:00')).toThrow('Invalid window');
+    expect(() => parseKeepWarmSchedule('mon 25:00-26:00')).toThrow('Invalid time');
+  });
+
+  it('rejects unknown time zones', () => {
+    expect(() => parseKeepWarmSchedule('08:00-20:00', 'Mars/Olympus_Mons')).toThrow(RangeError);
+  });
+});
+
+describe('getKeepWarmSchedule', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('is null when no schedule is configured', () => {
+    expect(getKeepWarmSchedule(createMockEnv())).toBeNull();
+  });
+
+  it('uses SANDBOX_TIMEZONE', () => {
+    const schedule = getKeepWarmSchedule(
+      createMockEnv({ SANDBOX_KEEP_WARM: '08:00-20:00', SANDBOX_TIMEZONE: 'Europe/Berlin' }),
+    );
+    expect(schedule?.timeZone).toBe('Europe/Berlin');
+  });
+
+  it('ignores an invalid schedule', () => {
+    expect(getKeepWarmSchedule(createMockEnv({ SANDBOX_KEEP_WARM: 'always' }))).toBeNull();
+  });
+});
+
+describe('getScheduledSleepAfter', () => {
+  it('uses SANDBOX_SLEEP_AFTER outside keep-warm windows', () => {
+    expect(getScheduledSleepAfter(createMockEnv({ SANDBOX_SLEEP_AFTER: '30m' }))).toBe('30m');
+  });
+
+  it('falls back to a default when the sandbox would otherwise never sleep', () => {
+    expect(getScheduledSleepAfter(createMockEnv())).toBe('10m');
+    expect(getScheduledSleepAfter(createMockEnv({ SANDBOX_SLEEP_AFTER: 'never' }))).toBe('10m');
+  });
+});
+
+describe('isKeepWarm', () => {
+  // 2026-01-27 is a Tuesday
+  const weekdays = parseKeepWarmSchedule('mon-fri 08:00-20:00');
+
+  it('is true inside a window', () => {
+    expect(isKeepWarm(weekdays, new Date('2026-01-27T08:00:00Z'))).toBe(true);
+    expect(isKeepWarm(weekdays, new Date('2026-01-27T19:59:00Z'))).toBe(true);
+  });
+
+  it('is false outside a window', () => {
+    expect(isKeepWarm(weekdays, new Date('2026-01-27T07:59:00Z'))).toBe(false);
+    expect(isKeepWarm(weekdays, new Date('2026-01-27T20:00:00Z'))).toBe(false);
+    expect(isKeepWarm(weekdays, new Date('2026-01-31T12:00:00Z'))).toBe(false);
+  });
+
+  it('evaluates windows in the configured time zone', () => {
+    const berlin = parseKeepWarmSchedule('mon-fri 08:00-20:00', 'Europe/Berlin');
+    // 07:30 UTC is 08:30 in Berlin in winter
+    expect(isKeepWarm(berlin, new Date('2026-01-27T07:30:00Z'))).toBe(true);
+    expect(isKeepWarm(berlin, new Date('2026-01-27T19:30:00Z'))).toBe(false);
+  });
+
+  it('keeps windows that run past midnight on the day they start', () => {
+    const nights = parseKeepWarmSchedule('fri 22:00-02:00');
+    expect(isKeepWarm(nights, new Date('2026-01-30T23:00:00Z'))).toBe(true);
+    expect(isKeepWarm(nights, new Date('2026-01-31T01:00:00Z'))).toBe(true);
+    expect(isKeepWarm(nights, new Date('2026-01-31T03:00:00Z'))).toBe(false);
+    expect(isKeepWarm(nights, new Date('2026-01-30T01:00:00Z'))).toBe(false);
+  });
+});
+
+describe('nextKeepWarmChange', () => {
+  const weekdays = parseKeepWarmSchedule('mon-fri 08:00-20:00');
+
+  it('finds the end of the current window', () => {
+    expect(nextKeepWarmChange(weekdays, new Date('2026-01-27T12:34:56Z'))?.toISOString()).toBe(
+      '2026-01-27T20:00:00.000Z',
+    );
+  });
+
+  it('finds the start of the next window across the weekend', () => {
+    expect(nextKeepWarmChange(weekdays, new Date('2026-01-30T21:00:00Z'))?.toISOString()).toBe(
+      '2026-02-02T08:00:00.000Z',
+    );
+  });
+
+  it('is null when the schedule never changes', () => {
+    const always = parseKeepWarmSchedule('00:00-24:00');
+    expect(nextKeepWarmChange(always, new Date('2026-01-27T12:00:00Z'))).toBeNull();
+  });
+
+  it('jumps between boundaries instead of checking every minute', () => {
+    const formatToParts = vi.spyOn(Intl.DateTimeFormat.prototype, 'formatToParts');
+
+    nextKeepWarmChange(weekdays, new Date('2026-01-30T21:00:00Z'));
+    nextKeepWarmChange(parseKeepWarmSchedule('00:00-24:00'), new Date('2026-01-27T12:00:00Z'));
+
+    expect(formatToParts.mock.calls.length).toBeLessThan(50);
+    formatToParts.mockRestore();
+  });
+
+  it('finds a window start the clocks skip past', () => {
+    // Clocks in Berlin go from 02:00 to 03:00 on 2026-03-29
+    const early = parseKeepWarmSchedule('02:30-06:00', 'Europe/Berlin');
+    expect(nextKeepWarmChange(early, new Date('2026-03-28T23:00:00Z'))?.toISOString()).toBe(
+      '2026-03-29T01:00:00.000Z',
+    );
+    // 06:00 CEST
+    expect(nextKeepWarmChange(early, new Date('2026-03-29T02:00:00Z'))?.toISOString()).toBe(
+      '2026-03-29T04:00:00.000Z',
+    );
+  });
+});
+
+describe('syncBeforeSleep', () => {
+  beforeEach(() => {
+    suppressConsole();
+    syncAndRecordMock.mockReset();
+    recordUnsyncedSleepMock.mockReset();
+  });
+
+  it('sleeps without syncing when the gateway is stopped', async () => {
+    const { sandbox } = createMockSandbox({ gatewayState: gateway('stopped') });
+
+    const result = await syncBeforeSleep(sandbox, createMockEnv(), 0);
+
+    expect(result).toEqual({ sleep: true, failures: 0 });
+    expect(syncAndRecordMock).not.toHaveBeenCalled();
+  });
+
+  it('sleeps once the sync succeeded', async () => {
+    const { sandbox } = createMockSandbox({ gatewayState: gateway('ready') });
+    syncAndRecordMock.mockResolvedValue({ success: true, lastSync: '2026-01-27T12:00:00+00:00' });
+
+    const result = await syncBeforeSleep(sandbox, createMockEnv(), 1);
+
+    expect(result).toEqual({ sleep: true, failures: 0 });
+  });
+
+  it('sleeps when R2 is not configured', async () => {
+    const { sandbox } = createMockSandbox({ gatewayState: gateway('ready') });
+    syncAndRecordMock.mockResolvedValue({
+      success: false,
+      notConfigured: true,
+      error: 'R2 storage is not configured',
+    });
+
+    const result = await syncBeforeSleep(sandbox, createMockEnv(), 0);
+
+    expect(result.sleep).toBe(true);
+  });
+
+  it('stays awake to retry a failed sync', async () => {
+    const { sandbox } = createMockSandbox({ gatewayState: gateway('ready') });
+    syncAndRecordMock.mockResolvedValue({ success: false, error: 'Config sync failed' });
+
+    const result = await syncBeforeSleep(sandbox, createMockEnv(), 0);
+
+    expect(result).toEqual({ sleep: false, failures: 1 });
+    expect(recordUnsyncedSleepMock).not.toHaveBeenCalled();
+  });
+
+  it('sleeps anyway after repeated failures, recording that data may be lost', async () => {
+    const { sandbox } = createMockSandbox({ gatewayState: gateway('ready') });
+    const env = createMockEnv();
+    syncAndRecordMock.mockResolvedValue({ success: false, error: 'Config sync failed' });
+
+    const result = await syncBeforeSleep(sandbox, env, 2);
+
+    expect(result).toEqual({ sleep: true, failures: 0 });
+    expect(recordUnsyncedSleepMock).toHaveBeenCalledWith(sandbox, env, 3);
+  });
+});
@@ -0,0 +1,267 @@
+import type { MoltbotEnv } from '../types';
+import type { MoltbotSandbox } from '../sandbox';
+import { recordUnsyncedSleep, syncAndRecord } from './sync-history';
+
+/** Sleep timeout outside keep-warm windows when SANDBOX_SLEEP_AFTER is not a duration */
+const DEFAULT_SCHEDULED_SLEEP_AFTER = '10m';
+
+/** Failed pre-sleep syncs after which the container is allowed to sleep anyway */
+const MAX_SLEEP_SYNC_FAILURES = 3;
+
+/** How far ahead to look for the next keep-warm window boundary */
+const MAX_LOOKAHEAD_MINUTES = 8 * 24 * 60;
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const ALL_DAYS: ReadonlySet<number> = new Set([0, 1, 2, 3, 4, 5, 6]);
+
+export interface KeepWarmWindow {
+  /** Days the window starts on, 0 = Sunday */
+  days: ReadonlySet<number>;
+  /** Minutes after local midnight */
+  start: number;
+  /** Minutes after local midnight; before start for windows that run past midnight */
+  end: number;
+}
+
+export interface KeepWarmSchedule {
+  windows: KeepWarmWindow[];
+  /** IANA time zone the windows are in */
+  timeZone: string;
+}
+
+function parseTime(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  const hours = match ? Number(match[1]) : NaN;
+  const minutes = match ? Number(match[2]) : NaN;
+  if (!(hours >= 0 && hours <= 24 && minutes >= 0 && minutes < 60) || hours * 60 + minutes > 1440) {
+    throw new Error(`Invalid time "${value}", expected HH:MM`);
+  }
+  return hours * 60 + minutes;
+}
+
+function parseDay(value: string): number {
+  const day = DAY_NAMES.indexOf(value.slice(0, 3).toLowerCase());
+  if (day === -1) {
+    throw new Error(`Invalid day "${value}", expected mon, tue, ...`);
+  }
+  return day;
+}
+
+function parseDays(value: string): ReadonlySet<number> {
+  const days = new Set<number>();
+  for (const part of value.split('/')) {
+    const [from, to] = part.split('-');
+    const first = parseDay(from);
+    const last = to ? parseDay(to) : first;
+    for (let day = first; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === last) break;
+    }
+  }
+  return days;
+}
+
+/**
+ * Parse a keep-warm schedule such as "mon-fri 08:00-20:00, sat 10:00-14:00"
+ *
+ * Each window is an optional day range followed by a time range. Days are
+ * separated by "/" ("mon/wed/fri"); without days the window applies daily.
+ * A window whose end is before its start runs past midnight.
+ *
+ * @throws Error if the schedule or time zone is invalid
+ */
+export function parseKeepWarmSchedule(spec: string, timeZone: string = 'UTC'): KeepWarmSchedule {
+  // Throws a RangeError for unknown time zones
+  localTimeFormat(timeZone);
+
+  const windows = spec
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part): KeepWarmWindow => {
+      const tokens = part.split(/\s+/);
+      if (tokens.length > 2) {
+        throw new Error(`Invalid window "${part}", expected "[days] HH:MM-HH:MM"`);
+      }
+      const times = tokens.at(-1) ?? '';
+      const [start, end] = times.split('-');
+      if (!start || !end) {
+        throw new Error(`Invalid window "${part}", expected "[days] HH:MM-HH:MM"`);
+      }
+      return {
+        days: tokens.length === 2 ? parseDays(tokens[0]) : ALL_DAYS,
+        start: parseTime(start),
+        end: parseTime(end),
+      };
+    });
+
+  if (windows.length === 0) {
+    throw new Error('Schedule has no windows');
+  }
+  return { windows, timeZone };
+}
+
+/**
+ * Read the keep-warm schedule from SANDBOX_KEEP_WARM and SANDBOX_TIMEZONE
+ *
+ * @returns The schedule, or null if none is configured or it is invalid
+ */
+export function getKeepWarmSchedule(env: MoltbotEnv): KeepWarmSchedule | null {
+  const spec = env.SANDBOX_KEEP_WARM?.trim();
+  if (!spec) return null;
+  try {
+    return parseKeepWarmSchedule(spec, env.SANDBOX_TIMEZONE || 'UTC');
+  } catch (err) {
+    console.error('[Schedule] Ignoring invalid SANDBOX_KEEP_WARM:', err);
+    return null;
+  }
+}
+
+/**
+ * Sleep timeout outside keep-warm windows
+ */
+export function getScheduledSleepAfter(env: MoltbotEnv): string {
+  const sleepAfter = env.SANDBOX_SLEEP_AFTER?.toLowerCase() || 'never';
+  return sleepAfter === 'never' ? DEFAULT_SCHEDULED_SLEEP_AFTER : sleepAfter;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function localTimeFormat(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function localTime(date: Date, timeZone: string): { day: number; minute: number } {
+  const parts = localTimeFormat(timeZone).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    day: parseDay(part('weekday')),
+    minute: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+function inWindow(window: KeepWarmWindow, day: number, minute: number): boolean {
+  if (window.start === window.end) {
+    return window.days.has(day);
+  }
+  if (window.start < window.end) {
+    return window.days.has(day) && minute >= window.start && minute < window.end;
+  }
+  // Runs past midnight: the early hours belong to the previous day's window
+  const previousDay = (day + 6) % 7;
+  return (
+    (window.days.has(day) && minute >= window.start) ||
+    (window.days.has(previousDay) && minute < window.end)
+  );
+}
+
+function keptWarm(schedule: KeepWarmSchedule, day: number, minute: number): boolean {
+  return schedule.windows.some((window) => inWindow(window, day, minute));
+}
+
+/**
+ * Whether the sandbox should be kept warm at the given time
+ */
+export function isKeepWarm(schedule: KeepWarmSchedule, now: Date = new Date()): boolean {
+  const { day, minute } = localTime(now, schedule.timeZone);
+  return keptWarm(schedule, day, minute);
+}
+
+/**
+ * Minutes from a local time to the next window start or end, or to local
+ * midnight, where the day changes
+ */
+function minutesToBoundary(schedule: KeepWarmSchedule, minute: number): number {
+  let next = 1440 - minute;
+  for (const window of schedule.windows) {
+    for (const boundary of [window.start, window.end]) {
+      if (boundary > minute && boundary - minute < next) next = boundary - minute;
+    }
+  }
+  return next;
+}
+
+/**
+ * Find when the sandbox next enters or leaves a keep-warm window
+ *
+ * Jumps from one boundary to the next in local time. Across a daylight
+ * saving change, where a boundary can be skipped or repeated, it walks a
+ * minute at a time instead, so the time zone database decides.
+ *
+ * @returns The time of the next change, or null if the schedule never changes
+ */
+export function nextKeepWarmChange(
+  schedule: KeepWarmSchedule,
+  now: Date = new Date(),
+): Date | null {
+  const current = isKeepWarm(schedule, now);
+  let time = Math.floor(now.getTime() / 60_000) * 60_000;
+  const end = time + MAX_LOOKAHEAD_MINUTES * 60_000;
+  let local = localTime(new Date(time), schedule.timeZone);
+  while (time < end) {
+    const step = minutesToBoundary(schedule, local.minute);
+    const next = Math.min(time + step * 60_000, end);
+    const nextLocal = localTime(new Date(next), schedule.timeZone);
+    const elapsed = ((nextLocal.day - local.day + 7) % 7) * 1440 + nextLocal.minute - local.minute;
+    if (elapsed * 60_000 !== next - time) {
+      for (let minute = time + 60_000; minute < next; minute += 60_000) {
+        if (isKeepWarm(schedule, new Date(minute)) !== current) return new Date(minute);
+      }
+    }
+    if (keptWarm(schedule, nextLocal.day, nextLocal.minute) !== current) return new Date(next);
+    time = next;
+    local = nextLocal;
+  }
+  return null;
+}
+
+/**
+ * Sync the workspace to R2 before the container goes to sleep
+ *
+ * @param failures - Consecutive failed attempts so far
+ * @returns Whether the container may sleep now, and the updated failure count
+ */
+export async function syncBeforeSleep(
+  sandbox: MoltbotSandbox,
+  env: MoltbotEnv,
+  failures: number,
+): Promise<{ sleep: boolean; failures: number }> {
+  const state = await sandbox.getGatewayState();
+  if (state.phase === 'stopped') {
+    return { sleep: true, failures: 0 };
+  }
+
+  console.log('[Schedule] Syncing to R2 before sleeping');
+  const result = await syncAndRecord(sandbox, env, 'sleep');
+  if (result.success || result.notConfigured) {
+    return { sleep: true, failures: 0 };
+  }
+
+  const attempts = failures + 1;
+  if (attempts >= MAX_SLEEP_SYNC_FAILURES) {
+    console.error(
+      `[Schedule] Sync before sleep failed ${attempts} times, sleeping anyway:`,
+      result.error,
+      result.details || '',
+    );
+    try {
+      await recordUnsyncedSleep(sandbox, env, attempts);
+    } catch (err) {
+      console.error('[Schedule] Failed to record sleeping without a sync:', err);
+    }
+    return { sleep: true, failures: 0 };
+  }
+  console.error('[Schedule] Sync before sleep failed, staying awake to retry:', result.error);
+  return { sleep: false, failures: attempts };
+}
@@ -0,0 +1,294 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createSnapshot,
+  diffSnapshotFiles,
+  getSnapshotKeep,
+  isValidSnapshotId,
+  listSnapshotFiles,
+  listSnapshots,
+  parseSnapshotId,
+  restoreSnapshot,
+  snapshotId,
+} from './snapshots';
+import {
+  createMockEnv,
+  createMockEnvWithR2,
+  createMockExecResult,
+  createMockSandbox,
+  suppressConsole,
+} from '../test-utils';
+
+/**
+ * Answer rclone commands by what they do; everything else succeeds silently
+ */
+function rcloneSandbox(snapshotDirs: string[] = []) {
+  const mock = createMockSandbox();
+  mock.execMock.mockImplementation(async (command: string) => {
+    if (command.startsWith('test -f /tmp/.rclone-configured')) return createMockExecResult('yes');
+    if (command.startsWith('rclone lsf --dirs-only')) {
+      return createMockExecResult(snapshotDirs.map((id) => `${id}/`).join('\n'));
+    }
+    return createMockExecResult();
+  });
+  return mock;
+}
+
+function commands(execMock: ReturnType<typeof createMockSandbox>['execMock']): string[] {
+  return execMock.mock.calls.map(([command]) => command as string);
+}
+
+describe('snapshot IDs', () => {
+  it('encode the time and reason', () => {
+    const id = snapshotId('manual', new Date('2026-01-27T12:34:56.789Z'));
+    expect(id).toBe('20260127T123456Z-manual');
+    expect(parseSnapshotId(id)).toEqual({
+      id,
+      createdAt: '2026-01-27T12:34:56.000Z',
+      reason: 'manual',
+    });
+  });
+
+  it('rejects anything that could escape the rclone command', () => {
+    expect(isValidSnapshotId('20260127T123456Z-auto')).toBe(true);
+    expect(isValidSnapshotId('20260127T123456Z-auto; rm -rf /')).toBe(false);
+    expect(isValidSnapshotId('../openclaw')).toBe(false);
+    expect(parseSnapshotId('not-a-snapshot')).toBeNull();
+  });
+});
+
+describe('getSnapshotKeep', () => {
+  it('defaults to 24 automatic snapshots', () => {
+    expect(getSnapshotKeep(createMockEnv())).toBe(24);
+    expect(getSnapshotKeep(createMockEnv({ R2_SNAPSHOT_KEEP: 'lots' }))).toBe(24);
+  });
+
+  it('reads R2_SNAPSHOT_KEEP', () => {
+    expect(getSnapshotKeep(createMockEnv({ R2_SNAPSHOT_KEEP: '3' }))).toBe(3);
+    expect(getSnapshotKeep(createMockEnv({ R2_SNAPSHOT_KEEP: '0' }))).toBe(0);
+  });
+});
+
+describe('listSnapshots', () => {
+  it('lists snapshots newest first and skips unknown directories', async () => {
+    const { sandbox } = rcloneSandbox([
+      '20260125T080000Z-auto',
+      'scratch',
+      '20260127T120000Z-manual',
+      '20260126T080000Z-pre-restore',
+    ]);
+
+    const snapshots = await listSnapshots(sandbox, createMockEnvWithR2());
+
+    expect(snapshots.map((s) => s.id)).toEqual([
+      '20260127T120000Z-manual',
+      '20260126T080000Z-pre-restore',
+      '20260125T080000Z-auto',
+    ]);
+  });
+
+  it('fails when R2 is not configured', async () => {
+    const { sandbox } = createMockSandbox();
+    await expect(listSnapshots(sandbox, createMockEnv())).rejects.toThrow(
+      'R2 storage is not configured',
+    );
+  });
+
+  it('lists snapshots under the tenant prefix', async () => {
+    const { sandbox, execMock } = rcloneSandbox();
+
+    await listSnapshots(sandbox, createMockEnvWithR2({ R2_PREFIX: 'tenants/alice-1234abcd/' }));
+
+    expect(commands(execMock)).toContainEqual(
+      expect.stringContaining('r2:moltbot-data/tenants/alice-1234abcd/snapshots/'),
+    );
+  });
+});
+
+describe('createSnapshot', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('copies the live data server-side into a new snapshot', async () => {
+    const { sandbox, execMock } = rcloneSandbox();
+
+    const snapshot = await createSnapshot(sandbox, createMockEnvWithR2(), 'manual');
+
+    expect(snapshot.reason).toBe('manual');
+    const copies = commands(execMock).filter((command) => command.includes('rclone copy'));
+    expect(copies).toHaveLength(3);
+    expect(copies[0]).toMatch(
+      new RegExp(
+        `^rclone copy r2:moltbot-data/openclaw/ r2:moltbot-data/snapshots/${snapshot.id}/openclaw/`,
+      ),
+    );
+    // The workspace and skills are optional
+    expect(copies[1]).toContain('if rclone lsf --max-depth 1 r2:moltbot-data/workspace/');
+  });
+
+  it('fails when the config cannot be copied', async () => {
+    const { sandbox, execMock } = rcloneSandbox();
+    execMock.mockImplementation(async (command: string) => {
+      if (command.startsWith('test -f')) return createMockExecResult('yes');
+      if (command.startsWith('rclone copy')) {
+        return createMockExecResult('', { exitCode: 3, stderr: 'directory not found' });
+      }
+      return createMockExecResult();
+    });
+
+    await expect(createSnapshot(sandbox, createMockEnvWithR2(), 'manual')).rejects.toThrow(
+      'Failed to snapshot openclaw/: directory not found',
+    );
+  });
+
+  it('prunes automatic snapshots beyond the retention limit only', async () => {
+    const { sandbox, execMock } = rcloneSandbox([
+      '20260127T120000Z-auto',
+      '20260127T060000Z-auto',
+      '20260126T120000Z-manual',
+      '20260126T060000Z-auto',
+    ]);
+
+    await createSnapshot(sandbox, createMockEnvWithR2({ R2_SNAPSHOT_KEEP: '1' }), 'auto');
+
+    const purges = commands(execMock).filter((command) => command.startsWith('rclone purge'));
+    expect(purges).toEqual([
+      'rclone purge r2:moltbot-data/snapshots/20260127T060000Z-auto/',
+      'rclone purge r2:moltbot-data/snapshots/20260126T060000Z-auto/',
+    ]);
+  });
+});
+
+describe('listSnapshotFiles', () => {
+  it('lists the persisted directories with their hashes', async () => {
+    const { sandbox, execMock } = rcloneSandbox();
+    execMock.mockImplementation(async (command: string) => {
+      if (command.startsWith('test -f')) return createMockExecResult('yes');
+      return createMockExecResult(
+        JSON.stringify([{ Path: 'openclaw/openclaw.json', Size: 42, Hashes: { md5: 'abc' } }]),
+      );
+    });
+
+    const files = await listSnapshotFiles(sandbox, createMockEnvWithR2(), 'live');
+
+    expect(files).toEqual([{ path: 'openclaw/openclaw.json', size: 42, md5: 'abc' }]);
+    expect(commands(execMock)[1]).toContain("--include='/workspace/**'");
+    expect(commands(execMock)[1]).toContain('r2:moltbot-data/ ');
+  });
+});
+
+describe('diffSnapshotFiles', () => {
+  it('reports added, removed and changed files', () => {
+    const diff = diffSnapshotFiles(
+      [
+        { path: 'openclaw/openclaw.json', size: 10, md5: 'a' },
+        { path: 'workspace/notes.md', size: 5, md5: 'b' },
+        { path: 'workspace/gone.md', size: 1, md5: 'c' },
+      ],
+      [
+        { path: 'openclaw/openclaw.json', size: 10, md5: 'a2' },
+        { path: 'workspace/notes.md', size: 5, md5: 'b' },
+        { path: 'workspace/new.md', size: 3, md5: 'd' },
+      ],
+    );
+
+    expect(diff.added).toEqual(['workspace/new.md']);
+    expect(diff.removed).toEqual(['workspace/gone.md']);
+    expect(diff.changed).toEqual(['openclaw/openclaw.json']);
+    expect(diff.counts).toEqual({ added: 1, removed: 1, changed: 1, unchanged: 1 });
+    expect(diff.truncated).toBe(false);
+  });
+
+  it('compares sizes when hashes are missing', () => {
+    const diff = diffSnapshotFiles(
+      [{ path: 'workspace/big.bin', size: 10 }],
+      [{ path: 'workspace/big.bin', size: 11 }],
+    );
+    expect(diff.changed).toEqual(['workspace/big.bin']);
+  });
+
+  it('caps the listed paths', () => {
+    const files = Array.from({ length: 600 }, (_, i) => ({ path: `workspace/${i}.md`, size: 1 }));
+    const diff = diffSnapshotFiles([], files);
+    expect(diff.added).toHaveLength(500);
+    expect(diff.counts.added).toBe(600);
+    expect(diff.truncated).toBe(true);
+  });
+});
+
+describe('restoreSnapshot', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('restores each directory into the container and the live data', async () => {
+    const { sandbox, execMock } = rcloneSandbox();
+
+    await restoreSnapshot(sandbox, createMockEnvWithR2(), '20260127T120000Z-manual');
+
+    const restores = commands(execMock).filter((command) => command.includes('rclone sync'));
+    expect(restores).toHaveLength(3);
+    expect(restores[0]).toContain(
+      'rclone sync r2:moltbot-data/snapshots/20260127T120000Z-manual/openclaw/ /root/.openclaw/',
+    );
+    expect(restores[0]).toContain(
+      'rclone sync r2:moltbot-data/snapshots/20260127T120000Z-manual/openclaw/ r2:moltbot-data/openclaw/',
+    );
+    // Skills are restored on their own, not wiped by the workspace restore
+    expect(restores[1]).toContain("--filter '- /skills/**'");
+    // So are the files the sync policy leaves out
+    expect(restores[1]).toContain("--filter '- node_modules/**'");
+  });
+
+  it('resets the sync manifest so the next sync compares against R2', async () => {
+    const { sandbox, execMock } = rcloneSandbox();
+
+    await restoreSnapshot(sandbox, createMockEnvWithR2(), '20260127T120000Z-manual');
+
+    expect(commands(execMock)).toContain('rm -f /tmp/.sync-manifest.tsv');
+    expect(
+      commands(execMock).some((command) =>
+        command.startsWith('rclone deletefile r2:moltbot-data/sync-manifest.tsv'),
+      ),
+    ).toBe(true);
+  });
+
+  it('reports which directory failed', async () => {
+    const { sandbox, execMock } = rcloneSandbox();
+    execMock.mockImplementation(async (command: string) => {
+      if (command.startsWith('test -f')) return createMockExecResult('yes');
+      if (!command.startsWith('if rclone lsf')) return createMockExecResult();
+      return createMockExecResult('', { exitCode: 1, stderr: 'AccessDenied' });
+    });
+
+    await expect(
+      restoreSnapshot(sandbox, createMockEnvWithR2(), '20260127T120000Z-manual'),
+    ).rejects.toThrow('Failed to restore openclaw/ from snapshot 20260127T120000Z-manual');
+  });
+
+  it('holds the sync lock and advances the generation before releasing it', async () => {
+    const { sandbox, execMock, startProcessMock, writeFileMock } = rcloneSandbox();
+
+    await restoreSnapshot(sandbox, createMockEnvWithR2(), '20260127T120000Z-manual');
+
+    const [holder] = startProcessMock.mock.calls[0] as [string];
+    expect(holder).toMatch(/^flock -w 60 \/tmp\/\.r2-sync\.lock /);
+    const held = /touch (\S+);/.exec(holder)?.[1];
+    const all = commands(execMock);
+    const firstRestore = all.findIndex((command) => command.includes('rclone sync'));
+    const generation = all.findIndex((command) =>
+      command.includes(
+        'rclone copyto /tmp/.r2-sync-upload.txt r2:moltbot-data/sync-generation.json',
+      ),
+    );
+    expect(all.findIndex((command) => command.includes(`until [ -e ${held} ]`))).toBeLessThan(
+      firstRestore,
+    );
+    expect(generation).toBeGreaterThan(firstRestore);
+    expect(all[all.length - 1]).toBe(`rm -f ${held}`);
+    expect(writeFileMock).toHaveBeenCalledWith(
+      '/tmp/.sync-generation.json',
+      expect.stringContaining('"generation":1'),
+    );
+  });
+});
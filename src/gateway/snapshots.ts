@@ -0,0 +1,349 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { RCLONE_FLAGS, ensureRcloneConfig, getR2SyncMode, rcloneRemote } from './r2';
+import { MANIFEST_NAME, clearLocalManifest } from './manifest';
+import { decryptRestored } from './encryption';
+import { getSyncPolicy, rcloneFilters } from './sync-policy';
+import { withSyncLock } from './sync';
+
+/** Automatic snapshots kept when R2_SNAPSHOT_KEEP is not set */
+const DEFAULT_SNAPSHOT_KEEP = 24;
+
+/** Paths listed per side of a diff, so large workspaces don't produce huge responses */
+const DIFF_MAX_PATHS = 500;
+
+const COPY_TIMEOUT_MS = 300_000;
+
+/** Where snapshots live, next to the live openclaw/, workspace/ and skills/ prefixes */
+const SNAPSHOTS_PREFIX = 'snapshots/';
+
+/**
+ * What a snapshot contains: each persisted directory, where it lives in the
+ * container, and what belongs to another directory. What else sync leaves
+ * out of it is up to the sync policy.
+ */
+const SNAPSHOT_DIRS = [
+  { name: 'openclaw', local: '/root/.openclaw', excludes: [] },
+  // Skills are persisted separately from the rest of the workspace
+  { name: 'workspace', local: '/root/clawd', excludes: ['/skills/**'] },
+  { name: 'skills', local: '/root/clawd/skills', excludes: [] },
+] as const;
+
+export type SnapshotReason = 'auto' | 'manual' | 'pre-restore' | 'conflict';
+
+export interface Snapshot {
+  /** Timestamp and reason, e.g. "20260127T120000Z-manual" */
+  id: string;
+  /** ISO timestamp of when the snapshot was taken */
+  createdAt: string;
+  reason: SnapshotReason;
+}
+
+export interface SnapshotFile {
+  /** Path relative to the snapshot, starting with openclaw/, workspace/ or skills/ */
+  path: string;
+  size: number;
+  md5?: string;
+}
+
+export interface SnapshotDiff {
+  from: string;
+  to: string;
+  /** Files in `to` only */
+  added: string[];
+  /** Files in `from` only */
+  removed: string[];
+  /** Files whose size or content differs */
+  changed: string[];
+  counts: { added: number; removed: number; changed: number; unchanged: number };
+  /** Whether any list was cut short at DIFF_MAX_PATHS */
+  truncated: boolean;
+}
+
+const SNAPSHOT_ID =
+  /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z-(auto|manual|pre-restore|conflict)$/;
+
+/**
+ * Accept snapshot IDs only; the ID ends up in rclone commands
+ */
+export function isValidSnapshotId(id: string): boolean {
+  return SNAPSHOT_ID.test(id);
+}
+
+/**
+ * Read the time and reason encoded in a snapshot ID
+ */
+export function parseSnapshotId(id: string): Snapshot | null {
+  const match = SNAPSHOT_ID.exec(id);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, reason] = match;
+  return {
+    id,
+    createdAt: `${year}-${month}-${day}T${hours}:${minutes}:${seconds}.000Z`,
+    reason: reason as SnapshotReason,
+  };
+}
+
+/**
+ * Build the ID for a snapshot taken now
+ */
+export function snapshotId(reason: SnapshotReason, date: Date = new Date()): string {
+  const stamp = date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+  return `${stamp}-${reason}`;
+}
+
+/**
+ * Number of automatic snapshots to keep (R2_SNAPSHOT_KEEP)
+ *
+ * Manual, pre-restore and conflict snapshots are never pruned.
+ */
+export function getSnapshotKeep(env: MoltbotEnv): number {
+  const keep = Number.parseInt(env.R2_SNAPSHOT_KEEP ?? '', 10);
+  return Number.isFinite(keep) && keep >= 0 ? keep : DEFAULT_SNAPSHOT_KEEP;
+}
+
+function snapshotRemote(env: MoltbotEnv, id: string, path: string = ''): string {
+  return rcloneRemote(env, `${SNAPSHOTS_PREFIX}${id}/${path}`);
+}
+
+async function requireRclone(sandbox: Sandbox, env: MoltbotEnv): Promise<void> {
+  if (!(await ensureRcloneConfig(sandbox, env))) {
+    // Binding mode persists data without rclone, but snapshots are copied with it
+    throw new Error(
+      getR2SyncMode(env) === 'binding'
+        ? 'R2 storage is not configured for snapshots, which need R2 API credentials'
+        : 'R2 storage is not configured',
+    );
+  }
+}
+
+async function run(sandbox: Sandbox, command: string, failure: string): Promise<string> {
+  const result = await sandbox.exec(command, { timeout: COPY_TIMEOUT_MS });
+  if (!result.success) {
+    const stderr = result.stderr?.trim().slice(-500);
+    throw new Error(stderr ? `${failure}: ${stderr}` : failure);
+  }
+  return result.stdout || '';
+}
+
+/**
+ * List snapshots, newest first
+ */
+export async function listSnapshots(sandbox: Sandbox, env: MoltbotEnv): Promise<Snapshot[]> {
+  await requireRclone(sandbox, env);
+  // A bucket without snapshots has no snapshots/ directory to list
+  const stdout = await run(
+    sandbox,
+    `rclone lsf --dirs-only ${rcloneRemote(env, SNAPSHOTS_PREFIX)} ${RCLONE_FLAGS} 2>/dev/null || true`,
+    'Failed to list snapshots',
+  );
+  const snapshots = stdout
+    .split('\n')
+    .map((line) => parseSnapshotId(line.trim().replace(/\/$/, '')))
+    .filter((snapshot): snapshot is Snapshot => snapshot !== null);
+  // IDs start with a sortable timestamp
+  snapshots.sort((a, b) => b.id.localeCompare(a.id));
+  return snapshots;
+}
+
+/**
+ * Snapshot the data currently persisted in R2
+ *
+ * Objects are copied server-side within the bucket, so nothing is uploaded
+ * from the container. Sync the container to R2 first to include its latest
+ * changes. Automatic snapshots beyond R2_SNAPSHOT_KEEP are pruned afterwards.
+ *
+ * @returns The new snapshot
+ * @throws Error if R2 is not configured or there is no config in R2 to snapshot
+ */
+export async function createSnapshot(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  reason: SnapshotReason,
+): Promise<Snapshot> {
+  await requireRclone(sandbox, env);
+  const id = snapshotId(reason);
+
+  for (const dir of SNAPSHOT_DIRS) {
+    const source = rcloneRemote(env, `${dir.name}/`);
+    const copy = `rclone copy ${source} ${snapshotRemote(env, id, `${dir.name}/`)} ${RCLONE_FLAGS}`;
+    // The config is required; the workspace and skills may not have been synced yet
+    const command =
+      dir.name === 'openclaw'
+        ? copy
+        : `if rclone lsf --max-depth 1 ${source} >/dev/null 2>&1; then ${copy}; fi`;
+    // eslint-disable-next-line no-await-in-loop -- copies run one at a time to bound container load
+    await run(sandbox, command, `Failed to snapshot ${dir.name}/`);
+  }
+
+  console.log('[Snapshots] Created snapshot', id);
+  await pruneSnapshots(sandbox, env, getSnapshotKeep(env));
+  return parseSnapshotId(id) as Snapshot;
+}
+
+/**
+ * Delete a snapshot
+ */
+export async function deleteSnapshot(sandbox: Sandbox, env: MoltbotEnv, id: string): Promise<void> {
+  await requireRclone(sandbox, env);
+  await run(sandbox, `rclone purge ${snapshotRemote(env, id)}`, `Failed to delete snapshot ${id}`);
+  console.log('[Snapshots] Deleted snapshot', id);
+}
+
+/**
+ * Delete automatic snapshots beyond the newest `keep`
+ *
+ * @returns IDs of the deleted snapshots
+ */
+export async function pruneSnapshots(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  keep: number,
+): Promise<string[]> {
+  const automatic = (await listSnapshots(sandbox, env)).filter((s) => s.reason === 'auto');
+  const expired = automatic.slice(keep).map((s) => s.id);
+  for (const id of expired) {
+    // eslint-disable-next-line no-await-in-loop -- deletions run one at a time to bound container load
+    await deleteSnapshot(sandbox, env, id);
+  }
+  return expired;
+}
+
+interface RcloneListEntry {
+  Path: string;
+  Size: number;
+  Hashes?: { md5?: string };
+}
+
+/**
+ * List the files of a snapshot, or of the live data when `id` is "live"
+ */
+export async function listSnapshotFiles(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  id: string,
+): Promise<SnapshotFile[]> {
+  await requireRclone(sandbox, env);
+  const base = id === 'live' ? rcloneRemote(env, '') : snapshotRemote(env, id);
+  const includes = SNAPSHOT_DIRS.map((dir) => `--include='/${dir.name}/**'`).join(' ');
+  const stdout = await run(
+    sandbox,
+    `rclone lsjson -R --files-only --hash --hash-type md5 ${includes} ${base} ${RCLONE_FLAGS}`,
+    `Failed to list files of ${id === 'live' ? 'live data' : `snapshot ${id}`}`,
+  );
+  const entries = JSON.parse(stdout || '[]') as RcloneListEntry[];
+  return entries.map((entry) => ({
+    path: entry.Path,
+    size: entry.Size,
+    md5: entry.Hashes?.md5,
+  }));
+}
+
+function isSameFile(a: SnapshotFile, b: SnapshotFile): boolean {
+  if (a.size !== b.size) return false;
+  return !a.md5 || !b.md5 || a.md5 === b.md5;
+}
+
+/**
+ * Compare two sets of snapshot files
+ */
+export function diffSnapshotFiles(
+  from: SnapshotFile[],
+  to: SnapshotFile[],
+): Omit<SnapshotDiff, 'from' | 'to'> {
+  const before = new Map(from.map((file) => [file.path, file]));
+  const after = new Map(to.map((file) => [file.path, file]));
+
+  const added: string[] = [];
+  const removed: string[] = [];
+  const changed: string[] = [];
+  let unchanged = 0;
+
+  for (const [path, file] of after) {
+    const previous = before.get(path);
+    if (!previous) added.push(path);
+    else if (isSameFile(previous, file)) unchanged++;
+    else changed.push(path);
+  }
+  for (const path of before.keys()) {
+    if (!after.has(path)) removed.push(path);
+  }
+
+  for (const list of [added, removed, changed]) list.sort();
+  return {
+    added: added.slice(0, DIFF_MAX_PATHS),
+    removed: removed.slice(0, DIFF_MAX_PATHS),
+    changed: changed.slice(0, DIFF_MAX_PATHS),
+    counts: { added: added.length, removed: removed.length, changed: changed.length, unchanged },
+    truncated: [added, removed, changed].some((list) => list.length > DIFF_MAX_PATHS),
+  };
+}
+
+/**
+ * Compare a snapshot with the live data or with another snapshot
+ *
+ * @param from - Snapshot ID
+ * @param to - Snapshot ID, or "live" for the data currently in R2
+ */
+export async function diffSnapshots(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  from: string,
+  to: string,
+): Promise<SnapshotDiff> {
+  const before = await listSnapshotFiles(sandbox, env, from);
+  const after = await listSnapshotFiles(sandbox, env, to);
+  return { from, to, ...diffSnapshotFiles(before, after) };
+}
+
+/**
+ * Restore a snapshot into the container and make it the live data in R2
+ *
+ * Directories missing from the snapshot are left alone. Runs under the sync
+ * lock, and claims R2's data for this container once done. The gateway must
+ * be restarted afterwards to load the restored config.
+ */
+export async function restoreSnapshot(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  id: string,
+): Promise<void> {
+  await requireRclone(sandbox, env);
+  const policy = getSyncPolicy(env);
+
+  await withSyncLock(sandbox, env, async () => {
+    for (const dir of SNAPSHOT_DIRS) {
+      const source = snapshotRemote(env, id, `${dir.name}/`);
+      // Files the policy doesn't persist are left alone on both sides
+      const filters = rcloneFilters(policy, dir.name, [...dir.excludes]);
+      const command = [
+        `if rclone lsf --max-depth 1 ${source} >/dev/null 2>&1; then`,
+        `mkdir -p ${dir.local} &&`,
+        `rclone sync ${source} ${dir.local}/ ${RCLONE_FLAGS} ${filters} &&`,
+        // Server-side, so the background sync loop has nothing to undo
+        `rclone sync ${source} ${rcloneRemote(env, `${dir.name}/`)} ${RCLONE_FLAGS} ${filters};`,
+        'fi',
+      ].join(' ');
+      // eslint-disable-next-line no-await-in-loop -- directories are restored one at a time
+      await run(sandbox, command, `Failed to restore ${dir.name}/ from snapshot ${id}`);
+    }
+    await decryptRestored(
+      sandbox,
+      SNAPSHOT_DIRS.map((dir) => dir.local),
+    );
+
+    // The sync manifest describes the data before the restore; without it, the
+    // next sync compares the container against R2 itself
+    await clearLocalManifest(sandbox);
+    await run(
+      sandbox,
+      `rclone deletefile ${rcloneRemote(env, MANIFEST_NAME)} ${RCLONE_FLAGS} 2>/dev/null || true`,
+      'Failed to reset the sync manifest',
+    );
+  });
+
+  console.log('[Snapshots] Restored snapshot', id);
+}
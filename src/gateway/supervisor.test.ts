@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Process } from '@cloudflare/sandbox';
+import {
+  describeCrash,
+  getCrashLoopThreshold,
+  isSupervisionEnabled,
+  recordCrash,
+  restartBackoffMs,
+  superviseGateway,
+  type SupervisorState,
+} from './supervisor';
+import type { GatewayState } from './lifecycle';
+import { createMockEnv, createMockSandbox, suppressConsole } from '../test-utils';
+
+const NOW = Date.parse('2026-01-27T12:00:00.000Z');
+
+function stateWith(
+  phase: GatewayState['phase'],
+  updatedAt: string = '2026-01-27T11:59:50.000Z',
+): GatewayState {
+  return { phase, processId: 'gateway-1', updatedAt };
+}
+
+function supervisorWith(overrides: Partial<SupervisorState> = {}): SupervisorState {
+  return { consecutiveCrashes: 0, crashLoop: false, ...overrides };
+}
+
+function exitedProcess(stderr: string, exitCode = 1): Process {
+  return {
+    id: 'gateway-1',
+    status: 'failed',
+    exitCode,
+    getLogs: vi.fn().mockResolvedValue({ stdout: '', stderr }),
+  } as unknown as Process;
+}
+
+describe('restartBackoffMs', () => {
+  it('doubles with every crash', () => {
+    expect(restartBackoffMs(1)).toBe(10_000);
+    expect(restartBackoffMs(2)).toBe(20_000);
+    expect(restartBackoffMs(3)).toBe(40_000);
+  });
+
+  it('is capped at five minutes', () => {
+    expect(restartBackoffMs(20)).toBe(300_000);
+  });
+});
+
+describe('recordCrash', () => {
+  it('schedules the next restart after the backoff', () => {
+    const next = recordCrash(supervisorWith(), '2026-01-27T12:00:00.000Z', 'boom', 5);
+    expect(next).toEqual({
+      consecutiveCrashes: 1,
+      lastCrashAt: '2026-01-27T12:00:00.000Z',
+      lastCrashReason: 'boom',
+      nextRestartAt: '2026-01-27T12:00:10.000Z',
+      crashLoop: false,
+    });
+  });
+
+  it('flags a crash loop at the threshold', () => {
+    const next = recordCrash(
+      supervisorWith({ consecutiveCrashes: 2 }),
+      '2026-01-27T12:00:00.000Z',
+      'boom',
+      3,
+    );
+    expect(next.crashLoop).toBe(true);
+  });
+});
+
+describe('getCrashLoopThreshold', () => {
+  it('defaults to 5', () => {
+    expect(getCrashLoopThreshold(createMockEnv())).toBe(5);
+  });
+
+  it('reads GATEWAY_CRASH_LOOP_THRESHOLD', () => {
+    expect(getCrashLoopThreshold(createMockEnv({ GATEWAY_CRASH_LOOP_THRESHOLD: '3' }))).toBe(3);
+  });
+
+  it('ignores invalid values', () => {
+    expect(getCrashLoopThreshold(createMockEnv({ GATEWAY_CRASH_LOOP_THRESHOLD: '0' }))).toBe(5);
+    expect(getCrashLoopThreshold(createMockEnv({ GATEWAY_CRASH_LOOP_THRESHOLD: 'abc' }))).toBe(5);
+  });
+});
+
+describe('isSupervisionEnabled', () => {
+  it('is enabled when the sandbox never sleeps', () => {
+    expect(isSupervisionEnabled(createMockEnv())).toBe(true);
+    expect(isSupervisionEnabled(createMockEnv({ SANDBOX_SLEEP_AFTER: 'never' }))).toBe(true);
+  });
+
+  it('is disabled when the sandbox sleeps', () => {
+    expect(isSupervisionEnabled(createMockEnv({ SANDBOX_SLEEP_AFTER: '10m' }))).toBe(false);
+  });
+
+  it('follows the keep-warm schedule when one is configured', () => {
+    const env = createMockEnv({ SANDBOX_KEEP_WARM: 'mon-fri 08:00-20:00' });
+    expect(isSupervisionEnabled(env, new Date('2026-01-27T12:00:00Z'))).toBe(true);
+    expect(isSupervisionEnabled(env, new Date('2026-01-27T22:00:00Z'))).toBe(false);
+  });
+});
+
+describe('describeCrash', () => {
+  it('includes the exit code and the tail of stderr', async () => {
+    const reason = await describeCrash(exitedProcess('Error: out of memory\n', 137));
+    expect(reason).toBe('Gateway exited (exit code 137): Error: out of memory');
+  });
+
+  it('truncates long stderr to its tail', async () => {
+    const reason = await describeCrash(exitedProcess(`${'x'.repeat(1000)}END`));
+    expect(reason.endsWith('END')).toBe(true);
+    expect(reason.length).toBeLessThan(550);
+  });
+
+  it('falls back to the exit code when stderr is empty', async () => {
+    const reason = await describeCrash(exitedProcess('', 1));
+    expect(reason).toBe('Gateway exited (exit code 1)');
+  });
+});
+
+describe('superviseGateway', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('leaves a running gateway alone', async () => {
+    const { sandbox, getProcessMock, startGatewayMock, gatewayState } = createMockSandbox({
+      gatewayState: stateWith('ready'),
+    });
+    getProcessMock.mockResolvedValue({ id: 'gateway-1', status: 'running' });
+
+    await superviseGateway(sandbox, createMockEnv(), NOW);
+
+    expect(gatewayState().phase).toBe('ready');
+    expect(startGatewayMock).not.toHaveBeenCalled();
+  });
+
+  it('resets the crash count once the gateway has been stable', async () => {
+    const { sandbox, getProcessMock, supervisorState } = createMockSandbox({
+      gatewayState: stateWith('ready'),
+      supervisorState: supervisorWith({
+        consecutiveCrashes: 2,
+        lastCrashAt: '2026-01-27T11:00:00.000Z',
+      }),
+    });
+    getProcessMock.mockResolvedValue({ id: 'gateway-1', status: 'running' });
+
+    await superviseGateway(sandbox, createMockEnv(), NOW);
+
+    expect(supervisorState().consecutiveCrashes).toBe(0);
+  });
+
+  it('records a crash with stderr when the gateway process exited', async () => {
+    const { sandbox, getProcessMock, startGatewayMock, gatewayState, supervisorState } =
+      createMockSandbox({ gatewayState: stateWith('ready') });
+    getProcessMock.mockResolvedValue(exitedProcess('Fatal: config invalid'));
+
+    await superviseGateway(sandbox, createMockEnv(), NOW);
+
+    expect(gatewayState().phase).toBe('crashed');
+    expect(gatewayState().error).toBe('Gateway exited (exit code 1): Fatal: config invalid');
+    expect(supervisorState().consecutiveCrashes).toBe(1);
+    expect(supervisorState().lastCrashReason).toBe(gatewayState().error);
+    // The first restart waits for the backoff
+    expect(startGatewayMock).not.toHaveBeenCalled();
+  });
+
+  it('counts a crash recorded by a failed request-driven startup', async () => {
+    const { sandbox, supervisorState } = createMockSandbox({
+      gatewayState: { ...stateWith('crashed', '2026-01-27T11:59:59.000Z'), error: 'Stderr' },
+    });
+
+    await superviseGateway(sandbox, createMockEnv(), NOW);
+
+    expect(supervisorState().consecutiveCrashes).toBe(1);
+    expect(supervisorState().lastCrashReason).toBe('Stderr');
+  });
+
+  it('restarts a crashed gateway once the backoff has elapsed', async () => {
+    const { sandbox, startGatewayMock, supervisorState } = createMockSandbox({
+      gatewayState: stateWith('crashed', '2026-01-27T11:59:00.000Z'),
+      supervisorState: supervisorWith({
+        consecutiveCrashes: 1,
+        lastCrashAt: '2026-01-27T11:59:00.000Z',
+        nextRestartAt: '2026-01-27T11:59:10.000Z',
+      }),
+    });
+
+    await superviseGateway(sandbox, createMockEnv(), NOW);
+
+    expect(startGatewayMock).toHaveBeenCalledTimes(1);
+    // The crash was already counted
+    expect(supervisorState().consecutiveCrashes).toBe(1);
+  });
+
+  it('does not restart before the backoff has elapsed', async () => {
+    const { sandbox, startGatewayMock } = createMockSandbox({
+      gatewayState: stateWith('crashed', '2026-01-27T11:59:55.000Z'),
+      supervisorState: supervisorWith({
+        consecutiveCrashes: 3,
+        lastCrashAt: '2026-01-27T11:59:55.000Z',
+        nextRestartAt: '2026-01-27T12:00:35.000Z',
+      }),
+    });
+
+    await superviseGateway(sandbox, createMockEnv(), NOW);
+
+    expect(startGatewayMock).not.toHaveBeenCalled();
+  });
+
+  it('stops restarting once the crash loop threshold is reached', async () => {
+    const { sandbox, startGatewayMock, supervisorState } = createMockSandbox({
+      gatewayState: stateWith('crashed', '2026-01-27T11:50:00.000Z'),
+      supervisorState: supervisorWith({
+        consecutiveCrashes: 2,
+        lastCrashAt: '2026-01-27T11:40:00.000Z',
+      }),
+    });
+
+    await superviseGateway(sandbox, createMockEnv({ GATEWAY_CRASH_LOOP_THRESHOLD: '3' }), NOW);
+
+    expect(supervisorState().crashLoop).toBe(true);
+    expect(startGatewayMock).not.toHaveBeenCalled();
+  });
+
+  it('resumes a startup that stalled past the startup timeout', async () => {
+    const { sandbox, startGatewayMock } = createMockSandbox({
+      gatewayState: stateWith('restoring', '2026-01-27T11:50:00.000Z'),
+    });
+
+    await superviseGateway(sandbox, createMockEnv(), NOW);
+
+    expect(startGatewayMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing while the gateway is stopped', async () => {
+    const { sandbox, getProcessMock, startGatewayMock } = createMockSandbox();
+
+    await superviseGateway(sandbox, createMockEnv(), NOW);
+
+    expect(getProcessMock).not.toHaveBeenCalled();
+    expect(startGatewayMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,196 @@
+import type { Process } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import type { MoltbotSandbox } from '../sandbox';
+import { STARTUP_TIMEOUT_MS } from '../config';
+import { STARTUP_PHASES, transitionGateway } from './lifecycle';
+import { getKeepWarmSchedule, isKeepWarm } from './schedule';
+
+/** How often the supervisor checks the gateway process */
+export const SUPERVISOR_INTERVAL_SECONDS = 30;
+
+/** Delay before the first restart after a crash; doubles with every further crash */
+const RESTART_BACKOFF_BASE_MS = 10_000;
+const RESTART_BACKOFF_MAX_MS = 5 * 60_000;
+
+/** A gateway that stays up this long after its last crash is no longer crash looping */
+const STABLE_AFTER_MS = 10 * 60_000;
+
+/** Consecutive crashes after which automatic restarts are paused */
+const DEFAULT_CRASH_LOOP_THRESHOLD = 5;
+
+/** Maximum length of a crash reason taken from stderr */
+const CRASH_REASON_MAX_LENGTH = 500;
+
+export interface SupervisorState {
+  /** Crashes since the gateway was last stable */
+  consecutiveCrashes: number;
+  /** ISO timestamp of the last crash the supervisor counted */
+  lastCrashAt?: string;
+  lastCrashReason?: string;
+  /** ISO timestamp after which a crashed gateway may be restarted */
+  nextRestartAt?: string;
+  /** Set once crashes reach the threshold; restarts are paused until a manual restart */
+  crashLoop: boolean;
+}
+
+export function initialSupervisorState(): SupervisorState {
+  return { consecutiveCrashes: 0, crashLoop: false };
+}
+
+/**
+ * Whether the supervisor should run for this deployment
+ *
+ * Every check talks to the container, which counts as activity. With
+ * SANDBOX_SLEEP_AFTER set, supervising would keep the container awake forever,
+ * so a sleeping deployment relies on requests to restart the gateway instead.
+ * With a keep-warm schedule, the supervisor only runs inside its windows.
+ */
+export function isSupervisionEnabled(env: MoltbotEnv, now: Date = new Date()): boolean {
+  const schedule = getKeepWarmSchedule(env);
+  if (schedule) {
+    return isKeepWarm(schedule, now);
+  }
+  const sleepAfter = env.SANDBOX_SLEEP_AFTER?.toLowerCase() || 'never';
+  return sleepAfter === 'never';
+}
+
+export function getCrashLoopThreshold(env: MoltbotEnv): number {
+  const threshold = Number.parseInt(env.GATEWAY_CRASH_LOOP_THRESHOLD || '', 10);
+  return Number.isFinite(threshold) && threshold > 0 ? threshold : DEFAULT_CRASH_LOOP_THRESHOLD;
+}
+
+/**
+ * Delay before restarting after the given number of consecutive crashes
+ */
+export function restartBackoffMs(consecutiveCrashes: number): number {
+  const exponent = Math.max(0, consecutiveCrashes - 1);
+  return Math.min(RESTART_BACKOFF_BASE_MS * 2 ** exponent, RESTART_BACKOFF_MAX_MS);
+}
+
+/**
+ * Count a crash and decide when the next restart may happen
+ */
+export function recordCrash(
+  current: SupervisorState,
+  crashedAt: string,
+  reason: string | undefined,
+  threshold: number,
+): SupervisorState {
+  const consecutiveCrashes = current.consecutiveCrashes + 1;
+  return {
+    consecutiveCrashes,
+    lastCrashAt: crashedAt,
+    lastCrashReason: reason,
+    nextRestartAt: new Date(
+      Date.parse(crashedAt) + restartBackoffMs(consecutiveCrashes),
+    ).toISOString(),
+    crashLoop: consecutiveCrashes >= threshold,
+  };
+}
+
+/**
+ * Describe why a gateway process exited, using the tail of its stderr
+ */
+export async function describeCrash(process: Process): Promise<string> {
+  const exit =
+    process.exitCode !== undefined && process.exitCode !== null
+      ? `exit code ${process.exitCode}`
+      : `status ${process.status}`;
+  try {
+    const logs = await process.getLogs();
+    const stderr = logs.stderr?.trim();
+    if (stderr) {
+      return `Gateway exited (${exit}): ${stderr.slice(-CRASH_REASON_MAX_LENGTH)}`;
+    }
+  } catch (logErr) {
+    console.error('[Supervisor] Failed to get crash logs:', logErr);
+  }
+  return `Gateway exited (${exit})`;
+}
+
+/**
+ * Run one supervisor check
+ *
+ * - A ready or degraded gateway whose process has exited is marked crashed,
+ *   with the reason taken from its stderr.
+ * - Every new crash is counted, whether the supervisor or a request noticed it.
+ *   Restarts back off exponentially, and stop entirely once the crash loop
+ *   threshold is reached.
+ * - A startup that has not progressed within the startup timeout is resumed,
+ *   in case the Durable Object was evicted while waiting for it.
+ *
+ * @param sandbox - The sandbox instance
+ * @param env - Worker environment bindings
+ * @param now - Current time in milliseconds
+ * @returns The updated supervisor state
+ */
+export async function superviseGateway(
+  sandbox: MoltbotSandbox,
+  env: MoltbotEnv,
+  now: number = Date.now(),
+): Promise<SupervisorState> {
+  let state = await sandbox.getGatewayState();
+  let supervisor = await sandbox.getSupervisorState();
+
+  if (state.phase === 'ready' || state.phase === 'degraded') {
+    const process = state.processId ? await sandbox.getProcess(state.processId) : null;
+    if (process && (process.status === 'running' || process.status === 'starting')) {
+      const lastCrashAt = supervisor.lastCrashAt ? Date.parse(supervisor.lastCrashAt) : 0;
+      if (
+        state.phase === 'ready' &&
+        supervisor.consecutiveCrashes > 0 &&
+        now - lastCrashAt >= STABLE_AFTER_MS
+      ) {
+        console.log('[Supervisor] Gateway is stable again, resetting crash count');
+        supervisor = initialSupervisorState();
+        await sandbox.setSupervisorState(supervisor);
+      }
+      return supervisor;
+    }
+
+    const reason = process ? await describeCrash(process) : 'Gateway process is no longer running';
+    console.error('[Supervisor] Gateway crashed:', reason);
+    state = await transitionGateway(sandbox, 'crashed', { error: reason });
+  }
+
+  if (STARTUP_PHASES.includes(state.phase)) {
+    if (now - Date.parse(state.updatedAt) >= STARTUP_TIMEOUT_MS) {
+      console.log('[Supervisor] Startup stalled in phase', state.phase, '- resuming it');
+      await sandbox.startGateway().catch((err: unknown) => {
+        console.error('[Supervisor] Resumed startup failed:', err);
+      });
+    }
+    return supervisor;
+  }
+
+  if (state.phase !== 'crashed') {
+    return supervisor;
+  }
+
+  // ISO timestamps compare chronologically
+  if (!supervisor.lastCrashAt || state.updatedAt > supervisor.lastCrashAt) {
+    supervisor = recordCrash(supervisor, state.updatedAt, state.error, getCrashLoopThreshold(env));
+    await sandbox.setSupervisorState(supervisor);
+    if (supervisor.crashLoop) {
+      console.error(
+        `[Supervisor] Gateway crashed ${supervisor.consecutiveCrashes} times in a row, pausing restarts`,
+      );
+    }
+  }
+
+  if (supervisor.crashLoop) {
+    return supervisor;
+  }
+  if (supervisor.nextRestartAt && now < Date.parse(supervisor.nextRestartAt)) {
+    return supervisor;
+  }
+
+  console.log('[Supervisor] Restarting crashed gateway, attempt', supervisor.consecutiveCrashes);
+  try {
+    await sandbox.startGateway();
+  } catch (err) {
+    // The failed startup is recorded as a new crash and counted on the next check
+    console.error('[Supervisor] Restart failed:', err);
+  }
+  return supervisor;
+}
@@ -0,0 +1,378 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  addSyncRecords,
+  collectContainerSyncs,
+  evaluateSyncAlert,
+  getSyncAlertConfig,
+  initialSyncHistory,
+  parseContainerSyncs,
+  recordSyncs,
+  recordUnsyncedSleep,
+  syncAndRecord,
+  syncRecord,
+  type SyncAlertConfig,
+  type SyncHistory,
+  type SyncRecord,
+} from './sync-history';
+import {
+  createMockEnv,
+  createMockExecResult,
+  createMockSandbox,
+  suppressConsole,
+} from '../test-utils';
+
+const { syncToR2Mock } = vi.hoisted(() => ({ syncToR2Mock: vi.fn() }));
+vi.mock('./sync', () => ({ syncToR2: syncToR2Mock }));
+
+const NOW = new Date('2026-01-27T12:00:00.000Z');
+const HOUR = 3_600_000;
+
+const CONFIG: SyncAlertConfig = { webhookUrl: null, failures: 3, staleMs: 6 * HOUR };
+
+function record(success: boolean, finishedAt: string, overrides: Partial<SyncRecord> = {}) {
+  return {
+    trigger: 'loop',
+    startedAt: finishedAt,
+    finishedAt,
+    success,
+    uploaded: 0,
+    deleted: 0,
+    bytes: 0,
+    skipped: 0,
+    ...(success ? {} : { error: 'rclone: connection refused' }),
+    ...overrides,
+  } as SyncRecord;
+}
+
+function historyWith(overrides: Partial<SyncHistory> = {}): SyncHistory {
+  return { ...initialSyncHistory(), ...overrides };
+}
+
+describe('getSyncAlertConfig', () => {
+  it('defaults to three failures and six hours', () => {
+    expect(getSyncAlertConfig(createMockEnv())).toEqual(CONFIG);
+  });
+
+  it('reads the webhook and thresholds', () => {
+    const config = getSyncAlertConfig(
+      createMockEnv({
+        SYNC_ALERT_WEBHOOK_URL: 'https://hooks.example.com/sync',
+        SYNC_ALERT_FAILURES: '5',
+        SYNC_ALERT_STALE_HOURS: '0',
+      }),
+    );
+
+    expect(config).toEqual({
+      webhookUrl: 'https://hooks.example.com/sync',
+      failures: 5,
+      staleMs: 0,
+    });
+  });
+
+  it('ignores a webhook that is not an http URL', () => {
+    expect(
+      getSyncAlertConfig(createMockEnv({ SYNC_ALERT_WEBHOOK_URL: 'ftp://example.com' })).webhookUrl,
+    ).toBeNull();
+  });
+});
+
+describe('syncRecord', () => {
+  it('records the counts of a successful sync', () => {
+    const result = syncRecord(
+      'manual',
+      new Date('2026-01-27T11:59:58.000Z'),
+      {
+        success: true,
+        uploaded: 2,
+        deleted: 1,
+        bytes: 30,
+        skipped: [{ path: 'workspace/video.mp4', size: 500, reason: 'max-file-size' }],
+      },
+      NOW,
+    );
+
+    expect(result).toEqual({
+      trigger: 'manual',
+      startedAt: '2026-01-27T11:59:58.000Z',
+      finishedAt: '2026-01-27T12:00:00.000Z',
+      success: true,
+      uploaded: 2,
+      deleted: 1,
+      bytes: 30,
+      skipped: 1,
+    });
+  });
+
+  it('records the error of a failed sync', () => {
+    const result = syncRecord(
+      'sleep',
+      NOW,
+      { success: false, error: 'Config sync failed', details: 'rclone exited 1' },
+      NOW,
+    );
+
+    expect(result.error).toBe('Config sync failed: rclone exited 1');
+  });
+});
+
+describe('parseContainerSyncs', () => {
+  it('reads records and skips lines that are not records', () => {
+    const text = [
+      '{"checkedAt":"2026-01-27T11:00:00Z"}',
+      '{"trigger":"loop","startedAt":"2026-01-27T11:00:00Z","finishedAt":"2026-01-27T11:00:05Z","success":false,"uploaded":0,"deleted":0,"bytes":0,"skipped":0,"error":"ERROR : failed"}',
+      '{"trigger":"loop","startedAt":"2026-01-27T11:01:00Z"',
+      '{"trigger":"loop","startedAt":"2026-01-27T11:02:00Z","finishedAt":"2026-01-27T11:02:05Z","success":true,"uploaded":3,"deleted":0,"bytes":120,"skipped":0,"error":""}',
+    ].join('\n');
+
+    expect(parseContainerSyncs(text)).toEqual([
+      record(false, '2026-01-27T11:00:05Z', {
+        startedAt: '2026-01-27T11:00:00Z',
+        error: 'ERROR : failed',
+      }),
+      record(true, '2026-01-27T11:02:05Z', {
+        startedAt: '2026-01-27T11:02:00Z',
+        uploaded: 3,
+        bytes: 120,
+      }),
+    ]);
+  });
+});
+
+describe('collectContainerSyncs', () => {
+  it('takes the records and the time of the last check', async () => {
+    const { sandbox, execMock } = createMockSandbox();
+    execMock.mockResolvedValue(
+      createMockExecResult(
+        '{"checkedAt":"2026-01-27T11:30:00Z"}\n' +
+          '{"trigger":"loop","startedAt":"2026-01-27T11:00:00Z","finishedAt":"2026-01-27T11:00:05Z","success":true}\n',
+      ),
+    );
+
+    const collected = await collectContainerSyncs(sandbox);
+
+    expect(collected.checkedAt).toBe('2026-01-27T11:30:00Z');
+    expect(collected.records).toHaveLength(1);
+    expect(execMock.mock.calls[0][0]).toContain('mv /tmp/.sync-history.jsonl');
+  });
+});
+
+describe('addSyncRecords', () => {
+  it('counts consecutive failures and the last success', () => {
+    const history = addSyncRecords(historyWith({ consecutiveFailures: 1 }), [
+      record(false, '2026-01-27T11:00:00Z'),
+      record(true, '2026-01-27T11:10:00Z'),
+      record(false, '2026-01-27T11:20:00Z'),
+      record(false, '2026-01-27T11:30:00Z'),
+    ]);
+
+    expect(history.consecutiveFailures).toBe(2);
+    expect(history.lastSuccessAt).toBe('2026-01-27T11:10:00Z');
+    expect(history.records).toHaveLength(4);
+  });
+
+  it('leaves out scheduled syncs that changed nothing', () => {
+    const history = addSyncRecords(historyWith(), [
+      record(true, '2026-01-27T11:00:00Z', { trigger: 'scheduled' }),
+      record(true, '2026-01-27T11:05:00Z', { trigger: 'scheduled', uploaded: 1 }),
+    ]);
+
+    expect(history.records.map((r) => r.finishedAt)).toEqual(['2026-01-27T11:05:00Z']);
+    expect(history.lastSuccessAt).toBe('2026-01-27T11:05:00Z');
+  });
+
+  it('keeps the most recent records', () => {
+    const old = Array.from({ length: 100 }, (_, i) =>
+      record(true, new Date(Date.parse('2026-01-26T00:00:00Z') + i * 60_000).toISOString()),
+    );
+
+    const history = addSyncRecords(historyWith({ records: old }), [
+      record(true, '2026-01-27T11:00:00Z'),
+    ]);
+
+    expect(history.records).toHaveLength(100);
+    expect(history.records[99].finishedAt).toBe('2026-01-27T11:00:00Z');
+  });
+});
+
+describe('evaluateSyncAlert', () => {
+  it('alerts once when failures reach the threshold', () => {
+    const failing = historyWith({ consecutiveFailures: 3 });
+
+    const first = evaluateSyncAlert(failing, CONFIG, NOW, false);
+    const again = evaluateSyncAlert(
+      { ...first.history, consecutiveFailures: 4 },
+      CONFIG,
+      NOW,
+      false,
+    );
+
+    expect(first.event).toBe('sync.failing');
+    expect(first.history.alert).toEqual({ kind: 'failing', sentAt: NOW.toISOString() });
+    expect(again.event).toBeUndefined();
+  });
+
+  it('alerts when no sync succeeded within the stale time', () => {
+    const history = historyWith({ lastSuccessAt: '2026-01-27T05:00:00.000Z' });
+
+    expect(evaluateSyncAlert(history, CONFIG, NOW, true).event).toBe('sync.stale');
+    expect(evaluateSyncAlert(history, CONFIG, NOW, false).event).toBeUndefined();
+  });
+
+  it('counts a check that found nothing to sync as up to date', () => {
+    const history = historyWith({
+      lastSuccessAt: '2026-01-27T05:00:00.000Z',
+      lastCheckedAt: '2026-01-27T11:59:30Z',
+    });
+
+    expect(evaluateSyncAlert(history, CONFIG, NOW, true).event).toBeUndefined();
+  });
+
+  it('resolves the alert once a sync succeeds again', () => {
+    const history = historyWith({
+      lastSuccessAt: '2026-01-27T12:00:00.000Z',
+      alert: { kind: 'failing', sentAt: '2026-01-27T11:00:00.000Z' },
+    });
+
+    const result = evaluateSyncAlert(history, CONFIG, NOW, true);
+
+    expect(result.event).toBe('sync.recovered');
+    expect(result.history.alert).toBeUndefined();
+  });
+});
+
+describe('recordSyncs', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    suppressConsole();
+    fetchMock.mockReset().mockResolvedValue(new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts an alert to the webhook', async () => {
+    const { sandbox, syncHistory } = createMockSandbox({
+      syncHistory: historyWith({ consecutiveFailures: 2 }),
+    });
+    const env = createMockEnv({
+      SYNC_ALERT_WEBHOOK_URL: 'https://hooks.example.com/sync',
+      R2_PREFIX: 'tenants/alice',
+    });
+
+    await recordSyncs(sandbox, env, [record(false, '2026-01-27T11:59:00Z')], { now: NOW });
+
+    expect(syncHistory().alert?.kind).toBe('failing');
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://hooks.example.com/sync',
+      expect.objectContaining({ method: 'POST' }),
+    );
+    const alert = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(alert).toMatchObject({
+      event: 'sync.failing',
+      r2Prefix: 'tenants/alice',
+      consecutiveFailures: 3,
+      text: '[moltworker tenants/alice] 3 syncs to R2 failed in a row. Last error: rclone: connection refused',
+    });
+  });
+
+  it('keeps the history when the webhook fails', async () => {
+    fetchMock.mockRejectedValue(new Error('network down'));
+    const { sandbox, syncHistory } = createMockSandbox({
+      syncHistory: historyWith({ consecutiveFailures: 2 }),
+    });
+    const env = createMockEnv({ SYNC_ALERT_WEBHOOK_URL: 'https://hooks.example.com/sync' });
+
+    await recordSyncs(sandbox, env, [record(false, '2026-01-27T11:59:00Z')], { now: NOW });
+
+    expect(syncHistory().consecutiveFailures).toBe(3);
+  });
+
+  it('does not post without a webhook', async () => {
+    const { sandbox } = createMockSandbox({ syncHistory: historyWith({ consecutiveFailures: 2 }) });
+
+    await recordSyncs(sandbox, createMockEnv(), [record(false, '2026-01-27T11:59:00Z')]);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('recordUnsyncedSleep', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    suppressConsole();
+    fetchMock.mockReset().mockResolvedValue(new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('notes that changes may be lost and alerts, without counting a failure', async () => {
+    const { sandbox, syncHistory } = createMockSandbox({
+      syncHistory: historyWith({
+        records: [record(false, '2026-01-27T11:59:00Z', { trigger: 'sleep' })],
+        consecutiveFailures: 3,
+        lastSuccessAt: '2026-01-27T10:00:00Z',
+      }),
+    });
+    const env = createMockEnv({ SYNC_ALERT_WEBHOOK_URL: 'https://hooks.example.com/sync' });
+
+    await recordUnsyncedSleep(sandbox, env, 3, NOW);
+
+    expect(syncHistory().consecutiveFailures).toBe(3);
+    expect(syncHistory().records[1]).toMatchObject({
+      trigger: 'sleep',
+      success: false,
+      error: 'Went to sleep after 3 failed syncs; changes since 2026-01-27T10:00:00Z may be lost',
+    });
+    const alert = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(alert).toMatchObject({
+      event: 'sync.sleep_unsynced',
+      text: '[moltworker] Went to sleep after 3 failed syncs; changes since 2026-01-27T10:00:00Z may be lost',
+    });
+  });
+});
+
+describe('syncAndRecord', () => {
+  beforeEach(() => {
+    suppressConsole();
+    syncToR2Mock.mockReset();
+  });
+
+  it('records the sync after the sync loop records', async () => {
+    const { sandbox, execMock, syncHistory } = createMockSandbox();
+    execMock.mockResolvedValue(
+      createMockExecResult(
+        '{"trigger":"loop","startedAt":"2026-01-27T11:00:00Z","finishedAt":"2026-01-27T11:00:05Z","success":false,"error":"failed"}\n',
+      ),
+    );
+    syncToR2Mock.mockResolvedValue({ success: true, uploaded: 1, deleted: 0, bytes: 10 });
+
+    const result = await syncAndRecord(sandbox, createMockEnv(), 'manual');
+
+    expect(result.success).toBe(true);
+    expect(syncHistory().records.map((r) => [r.trigger, r.success])).toEqual([
+      ['loop', false],
+      ['manual', true],
+    ]);
+    expect(syncHistory().consecutiveFailures).toBe(0);
+  });
+
+  it('records nothing when R2 is not configured', async () => {
+    const { sandbox, syncHistory } = createMockSandbox();
+    syncToR2Mock.mockResolvedValue({
+      success: false,
+      notConfigured: true,
+      error: 'R2 storage is not configured',
+    });
+
+    await syncAndRecord(sandbox, createMockEnv(), 'manual');
+
+    expect(syncHistory().records).toEqual([]);
+  });
+});
@@ -0,0 +1,454 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import { syncToR2, type SyncResult } from './sync';
+
+/**
+ * Sync history: a record of every sync to R2, whichever side ran it, and
+ * alerts when syncs keep failing or stop succeeding.
+ *
+ * The Worker records its own syncs as they finish. The background sync loop
+ * in start-openclaw.sh appends a JSON line per sync to a file in the
+ * container, which the Worker collects. The history is kept in the Durable
+ * Object's storage, so it outlives the container.
+ */
+
+/** What started a sync */
+export type SyncTrigger =
+  | 'manual'
+  | 'scheduled'
+  | 'sleep'
+  | 'loop'
+  | 'snapshot'
+  | 'import'
+  | 'restart'
+  | 'migration'
+  | 'key-rotation'
+  | 'config-edit';
+
+export interface SyncRecord {
+  trigger: SyncTrigger;
+  /** ISO timestamps */
+  startedAt: string;
+  finishedAt: string;
+  success: boolean;
+  uploaded: number;
+  deleted: number;
+  bytes: number;
+  /** Files left out for being over the sync policy's size limits */
+  skipped: number;
+  error?: string;
+}
+
+export type SyncAlertKind = 'failing' | 'stale';
+
+export interface SyncHistory {
+  /** Oldest first, at most SYNC_HISTORY_LIMIT */
+  records: SyncRecord[];
+  consecutiveFailures: number;
+  /** ISO timestamp of the last successful sync */
+  lastSuccessAt?: string;
+  /** ISO timestamp of the last time the sync loop found nothing to sync */
+  lastCheckedAt?: string;
+  /** Alert sent and not resolved yet */
+  alert?: { kind: SyncAlertKind; sentAt: string };
+}
+
+export interface SyncHistoryStore {
+  getSyncHistory(): Promise<SyncHistory>;
+  setSyncHistory(history: SyncHistory): Promise<void>;
+}
+
+export interface SyncAlertConfig {
+  webhookUrl: string | null;
+  /** Consecutive failed syncs that raise an alert */
+  failures: number;
+  /** Time without a successful sync that raises an alert, or 0 for never */
+  staleMs: number;
+}
+
+export interface SyncAlert {
+  event: 'sync.failing' | 'sync.stale' | 'sync.recovered' | 'sync.sleep_unsynced';
+  text: string;
+  /** R2 prefix of the tenant's data in multi-tenant mode */
+  r2Prefix?: string;
+  consecutiveFailures: number;
+  lastSuccessAt: string | null;
+  lastRecord: SyncRecord | null;
+}
+
+/** How often the Durable Object collects the sync loop's records and checks for stale syncs */
+export const SYNC_MONITOR_INTERVAL_SECONDS = 300;
+
+export const SYNC_HISTORY_LIMIT = 100;
+
+/** Written by the background sync loop */
+const CONTAINER_HISTORY_PATH = '/tmp/.sync-history.jsonl';
+const CONTAINER_CHECKED_PATH = '/tmp/.sync-checked.json';
+
+const DEFAULT_ALERT_FAILURES = 3;
+const DEFAULT_ALERT_STALE_HOURS = 6;
+const ALERT_TIMEOUT_MS = 10_000;
+
+/** Maximum length of a recorded error */
+const ERROR_MAX_LENGTH = 500;
+
+/**
+ * Triggers whose syncs are only listed when they changed something; the
+ * scheduled sync through the R2 binding runs every few minutes regardless
+ */
+const QUIET_TRIGGERS: ReadonlySet<SyncTrigger> = new Set(['scheduled']);
+
+const TRIGGERS: ReadonlySet<string> = new Set([
+  'manual',
+  'scheduled',
+  'sleep',
+  'loop',
+  'snapshot',
+  'import',
+  'restart',
+  'migration',
+  'key-rotation',
+  'config-edit',
+]);
+
+export function initialSyncHistory(): SyncHistory {
+  return { records: [], consecutiveFailures: 0 };
+}
+
+export function getSyncAlertConfig(env: MoltbotEnv): SyncAlertConfig {
+  let webhookUrl: string | null = null;
+  try {
+    const url = new URL(env.SYNC_ALERT_WEBHOOK_URL || '');
+    if (url.protocol === 'https:' || url.protocol === 'http:') webhookUrl = url.toString();
+  } catch {
+    // Not set, or not a URL
+  }
+  const failures = Number.parseInt(env.SYNC_ALERT_FAILURES || '', 10);
+  const staleHours = Number(env.SYNC_ALERT_STALE_HOURS || DEFAULT_ALERT_STALE_HOURS);
+  return {
+    webhookUrl,
+    failures: Number.isFinite(failures) && failures > 0 ? failures : DEFAULT_ALERT_FAILURES,
+    staleMs:
+      Number.isFinite(staleHours) && staleHours >= 0
+        ? staleHours * 3_600_000
+        : DEFAULT_ALERT_STALE_HOURS * 3_600_000,
+  };
+}
+
+/**
+ * Record of a sync the Worker ran
+ */
+export function syncRecord(
+  trigger: SyncTrigger,
+  startedAt: Date,
+  result: SyncResult,
+  finishedAt: Date = new Date(),
+): SyncRecord {
+  const record: SyncRecord = {
+    trigger,
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    success: result.success,
+    uploaded: result.uploaded ?? 0,
+    deleted: result.deleted ?? 0,
+    bytes: result.bytes ?? 0,
+    skipped: result.skipped?.length ?? 0,
+  };
+  if (!result.success) {
+    const error = [result.error, result.details].filter(Boolean).join(': ');
+    record.error = (error || 'Unknown error').slice(0, ERROR_MAX_LENGTH);
+  }
+  return record;
+}
+
+function isSyncRecord(value: unknown): value is SyncRecord {
+  const record = value as Partial<SyncRecord> | null;
+  return (
+    typeof record === 'object' &&
+    record !== null &&
+    TRIGGERS.has(String(record.trigger)) &&
+    typeof record.startedAt === 'string' &&
+    typeof record.finishedAt === 'string' &&
+    typeof record.success === 'boolean'
+  );
+}
+
+/**
+ * Parse the sync loop's records, one JSON object per line, skipping lines
+ * that are cut off or not records
+ */
+export function parseContainerSyncs(text: string): SyncRecord[] {
+  const records: SyncRecord[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (!isSyncRecord(parsed)) continue;
+    const record: SyncRecord = {
+      trigger: parsed.trigger,
+      startedAt: parsed.startedAt,
+      finishedAt: parsed.finishedAt,
+      success: parsed.success,
+      uploaded: Number(parsed.uploaded) || 0,
+      deleted: Number(parsed.deleted) || 0,
+      bytes: Number(parsed.bytes) || 0,
+      skipped: Number(parsed.skipped) || 0,
+    };
+    if (!parsed.success) {
+      record.error = (parsed.error || 'Unknown error').slice(0, ERROR_MAX_LENGTH);
+    }
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Take the records the sync loop wrote since they were last collected, and
+ * when it last found nothing to sync
+ */
+export async function collectContainerSyncs(
+  sandbox: Sandbox,
+): Promise<{ records: SyncRecord[]; checkedAt?: string }> {
+  // Moved aside first, so a record the loop appends meanwhile waits for the next collection
+  const result = await sandbox.exec(
+    `cat ${CONTAINER_CHECKED_PATH} 2>/dev/null; ` +
+      `if [ -f ${CONTAINER_HISTORY_PATH} ]; then ` +
+      `mv ${CONTAINER_HISTORY_PATH} ${CONTAINER_HISTORY_PATH}.collecting && ` +
+      `cat ${CONTAINER_HISTORY_PATH}.collecting && rm -f ${CONTAINER_HISTORY_PATH}.collecting; fi`,
+  );
+  const stdout = result.stdout || '';
+  const checked = /^\{"checkedAt":"([^"]+)"\}$/m.exec(stdout)?.[1];
+  return { records: parseContainerSyncs(stdout), checkedAt: checked };
+}
+
+function latest(...timestamps: (string | undefined)[]): number | undefined {
+  const times = timestamps.map((t) => (t ? Date.parse(t) : NaN)).filter(Number.isFinite);
+  return times.length > 0 ? Math.max(...times) : undefined;
+}
+
+/**
+ * Add records, oldest first, to the history
+ */
+export function addSyncRecords(
+  history: SyncHistory,
+  records: SyncRecord[],
+  checkedAt?: string,
+): SyncHistory {
+  const next: SyncHistory = { ...history, records: [...history.records] };
+  const ordered = [...records];
+  ordered.sort((a, b) => Date.parse(a.finishedAt) - Date.parse(b.finishedAt));
+  for (const record of ordered) {
+    if (record.success) {
+      next.consecutiveFailures = 0;
+      next.lastSuccessAt = record.finishedAt;
+    } else {
+      next.consecutiveFailures++;
+    }
+    const quiet =
+      record.success &&
+      record.uploaded + record.deleted === 0 &&
+      QUIET_TRIGGERS.has(record.trigger);
+    if (!quiet) next.records.push(record);
+  }
+  if (checkedAt && (latest(checkedAt) ?? 0) > (latest(next.lastCheckedAt) ?? 0)) {
+    next.lastCheckedAt = checkedAt;
+  }
+  next.records = next.records.slice(-SYNC_HISTORY_LIMIT);
+  return next;
+}
+
+/**
+ * Decide whether the history calls for an alert
+ *
+ * - Consecutive failures at the threshold raise a "failing" alert.
+ * - With checkStale, no successful sync (or loop check that found nothing
+ *   to sync) within the stale time raises a "stale" alert.
+ * - Once syncs succeed again after an alert, "recovered" is sent.
+ *
+ * Each alert is sent once, until it is resolved.
+ *
+ * @param checkStale - Whether the container is running, so syncs are expected
+ */
+export function evaluateSyncAlert(
+  history: SyncHistory,
+  config: SyncAlertConfig,
+  now: Date,
+  checkStale: boolean,
+): { history: SyncHistory; event?: SyncAlert['event'] } {
+  const lastGood = latest(history.lastSuccessAt, history.lastCheckedAt);
+  const failing = history.consecutiveFailures >= config.failures;
+  const stale =
+    checkStale &&
+    config.staleMs > 0 &&
+    lastGood !== undefined &&
+    now.getTime() - lastGood > config.staleMs;
+  const sentAt = now.toISOString();
+
+  if (failing) {
+    if (history.alert?.kind === 'failing') return { history };
+    return { history: { ...history, alert: { kind: 'failing', sentAt } }, event: 'sync.failing' };
+  }
+  if (history.alert) {
+    const recovered =
+      history.consecutiveFailures === 0 &&
+      lastGood !== undefined &&
+      lastGood > Date.parse(history.alert.sentAt);
+    if (!recovered) return { history };
+    return { history: { ...history, alert: undefined }, event: 'sync.recovered' };
+  }
+  if (stale) {
+    return { history: { ...history, alert: { kind: 'stale', sentAt } }, event: 'sync.stale' };
+  }
+  return { history };
+}
+
+function describeAlert(event: SyncAlert['event'], history: SyncHistory): string {
+  const last = history.records[history.records.length - 1];
+  switch (event) {
+    case 'sync.failing':
+      return `${history.consecutiveFailures} syncs to R2 failed in a row. Last error: ${last?.error || 'unknown'}`;
+    case 'sync.stale':
+      return history.lastSuccessAt
+        ? `No sync to R2 has succeeded since ${history.lastSuccessAt}`
+        : 'No sync to R2 has succeeded yet';
+    case 'sync.sleep_unsynced':
+      return last?.error || 'The container went to sleep without syncing to R2';
+    default:
+      return 'Syncs to R2 are succeeding again';
+  }
+}
+
+/**
+ * POST an alert to SYNC_ALERT_WEBHOOK_URL. The alert is logged either way;
+ * a failed delivery is logged and not retried.
+ */
+export async function sendSyncAlert(
+  env: MoltbotEnv,
+  event: SyncAlert['event'],
+  history: SyncHistory,
+): Promise<void> {
+  const alert: SyncAlert = {
+    event,
+    text: `[moltworker${env.R2_PREFIX ? ` ${env.R2_PREFIX}` : ''}] ${describeAlert(event, history)}`,
+    r2Prefix: env.R2_PREFIX,
+    consecutiveFailures: history.consecutiveFailures,
+    lastSuccessAt: history.lastSuccessAt ?? null,
+    lastRecord: history.records[history.records.length - 1] ?? null,
+  };
+  console.error(`[Gateway] Sync alert ${event}:`, alert.text);
+
+  const { webhookUrl } = getSyncAlertConfig(env);
+  if (!webhookUrl) return;
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(alert),
+      signal: AbortSignal.timeout(ALERT_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.error(`[Gateway] Sync alert webhook returned ${response.status}`);
+    }
+  } catch (err) {
+    console.error('[Gateway] Sync alert webhook failed:', err);
+  }
+}
+
+/**
+ * Add records to the stored history and send the alert it calls for, if any
+ */
+export async function recordSyncs(
+  store: SyncHistoryStore,
+  env: MoltbotEnv,
+  records: SyncRecord[],
+  options: { checkedAt?: string; checkStale?: boolean; now?: Date } = {},
+): Promise<SyncHistory> {
+  const added = addSyncRecords(await store.getSyncHistory(), records, options.checkedAt);
+  const { history, event } = evaluateSyncAlert(
+    added,
+    getSyncAlertConfig(env),
+    options.now ?? new Date(),
+    options.checkStale ?? false,
+  );
+  await store.setSyncHistory(history);
+  if (event) await sendSyncAlert(env, event, history);
+  return history;
+}
+
+/**
+ * Record that the container is going to sleep although its last syncs
+ * failed, and alert: whatever changed since the last successful sync may be
+ * lost. The entry is a note, not a sync, so it leaves the failure count alone.
+ *
+ * @param failures - Failed syncs before sleeping
+ */
+export async function recordUnsyncedSleep(
+  store: SyncHistoryStore,
+  env: MoltbotEnv,
+  failures: number,
+  now: Date = new Date(),
+): Promise<SyncHistory> {
+  const history = await store.getSyncHistory();
+  const since = history.lastSuccessAt ? ` since ${history.lastSuccessAt}` : '';
+  const record: SyncRecord = {
+    trigger: 'sleep',
+    startedAt: now.toISOString(),
+    finishedAt: now.toISOString(),
+    success: false,
+    uploaded: 0,
+    deleted: 0,
+    bytes: 0,
+    skipped: 0,
+    error: `Went to sleep after ${failures} failed syncs; changes${since} may be lost`,
+  };
+  const next = { ...history, records: [...history.records, record].slice(-SYNC_HISTORY_LIMIT) };
+  await store.setSyncHistory(next);
+  await sendSyncAlert(env, 'sync.sleep_unsynced', next);
+  return next;
+}
+
+/**
+ * Sync to R2 and record the sync in the history, after the sync loop's
+ * records so far. Does not record anything when R2 is not configured.
+ */
+export async function syncAndRecord(
+  sandbox: Sandbox & SyncHistoryStore,
+  env: MoltbotEnv,
+  trigger: SyncTrigger,
+): Promise<SyncResult> {
+  const startedAt = new Date();
+  const result = await syncToR2(sandbox, env);
+  if (!result.notConfigured) {
+    try {
+      const { records, checkedAt } = await collectContainerSyncs(sandbox);
+      await recordSyncs(sandbox, env, [...records, syncRecord(trigger, startedAt, result)], {
+        checkedAt,
+      });
+    } catch (err) {
+      console.error('[Gateway] Failed to record sync:', err);
+    }
+  }
+  return result;
+}
+
+/**
+ * Scheduled check: collect the sync loop's records and alert if syncs have
+ * stopped succeeding
+ *
+ * @param running - Whether the gateway is up, so its container can be read and syncs are expected
+ */
+export async function monitorSyncs(
+  store: Sandbox & SyncHistoryStore,
+  env: MoltbotEnv,
+  running: boolean,
+): Promise<SyncHistory> {
+  const collected = running ? await collectContainerSyncs(store) : { records: [] };
+  return recordSyncs(store, env, collected.records, {
+    checkedAt: collected.checkedAt,
+    checkStale: running,
+  });
+}
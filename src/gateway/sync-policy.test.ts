@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SYNC_POLICY,
+  createSyncFilter,
+  getSyncPolicy,
+  globToRegExp,
+  parseSkippedFiles,
+  rcloneFilters,
+  serializeSkippedFiles,
+  serializeSyncPolicy,
+  type SyncPolicy,
+} from './sync-policy';
+import type { ManifestEntry } from './manifest';
+import { createMockEnv } from '../test-utils';
+
+function file(path: string, size = 1): ManifestEntry {
+  return { path, md5: '', size };
+}
+
+function matches(glob: string, path: string): boolean {
+  return new RegExp(globToRegExp(glob)).test(path);
+}
+
+describe('globToRegExp', () => {
+  it.each([
+    ['**', 'workspace/notes.md', true],
+    ['workspace/**', 'workspace/memory/2026-01-27.md', true],
+    ['workspace/**', 'skills/weather/SKILL.md', false],
+    ['openclaw/**/*.lock', 'openclaw/gateway.lock', true],
+    ['openclaw/**/*.lock', 'openclaw/agents/main/session.lock', true],
+    ['openclaw/**/*.lock', 'openclaw/gateway.lock.json', false],
+    ['**/node_modules/**', 'workspace/app/node_modules/x/index.js', true],
+    ['**/node_modules/**', 'workspace/node_modules', true],
+    ['workspace/*.md', 'workspace/notes.md', true],
+    ['workspace/*.md', 'workspace/memory/notes.md', false],
+    ['workspace/notes.m?', 'workspace/notes.md', true],
+    ['workspace/a+b (1).md', 'workspace/a+b (1).md', true],
+    ['workspace/a.md', 'workspace/aXmd', false],
+  ])('%s against %s is %s', (glob, path, expected) => {
+    expect(matches(glob, path)).toBe(expected);
+  });
+
+  it('uses only syntax that awk reads the same way', () => {
+    expect(globToRegExp('openclaw/**/*.lock')).toBe('^openclaw/(.*/)?[^/]*[.]lock$');
+  });
+});
+
+describe('getSyncPolicy', () => {
+  it('defaults to the files sync always left out', () => {
+    expect(getSyncPolicy(createMockEnv())).toEqual(DEFAULT_SYNC_POLICY);
+  });
+
+  it('overrides the fields that are set', () => {
+    const policy = getSyncPolicy(
+      createMockEnv({
+        R2_SYNC_POLICY: JSON.stringify({ exclude: ['**/*.mp4'], maxFileSize: '25MB' }),
+      }),
+    );
+
+    expect(policy).toEqual({
+      include: ['**'],
+      exclude: ['**/*.mp4'],
+      maxFileSize: 25 * 1024 * 1024,
+      maxTotalSize: null,
+    });
+  });
+
+  it.each([
+    ['not JSON', '{'],
+    ['a list', '[]'],
+    ['an unknown field', '{"excludes":[]}'],
+    ['patterns that are not strings', '{"include":[1]}'],
+    ['an unsupported character', '{"exclude":["workspace/[abc].md"]}'],
+    ['a size without a number', '{"maxTotalSize":"big"}'],
+    ['a negative size', '{"maxFileSize":-1}'],
+  ])('rejects %s', (_, policy) => {
+    expect(() => getSyncPolicy(createMockEnv({ R2_SYNC_POLICY: policy }))).toThrow(
+      'Invalid R2_SYNC_POLICY',
+    );
+  });
+});
+
+describe('createSyncFilter', () => {
+  it('keeps included files that no exclude pattern matches', () => {
+    const filter = createSyncFilter(DEFAULT_SYNC_POLICY);
+
+    const selected = filter.select([
+      file('workspace/notes.md'),
+      file('workspace/node_modules/x/index.js'),
+      file('workspace/.git/HEAD'),
+      file('workspace/debug.log'),
+    ]);
+
+    expect(selected.map((entry) => entry.path)).toEqual([
+      'workspace/debug.log',
+      'workspace/notes.md',
+    ]);
+    expect(filter.skipped).toEqual([]);
+  });
+
+  it('skips files over the size limits, counting the total across directories', () => {
+    const policy: SyncPolicy = { ...DEFAULT_SYNC_POLICY, maxFileSize: 100, maxTotalSize: 150 };
+    const filter = createSyncFilter(policy);
+
+    const config = filter.select([file('openclaw/openclaw.json', 60)]);
+    const workspace = filter.select([
+      file('workspace/video.mp4', 500),
+      file('workspace/b.md', 80),
+      file('workspace/a.md', 50),
+      file('workspace/c.md', 40),
+    ]);
+
+    expect(config).toHaveLength(1);
+    expect(workspace.map((entry) => entry.path)).toEqual(['workspace/a.md', 'workspace/c.md']);
+    expect(filter.skipped).toEqual([
+      { path: 'workspace/b.md', size: 80, reason: 'max-total-size' },
+      { path: 'workspace/video.mp4', size: 500, reason: 'max-file-size' },
+    ]);
+  });
+});
+
+describe('serializeSyncPolicy', () => {
+  it('writes the compiled patterns and limits for the sync loop', () => {
+    const policy: SyncPolicy = {
+      include: ['workspace/**'],
+      exclude: ['**/*.tmp'],
+      maxFileSize: 1024,
+      maxTotalSize: null,
+    };
+
+    expect(serializeSyncPolicy(policy)).toBe(
+      [
+        '# moltworker sync policy v1',
+        'include\t^workspace(/.*)?$',
+        'exclude\t^(.*/)?[^/]*[.]tmp$',
+        'max-file-size\t1024',
+        '',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('serializeSkippedFiles and parseSkippedFiles', () => {
+  it('round-trip', () => {
+    const skipped = [
+      { path: 'workspace/video.mp4', size: 500, reason: 'max-file-size' as const },
+      { path: 'skills/big/data.bin', size: 80, reason: 'max-total-size' as const },
+    ];
+
+    expect(parseSkippedFiles(serializeSkippedFiles(skipped))).toEqual(skipped);
+  });
+});
+
+describe('rcloneFilters', () => {
+  it('translates the patterns that apply to a directory', () => {
+    expect(rcloneFilters(DEFAULT_SYNC_POLICY, 'openclaw')).toBe(
+      [
+        "--filter '- *.lock'",
+        "--filter '- *.log'",
+        "--filter '- *.tmp'",
+        "--filter '- .git/**'",
+        "--filter '- node_modules/**'",
+        "--filter '+ **'",
+        "--filter '- **'",
+      ].join(' '),
+    );
+  });
+
+  it('leaves out patterns of other directories', () => {
+    const policy: SyncPolicy = {
+      ...DEFAULT_SYNC_POLICY,
+      include: ['workspace/memory/**', 'skills/**'],
+      exclude: [],
+    };
+
+    expect(rcloneFilters(policy, 'workspace', ['/skills/**'])).toBe(
+      "--filter '- /skills/**' --filter '+ /memory/**' --filter '- **'",
+    );
+  });
+});
@@ -0,0 +1,297 @@
+import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from '../types';
+import type { ManifestEntry } from './manifest';
+
+/**
+ * Sync policy: which files are persisted to R2, and how large they may be.
+ *
+ * Patterns are globs over paths as laid out in R2, starting with the
+ * directory name: "openclaw/openclaw.json", "workspace/notes.md",
+ * "skills/weather/SKILL.md". `*` and `?` match within a path segment, `**`
+ * across segments. A file is synced when it matches an include pattern and
+ * no exclude pattern, and is not over the size limits.
+ *
+ * Set in R2_SYNC_POLICY as JSON; fields that are left out keep their
+ * default. The Worker compiles the patterns to regular expressions and
+ * writes them to the container, where the background sync loop in
+ * start-openclaw.sh applies them the same way.
+ */
+
+export interface SyncPolicy {
+  include: string[];
+  exclude: string[];
+  /** Largest file synced, in bytes, or null for no limit */
+  maxFileSize: number | null;
+  /** Total size of the files synced, in bytes, or null for no limit */
+  maxTotalSize: number | null;
+}
+
+export const DEFAULT_SYNC_POLICY: SyncPolicy = {
+  include: ['**'],
+  exclude: [
+    'openclaw/**/*.lock',
+    'openclaw/**/*.log',
+    'openclaw/**/*.tmp',
+    '**/.git/**',
+    '**/node_modules/**',
+  ],
+  maxFileSize: null,
+  maxTotalSize: null,
+};
+
+/** The compiled policy, read by the background sync loop */
+export const SYNC_POLICY_PATH = '/tmp/.sync-policy.tsv';
+
+const SYNC_POLICY_HEADER = '# moltworker sync policy v1';
+
+/** Files the last sync skipped, written by the Worker and the background sync loop */
+export const SKIPPED_FILES_PATH = '/tmp/.sync-skipped.tsv';
+
+/**
+ * Characters with no glob meaning that can't be escaped the same way for the
+ * JavaScript, awk and rclone pattern syntaxes
+ */
+const UNSUPPORTED_CHARS = /[\\[\]{}^'\t\n]/;
+
+/** Literal characters that are special in a regular expression */
+const REGEXP_CHARS = new Set(['.', '+', '(', ')', '|', '$']);
+
+const SIZE_UNITS: Record<string, number> = { B: 1, KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3 };
+
+export type SkipReason = 'max-file-size' | 'max-total-size';
+
+export interface SkippedFile {
+  path: string;
+  size: number;
+  reason: SkipReason;
+}
+
+/**
+ * Compile a glob to a regular expression that JavaScript and POSIX awk
+ * evaluate alike: only groups, `?`, `.*`, and bracket expressions
+ */
+export function globToRegExp(glob: string): string {
+  let source = '';
+  let i = 0;
+  while (i < glob.length) {
+    if (glob.startsWith('**/', i)) {
+      source += '(.*/)?';
+      i += 3;
+    } else if (glob.startsWith('/**', i) && i + 3 === glob.length) {
+      source += '(/.*)?';
+      i += 3;
+    } else if (glob.startsWith('**', i)) {
+      source += '.*';
+      i += 2;
+    } else {
+      const char = glob[i];
+      if (char === '*') source += '[^/]*';
+      else if (char === '?') source += '[^/]';
+      else source += REGEXP_CHARS.has(char) ? `[${char}]` : char;
+      i++;
+    }
+  }
+  return `^${source}$`;
+}
+
+function parsePatterns(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.some((pattern) => typeof pattern !== 'string' || !pattern)) {
+    throw new Error(`Invalid R2_SYNC_POLICY: ${field} must be a list of patterns`);
+  }
+  const unsupported = (value as string[]).find((pattern) => UNSUPPORTED_CHARS.test(pattern));
+  if (unsupported) {
+    throw new Error(
+      `Invalid R2_SYNC_POLICY: ${field} pattern "${unsupported}" contains a character that is not supported (\\ [ ] { } ^ ')`,
+    );
+  }
+  return value as string[];
+}
+
+/**
+ * @returns Bytes, from a number of bytes or a size like "25MB"
+ */
+function parseSize(value: unknown, field: string): number | null {
+  if (value === null) return null;
+  if (typeof value === 'number' && Number.isInteger(value) && value > 0) return value;
+  const match =
+    typeof value === 'string' ? /^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB)?$/i.exec(value.trim()) : null;
+  if (!match || Number(match[1]) <= 0) {
+    throw new Error(
+      `Invalid R2_SYNC_POLICY: ${field} must be a number of bytes or a size like "25MB"`,
+    );
+  }
+  return Math.floor(Number(match[1]) * SIZE_UNITS[(match[2] ?? 'B').toUpperCase()]);
+}
+
+/**
+ * The sync policy from R2_SYNC_POLICY, over the defaults
+ *
+ * @throws If R2_SYNC_POLICY is not a valid policy
+ */
+export function getSyncPolicy(env: MoltbotEnv): SyncPolicy {
+  if (!env.R2_SYNC_POLICY?.trim()) return DEFAULT_SYNC_POLICY;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(env.R2_SYNC_POLICY);
+  } catch {
+    throw new Error('Invalid R2_SYNC_POLICY: not valid JSON');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Invalid R2_SYNC_POLICY: must be a JSON object');
+  }
+  const fields = parsed as Record<string, unknown>;
+  const unknown = Object.keys(fields).filter((field) => !(field in DEFAULT_SYNC_POLICY));
+  if (unknown.length > 0) {
+    throw new Error(`Invalid R2_SYNC_POLICY: unknown field ${unknown.join(', ')}`);
+  }
+
+  return {
+    include:
+      'include' in fields ? parsePatterns(fields.include, 'include') : DEFAULT_SYNC_POLICY.include,
+    exclude:
+      'exclude' in fields ? parsePatterns(fields.exclude, 'exclude') : DEFAULT_SYNC_POLICY.exclude,
+    maxFileSize:
+      'maxFileSize' in fields
+        ? parseSize(fields.maxFileSize, 'maxFileSize')
+        : DEFAULT_SYNC_POLICY.maxFileSize,
+    maxTotalSize:
+      'maxTotalSize' in fields
+        ? parseSize(fields.maxTotalSize, 'maxTotalSize')
+        : DEFAULT_SYNC_POLICY.maxTotalSize,
+  };
+}
+
+/**
+ * Picks the files a sync persists. The size limits apply across all
+ * directories, so one filter is used for a whole sync, directory by
+ * directory in the order they are synced.
+ */
+export interface SyncFilter {
+  /**
+   * @param entries - Files of one directory; their md5 is not needed yet
+   * @returns The files to sync, in path order
+   */
+  select(entries: ManifestEntry[]): ManifestEntry[];
+  /** Files left out so far for being over a size limit */
+  skipped: SkippedFile[];
+}
+
+export function createSyncFilter(policy: SyncPolicy): SyncFilter {
+  const include = policy.include.map((glob) => new RegExp(globToRegExp(glob)));
+  const exclude = policy.exclude.map((glob) => new RegExp(globToRegExp(glob)));
+  const skipped: SkippedFile[] = [];
+  let total = 0;
+
+  return {
+    skipped,
+    select(entries) {
+      const selected: ManifestEntry[] = [];
+      // Byte order, like `LC_ALL=C sort` in the sync loop, so the same files fit the total
+      const ordered = [...entries];
+      ordered.sort((a, b) => (a.path < b.path ? -1 : 1));
+      for (const entry of ordered) {
+        if (!include.some((pattern) => pattern.test(entry.path))) continue;
+        if (exclude.some((pattern) => pattern.test(entry.path))) continue;
+
+        if (policy.maxFileSize !== null && entry.size > policy.maxFileSize) {
+          skipped.push({ path: entry.path, size: entry.size, reason: 'max-file-size' });
+        } else if (policy.maxTotalSize !== null && total + entry.size > policy.maxTotalSize) {
+          skipped.push({ path: entry.path, size: entry.size, reason: 'max-total-size' });
+        } else {
+          total += entry.size;
+          selected.push(entry);
+        }
+      }
+      return selected;
+    },
+  };
+}
+
+/**
+ * The policy as the background sync loop reads it: a header, then one
+ * "<field>\t<value>" line per compiled pattern and per limit
+ */
+export function serializeSyncPolicy(policy: SyncPolicy): string {
+  const lines = [
+    SYNC_POLICY_HEADER,
+    ...policy.include.map((glob) => `include\t${globToRegExp(glob)}`),
+    ...policy.exclude.map((glob) => `exclude\t${globToRegExp(glob)}`),
+  ];
+  if (policy.maxFileSize !== null) lines.push(`max-file-size\t${policy.maxFileSize}`);
+  if (policy.maxTotalSize !== null) lines.push(`max-total-size\t${policy.maxTotalSize}`);
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Hand the policy to the background sync loop, which refuses to sync
+ * without one
+ */
+export async function installSyncPolicy(sandbox: Sandbox, policy: SyncPolicy): Promise<void> {
+  await sandbox.writeFile(SYNC_POLICY_PATH, serializeSyncPolicy(policy));
+}
+
+export function serializeSkippedFiles(skipped: SkippedFile[]): string {
+  return skipped.map((file) => `${file.reason}\t${file.size}\t${file.path}\n`).join('');
+}
+
+export function parseSkippedFiles(text: string): SkippedFile[] {
+  const skipped: SkippedFile[] = [];
+  for (const line of text.split('\n')) {
+    const match = /^(max-file-size|max-total-size)\t(\d+)\t(.+)$/.exec(line);
+    if (match) {
+      skipped.push({ reason: match[1] as SkipReason, size: Number(match[2]), path: match[3] });
+    }
+  }
+  return skipped;
+}
+
+/**
+ * Files the last sync left out for being over a size limit, whether the
+ * Worker or the background sync loop ran it
+ */
+export async function readSkippedFiles(sandbox: Sandbox): Promise<SkippedFile[]> {
+  const result = await sandbox.exec(`cat ${SKIPPED_FILES_PATH} 2>/dev/null || true`);
+  return parseSkippedFiles(result.stdout || '');
+}
+
+/**
+ * Translate a glob to an rclone filter pattern relative to one directory
+ *
+ * @returns The pattern, or null if the glob can't match files of the directory
+ */
+function rclonePattern(glob: string, dirName: string): string | null {
+  if (glob === '**') return '**';
+  if (glob.startsWith('**/')) return glob.slice(3);
+  const slash = glob.indexOf('/');
+  if (slash === -1) return null;
+  const first = new RegExp(globToRegExp(glob.slice(0, slash)));
+  if (!first.test(dirName)) return null;
+  const rest = glob.slice(slash + 1);
+  // rclone matches a pattern that doesn't start with "/" at any depth
+  return rest.startsWith('**/') ? rest.slice(3) : `/${rest}`;
+}
+
+/**
+ * rclone filter flags that leave out what the policy doesn't persist from a
+ * directory, so copies between the container and R2 leave those files alone
+ *
+ * @param extraExcludes - rclone patterns excluded before the policy's
+ */
+export function rcloneFilters(
+  policy: SyncPolicy,
+  dirName: string,
+  extraExcludes: string[] = [],
+): string {
+  const rules = [
+    ...extraExcludes.map((pattern) => `- ${pattern}`),
+    ...policy.exclude
+      .map((glob) => rclonePattern(glob, dirName))
+      .flatMap((p) => (p ? [`- ${p}`] : [])),
+    ...policy.include
+      .map((glob) => rclonePattern(glob, dirName))
+      .flatMap((p) => (p ? [`+ ${p}`] : [])),
+    '- **',
+  ];
+  return rules.map((rule) => `--filter '${rule}'`).join(' ');
+}
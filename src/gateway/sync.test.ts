@@ -1,5 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { syncToR2 } from './sync';
+import { createHash } from 'node:crypto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getSyncConflictStatus, rotateEncryptionKey, syncToR2 } from './sync';
+import { serializeManifest, type SyncManifest } from './manifest';
+import type { GenerationMarker } from './conflict';
 import {
   createMockEnv,
   createMockEnvWithR2,
@@ -8,6 +11,133 @@ import {
   suppressConsole,
 } from '../test-utils';
 
+const TIMESTAMP = '2026-01-27T12:00:00+00:00';
+const WRITER = 'ab12cd34';
+
+function md5(text: string): string {
+  return createHash('md5').update(text).digest('hex');
+}
+
+/**
+ * Manifest of files by path in R2, e.g. "workspace/notes.md"
+ */
+function manifestText(files: Record<string, string>): string {
+  const manifest: SyncManifest = new Map(
+    Object.entries(files).map(([path, text]) => [
+      path,
+      { path, md5: md5(text), size: text.length },
+    ]),
+  );
+  return serializeManifest(manifest);
+}
+
+/**
+ * What find prints for the files of a directory
+ */
+function listing(files: Record<string, string>): string {
+  return Object.entries(files)
+    .map(([path, text]) => `${text.length}\t${path}`)
+    .join('\n');
+}
+
+/**
+ * What md5sum prints for the listed files of a directory
+ */
+function hashes(files: Record<string, string>, paths: string[]): string {
+  return paths.map((path) => `${md5(files[path])}  ${path}`).join('\n');
+}
+
+interface ContainerOptions {
+  configDir?: 'openclaw' | 'clawdbot' | 'none';
+  /** Files of each container directory; a directory left out does not exist */
+  dirs?: Record<string, Record<string, string>>;
+  /** Manifest cached by the container's last sync */
+  localManifest?: string;
+  /** Manifest stored in R2 */
+  remoteManifest?: string;
+  /** Generation marker this container last synced, and R2's */
+  localGeneration?: GenerationMarker;
+  remoteGeneration?: GenerationMarker;
+  /** Files rclone lsjson lists in R2, by path like the manifest's */
+  remoteFiles?: Record<string, string>;
+  /** Commands that fail with this stderr */
+  failing?: { command: RegExp; stderr: string };
+}
+
+/** Small objects the sync reads with rclone cat and writes with rclone copyto */
+const TEXT_OBJECTS = ['sync-manifest.tsv', 'encryption-keys.json'];
+
+/**
+ * Container with rclone configured that answers the sync's commands;
+ * every rclone transfer succeeds
+ */
+function rcloneContainer({
+  configDir = 'openclaw',
+  dirs = { '/root/.openclaw': { 'openclaw.json': '{}' } },
+  localManifest = '',
+  remoteManifest = '',
+  localGeneration,
+  remoteGeneration,
+  remoteFiles = {},
+  failing,
+}: ContainerOptions = {}) {
+  const mock = createMockSandbox();
+  const texts = new Map([['sync-manifest.tsv', remoteManifest]]);
+  let staged = '';
+  let hashList: string[] = [];
+  mock.writeFileMock.mockImplementation(async (path: string, content: string) => {
+    if (path === '/tmp/.r2-sync-upload.txt') staged = content;
+    if (path === '/tmp/.sync-hash.list') hashList = content.split('\n');
+  });
+  mock.execMock.mockImplementation(async (command: string) => {
+    const text = TEXT_OBJECTS.find((name) => command.includes(name));
+    if (failing?.command.test(command)) {
+      return createMockExecResult('', { exitCode: 1, stderr: failing.stderr });
+    }
+    if (command.startsWith('test -f /tmp/.rclone-configured')) return createMockExecResult('yes');
+    if (command.startsWith('test -f /root/.openclaw')) return createMockExecResult(configDir);
+    if (command.startsWith('cat /tmp/.sync-manifest.tsv')) {
+      return createMockExecResult(localManifest);
+    }
+    if (command.startsWith('cat /tmp/.sync-generation.json')) {
+      return createMockExecResult(localGeneration ? JSON.stringify(localGeneration) : '');
+    }
+    if (command.startsWith('rclone cat') && command.includes('sync-generation.json')) {
+      return createMockExecResult(remoteGeneration ? JSON.stringify(remoteGeneration) : '');
+    }
+    if (command.startsWith('rclone cat') && text) return createMockExecResult(texts.get(text));
+    if (command.startsWith('rclone copyto /tmp/.r2-sync-upload.txt') && text) {
+      texts.set(text, staged);
+    }
+    if (command.startsWith('test -s /tmp/.sync-writer')) return createMockExecResult(WRITER);
+    if (command.startsWith('rclone lsjson')) {
+      const dir = /\/(openclaw|workspace|skills)\/ /.exec(command)?.[1];
+      const listed = Object.entries(remoteFiles)
+        .filter(([path]) => path.startsWith(`${dir}/`))
+        .map(([path, text]) => ({
+          Path: path.slice(`${dir}/`.length),
+          Size: text.length,
+          Hashes: { md5: md5(text) },
+        }));
+      return createMockExecResult(JSON.stringify(listed));
+    }
+    if (command.startsWith('cat /tmp/.last-sync')) return createMockExecResult(TIMESTAMP);
+    const dir = /^if \[ -d (\S+) \]/.exec(command)?.[1];
+    if (dir) {
+      const files = dirs[dir];
+      return createMockExecResult(files ? listing(files) : 'missing\n');
+    }
+    const hashed = /^\(cd (\S+) && tr/.exec(command)?.[1];
+    if (hashed) return createMockExecResult(hashes(dirs[hashed], hashList));
+    return createMockExecResult();
+  });
+  return mock;
+}
+
+function commands(execMock: ReturnType<typeof createMockSandbox>['execMock']): string[] {
+  return execMock.mock.calls.map(([command]) => command as string);
+}
+
 describe('syncToR2', () => {
   beforeEach(() => {
     suppressConsole();
@@ -21,19 +151,16 @@ describe('syncToR2', () => {
       const result = await syncToR2(sandbox, env);
 
       expect(result.success).toBe(false);
+      expect(result.notConfigured).toBe(true);
       expect(result.error).toBe('R2 storage is not configured');
     });
   });
 
   describe('config detection', () => {
     it('returns error when no config file found', async () => {
-      const { sandbox, execMock } = createMockSandbox();
-      execMock
-        .mockResolvedValueOnce(createMockExecResult('yes')) // rclone configured
-        .mockResolvedValueOnce(createMockExecResult('none')); // no config dir
+      const { sandbox } = rcloneContainer({ configDir: 'none' });
 
-      const env = createMockEnvWithR2();
-      const result = await syncToR2(sandbox, env);
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
 
       expect(result.success).toBe(false);
       expect(result.error).toBe('Sync aborted: no config file found');
@@ -41,118 +168,487 @@ describe('syncToR2', () => {
   });
 
   describe('sync execution', () => {
-    it('returns success with timestamp after sync', async () => {
-      const timestamp = '2026-01-27T12:00:00+00:00';
-      const { sandbox, execMock } = createMockSandbox();
-      execMock
-        .mockResolvedValueOnce(createMockExecResult('yes')) // rclone configured
-        .mockResolvedValueOnce(createMockExecResult('openclaw')) // config detect
-        .mockResolvedValueOnce(createMockExecResult()) // rclone sync config
-        .mockResolvedValueOnce(createMockExecResult()) // rclone sync workspace
-        .mockResolvedValueOnce(createMockExecResult()) // rclone sync skills
-        .mockResolvedValueOnce(createMockExecResult()) // date > last-sync
-        .mockResolvedValueOnce(createMockExecResult(timestamp)); // cat last-sync
-
-      const env = createMockEnvWithR2();
-      const result = await syncToR2(sandbox, env);
+    it('uploads everything on the first sync and records a manifest', async () => {
+      const { sandbox, execMock, writeFileMock } = rcloneContainer({
+        dirs: {
+          '/root/.openclaw': { 'openclaw.json': '{}' },
+          '/root/clawd': { 'notes.md': 'hello' },
+        },
+      });
 
-      expect(result.success).toBe(true);
-      expect(result.lastSync).toBe(timestamp);
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
+
+      expect(result).toMatchObject({
+        success: true,
+        lastSync: TIMESTAMP,
+        uploaded: 2,
+        deleted: 0,
+        bytes: 7,
+      });
+      expect(result.durationMs).toBeGreaterThanOrEqual(0);
+      // Without a manifest, R2 itself is the previous state
+      expect(commands(execMock)).toContain(
+        "rclone lsjson -R --files-only --hash --hash-type md5 r2:moltbot-data/openclaw/ --transfers=16 --fast-list --s3-no-check-bucket 2>/dev/null || echo '[]'",
+      );
+      const manifest = manifestText({
+        'openclaw/openclaw.json': '{}',
+        'workspace/notes.md': 'hello',
+      });
+      expect(writeFileMock).toHaveBeenCalledWith('/tmp/.r2-sync-upload.txt', manifest);
+      expect(writeFileMock).toHaveBeenCalledWith('/tmp/.sync-manifest.tsv', manifest);
+      expect(commands(execMock)).toContain(
+        'rclone copyto /tmp/.r2-sync-upload.txt r2:moltbot-data/sync-manifest.tsv --transfers=16 --fast-list --s3-no-check-bucket',
+      );
+    });
+
+    it('uploads only changed files and deletes removed ones', async () => {
+      const { sandbox, execMock, writeFileMock } = rcloneContainer({
+        dirs: {
+          '/root/.openclaw': { 'openclaw.json': '{}' },
+          '/root/clawd': { 'same.md': 'same', 'edited.md': 'new text', 'added.md': 'hi' },
+        },
+        localManifest: manifestText({
+          'openclaw/openclaw.json': '{}',
+          'workspace/same.md': 'same',
+          'workspace/edited.md': 'old',
+          'workspace/deleted.md': 'gone',
+        }),
+      });
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
+
+      expect(result).toMatchObject({ success: true, uploaded: 2, deleted: 1, bytes: 10 });
+      expect(writeFileMock).toHaveBeenCalledWith(
+        '/tmp/.r2-sync-upload.list',
+        'added.md\nedited.md',
+      );
+      expect(writeFileMock).toHaveBeenCalledWith('/tmp/.r2-sync-delete.list', 'deleted.md');
+      const transfers = commands(execMock).filter((command) =>
+        /^rclone (copy|delete) /.test(command),
+      );
+      expect(transfers).toEqual([
+        'rclone copy /root/clawd/ r2:moltbot-data/workspace/ --files-from /tmp/.r2-sync-upload.list --no-traverse --transfers=16 --fast-list --s3-no-check-bucket',
+        'rclone delete r2:moltbot-data/workspace/ --files-from /tmp/.r2-sync-delete.list --transfers=16 --fast-list --s3-no-check-bucket',
+      ]);
+      // The cached manifest is trusted; R2 is not listed
+      expect(commands(execMock).some((command) => command.startsWith('rclone lsjson'))).toBe(false);
+    });
+
+    it('transfers nothing when nothing changed', async () => {
+      const files = { 'openclaw.json': '{}' };
+      const { sandbox, execMock, writeFileMock } = rcloneContainer({
+        dirs: { '/root/.openclaw': files },
+        localManifest: manifestText({ 'openclaw/openclaw.json': '{}' }),
+      });
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
+
+      expect(result).toMatchObject({ success: true, uploaded: 0, deleted: 0, bytes: 0 });
+      expect(
+        commands(execMock).filter((command) => /^rclone (copy|copyto|delete) /.test(command)),
+      ).toEqual([]);
+      // Nothing but the sync's own bookkeeping is written
+      expect(writeFileMock.mock.calls.map(([path]) => path)).toEqual([
+        '/tmp/.sync-policy.tsv',
+        '/tmp/.sync-hash.list',
+        '/tmp/.sync-skipped.tsv',
+      ]);
+    });
+
+    it("uses R2's manifest in a fresh container", async () => {
+      const { sandbox, execMock, writeFileMock } = rcloneContainer({
+        remoteManifest: manifestText({ 'openclaw/openclaw.json': '{}' }),
+      });
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
+
+      expect(result).toMatchObject({ success: true, uploaded: 0 });
+      expect(commands(execMock).some((command) => command.startsWith('rclone lsjson'))).toBe(false);
+      // Cached for the next sync, but R2's copy is already current
+      expect(writeFileMock).toHaveBeenCalledWith(
+        '/tmp/.sync-manifest.tsv',
+        manifestText({ 'openclaw/openclaw.json': '{}' }),
+      );
+      expect(commands(execMock).some((command) => command.startsWith('rclone copyto'))).toBe(false);
     });
 
     it('falls back to legacy clawdbot config directory', async () => {
-      const timestamp = '2026-01-27T12:00:00+00:00';
-      const { sandbox, execMock } = createMockSandbox();
-      execMock
-        .mockResolvedValueOnce(createMockExecResult('yes')) // rclone configured
-        .mockResolvedValueOnce(createMockExecResult('clawdbot')) // legacy config
-        .mockResolvedValueOnce(createMockExecResult()) // rclone sync config
-        .mockResolvedValueOnce(createMockExecResult()) // rclone sync workspace
-        .mockResolvedValueOnce(createMockExecResult()) // rclone sync skills
-        .mockResolvedValueOnce(createMockExecResult()) // date > last-sync
-        .mockResolvedValueOnce(createMockExecResult(timestamp)); // cat last-sync
-
-      const env = createMockEnvWithR2();
-      const result = await syncToR2(sandbox, env);
+      const { sandbox, execMock } = rcloneContainer({
+        configDir: 'clawdbot',
+        dirs: { '/root/.clawdbot': { 'clawdbot.json': '{}' } },
+      });
 
-      expect(result.success).toBe(true);
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
 
-      // Config sync command should reference .clawdbot
-      const configSyncCall = execMock.mock.calls[2][0];
-      expect(configSyncCall).toContain('/root/.clawdbot/');
+      expect(result.success).toBe(true);
+      expect(commands(execMock)).toContainEqual(
+        expect.stringMatching(/^rclone copy \/root\/\.clawdbot\/ r2:moltbot-data\/openclaw\//),
+      );
     });
 
     it('returns error when config sync fails', async () => {
-      const { sandbox, execMock } = createMockSandbox();
-      execMock
-        .mockResolvedValueOnce(createMockExecResult('yes')) // rclone configured
-        .mockResolvedValueOnce(createMockExecResult('openclaw')) // config detect
-        .mockResolvedValueOnce(
-          createMockExecResult('', { exitCode: 1, success: false, stderr: 'rclone error' }),
-        );
-
-      const env = createMockEnvWithR2();
+      const { sandbox } = rcloneContainer({
+        failing: { command: /^rclone copy /, stderr: 'rclone error' },
+      });
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Config sync failed',
+        details: 'Upload to openclaw/ failed: rclone error',
+      });
+    });
+
+    it('keeps the last synced state of a workspace that fails to sync', async () => {
+      const { sandbox, writeFileMock } = rcloneContainer({
+        dirs: {
+          '/root/.openclaw': { 'openclaw.json': '{"changed":true}' },
+          '/root/clawd': { 'notes.md': 'edited' },
+        },
+        localManifest: manifestText({
+          'openclaw/openclaw.json': '{}',
+          'workspace/notes.md': 'notes',
+        }),
+        failing: { command: /r2:moltbot-data\/workspace\//, stderr: 'timeout' },
+      });
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
+
+      expect(result).toMatchObject({ success: true, uploaded: 1 });
+      // The workspace is retried on the next sync
+      expect(writeFileMock).toHaveBeenCalledWith(
+        '/tmp/.sync-manifest.tsv',
+        manifestText({
+          'openclaw/openclaw.json': '{"changed":true}',
+          'workspace/notes.md': 'notes',
+        }),
+      );
+    });
+
+    it('uses custom bucket name', async () => {
+      const { sandbox, execMock } = rcloneContainer();
+
+      await syncToR2(sandbox, createMockEnvWithR2({ R2_BUCKET_NAME: 'my-custom-bucket' }));
+
+      expect(commands(execMock)).toContainEqual(
+        expect.stringContaining('rclone copy /root/.openclaw/ r2:my-custom-bucket/openclaw/'),
+      );
+    });
+
+    it('syncs under the tenant prefix', async () => {
+      const { sandbox, execMock } = rcloneContainer();
+
+      await syncToR2(sandbox, createMockEnvWithR2({ R2_PREFIX: 'tenants/alice-1234abcd/' }));
+
+      expect(commands(execMock)).toContainEqual(
+        expect.stringContaining(
+          'rclone copy /root/.openclaw/ r2:moltbot-data/tenants/alice-1234abcd/openclaw/',
+        ),
+      );
+      expect(commands(execMock)).toContainEqual(
+        expect.stringContaining('r2:moltbot-data/tenants/alice-1234abcd/sync-manifest.tsv'),
+      );
+    });
+  });
+
+  describe('conflicts', () => {
+    const ours: GenerationMarker = {
+      generation: 2,
+      writer: WRITER,
+      updatedAt: '2026-01-27T11:00:00.000Z',
+    };
+    const theirs: GenerationMarker = {
+      generation: 3,
+      writer: 'ffff0000',
+      updatedAt: '2026-01-27T11:30:00.000Z',
+    };
+
+    it('claims R2 with the next generation after writing', async () => {
+      const { sandbox, writeFileMock } = rcloneContainer({
+        localGeneration: ours,
+        remoteGeneration: ours,
+      });
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
+
+      expect(result.success).toBe(true);
+      const [, marker] = writeFileMock.mock.calls.find(
+        ([path]) => path === '/tmp/.sync-generation.json',
+      ) as [string, string];
+      expect(JSON.parse(marker)).toMatchObject({ generation: 3, writer: WRITER });
+    });
+
+    it('refuses to overwrite what another container wrote', async () => {
+      const { sandbox, execMock, writeFileMock } = rcloneContainer({
+        localGeneration: ours,
+        remoteGeneration: theirs,
+      });
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
+
+      expect(result).toMatchObject({ success: false, error: 'Sync conflict' });
+      expect(result.details).toContain('written by container ffff0000');
+      expect(commands(execMock).some((command) => /^rclone (copy|delete) /.test(command))).toBe(
+        false,
+      );
+      const [, record] = writeFileMock.mock.calls.find(
+        ([path]) => path === '/tmp/.sync-conflict.json',
+      ) as [string, string];
+      expect(JSON.parse(record)).toMatchObject({ remote: theirs, action: 'refused' });
+    });
+
+    it("overwrites with last-writer-wins, comparing against R2's manifest", async () => {
+      const { sandbox, execMock, writeFileMock } = rcloneContainer({
+        dirs: { '/root/.openclaw': { 'openclaw.json': '{"ours":true}' } },
+        localManifest: manifestText({ 'openclaw/openclaw.json': '{"ours":true}' }),
+        remoteManifest: manifestText({ 'openclaw/openclaw.json': '{"theirs":true}' }),
+        localGeneration: ours,
+        remoteGeneration: theirs,
+      });
+
+      const result = await syncToR2(
+        sandbox,
+        createMockEnvWithR2({ R2_CONFLICT_POLICY: 'last-writer-wins' }),
+      );
+
+      expect(result).toMatchObject({ success: true, uploaded: 1 });
+      expect(commands(execMock)).toContainEqual(expect.stringMatching(/^rclone copy \/root/));
+      const [, marker] = writeFileMock.mock.calls.find(
+        ([path]) => path === '/tmp/.sync-generation.json',
+      ) as [string, string];
+      expect(JSON.parse(marker)).toMatchObject({ generation: 4, writer: WRITER });
+    });
+
+    it('snapshots R2 before overwriting it with keep-both', async () => {
+      const { sandbox, execMock } = rcloneContainer({
+        localGeneration: ours,
+        remoteGeneration: theirs,
+      });
+
+      const result = await syncToR2(
+        sandbox,
+        createMockEnvWithR2({ R2_CONFLICT_POLICY: 'keep-both' }),
+      );
+
+      expect(result.success).toBe(true);
+      const snapshot = commands(execMock).findIndex((command) =>
+        /^rclone copy r2:moltbot-data\/openclaw\/ r2:moltbot-data\/snapshots\/\d{8}T\d{6}Z-conflict\/openclaw\//.test(
+          command,
+        ),
+      );
+      const upload = commands(execMock).findIndex((command) =>
+        command.startsWith('rclone copy /root'),
+      );
+      expect(snapshot).toBeGreaterThan(-1);
+      expect(upload).toBeGreaterThan(snapshot);
+    });
+  });
+
+  describe('sync lock', () => {
+    it('holds the lock the sync loop takes until the sync is done', async () => {
+      const { sandbox, execMock, startProcessMock } = rcloneContainer();
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
+
+      expect(result.success).toBe(true);
+      const [holder] = startProcessMock.mock.calls[0] as [string];
+      expect(holder).toMatch(/^flock -w 60 \/tmp\/\.r2-sync\.lock timeout 600 sh -c /);
+      const held = /touch (\S+);/.exec(holder)?.[1];
+      const all = commands(execMock);
+      const firstRead = all.findIndex((command) => command.includes('sync-generation.json'));
+      const wait = all.findIndex((command) => command.includes(`until [ -e ${held} ]`));
+      expect(wait).toBeGreaterThan(-1);
+      expect(wait).toBeLessThan(firstRead);
+      expect(all[all.length - 1]).toBe(`rm -f ${held}`);
+    });
+
+    it('gives up when the sync loop holds the lock too long', async () => {
+      const { sandbox, execMock } = rcloneContainer({
+        failing: { command: /until \[ -e/, stderr: '' },
+      });
+
+      const result = await syncToR2(sandbox, createMockEnvWithR2());
+
+      expect(result).toMatchObject({ success: false, error: 'Sync already running' });
+      expect(commands(execMock).some((command) => command.startsWith('rclone copy'))).toBe(false);
+    });
+  });
+
+  describe('getSyncConflictStatus', () => {
+    it('reports a conflict and the policy', async () => {
+      const remote = { generation: 5, writer: 'ffff0000', updatedAt: '2026-01-27T11:30:00.000Z' };
+      const { sandbox } = rcloneContainer({ remoteGeneration: remote });
+
+      const status = await getSyncConflictStatus(
+        sandbox,
+        createMockEnvWithR2({ R2_CONFLICT_POLICY: 'Keep-Both' }),
+      );
+
+      expect(status).toEqual({
+        policy: 'keep-both',
+        detected: true,
+        local: null,
+        remote,
+        lastConflict: null,
+      });
+    });
+
+    it('returns null when R2 is not configured', async () => {
+      const { sandbox } = createMockSandbox();
+      expect(await getSyncConflictStatus(sandbox, createMockEnv())).toBeNull();
+    });
+  });
+
+  describe('sync policy', () => {
+    it('leaves out excluded and oversized files and reports the skipped ones', async () => {
+      const { sandbox, writeFileMock } = rcloneContainer({
+        dirs: {
+          '/root/.openclaw': { 'openclaw.json': '{}' },
+          '/root/clawd': { 'notes.md': 'hi', 'video.mp4': 'x'.repeat(50), 'cache/a.tmp': 'tmp' },
+        },
+      });
+      const env = createMockEnvWithR2({
+        R2_SYNC_POLICY: JSON.stringify({ exclude: ['**/*.tmp'], maxFileSize: 10 }),
+      });
+
       const result = await syncToR2(sandbox, env);
 
-      expect(result.success).toBe(false);
-      expect(result.error).toBe('Config sync failed');
+      expect(result).toMatchObject({
+        success: true,
+        uploaded: 2,
+        skipped: [{ path: 'workspace/video.mp4', size: 50, reason: 'max-file-size' }],
+      });
+      expect(writeFileMock).toHaveBeenCalledWith('/tmp/.r2-sync-upload.list', 'notes.md');
+      expect(writeFileMock).toHaveBeenCalledWith(
+        '/tmp/.sync-skipped.tsv',
+        'max-file-size\t50\tworkspace/video.mp4\n',
+      );
+      // The background sync loop gets the same policy
+      expect(writeFileMock).toHaveBeenCalledWith(
+        '/tmp/.sync-policy.tsv',
+        expect.stringContaining('exclude\t^(.*/)?[^/]*[.]tmp$\nmax-file-size\t10\n'),
+      );
     });
 
-    it('uses rclone sync (not copy) to propagate deletions', async () => {
-      const { sandbox, execMock } = createMockSandbox();
-      execMock
-        .mockResolvedValueOnce(createMockExecResult('yes'))
-        .mockResolvedValueOnce(createMockExecResult('openclaw'))
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult('2026-01-27'));
+    it('refuses to sync with an invalid policy', async () => {
+      const { sandbox, execMock } = rcloneContainer();
 
-      const env = createMockEnvWithR2();
-      await syncToR2(sandbox, env);
+      const result = await syncToR2(
+        sandbox,
+        createMockEnvWithR2({ R2_SYNC_POLICY: '{"exclude": "*.log"}' }),
+      );
 
-      const configCmd = execMock.mock.calls[2][0];
-      expect(configCmd).toMatch(/^rclone sync /);
+      expect(result).toMatchObject({ success: false, error: 'Invalid sync policy' });
+      expect(commands(execMock).some((command) => command.startsWith('rclone copy'))).toBe(false);
     });
+  });
 
-    it('rclone commands include --transfers=16 and exclude .git', async () => {
-      const { sandbox, execMock } = createMockSandbox();
-      execMock
-        .mockResolvedValueOnce(createMockExecResult('yes'))
-        .mockResolvedValueOnce(createMockExecResult('openclaw'))
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult('2026-01-27'));
+  describe('encryption', () => {
+    const env = createMockEnvWithR2({ R2_ENCRYPTION_KEY: Buffer.alloc(32, 7).toString('base64') });
 
-      const env = createMockEnvWithR2();
-      await syncToR2(sandbox, env);
+    it('encrypts uploads, re-uploading data synced before encryption was enabled', async () => {
+      const files = { 'openclaw/openclaw.json': '{}' };
+      const { sandbox, execMock, writeFileMock } = rcloneContainer({
+        remoteManifest: manifestText(files),
+      });
 
-      const configCmd = execMock.mock.calls[2][0];
-      expect(configCmd).toContain('--transfers=16');
-      expect(configCmd).toContain("--exclude='.git/**'");
-      expect(configCmd).toContain('/root/.openclaw/');
-      expect(configCmd).toContain('r2:moltbot-data/openclaw/');
+      const result = await syncToR2(sandbox, env);
+
+      expect(result).toMatchObject({ success: true, uploaded: 1 });
+      const ran = commands(execMock);
+      expect(ran).toContainEqual(
+        expect.stringMatching(/^rclone copyto .* \S+encryption-keys\.json /),
+      );
+      expect(ran).toContainEqual(
+        expect.stringContaining('r2-crypt.mjs encrypt /root/.openclaw /tmp/.r2-encrypted'),
+      );
+      expect(ran).toContainEqual(expect.stringMatching(/^rclone copy \/tmp\/\.r2-encrypted\/ /));
+      expect(writeFileMock).toHaveBeenCalledWith('/tmp/.r2-data-keys.json', expect.any(String));
     });
 
-    it('uses custom bucket name', async () => {
-      const { sandbox, execMock } = createMockSandbox();
-      execMock
-        .mockResolvedValueOnce(createMockExecResult('yes'))
-        .mockResolvedValueOnce(createMockExecResult('openclaw'))
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult())
-        .mockResolvedValueOnce(createMockExecResult('2026-01-27'));
-
-      const env = createMockEnvWithR2({ R2_BUCKET_NAME: 'my-custom-bucket' });
+    it('does not trust the hashes of objects in R2 without a manifest', async () => {
+      const { sandbox } = rcloneContainer({
+        remoteFiles: { 'openclaw/openclaw.json': '{}' },
+      });
+
+      const result = await syncToR2(sandbox, env);
+
+      expect(result).toMatchObject({ success: true, uploaded: 1 });
+    });
+
+    it('fails when the keyring was wrapped with another key', async () => {
+      const { sandbox } = rcloneContainer();
       await syncToR2(sandbox, env);
 
-      const configCmd = execMock.mock.calls[2][0];
-      expect(configCmd).toContain('r2:my-custom-bucket/openclaw/');
+      const result = await syncToR2(
+        sandbox,
+        createMockEnvWithR2({ R2_ENCRYPTION_KEY: 'another key' }),
+      );
+
+      expect(result).toMatchObject({ success: false, error: 'Encryption setup failed' });
+    });
+
+    it('invalidates the manifest under the same lock as the key rotation', async () => {
+      const files = { 'openclaw/openclaw.json': '{}' };
+      const { sandbox, execMock, startProcessMock } = rcloneContainer({
+        remoteManifest: manifestText(files),
+      });
+
+      const { sync } = await rotateEncryptionKey(sandbox, env);
+
+      expect(sync).toMatchObject({ success: true, uploaded: 1 });
+      const [holder] = startProcessMock.mock.calls[0] as [string];
+      const held = /touch (\S+);/.exec(holder)?.[1];
+      const ran = commands(execMock);
+      const invalidated = ran.findIndex((command) =>
+        /^rclone copyto \S+ \S+sync-manifest\.tsv /.test(command),
+      );
+      expect(invalidated).toBeGreaterThan(-1);
+      expect(ran.indexOf(`rm -f ${held}`)).toBeGreaterThan(invalidated);
+    });
+  });
+
+  describe('binding mode', () => {
+    it('syncs through the bucket binding without rclone', async () => {
+      const { sandbox, execMock } = rcloneContainer({ dirs: {} });
+      const bucket = {
+        get: vi.fn().mockResolvedValue(null),
+        put: vi.fn(),
+        list: vi.fn().mockResolvedValue({ objects: [], truncated: false }),
+        delete: vi.fn(),
+      };
+
+      const env = createMockEnv({
+        R2_SYNC_MODE: 'binding',
+        MOLTBOT_BUCKET: bucket as unknown as R2Bucket,
+      });
+      const result = await syncToR2(sandbox, env);
+
+      expect(result).toMatchObject({ success: true, lastSync: TIMESTAMP, uploaded: 0 });
+      expect(commands(execMock).some((command) => command.includes('rclone'))).toBe(false);
+      expect(bucket.get).toHaveBeenCalledWith('sync-manifest.tsv');
+      expect(bucket.put).toHaveBeenCalledWith('sync-manifest.tsv', manifestText({}));
+    });
+
+    it('fails when the config cannot be synced', async () => {
+      const { sandbox } = rcloneContainer();
+      const bucket = {
+        get: vi.fn().mockResolvedValue(null),
+        list: vi.fn().mockRejectedValue(new Error('R2 unavailable')),
+      };
+
+      const env = createMockEnv({
+        R2_SYNC_MODE: 'binding',
+        MOLTBOT_BUCKET: bucket as unknown as R2Bucket,
+      });
+      const result = await syncToR2(sandbox, env);
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Config sync failed',
+        details: 'R2 unavailable',
+      });
     });
   });
 });
@@ -1,26 +1,97 @@
 import type { Sandbox } from '@cloudflare/sandbox';
 import type { MoltbotEnv } from '../types';
-import { getR2BucketName } from '../config';
-import { ensureRcloneConfig } from './r2';
+import { RCLONE_FLAGS, ensureRcloneConfig, getR2SyncMode, rcloneRemote } from './r2';
+import { bindingSyncTarget } from './binding-sync';
+import {
+  GENERATION_NAME,
+  getConflictPolicy,
+  isConflict,
+  nextGeneration,
+  parseGenerationMarker,
+  readLastConflict,
+  readLocalGeneration,
+  resolveConflict,
+  writeLocalGeneration,
+  type GenerationMarker,
+  type SyncConflictStatus,
+} from './conflict';
+import {
+  clearStaging,
+  encryptForUpload,
+  getEncryptionStatus,
+  installDataKeys,
+  isEncryptionEnabled,
+  rotateDataKey,
+  type EncryptionStatus,
+} from './encryption';
+import {
+  MANIFEST_NAME,
+  SYNC_DIRS,
+  clearLocalManifest,
+  diffManifests,
+  listLocalEntries,
+  parseManifest,
+  readLocalManifest,
+  serializeManifest,
+  writeLocalManifest,
+  type ManifestEntry,
+  type SyncDir,
+  type SyncManifest,
+  type SyncTarget,
+} from './manifest';
+import {
+  SKIPPED_FILES_PATH,
+  createSyncFilter,
+  getSyncPolicy,
+  installSyncPolicy,
+  serializeSkippedFiles,
+  type SkippedFile,
+  type SyncFilter,
+  type SyncPolicy,
+} from './sync-policy';
 
 export interface SyncResult {
   success: boolean;
+  /** R2 storage is not configured, so there was nothing to sync to */
+  notConfigured?: boolean;
   lastSync?: string;
   error?: string;
   details?: string;
+  /** Files uploaded because they were new or changed */
+  uploaded?: number;
+  /** Files deleted from R2 because they were removed from the container */
+  deleted?: number;
+  /** Bytes uploaded */
+  bytes?: number;
+  /** Files left out for being over the sync policy's size limits */
+  skipped?: SkippedFile[];
+  durationMs?: number;
 }
 
-const RCLONE_FLAGS = '--transfers=16 --fast-list --s3-no-check-bucket';
 const LAST_SYNC_FILE = '/tmp/.last-sync';
+const SYNC_TIMEOUT_MS = 120_000;
 
-function rcloneRemote(env: MoltbotEnv, prefix: string): string {
-  return `r2:${getR2BucketName(env)}/${prefix}`;
-}
+/** Held by whichever of the Worker and the background sync loop is syncing */
+const SYNC_LOCK_PATH = '/tmp/.r2-sync.lock';
+/** How long a sync waits for the other one to finish */
+const SYNC_LOCK_WAIT_S = 60;
+/** Longest the Worker holds the lock, in case it never releases it */
+const SYNC_LOCK_HOLD_S = 600;
+
+/** File lists handed to rclone --files-from */
+const UPLOAD_LIST_PATH = '/tmp/.r2-sync-upload.list';
+const DELETE_LIST_PATH = '/tmp/.r2-sync-delete.list';
+
+/** Hash that matches no file, for manifest entries that must be uploaded again */
+const STALE_MD5 = '0'.repeat(32);
+
+/** Staging file for small objects like the manifest */
+const TEXT_UPLOAD_PATH = '/tmp/.r2-sync-upload.txt';
 
 /**
  * Detect which config directory exists in the container.
  */
-async function detectConfigDir(sandbox: Sandbox): Promise<string | null> {
+export async function detectConfigDir(sandbox: Sandbox): Promise<string | null> {
   const check = await sandbox.exec(
     'test -f /root/.openclaw/openclaw.json && echo openclaw || ' +
       '(test -f /root/.clawdbot/clawdbot.json && echo clawdbot || echo none)',
@@ -31,13 +102,276 @@ async function detectConfigDir(sandbox: Sandbox): Promise<string | null> {
   return null;
 }
 
+async function runRclone(sandbox: Sandbox, command: string, failure: string): Promise<string> {
+  const result = await sandbox.exec(command, { timeout: SYNC_TIMEOUT_MS });
+  if (!result.success) {
+    throw new Error(
+      `${failure}: ${result.stderr?.trim().slice(-500) || `exit code ${result.exitCode}`}`,
+    );
+  }
+  return result.stdout || '';
+}
+
+/**
+ * Sync through the S3 API with rclone in the container
+ */
+function rcloneSyncTarget(sandbox: Sandbox, env: MoltbotEnv): SyncTarget {
+  return {
+    async readText(name) {
+      const result = await sandbox.exec(
+        `rclone cat ${rcloneRemote(env, name)} ${RCLONE_FLAGS} 2>/dev/null || true`,
+        { timeout: SYNC_TIMEOUT_MS },
+      );
+      return result.stdout || null;
+    },
+
+    async writeText(name, text) {
+      await sandbox.writeFile(TEXT_UPLOAD_PATH, text);
+      await runRclone(
+        sandbox,
+        `rclone copyto ${TEXT_UPLOAD_PATH} ${rcloneRemote(env, name)} ${RCLONE_FLAGS}`,
+        `Failed to write ${name}`,
+      );
+    },
+
+    async listFiles(dir) {
+      // A directory that was never synced doesn't exist in R2
+      const stdout = await runRclone(
+        sandbox,
+        `rclone lsjson -R --files-only --hash --hash-type md5 ${rcloneRemote(env, `${dir.name}/`)} ${RCLONE_FLAGS} 2>/dev/null || echo '[]'`,
+        `Failed to list ${dir.name}/ in R2`,
+      );
+      const files = JSON.parse(stdout || '[]') as {
+        Path: string;
+        Size: number;
+        Hashes?: { md5?: string };
+      }[];
+      return files.map(
+        (file): ManifestEntry => ({
+          path: `${dir.name}/${file.Path}`,
+          md5: file.Hashes?.md5 ?? '',
+          size: file.Size,
+        }),
+      );
+    },
+
+    async upload(dir, files) {
+      const paths = files.map((file) => file.path);
+      const encrypted = isEncryptionEnabled(env);
+      const source = encrypted ? await encryptForUpload(sandbox, dir.local, paths) : dir.local;
+      await sandbox.writeFile(UPLOAD_LIST_PATH, paths.join('\n'));
+      try {
+        await runRclone(
+          sandbox,
+          `rclone copy ${source}/ ${rcloneRemote(env, `${dir.name}/`)} --files-from ${UPLOAD_LIST_PATH} --no-traverse ${RCLONE_FLAGS}`,
+          `Upload to ${dir.name}/ failed`,
+        );
+      } finally {
+        if (encrypted) await clearStaging(sandbox);
+      }
+    },
+
+    async remove(dir, paths) {
+      await sandbox.writeFile(DELETE_LIST_PATH, paths.join('\n'));
+      await runRclone(
+        sandbox,
+        `rclone delete ${rcloneRemote(env, `${dir.name}/`)} --files-from ${DELETE_LIST_PATH} ${RCLONE_FLAGS}`,
+        `Delete from ${dir.name}/ failed`,
+      );
+    },
+  };
+}
+
+/**
+ * Where this deployment's syncs write
+ */
+function createSyncTarget(sandbox: Sandbox, env: MoltbotEnv): SyncTarget {
+  return getR2SyncMode(env) === 'binding'
+    ? bindingSyncTarget(sandbox, env)
+    : rcloneSyncTarget(sandbox, env);
+}
+
+/**
+ * Entries of a manifest that belong to one directory
+ */
+function entriesOf(manifest: SyncManifest, dir: SyncDir): SyncManifest {
+  const prefix = `${dir.name}/`;
+  return new Map([...manifest].filter(([path]) => path.startsWith(prefix)));
+}
+
+/**
+ * Entries of what R2 holds for a directory
+ */
+async function listRemoteEntries(
+  target: SyncTarget,
+  dir: SyncDir,
+  encrypted: boolean,
+): Promise<SyncManifest> {
+  const manifest: SyncManifest = new Map();
+  for (const entry of await target.listFiles(dir)) {
+    // An encrypted object's hash never matches its file's, and an object
+    // whose hash does match was uploaded before encryption was enabled
+    if (encrypted) entry.md5 = '';
+    manifest.set(entry.path, entry);
+  }
+  return manifest;
+}
+
+interface DirectorySync {
+  /** The directory's files as now persisted */
+  entries: SyncManifest;
+  uploaded: number;
+  deleted: number;
+  bytes: number;
+}
+
+/**
+ * Upload the changed files of one directory and delete the removed ones
+ *
+ * @param filter - The sync policy, for the whole sync
+ * @param previous - The directory's entries from the last sync, or null to
+ *   compare against what R2 holds
+ * @param encrypted - Whether files are encrypted before upload
+ */
+async function syncDirectory(
+  sandbox: Sandbox,
+  target: SyncTarget,
+  dir: SyncDir,
+  filter: SyncFilter,
+  previous: SyncManifest | null,
+  encrypted: boolean,
+): Promise<DirectorySync | null> {
+  const local = await listLocalEntries(sandbox, dir, filter);
+  if (!local) return null;
+
+  const current: SyncManifest = new Map(local.map((entry) => [entry.path, entry]));
+  const before = previous ?? (await listRemoteEntries(target, dir, encrypted));
+  const { changed, deleted } = diffManifests(before, current);
+
+  const relative = (path: string) => path.slice(dir.name.length + 1);
+  if (changed.length > 0) {
+    await target.upload(
+      dir,
+      changed.map((entry) => ({ path: relative(entry.path), size: entry.size })),
+    );
+  }
+  if (deleted.length > 0) {
+    await target.remove(dir, deleted.map(relative));
+  }
+
+  return {
+    entries: current,
+    uploaded: changed.length,
+    deleted: deleted.length,
+    bytes: changed.reduce((total, entry) => total + entry.size, 0),
+  };
+}
+
+/**
+ * Mark every file in the manifests as changed, so the next sync uploads
+ * everything again. Deleted files are still found, unlike without a manifest.
+ */
+async function invalidateManifest(sandbox: Sandbox, target: SyncTarget): Promise<void> {
+  const manifest = parseManifest((await target.readText(MANIFEST_NAME)) ?? '');
+  if (manifest) {
+    for (const entry of manifest.values()) entry.md5 = STALE_MD5;
+    await target.writeText(MANIFEST_NAME, serializeManifest(manifest));
+  }
+  await clearLocalManifest(sandbox);
+}
+
+/**
+ * Hand the data keys to the container. When the keyring is new, the data
+ * in R2 was uploaded in plaintext and is uploaded again encrypted.
+ */
+async function installKeys(sandbox: Sandbox, env: MoltbotEnv, target: SyncTarget) {
+  if (await installDataKeys(sandbox, target, env)) {
+    await invalidateManifest(sandbox, target);
+  }
+}
+
+/**
+ * Take the lock the background sync loop in start-openclaw.sh takes around
+ * each sync, so the two never write the manifest and generation marker at
+ * once. A process in the container holds it until it is released, or for at
+ * most SYNC_LOCK_HOLD_S if the Worker never gets to release it.
+ *
+ * @returns Function that releases the lock, or null if it wasn't free in time
+ */
+async function acquireSyncLock(sandbox: Sandbox): Promise<(() => Promise<void>) | null> {
+  const held = `${SYNC_LOCK_PATH}.${crypto.randomUUID()}`;
+  await sandbox.startProcess(
+    `flock -w ${SYNC_LOCK_WAIT_S} ${SYNC_LOCK_PATH} timeout ${SYNC_LOCK_HOLD_S} sh -c ` +
+      `'touch ${held}; while [ -e ${held} ]; do sleep 1; done' || touch ${held}.failed`,
+  );
+  const acquired = await sandbox.exec(
+    `timeout ${SYNC_LOCK_WAIT_S + 5} sh -c 'until [ -e ${held} ] || [ -e ${held}.failed ]; do sleep 0.2; done; test -e ${held}'`,
+    { timeout: (SYNC_LOCK_WAIT_S + 10) * 1000 },
+  );
+  if (!acquired.success) {
+    await sandbox.exec(`rm -f ${held} ${held}.failed`);
+    return null;
+  }
+  return async () => {
+    await sandbox.exec(`rm -f ${held}`);
+  };
+}
+
+/**
+ * Advance R2's generation marker and remember it as this container's, the
+ * way a sync that wrote to R2 does. Does nothing when R2 is not configured.
+ */
+async function claimGeneration(sandbox: Sandbox, env: MoltbotEnv): Promise<void> {
+  const mode = getR2SyncMode(env);
+  if (!mode || (mode === 'rclone' && !(await ensureRcloneConfig(sandbox, env)))) return;
+
+  const target = createSyncTarget(sandbox, env);
+  const remote = parseGenerationMarker(await target.readText(GENERATION_NAME));
+  const generation = await nextGeneration(sandbox, remote);
+  await target.writeText(GENERATION_NAME, JSON.stringify(generation));
+  await writeLocalGeneration(sandbox, generation);
+}
+
+/**
+ * Rewrite the persisted data outside of a sync (a snapshot restore, a bundle
+ * import or a legacy migration) while holding the sync lock, so neither the
+ * background sync loop nor another sync runs halfway through. R2's generation
+ * is advanced afterwards, so other containers see the change as a conflict
+ * instead of overwriting it.
+ *
+ * @throws Error if a sync held the lock for longer than SYNC_LOCK_WAIT_S
+ */
+export async function withSyncLock<T>(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  work: () => Promise<T>,
+): Promise<T> {
+  const release = await acquireSyncLock(sandbox);
+  if (!release) {
+    throw new Error(`A sync held the sync lock for over ${SYNC_LOCK_WAIT_S}s, try again later`);
+  }
+  try {
+    const result = await work();
+    await claimGeneration(sandbox, env);
+    return result;
+  } finally {
+    await release();
+  }
+}
+
 /**
  * Sync OpenClaw config and workspace from container to R2 for persistence.
- * Uses rclone for direct S3 API access (no FUSE mount overhead).
+ *
+ * Incremental: the files are compared with the manifest of the last sync
+ * (see manifest.ts), and only new or changed files are uploaded. Uses rclone
+ * for direct S3 API access, or the MOLTBOT_BUCKET binding from the Worker
+ * when R2_SYNC_MODE is "binding".
  */
 export async function syncToR2(sandbox: Sandbox, env: MoltbotEnv): Promise<SyncResult> {
-  if (!(await ensureRcloneConfig(sandbox, env))) {
-    return { success: false, error: 'R2 storage is not configured' };
+  const startedAt = Date.now();
+  const mode = getR2SyncMode(env);
+  if (mode !== 'binding' && !(await ensureRcloneConfig(sandbox, env))) {
+    return { success: false, notConfigured: true, error: 'R2 storage is not configured' };
   }
 
   const configDir = await detectConfigDir(sandbox);
@@ -49,37 +383,245 @@ export async function syncToR2(sandbox: Sandbox, env: MoltbotEnv): Promise<SyncR
     };
   }
 
-  const remote = (prefix: string) => rcloneRemote(env, prefix);
+  let policy: SyncPolicy;
+  try {
+    policy = getSyncPolicy(env);
+    // Keep the background sync loop on the same policy
+    await installSyncPolicy(sandbox, policy);
+  } catch (err) {
+    return {
+      success: false,
+      error: 'Invalid sync policy',
+      details: err instanceof Error ? err.message : String(err),
+    };
+  }
 
-  // Sync config (rclone sync propagates deletions)
-  const configResult = await sandbox.exec(
-    `rclone sync ${configDir}/ ${remote('openclaw/')} ${RCLONE_FLAGS} --exclude='*.lock' --exclude='*.log' --exclude='*.tmp' --exclude='.git/**'`,
-    { timeout: 120000 },
-  );
-  if (!configResult.success) {
+  const release = await acquireSyncLock(sandbox);
+  if (!release) {
     return {
       success: false,
-      error: 'Config sync failed',
-      details: configResult.stderr?.slice(-500),
+      error: 'Sync already running',
+      details: `The background sync loop held the sync lock for over ${SYNC_LOCK_WAIT_S}s`,
     };
   }
+  try {
+    return await syncFiles(sandbox, env, configDir, policy, startedAt);
+  } finally {
+    await release();
+  }
+}
 
-  // Sync workspace (non-fatal, rclone sync propagates deletions)
-  await sandbox.exec(
-    `test -d /root/clawd && rclone sync /root/clawd/ ${remote('workspace/')} ${RCLONE_FLAGS} --exclude='skills/**' --exclude='.git/**' || true`,
-    { timeout: 120000 },
-  );
+/**
+ * Sync the files, the manifest and the generation marker; the caller holds
+ * the sync lock
+ */
+async function syncFiles(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+  configDir: string,
+  policy: SyncPolicy,
+  startedAt: number,
+): Promise<SyncResult> {
+  const target = createSyncTarget(sandbox, env);
+  const remoteGeneration = parseGenerationMarker(await target.readText(GENERATION_NAME));
+  const conflict = isConflict(await readLocalGeneration(sandbox), remoteGeneration);
+  if (conflict && remoteGeneration) {
+    try {
+      const refusal = await resolveConflict(sandbox, env, remoteGeneration);
+      if (refusal) return { success: false, error: 'Sync conflict', details: refusal };
+    } catch (err) {
+      return {
+        success: false,
+        error: 'Sync conflict',
+        details: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
 
-  // Sync skills (non-fatal)
-  await sandbox.exec(
-    `test -d /root/clawd/skills && rclone sync /root/clawd/skills/ ${remote('skills/')} ${RCLONE_FLAGS} || true`,
-    { timeout: 120000 },
-  );
+  const encrypted = isEncryptionEnabled(env);
+  if (encrypted) {
+    try {
+      await installKeys(sandbox, env, target);
+    } catch (err) {
+      return {
+        success: false,
+        error: 'Encryption setup failed',
+        details: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
+
+  // The container's cache is what it last synced; R2's copy covers a fresh
+  // container, and a conflict, where another container synced since
+  const localText = conflict ? null : await readLocalManifest(sandbox);
+  let remoteText: string | null = null;
+  let previous = parseManifest(localText ?? '');
+  if (!previous) {
+    remoteText = await target.readText(MANIFEST_NAME);
+    previous = parseManifest(remoteText ?? '');
+  }
+
+  const filter = createSyncFilter(policy);
+  const manifest: SyncManifest = new Map();
+  let uploaded = 0;
+  let deleted = 0;
+  let bytes = 0;
+  let incomplete = false;
+
+  for (const dir of SYNC_DIRS) {
+    const local = dir.name === 'openclaw' ? { ...dir, local: configDir } : dir;
+    const before = previous && entriesOf(previous, dir);
+    let result: DirectorySync | null;
+    try {
+      // eslint-disable-next-line no-await-in-loop -- one directory at a time to bound container load
+      result = await syncDirectory(sandbox, target, local, filter, before, encrypted);
+    } catch (err) {
+      const details = err instanceof Error ? err.message : String(err);
+      if (dir.name === 'openclaw') {
+        return { success: false, error: 'Config sync failed', details };
+      }
+      // The workspace and skills are non-fatal
+      console.error(`[Gateway] ${dir.name} sync failed:`, details);
+      result = null;
+      incomplete = true;
+    }
+
+    // A directory that is missing or failed keeps its last synced state
+    for (const [path, entry] of result?.entries ?? before ?? []) manifest.set(path, entry);
+    uploaded += result?.uploaded ?? 0;
+    deleted += result?.deleted ?? 0;
+    bytes += result?.bytes ?? 0;
+  }
+
+  // Without a previous manifest, a failed directory's state in R2 is unknown;
+  // leave the manifest out so the next sync compares against R2 again
+  let wroteManifest = false;
+  try {
+    if (previous || !incomplete) {
+      const text = serializeManifest(manifest);
+      // The cached manifest matches R2's unless this container never synced
+      wroteManifest = text !== (remoteText ?? localText);
+      if (wroteManifest) await target.writeText(MANIFEST_NAME, text);
+      if (text !== localText) await writeLocalManifest(sandbox, text);
+    }
+
+    // Claim R2's data for this container
+    let generation: GenerationMarker | null = null;
+    if (wroteManifest || uploaded + deleted > 0) {
+      generation = await nextGeneration(sandbox, remoteGeneration);
+      await target.writeText(GENERATION_NAME, JSON.stringify(generation));
+    } else if (conflict) {
+      // Nothing differed, so the container already matches R2
+      generation = remoteGeneration;
+    }
+    if (generation) await writeLocalGeneration(sandbox, generation);
+  } catch (err) {
+    return {
+      success: false,
+      error: 'Manifest upload failed',
+      details: err instanceof Error ? err.message : String(err),
+    };
+  }
 
   // Write timestamp
   await sandbox.exec(`date -Iseconds > ${LAST_SYNC_FILE}`);
   const tsResult = await sandbox.exec(`cat ${LAST_SYNC_FILE}`);
   const lastSync = tsResult.stdout?.trim();
 
-  return { success: true, lastSync };
+  const { skipped } = filter;
+  await sandbox.writeFile(SKIPPED_FILES_PATH, serializeSkippedFiles(skipped));
+  if (skipped.length > 0) {
+    console.warn(
+      `[Gateway] Sync skipped ${skipped.length} files over the size limits:`,
+      skipped.map((file) => `${file.path} (${file.reason})`).join(', '),
+    );
+  }
+
+  console.log(
+    `[Gateway] Synced to R2: ${uploaded} uploaded, ${deleted} deleted, ${bytes} bytes in ${Date.now() - startedAt}ms`,
+  );
+  return {
+    success: true,
+    lastSync,
+    uploaded,
+    deleted,
+    bytes,
+    skipped,
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+/**
+ * Whether another container has written to R2 since this one last synced
+ *
+ * @returns The status, or null if R2 storage is not configured
+ */
+export async function getSyncConflictStatus(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+): Promise<SyncConflictStatus | null> {
+  const mode = getR2SyncMode(env);
+  if (!mode || (mode === 'rclone' && !(await ensureRcloneConfig(sandbox, env)))) return null;
+
+  const remote = parseGenerationMarker(
+    await createSyncTarget(sandbox, env).readText(GENERATION_NAME),
+  );
+  const local = await readLocalGeneration(sandbox);
+  return {
+    policy: getConflictPolicy(env),
+    detected: isConflict(local, remote),
+    local,
+    remote,
+    lastConflict: await readLastConflict(sandbox),
+  };
+}
+
+/**
+ * Hand the data keys to the container before the startup script restores
+ * and syncs with them. Does nothing when encryption is off.
+ */
+export async function prepareEncryption(sandbox: Sandbox, env: MoltbotEnv): Promise<void> {
+  const mode = getR2SyncMode(env);
+  if (!isEncryptionEnabled(env) || !mode) return;
+  if (mode === 'rclone' && !(await ensureRcloneConfig(sandbox, env))) return;
+  await installKeys(sandbox, env, createSyncTarget(sandbox, env));
+}
+
+/**
+ * Encrypt new uploads with a new data key, and upload everything again so
+ * R2 holds no file under the old key outside of snapshots
+ *
+ * @returns ID of the new key, and the sync that re-encrypted the data
+ */
+export async function rotateEncryptionKey(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+): Promise<{ keyId: string; sync: SyncResult }> {
+  const mode = getR2SyncMode(env);
+  if (!mode || (mode === 'rclone' && !(await ensureRcloneConfig(sandbox, env)))) {
+    throw new Error('R2 storage is not configured');
+  }
+  if (!isEncryptionEnabled(env)) throw new Error('R2 encryption is not configured');
+
+  const target = createSyncTarget(sandbox, env);
+  // A sync between the two would compare against the old manifest and leave
+  // unchanged files under the old key
+  const keyId = await withSyncLock(sandbox, env, async () => {
+    const id = await rotateDataKey(sandbox, target, env);
+    await invalidateManifest(sandbox, target);
+    return id;
+  });
+  return { keyId, sync: await syncToR2(sandbox, env) };
+}
+
+/**
+ * @returns The encryption status, or null if R2 storage is not configured
+ */
+export async function getStorageEncryption(
+  sandbox: Sandbox,
+  env: MoltbotEnv,
+): Promise<EncryptionStatus | null> {
+  const mode = getR2SyncMode(env);
+  if (!mode || (mode === 'rclone' && !(await ensureRcloneConfig(sandbox, env)))) return null;
+  return getEncryptionStatus(createSyncTarget(sandbox, env), env);
 }
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { SizeLimitError, createTar, gunzip, gzip, parseTar, readStream } from './tar';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function file(path: string, content: string) {
+  return { path, data: encoder.encode(content) };
+}
+
+describe('createTar and parseTar', () => {
+  it('round-trip regular files', () => {
+    const archive = createTar([file('openclaw.json', '{"a":1}'), file('agents/main.md', '')]);
+
+    const entries = parseTar(archive);
+
+    expect(entries.map((entry) => entry.path)).toEqual(['openclaw.json', 'agents/main.md']);
+    expect(decoder.decode(entries[0].data)).toBe('{"a":1}');
+    expect(entries[1].data).toHaveLength(0);
+  });
+
+  it('keep paths longer than the ustar name field', () => {
+    const path = `${'deeply/nested/'.repeat(10)}notes.md`;
+
+    const [entry] = parseTar(createTar([file(path, 'hello')]));
+
+    expect(entry.path).toBe(path);
+    expect(decoder.decode(entry.data)).toBe('hello');
+  });
+
+  it('strip the leading ./ that tar -C dir -T list writes', () => {
+    const [entry] = parseTar(createTar([file('./memory/today.md', 'x')]));
+    expect(entry.path).toBe('memory/today.md');
+  });
+});
+
+describe('gzip', () => {
+  it('round-trips', async () => {
+    const data = encoder.encode('compress me '.repeat(100));
+
+    const compressed = await gzip(data);
+
+    expect(compressed.length).toBeLessThan(data.length);
+    expect(decoder.decode(await gunzip(compressed))).toBe('compress me '.repeat(100));
+  });
+});
+
+describe('readStream', () => {
+  it('reads every chunk', async () => {
+    const stream = new Blob(['one ', 'two']).stream();
+    expect(decoder.decode(await readStream(stream))).toBe('one two');
+  });
+
+  it('throws once the stream passes the limit', async () => {
+    const stream = new Blob([new Uint8Array(1024)]).stream();
+    await expect(readStream(stream, 512)).rejects.toThrow(SizeLimitError);
+  });
+
+  it('limits what gunzip inflates', async () => {
+    const compressed = await gzip(new Uint8Array(64 * 1024));
+    await expect(gunzip(compressed, 1024)).rejects.toThrow(SizeLimitError);
+  });
+});
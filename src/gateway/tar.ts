@@ -0,0 +1,209 @@
+/**
+ * Minimal tar reader and writer for moving files in and out of the container
+ * in one exec, for sync through the R2 binding
+ *
+ * Only regular files are kept. Long paths use GNU long-name entries when
+ * writing; GNU long names, pax paths and the ustar prefix are read.
+ */
+
+const BLOCK_SIZE = 512;
+
+/**
+ * A stream produced more bytes than the caller allowed
+ */
+export class SizeLimitError extends Error {
+  constructor(readonly limit: number) {
+    super(`More than ${limit} bytes`);
+    this.name = 'SizeLimitError';
+  }
+}
+
+export interface TarEntry {
+  /** Path relative to the archive root, without a leading "./" */
+  path: string;
+  data: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function readString(block: Uint8Array, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readOctal(block: Uint8Array, offset: number, length: number): number {
+  const value = readString(block, offset, length).trim();
+  return value ? Number.parseInt(value, 8) : 0;
+}
+
+function padded(size: number): number {
+  return Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/^(\.\/)+/, '');
+}
+
+/**
+ * Read the path from pax extended header records ("<length> path=<value>\n")
+ */
+function paxPath(data: Uint8Array): string | undefined {
+  for (const record of decoder.decode(data).split('\n')) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * List the regular files in a tar archive
+ *
+ * Entry data are views into the archive rather than copies.
+ */
+export function parseTar(archive: Uint8Array): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let longPath: string | undefined;
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    // The archive ends with zero blocks
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const data = archive.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    offset += BLOCK_SIZE + padded(size);
+
+    if (type === 'L') {
+      longPath = readString(data, 0, data.length);
+      continue;
+    }
+    if (type === 'x') {
+      longPath = paxPath(data) ?? longPath;
+      continue;
+    }
+
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    const path = longPath ?? (prefix ? `${prefix}/${name}` : name);
+    longPath = undefined;
+
+    if (type === '0' || type === '\0') {
+      entries.push({ path: normalizePath(path), data });
+    }
+  }
+  return entries;
+}
+
+function writeString(block: Uint8Array, offset: number, length: number, value: string): void {
+  block.set(encoder.encode(value).subarray(0, length), offset);
+}
+
+function writeOctal(block: Uint8Array, offset: number, length: number, value: number): void {
+  writeString(block, offset, length, `${value.toString(8).padStart(length - 1, '0')}\0`);
+}
+
+function header(name: string, size: number, type: string): Uint8Array {
+  const block = new Uint8Array(BLOCK_SIZE);
+  writeString(block, 0, 100, name);
+  writeOctal(block, 100, 8, 0o644);
+  writeOctal(block, 108, 8, 0);
+  writeOctal(block, 116, 8, 0);
+  writeOctal(block, 124, 12, size);
+  writeOctal(block, 136, 12, Math.floor(Date.now() / 1000));
+  block[156] = type.charCodeAt(0);
+  writeString(block, 257, 8, 'ustar  ');
+
+  // The checksum is computed with its own field set to spaces
+  block.fill(0x20, 148, 156);
+  const checksum = block.reduce((sum, byte) => sum + byte, 0);
+  writeString(block, 148, 8, `${checksum.toString(8).padStart(6, '0')}\0 `);
+  return block;
+}
+
+/**
+ * Build a tar archive of regular files
+ */
+export function createTar(entries: TarEntry[]): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const add = (name: string, data: Uint8Array, type: string) => {
+    chunks.push(header(name, data.length, type), data);
+    const padding = padded(data.length) - data.length;
+    if (padding > 0) chunks.push(new Uint8Array(padding));
+  };
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    if (name.length > 99) {
+      add('././@LongLink', encoder.encode(`${entry.path}\0`), 'L');
+    }
+    add(entry.path.slice(0, 99), entry.data, '0');
+  }
+  chunks.push(new Uint8Array(BLOCK_SIZE * 2));
+
+  const archive = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    archive.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return archive;
+}
+
+/**
+ * Read a stream to the end
+ *
+ * @param maxBytes - Cancel the stream and throw a SizeLimitError once it
+ *   produces more than this
+ */
+export async function readStream(
+  stream: ReadableStream<Uint8Array>,
+  maxBytes: number = Infinity,
+): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    // eslint-disable-next-line no-await-in-loop -- chunks arrive in order
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel(); // eslint-disable-line no-await-in-loop -- stops the producer once
+      throw new SizeLimitError(maxBytes);
+    }
+    chunks.push(value);
+  }
+
+  const data = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
+
+function transform(
+  data: Uint8Array,
+  stream: GenericTransformStream,
+  maxBytes?: number,
+): Promise<Uint8Array> {
+  const output = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(stream);
+  return readStream(output as ReadableStream<Uint8Array>, maxBytes);
+}
+
+export function gzip(data: Uint8Array): Promise<Uint8Array> {
+  return transform(data, new CompressionStream('gzip'));
+}
+
+/**
+ * @param maxBytes - Stop decompressing and throw a SizeLimitError once the
+ *   output passes this, so a small archive can't inflate past the Worker's memory
+ */
+export function gunzip(data: Uint8Array, maxBytes?: number): Promise<Uint8Array> {
+  return transform(data, new DecompressionStream('gzip'), maxBytes);
+}
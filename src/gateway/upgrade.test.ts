@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  isUpgradeInProgress,
+  isValidOpenClawVersion,
+  openClawBin,
+  upgradeOpenClaw,
+} from './upgrade';
+import type { GatewayState } from './lifecycle';
+import { createMockExecResult, createMockSandbox, suppressConsole } from '../test-utils';
+
+function gateway(phase: GatewayState['phase'], error?: string): GatewayState {
+  return { phase, updatedAt: new Date().toISOString(), error };
+}
+
+/**
+ * Sandbox whose npm resolves dist-tags from `tags` and any other version to itself
+ */
+function sandboxWithNpm(
+  options: Parameters<typeof createMockSandbox>[0] = {},
+  tags: Record<string, string> = {},
+) {
+  const mock = createMockSandbox(options);
+  mock.execMock.mockImplementation(async (command: string) => {
+    const viewed = /^npm view openclaw@(\S+) version/.exec(command)?.[1];
+    return createMockExecResult(viewed ? (tags[viewed] ?? viewed) : '');
+  });
+  return mock;
+}
+
+describe('isValidOpenClawVersion', () => {
+  it('accepts versions and dist-tags', () => {
+    expect(isValidOpenClawVersion('2026.2.3')).toBe(true);
+    expect(isValidOpenClawVersion('2026.2.3-beta.1')).toBe(true);
+    expect(isValidOpenClawVersion('latest')).toBe(true);
+  });
+
+  it('rejects anything that could escape the shell command', () => {
+    expect(isValidOpenClawVersion('')).toBe(false);
+    expect(isValidOpenClawVersion('1.0; rm -rf /')).toBe(false);
+    expect(isValidOpenClawVersion('$(whoami)')).toBe(false);
+    expect(isValidOpenClawVersion('../../etc')).toBe(false);
+  });
+});
+
+describe('openClawBin', () => {
+  it('points at the pinned install, or the bundled binary', () => {
+    expect(openClawBin('2026.2.9')).toBe(
+      '/opt/openclaw-versions/2026.2.9/node_modules/.bin/openclaw',
+    );
+    expect(openClawBin()).toBe('openclaw');
+  });
+});
+
+describe('isUpgradeInProgress', () => {
+  const now = Date.parse('2026-01-27T12:00:00.000Z');
+
+  it('is true while an upgrade is running', () => {
+    expect(
+      isUpgradeInProgress(
+        { upgrade: { version: '1', phase: 'restarting', startedAt: '2026-01-27T11:59:00.000Z' } },
+        now,
+      ),
+    ).toBe(true);
+  });
+
+  it('is false once the upgrade finished', () => {
+    expect(
+      isUpgradeInProgress(
+        { upgrade: { version: '1', phase: 'succeeded', startedAt: '2026-01-27T11:59:00.000Z' } },
+        now,
+      ),
+    ).toBe(false);
+  });
+
+  it('ignores an upgrade that was interrupted long ago', () => {
+    expect(
+      isUpgradeInProgress(
+        { upgrade: { version: '1', phase: 'installing', startedAt: '2026-01-27T10:00:00.000Z' } },
+        now,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('upgradeOpenClaw', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('installs, validates, pins and restarts on the new version', async () => {
+    const { sandbox, execMock, restartGatewayMock, openClawVersionState } = sandboxWithNpm({
+      gatewayState: gateway('ready'),
+      openClawVersionState: { pinned: '2026.2.3' },
+    });
+
+    const state = await upgradeOpenClaw(sandbox, '2026.2.9');
+
+    expect(execMock.mock.calls[1][0]).toContain(
+      'npm install --prefix /opt/openclaw-versions/2026.2.9',
+    );
+    expect(execMock.mock.calls[1][0]).toContain('openclaw@2026.2.9');
+    expect(execMock.mock.calls[3][0]).toContain(`${openClawBin('2026.2.9')} config validate`);
+    expect(restartGatewayMock).toHaveBeenCalledWith({ force: false });
+    expect(state.pinned).toBe('2026.2.9');
+    expect(state.previous).toBe('2026.2.3');
+    expect(state.upgrade?.phase).toBe('succeeded');
+    expect(openClawVersionState()).toEqual(state);
+  });
+
+  it('resolves a dist-tag and pins the version it points to', async () => {
+    const { sandbox, execMock } = sandboxWithNpm(
+      { gatewayState: gateway('ready') },
+      { latest: '2026.3.1' },
+    );
+
+    const state = await upgradeOpenClaw(sandbox, 'latest');
+
+    expect(execMock.mock.calls[0][0]).toBe('npm view openclaw@latest version');
+    expect(execMock.mock.calls[1][0]).toContain(
+      'npm install --prefix /opt/openclaw-versions/2026.3.1',
+    );
+    expect(state.pinned).toBe('2026.3.1');
+    expect(state.upgrade).toMatchObject({ version: '2026.3.1', tag: 'latest' });
+  });
+
+  it('does not install a version npm does not know', async () => {
+    const { sandbox, execMock, restartGatewayMock } = createMockSandbox();
+    execMock.mockResolvedValueOnce(
+      createMockExecResult('', { exitCode: 1, stderr: 'npm ERR! 404 No match found' }),
+    );
+
+    const state = await upgradeOpenClaw(sandbox, 'nightly');
+
+    expect(execMock).toHaveBeenCalledTimes(1);
+    expect(restartGatewayMock).not.toHaveBeenCalled();
+    expect(state.upgrade?.phase).toBe('failed');
+    expect(state.upgrade?.error).toBe('OpenClaw nightly was not found on npm');
+  });
+
+  it('refuses a range that matches several versions', async () => {
+    const { sandbox, execMock } = createMockSandbox();
+    execMock.mockResolvedValueOnce(
+      createMockExecResult("openclaw@2026.2.3 '2026.2.3'\nopenclaw@2026.2.9 '2026.2.9'"),
+    );
+
+    const state = await upgradeOpenClaw(sandbox, '2026.2.x');
+
+    expect(execMock).toHaveBeenCalledTimes(1);
+    expect(state.upgrade?.error).toBe('OpenClaw 2026.2.x does not name a single version');
+  });
+
+  it('does not touch the gateway when the install fails', async () => {
+    const { sandbox, execMock, restartGatewayMock } = sandboxWithNpm();
+    execMock
+      .mockResolvedValueOnce(createMockExecResult('9999.0.0'))
+      .mockResolvedValueOnce(
+        createMockExecResult('', { exitCode: 1, stderr: 'npm ERR! ETARGET No matching version' }),
+      );
+
+    const state = await upgradeOpenClaw(sandbox, '9999.0.0');
+
+    expect(restartGatewayMock).not.toHaveBeenCalled();
+    expect(state.pinned).toBeUndefined();
+    expect(state.upgrade?.phase).toBe('failed');
+    expect(state.upgrade?.error).toBe('Failed to install OpenClaw 9999.0.0');
+    expect(state.upgrade?.output).toContain('No matching version');
+  });
+
+  it('does not switch when the config fails validation', async () => {
+    const { sandbox, execMock, restartGatewayMock } = sandboxWithNpm();
+    execMock
+      .mockResolvedValueOnce(createMockExecResult('2026.2.9'))
+      .mockResolvedValueOnce(createMockExecResult())
+      .mockResolvedValueOnce(createMockExecResult('2026.2.9'))
+      .mockResolvedValueOnce(
+        createMockExecResult('', { exitCode: 1, stderr: 'Unknown key: agents.legacy' }),
+      );
+
+    const state = await upgradeOpenClaw(sandbox, '2026.2.9');
+
+    expect(restartGatewayMock).not.toHaveBeenCalled();
+    expect(state.upgrade?.phase).toBe('failed');
+    expect(state.upgrade?.error).toContain('not compatible');
+    expect(state.upgrade?.output).toBe('Unknown key: agents.legacy');
+  });
+
+  it('rolls back when the gateway is unhealthy on the new version', async () => {
+    const { sandbox, restartGatewayMock } = sandboxWithNpm({
+      openClawVersionState: { pinned: '2026.2.3' },
+    });
+    restartGatewayMock
+      .mockRejectedValueOnce(new Error('Gateway health check failed: unauthorized'))
+      .mockResolvedValueOnce(gateway('ready'));
+
+    const state = await upgradeOpenClaw(sandbox, '2026.2.9');
+
+    expect(restartGatewayMock).toHaveBeenCalledTimes(2);
+    expect(restartGatewayMock).toHaveBeenLastCalledWith({ force: true });
+    expect(state.pinned).toBe('2026.2.3');
+    expect(state.previous).toBe('2026.2.9');
+    expect(state.upgrade?.phase).toBe('rolled_back');
+    expect(state.upgrade?.error).toBe('Gateway health check failed: unauthorized');
+  });
+
+  it('rolls back when the gateway comes up degraded', async () => {
+    const { sandbox, restartGatewayMock } = sandboxWithNpm();
+    restartGatewayMock
+      .mockResolvedValueOnce(gateway('degraded', 'no_handshake'))
+      .mockResolvedValueOnce(gateway('ready'));
+
+    const state = await upgradeOpenClaw(sandbox, '2026.2.9');
+
+    expect(state.pinned).toBeUndefined();
+    expect(state.upgrade?.phase).toBe('rolled_back');
+    expect(state.upgrade?.output).toBe('no_handshake');
+  });
+
+  it('reports a failed rollback', async () => {
+    const { sandbox, restartGatewayMock } = sandboxWithNpm();
+    restartGatewayMock.mockRejectedValue(new Error('Container is not running'));
+
+    const state = await upgradeOpenClaw(sandbox, '2026.2.9');
+
+    expect(state.upgrade?.phase).toBe('failed');
+    expect(state.upgrade?.error).toContain('rollback also failed');
+  });
+
+  it('switches back to the bundled version without installing', async () => {
+    const { sandbox, execMock, restartGatewayMock } = createMockSandbox({
+      gatewayState: gateway('ready'),
+      openClawVersionState: { pinned: '2026.2.9' },
+    });
+
+    const state = await upgradeOpenClaw(sandbox, undefined);
+
+    expect(execMock).toHaveBeenCalledTimes(1);
+    expect(execMock.mock.calls[0][0]).toContain('openclaw config validate');
+    expect(restartGatewayMock).toHaveBeenCalledTimes(1);
+    expect(state.pinned).toBeUndefined();
+    expect(state.previous).toBe('2026.2.9');
+    expect(state.upgrade?.phase).toBe('succeeded');
+  });
+});
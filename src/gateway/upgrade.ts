@@ -0,0 +1,283 @@
+import type { MoltbotSandbox } from '../sandbox';
+
+/** Where pinned OpenClaw versions are installed, next to the one bundled in the image */
+export const OPENCLAW_VERSIONS_DIR = '/opt/openclaw-versions';
+
+/** npm installs can be slow on a cold container */
+const INSTALL_TIMEOUT_MS = 5 * 60_000;
+const CONFIG_CHECK_TIMEOUT_MS = 60_000;
+const RESOLVE_TIMEOUT_MS = 60_000;
+
+/** An upgrade still "in progress" after this long was interrupted */
+const UPGRADE_STALE_MS = 15 * 60_000;
+
+/** Maximum length of command output kept in the upgrade status */
+const OUTPUT_MAX_LENGTH = 2000;
+
+export type UpgradePhase =
+  | 'installing'
+  | 'checking'
+  | 'restarting'
+  | 'rolling_back'
+  | 'succeeded'
+  | 'rolled_back'
+  | 'failed';
+
+const ACTIVE_UPGRADE_PHASES: ReadonlySet<UpgradePhase> = new Set([
+  'installing',
+  'checking',
+  'restarting',
+  'rolling_back',
+]);
+
+export interface UpgradeStatus {
+  /** Version being switched to; undefined means the bundled version */
+  version?: string;
+  /** Dist-tag the version was resolved from, such as "latest" */
+  tag?: string;
+  /** Version that was running before; undefined means the bundled version */
+  from?: string;
+  phase: UpgradePhase;
+  /** ISO timestamp of when the upgrade started */
+  startedAt: string;
+  /** ISO timestamp of when the upgrade succeeded, failed or was rolled back */
+  finishedAt?: string;
+  error?: string;
+  /** Output of the install or config check that failed */
+  output?: string;
+}
+
+export interface OpenClawVersionState {
+  /** Pinned OpenClaw version; undefined runs the version bundled in the image */
+  pinned?: string;
+  /** Version that ran before the last switch, used for rollback */
+  previous?: string;
+  /** Last upgrade or rollback */
+  upgrade?: UpgradeStatus;
+}
+
+export function initialOpenClawVersionState(): OpenClawVersionState {
+  return {};
+}
+
+/**
+ * Accept npm version numbers and dist-tags only; the version ends up in shell commands
+ */
+export function isValidOpenClawVersion(version: string): boolean {
+  return /^[0-9A-Za-z][0-9A-Za-z.+-]{0,63}$/.test(version);
+}
+
+/**
+ * Path of the `openclaw` binary for a pinned version, or the bundled one
+ */
+export function openClawBin(version?: string): string {
+  return version ? `${OPENCLAW_VERSIONS_DIR}/${version}/node_modules/.bin/openclaw` : 'openclaw';
+}
+
+function describeVersion(version?: string): string {
+  return version || 'bundled';
+}
+
+/**
+ * Whether an upgrade or rollback is still running
+ */
+export function isUpgradeInProgress(
+  state: OpenClawVersionState,
+  now: number = Date.now(),
+): boolean {
+  const upgrade = state.upgrade;
+  if (!upgrade || !ACTIVE_UPGRADE_PHASES.has(upgrade.phase)) return false;
+  return now - Date.parse(upgrade.startedAt) < UPGRADE_STALE_MS;
+}
+
+function tail(output: string | undefined): string | undefined {
+  const trimmed = output?.trim();
+  return trimmed ? trimmed.slice(-OUTPUT_MAX_LENGTH) : undefined;
+}
+
+class UpgradeStepError extends Error {
+  constructor(
+    message: string,
+    readonly output?: string,
+  ) {
+    super(message);
+    this.name = 'UpgradeStepError';
+  }
+}
+
+/**
+ * Resolve a version or dist-tag to the version npm would install
+ *
+ * Installs are kept by version, so a dist-tag such as "latest" has to be
+ * resolved before the install and the pin; otherwise the first version it
+ * pointed to would be reused forever.
+ */
+async function resolveOpenClawVersion(sandbox: MoltbotSandbox, version: string): Promise<string> {
+  const result = await sandbox.exec(`npm view openclaw@${version} version`, {
+    timeout: RESOLVE_TIMEOUT_MS,
+  });
+  const resolved = result.stdout.trim();
+  if (!result.success || !resolved) {
+    throw new UpgradeStepError(
+      `OpenClaw ${version} was not found on npm`,
+      tail(result.stderr || result.stdout),
+    );
+  }
+  // A range lists each matching version, as "openclaw@<version> '<version>'"
+  if (!/^\d+\.\d+\.\d+\S*$/.test(resolved) || !isValidOpenClawVersion(resolved)) {
+    throw new UpgradeStepError(
+      `OpenClaw ${version} does not name a single version`,
+      tail(result.stdout),
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Install a version into the running container, unless it is already there
+ */
+async function installOpenClaw(sandbox: MoltbotSandbox, version: string): Promise<void> {
+  const bin = openClawBin(version);
+  const prefix = `${OPENCLAW_VERSIONS_DIR}/${version}`;
+  const result = await sandbox.exec(
+    `test -x ${bin} || (mkdir -p ${prefix} && npm install --prefix ${prefix} --no-fund --no-audit openclaw@${version})`,
+    { timeout: INSTALL_TIMEOUT_MS },
+  );
+  if (!result.success) {
+    throw new UpgradeStepError(
+      `Failed to install OpenClaw ${version}`,
+      tail(result.stderr || result.stdout),
+    );
+  }
+
+  const check = await sandbox.exec(`${bin} --version`);
+  if (!check.success) {
+    throw new UpgradeStepError(
+      `OpenClaw ${version} was installed but does not run`,
+      tail(check.stderr || check.stdout),
+    );
+  }
+}
+
+/**
+ * Validate the current config with the new version before switching to it
+ */
+async function checkOpenClawConfig(sandbox: MoltbotSandbox, version?: string): Promise<void> {
+  const result = await sandbox.exec(
+    `test ! -f /root/.openclaw/openclaw.json || ${openClawBin(version)} config validate`,
+    { timeout: CONFIG_CHECK_TIMEOUT_MS },
+  );
+  if (!result.success) {
+    throw new UpgradeStepError(
+      `The current config is not compatible with OpenClaw ${describeVersion(version)}`,
+      tail(result.stderr || result.stdout),
+    );
+  }
+}
+
+/**
+ * Restart the gateway and require it to come back healthy
+ */
+async function restartOnVersion(sandbox: MoltbotSandbox, force: boolean): Promise<void> {
+  // A crash loop on the old version must not block the switch
+  await sandbox.resetGatewaySupervisor();
+  const state = await sandbox.restartGateway({ force });
+  if (state.phase !== 'ready') {
+    throw new UpgradeStepError(
+      `Gateway is ${state.phase} after restarting`,
+      state.error || state.probe?.error,
+    );
+  }
+}
+
+/**
+ * Switch the gateway to another OpenClaw version
+ *
+ * 1. Resolve a dist-tag to its current version, and install that version
+ *    into the running container (unless switching back to the bundled version).
+ * 2. Validate the current config with it; stop here if that fails.
+ * 3. Pin the version and restart the gateway, draining WebSocket sessions.
+ * 4. If the gateway does not come back healthy, pin the previous version
+ *    again and restart on it.
+ *
+ * Progress is recorded in the version state so the admin UI can follow along.
+ *
+ * @param sandbox - The sandbox instance
+ * @param version - npm version or dist-tag to switch to; undefined for the bundled version
+ * @returns The final version state
+ */
+export async function upgradeOpenClaw(
+  sandbox: MoltbotSandbox,
+  version: string | undefined,
+): Promise<OpenClawVersionState> {
+  const initial = await sandbox.getOpenClawVersionState();
+  const from = initial.pinned;
+  let upgrade: UpgradeStatus = {
+    version,
+    from,
+    phase: 'installing',
+    startedAt: new Date().toISOString(),
+  };
+
+  const record = async (update: Partial<UpgradeStatus>, versions: OpenClawVersionState = {}) => {
+    upgrade = { ...upgrade, ...update };
+    const current = await sandbox.getOpenClawVersionState();
+    const next = { ...current, ...versions, upgrade };
+    await sandbox.setOpenClawVersionState(next);
+    return next;
+  };
+
+  await record({});
+  console.log(
+    `[Upgrade] Switching OpenClaw from ${describeVersion(from)} to ${describeVersion(version)}`,
+  );
+
+  try {
+    if (version) {
+      const resolved = await resolveOpenClawVersion(sandbox, version);
+      if (resolved !== version) {
+        console.log(`[Upgrade] OpenClaw ${version} is ${resolved}`);
+        await record({ version: resolved, tag: version });
+        version = resolved;
+      }
+      await installOpenClaw(sandbox, version);
+    }
+    await record({ phase: 'checking' });
+    await checkOpenClawConfig(sandbox, version);
+  } catch (err) {
+    const output = err instanceof UpgradeStepError ? err.output : undefined;
+    const error = err instanceof Error ? err.message : 'Upgrade failed';
+    console.error('[Upgrade]', error, output || '');
+    // The gateway was never touched, so there is nothing to roll back
+    return record({ phase: 'failed', error, output, finishedAt: new Date().toISOString() });
+  }
+
+  await record({ phase: 'restarting' }, { pinned: version, previous: from });
+  try {
+    await restartOnVersion(sandbox, false);
+    console.log(`[Upgrade] Gateway is healthy on OpenClaw ${describeVersion(version)}`);
+    return record({ phase: 'succeeded', finishedAt: new Date().toISOString() });
+  } catch (err) {
+    const output = err instanceof UpgradeStepError ? err.output : undefined;
+    const error = err instanceof Error ? err.message : 'Restart failed';
+    console.error(
+      `[Upgrade] OpenClaw ${describeVersion(version)} is unhealthy, rolling back:`,
+      error,
+    );
+    await record({ phase: 'rolling_back', error, output }, { pinned: from, previous: version });
+  }
+
+  try {
+    await restartOnVersion(sandbox, true);
+    console.log(`[Upgrade] Rolled back to OpenClaw ${describeVersion(from)}`);
+    return record({ phase: 'rolled_back', finishedAt: new Date().toISOString() });
+  } catch (err) {
+    const error = err instanceof Error ? err.message : 'Rollback failed';
+    console.error('[Upgrade] Rollback failed:', error);
+    return record({
+      phase: 'failed',
+      error: `${upgrade.error}; rollback also failed: ${error}`,
+      finishedAt: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { singleFlight } from './utils';
+import { suppressConsole } from '../test-utils';
+
+describe('singleFlight', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('shares one invocation between concurrent callers', async () => {
+    const fn = vi.fn().mockResolvedValue('ready');
+    const start = singleFlight(fn);
+
+    const first = start();
+    const second = start();
+
+    expect(await first).toBe('ready');
+    expect(await second).toBe('ready');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares a failure between concurrent callers', async () => {
+    const fn = vi.fn().mockRejectedValue(new Error('boom'));
+    const start = singleFlight(fn);
+
+    const results = await Promise.allSettled([start(), start()]);
+
+    expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts a new invocation once the previous one settled', async () => {
+    const fn = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValueOnce('ready');
+    const start = singleFlight(fn);
+
+    await expect(start()).rejects.toThrow('boom');
+    expect(await start()).toBe('ready');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
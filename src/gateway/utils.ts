@@ -25,3 +25,24 @@ export async function waitForProcess(
     attempts++;
   }
 }
+
+/**
+ * Wrap an async function so concurrent calls share a single in-flight invocation.
+ * Once it settles, the next call starts a fresh one.
+ *
+ * @param fn - The function to run at most once at a time
+ * @returns A function returning the in-flight promise, or starting a new one
+ */
+export function singleFlight<T>(fn: () => Promise<T>): () => Promise<T> {
+  let inFlight: Promise<T> | null = null;
+  return () => {
+    if (!inFlight) {
+      inFlight = fn().finally(() => {
+        inFlight = null;
+      });
+    } else {
+      console.log('[Gateway] Joining in-flight gateway startup');
+    }
+    return inFlight;
+  };
+}
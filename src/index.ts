@@ -21,14 +21,16 @@
  */
 
 import { Hono } from 'hono';
-import { getSandbox, Sandbox, type SandboxOptions } from '@cloudflare/sandbox';
+import { getSandbox } from '@cloudflare/sandbox';
 
 import type { AppEnv, MoltbotEnv } from './types';
 import { MOLTBOT_PORT } from './config';
 import { createAccessMiddleware } from './auth';
-import { ensureMoltbotGateway, findExistingMoltbotProcess } from './gateway';
+import { DEFAULT_SANDBOX_ID, createTenantMiddleware, getTenantMode, listTenants } from './tenants';
+import { MoltbotSandbox, buildSandboxOptions } from './sandbox';
+import { diagnoseStartupFailure, getKeepWarmSchedule, watchProxySession } from './gateway';
 import { publicRoutes, api, adminUi, debug, cdp } from './routes';
-import { redactSensitiveParams } from './utils/logging';
+import { createRedactionMiddleware, redactSensitiveParams, registerSecrets } from './utils/logging';
 import loadingPageHtml from './assets/loading.html';
 import configErrorHtml from './assets/config-error.html';
 
@@ -47,7 +49,37 @@ function transformErrorMessage(message: string, host: string): string {
   return message;
 }
 
-export { Sandbox };
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Fill in the configuration error page.
+ * Every field is escaped except `remediation`, which is trusted HTML.
+ */
+function renderConfigErrorPage(page: {
+  title: string;
+  message: string;
+  detailsTitle: string;
+  details: string;
+  remediation: string;
+}): string {
+  const values: Record<string, string> = {
+    TITLE: escapeHtml(page.title),
+    MESSAGE: escapeHtml(page.message),
+    DETAILS_TITLE: escapeHtml(page.detailsTitle),
+    DETAILS: escapeHtml(page.details),
+    REMEDIATION: page.remediation,
+  };
+  return configErrorHtml.replace(/\{\{(\w+)\}\}/g, (_, key: string) => values[key] ?? '');
+}
+
+export { MoltbotSandbox as Sandbox };
 
 /**
  * Validate required environment variables.
@@ -91,29 +123,6 @@ function validateRequiredEnv(env: MoltbotEnv): string[] {
   return missing;
 }
 
-/**
- * Build sandbox options based on environment configuration.
- *
- * SANDBOX_SLEEP_AFTER controls how long the container stays alive after inactivity:
- * - 'never' (default): Container stays alive indefinitely (recommended due to long cold starts)
- * - Duration string: e.g., '10m', '1h', '30s' - container sleeps after this period of inactivity
- *
- * To reduce costs at the expense of cold start latency, set SANDBOX_SLEEP_AFTER to a duration:
- *   npx wrangler secret put SANDBOX_SLEEP_AFTER
- *   # Enter: 10m (or 1h, 30m, etc.)
- */
-function buildSandboxOptions(env: MoltbotEnv): SandboxOptions {
-  const sleepAfter = env.SANDBOX_SLEEP_AFTER?.toLowerCase() || 'never';
-
-  // 'never' means keep the container alive indefinitely
-  if (sleepAfter === 'never') {
-    return { keepAlive: true };
-  }
-
-  // Otherwise, use the specified duration
-  return { sleepAfter };
-}
-
 // Main app
 const app = new Hono<AppEnv>();
 
@@ -121,8 +130,9 @@ const app = new Hono<AppEnv>();
 // MIDDLEWARE: Applied to ALL routes
 // =============================================================================
 
-// Middleware: Log every request
+// Middleware: Log every request, with the Worker's secrets scrubbed from every log line
 app.use('*', async (c, next) => {
+  registerSecrets(c.env);
   const url = new URL(c.req.url);
   const redactedSearch = redactSensitiveParams(url);
   console.log(`[REQ] ${c.req.method} ${url.pathname}${redactedSearch}`);
@@ -135,11 +145,26 @@ app.use('*', async (c, next) => {
 // Middleware: Initialize sandbox for all requests
 app.use('*', async (c, next) => {
   const options = buildSandboxOptions(c.env);
-  const sandbox = getSandbox(c.env.Sandbox, 'moltbot', options);
+  const sandbox = getSandbox(c.env.Sandbox, DEFAULT_SANDBOX_ID, options);
   c.set('sandbox', sandbox);
+  c.set('gatewayEnv', c.env);
   await next();
 });
 
+// Middleware: Scrub secrets from the JSON the Worker's own routes respond with
+app.use('/api/*', createRedactionMiddleware());
+app.use('/debug/*', createRedactionMiddleware());
+
+// Middleware: In multi-tenant mode the startup status belongs to the caller's
+// own sandbox, so the status routes need to know who is asking
+app.use('/api/status/*', async (c, next) => {
+  if (getTenantMode(c.env) === 'off') {
+    return next();
+  }
+  return createAccessMiddleware({ type: 'json' })(c, next);
+});
+app.use('/api/status/*', createTenantMiddleware());
+
 // =============================================================================
 // PUBLIC ROUTES: No Cloudflare Access authentication required
 // =============================================================================
@@ -176,7 +201,17 @@ app.use('*', async (c, next) => {
     const acceptsHtml = c.req.header('Accept')?.includes('text/html');
     if (acceptsHtml) {
       // Return a user-friendly HTML error page
-      const html = configErrorHtml.replace('{{MISSING_VARS}}', missingVars.join(', '));
+      const html = renderConfigErrorPage({
+        title: 'Configuration Required',
+        message:
+          'Moltworker cannot start because required environment variables are not configured.',
+        detailsTitle: 'Missing Variables',
+        details: missingVars.join(', '),
+        remediation:
+          '<p>Set the missing secrets using the Wrangler CLI:</p>' +
+          '<pre>wrangler secret put &lt;VARIABLE_NAME&gt;</pre>' +
+          '<p style="margin-top: 16px">For example: <code>wrangler secret put ANTHROPIC_API_KEY</code></p>',
+      });
       return c.html(html, 503);
     }
 
@@ -207,6 +242,9 @@ app.use('*', async (c, next) => {
   return middleware(c, next);
 });
 
+// Middleware: Route each user to their tenant's sandbox (TENANT_MODE)
+app.use('*', createTenantMiddleware());
+
 // Mount API routes (protected by Cloudflare Access)
 app.route('/api', api);
 
@@ -234,8 +272,8 @@ app.all('*', async (c) => {
   console.log('[PROXY] Handling request:', url.pathname);
 
   // Check if gateway is already running
-  const existingProcess = await findExistingMoltbotProcess(sandbox);
-  const isGatewayReady = existingProcess !== null && existingProcess.status === 'running';
+  const gatewayState = await sandbox.getGatewayState();
+  const isGatewayReady = gatewayState.phase === 'ready';
 
   // For browser requests (non-WebSocket, non-API), show loading page if gateway isn't ready
   const isWebSocketRequest = request.headers.get('Upgrade')?.toLowerCase() === 'websocket';
@@ -246,7 +284,7 @@ app.all('*', async (c) => {
 
     // Start the gateway in the background (don't await)
     c.executionCtx.waitUntil(
-      ensureMoltbotGateway(sandbox, c.env).catch((err: Error) => {
+      sandbox.startGateway().catch((err: Error) => {
         console.error('[PROXY] Background gateway start failed:', err);
       }),
     );
@@ -257,23 +295,34 @@ app.all('*', async (c) => {
 
   // Ensure moltbot is running (this will wait for startup)
   try {
-    await ensureMoltbotGateway(sandbox, c.env);
+    await sandbox.startGateway();
   } catch (error) {
     console.error('[PROXY] Failed to start Moltbot:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
-    let hint = 'Check worker logs with: wrangler tail';
-    if (!c.env.ANTHROPIC_API_KEY) {
-      hint = 'ANTHROPIC_API_KEY is not set. Run: wrangler secret put ANTHROPIC_API_KEY';
-    } else if (errorMessage.includes('heap out of memory') || errorMessage.includes('OOM')) {
-      hint = 'Gateway ran out of memory. Try again or check for memory leaks.';
+    // The sandbox records a diagnosis when the startup script fails; errors
+    // thrown before that (or after, by the health probe) are classified here
+    const state = await sandbox.getGatewayState().catch(() => null);
+    const diagnosis =
+      state?.diagnosis ?? diagnoseStartupFailure({ message: errorMessage }, c.get('gatewayEnv'));
+
+    if (acceptsHtml) {
+      const html = renderConfigErrorPage({
+        title: 'Gateway Failed to Start',
+        message: diagnosis.summary,
+        detailsTitle: diagnosis.phase ? `Log excerpt (${diagnosis.phase})` : 'Log excerpt',
+        details: diagnosis.excerpt || errorMessage,
+        remediation: `<p>${escapeHtml(diagnosis.remediation)}</p>`,
+      });
+      return c.html(html, 503);
     }
 
     return c.json(
       {
         error: 'Moltbot gateway failed to start',
         details: errorMessage,
-        hint,
+        hint: diagnosis.remediation,
+        diagnosis,
       },
       503,
     );
@@ -293,9 +342,10 @@ app.all('*', async (c) => {
     // CF Access redirects strip query params, so authenticated users lose ?token=.
     // Since the user already passed CF Access auth, we inject the token server-side.
     let wsRequest = request;
-    if (c.env.MOLTBOT_GATEWAY_TOKEN && !url.searchParams.has('token')) {
+    const gatewayToken = c.get('gatewayEnv').MOLTBOT_GATEWAY_TOKEN;
+    if (gatewayToken && !url.searchParams.has('token')) {
       const tokenUrl = new URL(url.toString());
-      tokenUrl.searchParams.set('token', c.env.MOLTBOT_GATEWAY_TOKEN);
+      tokenUrl.searchParams.set('token', gatewayToken);
       wsRequest = new Request(tokenUrl.toString(), request);
     }
 
@@ -327,6 +377,9 @@ app.all('*', async (c) => {
       console.log('[WS] serverWs.readyState:', serverWs.readyState);
     }
 
+    // Notify the client and close the socket cleanly when the gateway is drained for a restart
+    const session = watchProxySession(sandbox, serverWs, containerWs);
+
     // Relay messages from client to container
     serverWs.addEventListener('message', (event) => {
       if (debugLogs) {
@@ -336,6 +389,9 @@ app.all('*', async (c) => {
           typeof event.data === 'string' ? event.data.slice(0, 200) : '(binary)',
         );
       }
+      if (!session.fromClient(event.data)) {
+        return;
+      }
       if (containerWs.readyState === WebSocket.OPEN) {
         containerWs.send(event.data);
       } else if (debugLogs) {
@@ -383,6 +439,7 @@ app.all('*', async (c) => {
       } else if (debugLogs) {
         console.log('[WS] Server not open, readyState:', serverWs.readyState);
       }
+      session.fromContainer(event.data);
     });
 
     // Handle close events
@@ -390,6 +447,7 @@ app.all('*', async (c) => {
       if (debugLogs) {
         console.log('[WS] Client closed:', event.code, event.reason);
       }
+      session.close();
       containerWs.close(event.code, event.reason);
     });
 
@@ -397,6 +455,7 @@ app.all('*', async (c) => {
       if (debugLogs) {
         console.log('[WS] Container closed:', event.code, event.reason);
       }
+      session.close();
       // Transform the close reason (truncate to 123 bytes max for WebSocket spec)
       let reason = transformErrorMessage(event.reason, url.host);
       if (reason.length > 123) {
@@ -411,11 +470,13 @@ app.all('*', async (c) => {
     // Handle errors
     serverWs.addEventListener('error', (event) => {
       console.error('[WS] Client error:', event);
+      session.close();
       containerWs.close(1011, 'Client error');
     });
 
     containerWs.addEventListener('error', (event) => {
       console.error('[WS] Container error:', event);
+      session.close();
       serverWs.close(1011, 'Container error');
     });
 
@@ -428,7 +489,7 @@ app.all('*', async (c) => {
     });
   }
 
-  console.log('[HTTP] Proxying:', url.pathname + url.search);
+  console.log('[HTTP] Proxying:', url.pathname + redactSensitiveParams(url));
   const httpResponse = await sandbox.containerFetch(request, MOLTBOT_PORT);
   console.log('[HTTP] Response status:', httpResponse.status);
 
@@ -444,6 +505,37 @@ app.all('*', async (c) => {
   });
 });
 
+/**
+ * Cron trigger: boot the gateway ahead of a keep-warm window (SANDBOX_KEEP_WARM).
+ * In multi-tenant mode every registered tenant is pre-warmed.
+ */
+async function prewarmSandboxes(env: MoltbotEnv): Promise<void> {
+  if (!getKeepWarmSchedule(env)) {
+    console.log('[Schedule] Pre-warm cron fired but SANDBOX_KEEP_WARM is not set, skipping');
+    return;
+  }
+
+  const sandboxIds =
+    getTenantMode(env) === 'off'
+      ? [DEFAULT_SANDBOX_ID]
+      : (await listTenants(env.MOLTBOT_BUCKET)).map((tenant) => tenant.sandboxId);
+  console.log(`[Schedule] Pre-warming ${sandboxIds.length} sandbox(es)`);
+
+  const options = buildSandboxOptions(env);
+  const results = await Promise.allSettled(
+    sandboxIds.map((id) => getSandbox(env.Sandbox, id, options).prewarmGateway()),
+  );
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      console.error(`[Schedule] Pre-warm of ${sandboxIds[i]} failed:`, result.reason);
+    }
+  });
+}
+
 export default {
   fetch: app.fetch,
+  async scheduled(_controller: ScheduledController, env: MoltbotEnv, ctx: ExecutionContext) {
+    registerSecrets(env);
+    ctx.waitUntil(prewarmSandboxes(env));
+  },
 };
@@ -1,5 +1,33 @@
-import { describe, it, expect } from 'vitest';
-import { redactSensitiveParams } from './utils/logging';
+import { describe, it, expect, vi } from 'vitest';
+import { Hono } from 'hono';
+
+// The routes import the sandbox SDK, which only loads in the Workers runtime
+vi.mock('@cloudflare/sandbox', () => ({ Sandbox: Object, getSandbox: vi.fn() }));
+
+import type { AppEnv } from './types';
+import { api } from './routes';
+import {
+  createMockEnv,
+  createMockExecResult,
+  createMockSandbox,
+  suppressConsole,
+} from './test-utils';
+import {
+  createRedactionMiddleware,
+  redactJson,
+  redactSensitiveParams,
+  redactText,
+  registerSecrets,
+  secretValues,
+} from './utils/logging';
+
+const ENV = {
+  ANTHROPIC_API_KEY: 'sk-ant-abc123',
+  MOLTBOT_GATEWAY_TOKEN: 'gw-token-456',
+  TELEGRAM_BOT_TOKEN: '12345:telegram',
+  DEV_MODE: 'true',
+  CDP_SECRET: 'short',
+};
 
 describe('redactSensitiveParams', () => {
   it('returns empty string for URL with no query params', () => {
@@ -71,3 +99,125 @@ describe('redactSensitiveParams', () => {
     expect(redactSensitiveParams(url)).toBe('?secret=%5BREDACTED%5D');
   });
 });
+
+describe('secretValues', () => {
+  it('collects the secrets of each environment, leaving out settings and short values', () => {
+    expect(secretValues(ENV, { MOLTBOT_GATEWAY_TOKEN: 'tenant-token-789' })).toEqual([
+      'sk-ant-abc123',
+      'gw-token-456',
+      '12345:telegram',
+      'tenant-token-789',
+    ]);
+  });
+});
+
+describe('redactText', () => {
+  it('replaces every known secret', () => {
+    expect(
+      redactText('Error: 401 invalid x-api-key sk-ant-abc123 for sk-ant-abc123', secretValues(ENV)),
+    ).toBe('Error: 401 invalid x-api-key [REDACTED] for [REDACTED]');
+  });
+
+  it('replaces tokens on a command line or in a URL even when they are not known', () => {
+    expect(
+      redactText(
+        'openclaw devices list --url ws://localhost:18789 --token other-token\nOpen http://localhost:18789/?token=abc&x=1',
+        [],
+      ),
+    ).toBe(
+      'openclaw devices list --url ws://localhost:18789 --token [REDACTED]\nOpen http://localhost:18789/?token=[REDACTED]&x=1',
+    );
+  });
+});
+
+describe('redactJson', () => {
+  it('replaces known secrets in a copy, leaving other values under secret-like keys', () => {
+    const body = {
+      gateway: { port: 18789, auth: { token: 'sk-ant-abc123' } },
+      devices: [{ tokenCount: 'three', publicKey: 'pk-device' }],
+      raw: 'ANTHROPIC_API_KEY=sk-ant-abc123',
+    };
+
+    expect(redactJson(body, secretValues(ENV))).toEqual({
+      gateway: { port: 18789, auth: { token: '[REDACTED]' } },
+      devices: [{ tokenCount: 'three', publicKey: 'pk-device' }],
+      raw: 'ANTHROPIC_API_KEY=[REDACTED]',
+    });
+    expect(body.gateway.auth.token).toBe('sk-ant-abc123');
+  });
+});
+
+describe('createRedactionMiddleware', () => {
+  function redactingApp() {
+    const mock = createMockSandbox();
+    const app = new Hono<AppEnv>();
+    app.use('*', async (c, next) => {
+      c.set('sandbox', mock.sandbox);
+      c.set('gatewayEnv', c.env);
+      await next();
+    });
+    app.use('/api/*', createRedactionMiddleware());
+    app.route('/api', api);
+    return { app, ...mock };
+  }
+
+  it('scrubs known secrets from JSON responses', async () => {
+    const { app } = redactingApp();
+    app.get('/api/echo', (c) =>
+      c.json({ stdout: 'openclaw devices list --token gw-token-456', token: 'not-a-secret' }),
+    );
+
+    const response = await app.request('/api/echo', {}, createMockEnv(ENV));
+
+    expect(await response.json()).toEqual({
+      stdout: 'openclaw devices list --token [REDACTED]',
+      token: 'not-a-secret',
+    });
+  });
+
+  it('returns file contents unredacted, so saving them from the editor keeps the secrets', async () => {
+    suppressConsole();
+    const { app, execMock, readFileMock, writeFileMock } = redactingApp();
+    const original = 'ANTHROPIC_API_KEY=sk-ant-abc123\nopenclaw --token gw-token-456\n';
+    execMock.mockImplementation(async (command: string) => {
+      const realpath = command.match(/^realpath -m -- '([^']*)'/);
+      if (!realpath) return createMockExecResult();
+      return createMockExecResult(`${realpath[1]}\nregular file\t${original.length}\t1769515200\n`);
+    });
+    readFileMock.mockResolvedValue({ content: btoa(original), encoding: 'base64' });
+    const env = createMockEnv({ ...ENV, DEV_MODE: 'true' });
+
+    const read = await app.request('/api/admin/files/content?root=workspace&path=.env', {}, env);
+    expect(read.headers.get('Content-Type')).toContain('application/json');
+    const file = (await read.json()) as { content: string };
+    expect(file.content).toBe(original);
+
+    await app.request(
+      '/api/admin/files/content?root=workspace&path=.env',
+      { method: 'PUT', body: file.content },
+      env,
+    );
+    const [, written] = writeFileMock.mock.calls[0];
+    expect(atob(written as string)).toBe(original);
+  });
+});
+
+describe('registerSecrets', () => {
+  it('scrubs registered secrets from console messages', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    registerSecrets(ENV);
+    console.log('[Gateway] stdout:', 'token gw-token-456', { stderr: 'sk-ant-abc123' }, 42);
+    console.error('[Gateway] failed:', new Error('bad key sk-ant-abc123'));
+
+    expect(log).toHaveBeenCalledWith(
+      '[Gateway] stdout:',
+      'token [REDACTED]',
+      { stderr: '[REDACTED]' },
+      42,
+    );
+    expect(error.mock.calls[0][1]).toMatch(/^Error: bad key \[REDACTED\]/);
+    vi.restoreAllMocks();
+  });
+});
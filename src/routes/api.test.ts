@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Hono } from 'hono';
+
+// The routes import the sandbox SDK, which only loads in the Workers runtime
+vi.mock('@cloudflare/sandbox', () => ({ Sandbox: Object, getSandbox: vi.fn() }));
+
+import type { AppEnv } from '../types';
+import { api } from '.';
+import { MAX_FILE_BYTES } from '../gateway';
+import { createMockEnv, createMockSandbox, suppressConsole } from '../test-utils';
+
+function apiApp() {
+  const mock = createMockSandbox();
+  const app = new Hono<AppEnv>();
+  app.use('*', async (c, next) => {
+    c.set('sandbox', mock.sandbox);
+    c.set('gatewayEnv', c.env);
+    await next();
+  });
+  app.route('/api', api);
+  return { app, ...mock };
+}
+
+/** A body streamed in 1 MB chunks, so the request carries no content-length */
+function streamOf(bytes: number): ReadableStream<Uint8Array> {
+  const chunk = 1024 * 1024;
+  let sent = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (sent >= bytes) return controller.close();
+      const size = Math.min(chunk, bytes - sent);
+      controller.enqueue(new Uint8Array(size));
+      sent += size;
+    },
+  });
+}
+
+describe('PUT /api/admin/files/content', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('rejects a file over the limit even without a content-length', async () => {
+    const { app, sandbox, writeFileMock } = apiApp();
+
+    const response = await app.request(
+      '/api/admin/files/content?root=workspace&path=big.bin',
+      { method: 'PUT', body: streamOf(MAX_FILE_BYTES + 1), duplex: 'half' } as RequestInit,
+      createMockEnv({ DEV_MODE: 'true' }),
+    );
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({ error: 'Files are limited to 5 MB' });
+    expect(sandbox.startGateway).not.toHaveBeenCalled();
+    expect(writeFileMock).not.toHaveBeenCalled();
+  });
+});
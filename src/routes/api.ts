@@ -1,12 +1,66 @@
-import { Hono } from 'hono';
-import type { AppEnv } from '../types';
+import { Hono, type Context } from 'hono';
+import { getSandbox } from '@cloudflare/sandbox';
+import type { AppEnv, MoltbotEnv } from '../types';
 import { createAccessMiddleware } from '../auth';
 import {
-  ensureMoltbotGateway,
-  findExistingMoltbotProcess,
-  syncToR2,
+  ConfigEditError,
+  FileAccessError,
+  InvalidBundleError,
+  MAX_BUNDLE_BYTES,
+  MAX_FILE_BYTES,
+  MigrationError,
+  SizeLimitError,
+  archiveLegacyBackup,
+  checkBundle,
+  collectContainerSyncs,
+  createBundle,
+  createSnapshot,
+  deleteSnapshot,
+  deleteWorkspaceFile,
+  diffSnapshots,
+  editContainerConfig,
+  getLegacyStatus,
+  getR2SyncMode,
+  getSnapshotKeep,
+  getStorageEncryption,
+  getSyncAlertConfig,
+  getSyncConflictStatus,
+  getSyncPolicy,
+  importBundle,
+  isFileRoot,
+  isUpgradeInProgress,
+  isValidOpenClawVersion,
+  isValidSnapshotId,
+  listSnapshots,
+  listWorkspaceFiles,
+  managedConfigPaths,
+  maskSecrets,
+  migrateLegacyData,
+  planMigration,
+  readBundle,
+  readContainerConfig,
+  readSkippedFiles,
+  readStream,
+  readWorkspaceFile,
+  recordSyncs,
+  renameWorkspaceFile,
+  restoreSnapshot,
+  rotateEncryptionKey,
+  syncAndRecord,
+  syncRecord,
   waitForProcess,
+  writeWorkspaceFile,
+  type ConfigEditErrorReason,
+  type EncryptionStatus,
+  type FileErrorReason,
+  type FileRoot,
+  type SkippedFile,
+  type SyncConflictStatus,
+  type SyncHistory,
+  type SyncPolicy,
 } from '../gateway';
+import { buildSandboxOptions, type MoltbotSandbox } from '../sandbox';
+import { getTenantMode, isTenantAdmin, listTenants, type TenantRecord } from '../tenants';
 
 // CLI commands can take 10-15 seconds to complete due to WebSocket connection overhead
 const CLI_TIMEOUT_MS = 20000;
@@ -33,11 +87,11 @@ adminApi.get('/devices', async (c) => {
 
   try {
     // Ensure moltbot is running first
-    await ensureMoltbotGateway(sandbox, c.env);
+    await sandbox.startGateway();
 
     // Run OpenClaw CLI to list devices
     // Must specify --url and --token (OpenClaw v2026.2.3 requires explicit credentials with --url)
-    const token = c.env.MOLTBOT_GATEWAY_TOKEN;
+    const token = c.get('gatewayEnv').MOLTBOT_GATEWAY_TOKEN;
     const tokenArg = token ? ` --token ${token}` : '';
     const proc = await sandbox.startProcess(
       `openclaw devices list --json --url ws://localhost:18789${tokenArg}`,
@@ -90,10 +144,10 @@ adminApi.post('/devices/:requestId/approve', async (c) => {
 
   try {
     // Ensure moltbot is running first
-    await ensureMoltbotGateway(sandbox, c.env);
+    await sandbox.startGateway();
 
     // Run OpenClaw CLI to approve the device
-    const token = c.env.MOLTBOT_GATEWAY_TOKEN;
+    const token = c.get('gatewayEnv').MOLTBOT_GATEWAY_TOKEN;
     const tokenArg = token ? ` --token ${token}` : '';
     const proc = await sandbox.startProcess(
       `openclaw devices approve ${requestId} --url ws://localhost:18789${tokenArg}`,
@@ -126,10 +180,10 @@ adminApi.post('/devices/approve-all', async (c) => {
 
   try {
     // Ensure moltbot is running first
-    await ensureMoltbotGateway(sandbox, c.env);
+    await sandbox.startGateway();
 
     // First, get the list of pending devices
-    const token = c.env.MOLTBOT_GATEWAY_TOKEN;
+    const token = c.get('gatewayEnv').MOLTBOT_GATEWAY_TOKEN;
     const tokenArg = token ? ` --token ${token}` : '';
     const listProc = await sandbox.startProcess(
       `openclaw devices list --json --url ws://localhost:18789${tokenArg}`,
@@ -197,36 +251,55 @@ adminApi.post('/devices/approve-all', async (c) => {
 // GET /api/admin/storage - Get R2 storage status and last sync time
 adminApi.get('/storage', async (c) => {
   const sandbox = c.get('sandbox');
-  const hasCredentials = !!(
-    c.env.R2_ACCESS_KEY_ID &&
-    c.env.R2_SECRET_ACCESS_KEY &&
-    c.env.CF_ACCOUNT_ID
-  );
+  // Tenants sync through the binding whatever the deployment's own mode is
+  const mode = getR2SyncMode(c.get('gatewayEnv'));
 
   const missing: string[] = [];
-  if (!c.env.R2_ACCESS_KEY_ID) missing.push('R2_ACCESS_KEY_ID');
-  if (!c.env.R2_SECRET_ACCESS_KEY) missing.push('R2_SECRET_ACCESS_KEY');
-  if (!c.env.CF_ACCOUNT_ID) missing.push('CF_ACCOUNT_ID');
+  if (!mode) {
+    if (!c.env.R2_ACCESS_KEY_ID) missing.push('R2_ACCESS_KEY_ID');
+    if (!c.env.R2_SECRET_ACCESS_KEY) missing.push('R2_SECRET_ACCESS_KEY');
+    if (!c.env.CF_ACCOUNT_ID) missing.push('CF_ACCOUNT_ID');
+  }
 
   let lastSync: string | null = null;
+  let conflict: SyncConflictStatus | null = null;
+  let encryption: EncryptionStatus | null = null;
+  let skipped: SkippedFile[] = [];
+
+  let syncPolicy: SyncPolicy | null = null;
+  let syncPolicyError: string | undefined;
+  try {
+    syncPolicy = getSyncPolicy(c.get('gatewayEnv'));
+  } catch (err) {
+    syncPolicyError = err instanceof Error ? err.message : String(err);
+  }
 
-  if (hasCredentials) {
+  if (mode) {
     try {
       const result = await sandbox.exec('cat /tmp/.last-sync 2>/dev/null || echo ""');
       const timestamp = result.stdout?.trim();
       if (timestamp && timestamp !== '') {
         lastSync = timestamp;
       }
+      conflict = await getSyncConflictStatus(sandbox, c.get('gatewayEnv'));
+      encryption = await getStorageEncryption(sandbox, c.get('gatewayEnv'));
+      skipped = await readSkippedFiles(sandbox);
     } catch {
       // Ignore errors checking sync status
     }
   }
 
   return c.json({
-    configured: hasCredentials,
+    configured: mode !== null,
+    mode,
     missing: missing.length > 0 ? missing : undefined,
     lastSync,
-    message: hasCredentials
+    conflict,
+    encryption,
+    syncPolicy,
+    syncPolicyError,
+    skipped,
+    message: mode
       ? 'R2 storage is configured. Your data will persist across container restarts.'
       : 'R2 storage is not configured. Paired devices and conversations will be lost when the container restarts.',
   });
@@ -236,16 +309,21 @@ adminApi.get('/storage', async (c) => {
 adminApi.post('/storage/sync', async (c) => {
   const sandbox = c.get('sandbox');
 
-  const result = await syncToR2(sandbox, c.env);
+  const result = await syncAndRecord(sandbox, c.get('gatewayEnv'), 'manual');
 
   if (result.success) {
     return c.json({
       success: true,
       message: 'Sync completed successfully',
       lastSync: result.lastSync,
+      uploaded: result.uploaded,
+      deleted: result.deleted,
+      bytes: result.bytes,
+      skipped: result.skipped,
+      durationMs: result.durationMs,
     });
   } else {
-    const status = result.error?.includes('not configured') ? 400 : 500;
+    const status = result.notConfigured ? 400 : 500;
     return c.json(
       {
         success: false,
@@ -257,37 +335,724 @@ adminApi.post('/storage/sync', async (c) => {
   }
 });
 
-// POST /api/admin/gateway/restart - Kill the current gateway and start a new one
+// GET /api/admin/storage/history - Recent syncs to R2, newest first, and the alert status
+adminApi.get('/storage/history', async (c) => {
+  const sandbox = c.get('sandbox');
+  const env = c.get('gatewayEnv');
+
+  try {
+    const state = await sandbox.getGatewayState();
+    let history: SyncHistory;
+    if (state.phase === 'ready' || state.phase === 'degraded') {
+      // Pick up the background sync loop's latest records
+      const { records, checkedAt } = await collectContainerSyncs(sandbox);
+      history = await recordSyncs(sandbox, env, records, { checkedAt });
+    } else {
+      history = await sandbox.getSyncHistory();
+    }
+
+    const records = [...history.records];
+    records.reverse();
+    const alerts = getSyncAlertConfig(env);
+    return c.json({
+      records,
+      consecutiveFailures: history.consecutiveFailures,
+      lastSuccessAt: history.lastSuccessAt ?? null,
+      lastCheckedAt: history.lastCheckedAt ?? null,
+      alert: history.alert ?? null,
+      alerting: {
+        webhook: alerts.webhookUrl !== null,
+        failures: alerts.failures,
+        staleHours: alerts.staleMs / 3_600_000,
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/storage/encryption/rotate - Encrypt with a new data key and re-upload everything
+adminApi.post('/storage/encryption/rotate', async (c) => {
+  const sandbox = c.get('sandbox');
+
+  try {
+    const startedAt = new Date();
+    const { keyId, sync } = await rotateEncryptionKey(sandbox, c.get('gatewayEnv'));
+    await recordSyncs(sandbox, c.get('gatewayEnv'), [syncRecord('key-rotation', startedAt, sync)]);
+    if (!sync.success) {
+      // The new key is in place; the next sync re-uploads with it
+      return c.json(
+        {
+          success: false,
+          keyId,
+          error: `Rotated to data key ${keyId}, but re-uploading failed: ${sync.error}`,
+          details: sync.details,
+        },
+        500,
+      );
+    }
+    return c.json({
+      success: true,
+      keyId,
+      message: `Rotated to data key ${keyId} and re-uploaded ${sync.uploaded ?? 0} files`,
+      uploaded: sync.uploaded,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const status = errorMessage.includes('not configured') ? 400 : 500;
+    return c.json({ error: errorMessage }, status);
+  }
+});
+
+/**
+ * Sync the container to R2 so a snapshot includes its latest changes
+ *
+ * @returns An error response if the sync failed, or null to continue
+ */
+async function syncBeforeSnapshot(c: Context<AppEnv>, sandbox: MoltbotSandbox) {
+  const state = await sandbox.getGatewayState();
+  if (state.phase !== 'ready' && state.phase !== 'degraded') {
+    return null;
+  }
+  const sync = await syncAndRecord(sandbox, c.get('gatewayEnv'), 'snapshot');
+  if (sync.success) {
+    return null;
+  }
+  const status = sync.notConfigured ? 400 : 500;
+  return c.json(
+    {
+      success: false,
+      error: `Sync to R2 failed, no snapshot taken: ${sync.error}`,
+      details: sync.details,
+      hint: status === 500 ? 'Retry, or pass force to snapshot what is already in R2' : undefined,
+    },
+    status,
+  );
+}
+
+/**
+ * Check that a snapshot ID from the URL is well-formed and exists
+ *
+ * @returns An error response, or null to continue
+ */
+async function requireSnapshot(c: Context<AppEnv>, sandbox: MoltbotSandbox, id: string) {
+  if (!isValidSnapshotId(id)) {
+    return c.json({ error: `Invalid snapshot ID: ${id}` }, 400);
+  }
+  const snapshots = await listSnapshots(sandbox, c.get('gatewayEnv'));
+  if (!snapshots.some((snapshot) => snapshot.id === id)) {
+    return c.json({ error: `Snapshot not found: ${id}` }, 404);
+  }
+  return null;
+}
+
+// GET /api/admin/storage/snapshots - List point-in-time snapshots of the R2 data, newest first
+adminApi.get('/storage/snapshots', async (c) => {
+  const sandbox = c.get('sandbox');
+  const env = c.get('gatewayEnv');
+
+  try {
+    const snapshots = await listSnapshots(sandbox, env);
+    return c.json({ snapshots, keep: getSnapshotKeep(env) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const status = errorMessage.includes('not configured') ? 400 : 500;
+    return c.json({ error: errorMessage }, status);
+  }
+});
+
+// POST /api/admin/storage/snapshots - Sync to R2, then take a snapshot
+// Pass { "force": true } to snapshot what is already in R2 if the sync fails.
+adminApi.post('/storage/snapshots', async (c) => {
+  const sandbox = c.get('sandbox');
+  const body = await c.req.json<{ force?: boolean }>().catch(() => ({}) as { force?: boolean });
+
+  try {
+    if (body.force !== true) {
+      const syncError = await syncBeforeSnapshot(c, sandbox);
+      if (syncError) return syncError;
+    }
+
+    const snapshot = await createSnapshot(sandbox, c.get('gatewayEnv'), 'manual');
+    return c.json({ success: true, snapshot }, 201);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/storage/snapshots/:id/diff - Compare a snapshot with the live data
+// Pass ?against=<snapshot id> to compare with another snapshot instead.
+adminApi.get('/storage/snapshots/:id/diff', async (c) => {
+  const sandbox = c.get('sandbox');
+  const id = c.req.param('id');
+  const against = c.req.query('against') || 'live';
+
+  try {
+    const notFound =
+      (await requireSnapshot(c, sandbox, id)) ??
+      (against === 'live' ? null : await requireSnapshot(c, sandbox, against));
+    if (notFound) return notFound;
+
+    const diff = await diffSnapshots(sandbox, c.get('gatewayEnv'), id, against);
+    return c.json(diff);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/storage/snapshots/:id/restore - Restore a snapshot and restart the gateway
+// The current data is synced and snapshotted first, so a restore can itself be undone.
+adminApi.post('/storage/snapshots/:id/restore', async (c) => {
+  const sandbox = c.get('sandbox');
+  const env = c.get('gatewayEnv');
+  const id = c.req.param('id');
+  const body = await c.req.json<{ force?: boolean }>().catch(() => ({}) as { force?: boolean });
+
+  try {
+    const notFound = await requireSnapshot(c, sandbox, id);
+    if (notFound) return notFound;
+
+    if (body.force !== true) {
+      const syncError = await syncBeforeSnapshot(c, sandbox);
+      if (syncError) return syncError;
+    }
+    const preRestore = await createSnapshot(sandbox, env, 'pre-restore');
+    await restoreSnapshot(sandbox, env, id);
+
+    // Restart in the background so the gateway loads the restored config
+    const restartPromise = sandbox.restartGateway({ force: false }).catch((err) => {
+      console.error('Gateway restart after restore failed:', err);
+    });
+    c.executionCtx.waitUntil(restartPromise);
+
+    return c.json({
+      success: true,
+      message: `Restored snapshot ${id}, gateway restarting...`,
+      snapshot: id,
+      preRestoreSnapshot: preRestore.id,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// DELETE /api/admin/storage/snapshots/:id - Delete a snapshot
+adminApi.delete('/storage/snapshots/:id', async (c) => {
+  const sandbox = c.get('sandbox');
+  const id = c.req.param('id');
+
+  try {
+    const notFound = await requireSnapshot(c, sandbox, id);
+    if (notFound) return notFound;
+
+    await deleteSnapshot(sandbox, c.get('gatewayEnv'), id);
+    return c.json({ success: true, snapshot: id });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/export - Download the assistant as a bundle: config without secrets,
+// workspace, skills and paired devices, with a manifest recording the OpenClaw version
+adminApi.get('/export', async (c) => {
+  const sandbox = c.get('sandbox');
+
+  try {
+    const { archive, manifest } = await createBundle(sandbox, c.get('gatewayEnv'));
+    const stamp = manifest.createdAt.replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+    return c.body(archive as Uint8Array<ArrayBuffer>, 200, {
+      'Content-Type': 'application/gzip',
+      'Content-Disposition': `attachment; filename="moltworker-bundle-${stamp}.tar.gz"`,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/import - Restore a bundle from /api/admin/export into the sandbox
+// The body is the bundle itself. Pass ?dryRun=true to only validate it. The current data
+// is synced and snapshotted first when snapshots are available, then the gateway restarts.
+adminApi.post('/import', async (c) => {
+  const sandbox = c.get('sandbox');
+  const env = c.get('gatewayEnv');
+  const dryRun = c.req.query('dryRun') === 'true';
+
+  const tooLarge = () =>
+    c.json({ error: `Bundles are limited to ${MAX_BUNDLE_BYTES / 1024 / 1024} MB` }, 413);
+  if (Number(c.req.header('content-length') ?? 0) > MAX_BUNDLE_BYTES) {
+    return tooLarge();
+  }
+
+  try {
+    // Chunked uploads carry no content-length, so the body is read with a cap
+    let archive: Uint8Array;
+    try {
+      archive = c.req.raw.body
+        ? await readStream(c.req.raw.body, MAX_BUNDLE_BYTES)
+        : new Uint8Array();
+    } catch (err) {
+      if (err instanceof SizeLimitError) return tooLarge();
+      throw err;
+    }
+    const bundle = await readBundle(archive);
+    if (dryRun) {
+      return c.json({
+        success: true,
+        dryRun: true,
+        manifest: bundle.manifest,
+        files: bundle.files.length,
+        warnings: await checkBundle(sandbox, env, bundle),
+      });
+    }
+
+    let preImportSnapshot: string | undefined;
+    if (getR2SyncMode(env) === 'rclone') {
+      const syncError = await syncBeforeSnapshot(c, sandbox);
+      if (syncError) return syncError;
+      preImportSnapshot = (await createSnapshot(sandbox, env, 'pre-restore')).id;
+    }
+
+    const result = await importBundle(sandbox, env, bundle);
+    const sync = await syncAndRecord(sandbox, env, 'import');
+    if (!sync.success && !sync.notConfigured) {
+      result.warnings.push(`Sync to R2 failed, the next sync retries: ${sync.error}`);
+    }
+
+    // Restart in the background so the gateway loads the imported config
+    const restartPromise = sandbox.restartGateway({ force: false }).catch((err) => {
+      console.error('Gateway restart after import failed:', err);
+    });
+    c.executionCtx.waitUntil(restartPromise);
+
+    return c.json({
+      success: true,
+      message: `Imported ${result.files} files, gateway restarting...`,
+      ...result,
+      preImportSnapshot,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, error instanceof InvalidBundleError ? 400 : 500);
+  }
+});
+
+// GET /api/admin/migration - Legacy Clawdbot data in R2 and the container, and what migrating would do
+adminApi.get('/migration', async (c) => {
+  const sandbox = c.get('sandbox');
+  const env = c.get('gatewayEnv');
+
+  try {
+    const status = await getLegacyStatus(sandbox, env);
+    const legacyConfig = status.r2?.hasConfig || status.container?.hasConfig;
+    return c.json({ ...status, plan: legacyConfig ? await planMigration(sandbox, env) : null });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, error instanceof MigrationError ? 400 : 500);
+  }
+});
+
+// POST /api/admin/migration - Migrate legacy Clawdbot data (?dryRun=true to only plan it)
+// Pass { "overwrite": true } to replace an existing openclaw.json with the migrated config.
+adminApi.post('/migration', async (c) => {
+  const sandbox = c.get('sandbox');
+  const env = c.get('gatewayEnv');
+  const dryRun = c.req.query('dryRun') === 'true';
+  const body = await c.req
+    .json<{ overwrite?: boolean }>()
+    .catch(() => ({}) as { overwrite?: boolean });
+
+  try {
+    if (dryRun) {
+      return c.json({ success: true, dryRun: true, plan: await planMigration(sandbox, env) });
+    }
+
+    const result = await migrateLegacyData(sandbox, env, body.overwrite === true);
+    const warnings: string[] = [];
+    let archived: string | null = null;
+    const sync = await syncAndRecord(sandbox, env, 'migration');
+    if (sync.success) {
+      // Only once R2 holds the migrated data, so a restore still finds one or the other
+      archived = await archiveLegacyBackup(sandbox, env);
+    } else if (!sync.notConfigured) {
+      warnings.push(
+        `Sync to R2 failed, so the legacy backup was not archived. Archive it with POST /api/admin/migration/archive once a sync succeeds: ${sync.error}`,
+      );
+    }
+
+    // Restart in the background so the gateway loads the migrated config
+    const restartPromise = sandbox.restartGateway({ force: false }).catch((err) => {
+      console.error('Gateway restart after migration failed:', err);
+    });
+    c.executionCtx.waitUntil(restartPromise);
+
+    return c.json({
+      success: true,
+      message: `Migrated the legacy config from ${result.source}, gateway restarting...`,
+      ...result,
+      archived,
+      warnings,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, error instanceof MigrationError ? 409 : 500);
+  }
+});
+
+// POST /api/admin/migration/archive - Move the legacy backup in R2 under legacy/
+adminApi.post('/migration/archive', async (c) => {
+  const sandbox = c.get('sandbox');
+
+  try {
+    const archived = await archiveLegacyBackup(sandbox, c.get('gatewayEnv'));
+    return c.json({
+      success: true,
+      archived,
+      message: archived ? `Archived the legacy backup to ${archived}` : 'No legacy backup in R2',
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+const FILE_ERROR_STATUS: Record<FileErrorReason, 400 | 404 | 409 | 413> = {
+  invalid: 400,
+  'not-found': 404,
+  exists: 409,
+  'too-large': 413,
+};
+
+/**
+ * The directory a file request is for, from ?root=workspace|skills (default workspace)
+ */
+function fileRootOf(c: Context<AppEnv>): FileRoot | null {
+  const root = c.req.query('root') ?? 'workspace';
+  return isFileRoot(root) ? root : null;
+}
+
+function fileErrorResponse(c: Context<AppEnv>, error: unknown) {
+  if (error instanceof FileAccessError) {
+    return c.json({ error: error.message }, FILE_ERROR_STATUS[error.reason]);
+  }
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return c.json({ error: errorMessage }, 500);
+}
+
+// GET /api/admin/files?root=workspace&path=memory - List a directory in the workspace or skills
+// The gateway is started first, so the files have been restored from R2 before they are touched.
+adminApi.get('/files', async (c) => {
+  const sandbox = c.get('sandbox');
+  const root = fileRootOf(c);
+  if (!root) return c.json({ error: 'root must be workspace or skills' }, 400);
+
+  try {
+    await sandbox.startGateway();
+    return c.json(await listWorkspaceFiles(sandbox, root, c.req.query('path') ?? ''));
+  } catch (error) {
+    return fileErrorResponse(c, error);
+  }
+});
+
+// GET /api/admin/files/content?root=workspace&path=MEMORY.md - Read a file
+// Text is returned as is; anything that isn't UTF-8 is returned base64-encoded.
+adminApi.get('/files/content', async (c) => {
+  const sandbox = c.get('sandbox');
+  const root = fileRootOf(c);
+  if (!root) return c.json({ error: 'root must be workspace or skills' }, 400);
+
+  try {
+    await sandbox.startGateway();
+    const { data, ...file } = await readWorkspaceFile(sandbox, root, c.req.query('path') ?? '');
+    let text: string | null = null;
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+    } catch {
+      // Not UTF-8
+    }
+    const content =
+      text === null || text.includes('\0')
+        ? { encoding: 'base64', content: Buffer.from(data).toString('base64') }
+        : { encoding: 'utf-8', content: text };
+    // Not redacted: saving the file from the editor would write the
+    // placeholders over the real secrets
+    c.set('skipRedaction', true);
+    return c.json({ root, ...file, ...content });
+  } catch (error) {
+    return fileErrorResponse(c, error);
+  }
+});
+
+// GET /api/admin/files/download?root=workspace&path=notes/todo.md - Download a file
+adminApi.get('/files/download', async (c) => {
+  const sandbox = c.get('sandbox');
+  const root = fileRootOf(c);
+  if (!root) return c.json({ error: 'root must be workspace or skills' }, 400);
+
+  try {
+    await sandbox.startGateway();
+    const file = await readWorkspaceFile(sandbox, root, c.req.query('path') ?? '');
+    const name = file.path.slice(file.path.lastIndexOf('/') + 1).replace(/["\\\r\n]/g, '_');
+    return c.body(file.data as Uint8Array<ArrayBuffer>, 200, {
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': `attachment; filename="${name}"`,
+    });
+  } catch (error) {
+    return fileErrorResponse(c, error);
+  }
+});
+
+// PUT /api/admin/files/content?root=workspace&path=notes/todo.md - Create or replace a file
+// The body is the file itself. Missing parent directories are created.
+adminApi.put('/files/content', async (c) => {
+  const sandbox = c.get('sandbox');
+  const root = fileRootOf(c);
+  if (!root) return c.json({ error: 'root must be workspace or skills' }, 400);
+
+  const tooLarge = () =>
+    c.json({ error: `Files are limited to ${MAX_FILE_BYTES / 1024 / 1024} MB` }, 413);
+  if (Number(c.req.header('content-length') ?? 0) > MAX_FILE_BYTES) {
+    return tooLarge();
+  }
+
+  try {
+    // Chunked uploads carry no content-length, so the body is read with a cap
+    let data: Uint8Array;
+    try {
+      data = c.req.raw.body ? await readStream(c.req.raw.body, MAX_FILE_BYTES) : new Uint8Array();
+    } catch (err) {
+      if (err instanceof SizeLimitError) return tooLarge();
+      throw err;
+    }
+    await sandbox.startGateway();
+    const file = await writeWorkspaceFile(sandbox, root, c.req.query('path') ?? '', data);
+    return c.json({ success: true, root, ...file });
+  } catch (error) {
+    return fileErrorResponse(c, error);
+  }
+});
+
+// POST /api/admin/files/rename - Rename or move a file or directory
+// Body: { "root": "workspace", "from": "notes/old.md", "to": "archive/old.md" }
+adminApi.post('/files/rename', async (c) => {
+  const sandbox = c.get('sandbox');
+  const body = await c.req
+    .json<{ root?: string; from?: string; to?: string }>()
+    .catch(() => ({}) as { root?: string; from?: string; to?: string });
+  const root = body.root ?? 'workspace';
+  if (!isFileRoot(root)) return c.json({ error: 'root must be workspace or skills' }, 400);
+  if (typeof body.from !== 'string' || typeof body.to !== 'string') {
+    return c.json({ error: 'from and to are required' }, 400);
+  }
+
+  try {
+    await sandbox.startGateway();
+    const renamed = await renameWorkspaceFile(sandbox, root, body.from, body.to);
+    return c.json({ success: true, root, ...renamed });
+  } catch (error) {
+    return fileErrorResponse(c, error);
+  }
+});
+
+// DELETE /api/admin/files?root=workspace&path=notes/old.md - Delete a file or directory
+adminApi.delete('/files', async (c) => {
+  const sandbox = c.get('sandbox');
+  const root = fileRootOf(c);
+  if (!root) return c.json({ error: 'root must be workspace or skills' }, 400);
+
+  try {
+    await sandbox.startGateway();
+    const path = c.req.query('path') ?? '';
+    await deleteWorkspaceFile(sandbox, root, path);
+    return c.json({ success: true, root, path });
+  } catch (error) {
+    return fileErrorResponse(c, error);
+  }
+});
+
+const CONFIG_ERROR_STATUS: Record<ConfigEditErrorReason, 400 | 404 | 409> = {
+  invalid: 400,
+  'not-found': 404,
+  conflict: 409,
+};
+
+function configErrorResponse(c: Context<AppEnv>, error: unknown) {
+  if (error instanceof ConfigEditError) {
+    return c.json(
+      { error: error.message, details: error.details },
+      CONFIG_ERROR_STATUS[error.reason],
+    );
+  }
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return c.json({ error: errorMessage }, 500);
+}
+
+// GET /api/admin/config - openclaw.json with secrets masked, its revision, and the settings
+// the Worker manages. The gateway is started first, so the config has been restored from R2.
+adminApi.get('/config', async (c) => {
+  const sandbox = c.get('sandbox');
+
+  try {
+    await sandbox.startGateway();
+    const { config, revision } = await readContainerConfig(sandbox);
+    return c.json({
+      config: maskSecrets(config),
+      revision,
+      managed: managedConfigPaths(c.get('gatewayEnv')),
+    });
+  } catch (error) {
+    return configErrorResponse(c, error);
+  }
+});
+
+// PUT /api/admin/config - Edit openclaw.json with a JSON Patch (?dryRun=true to preview the diff)
+// Body: { "patch": [{ "op": "replace", "path": "/agents/defaults/workspace", "value": "..." }],
+// "revision": "<from GET>" }. The edit is validated, written, synced to R2, and picked up by
+// the gateway: it reloads most settings itself, and restarts for gateway and plugin settings.
+adminApi.put('/config', async (c) => {
+  const sandbox = c.get('sandbox');
+  const env = c.get('gatewayEnv');
+  const dryRun = c.req.query('dryRun') === 'true';
+  const body = await c.req
+    .json<{ patch?: unknown; revision?: string }>()
+    .catch(() => ({}) as { patch?: unknown; revision?: string });
+
+  try {
+    await sandbox.startGateway();
+    const result = await editContainerConfig(sandbox, env, body.patch, {
+      revision: typeof body.revision === 'string' ? body.revision : undefined,
+      dryRun,
+      user: c.get('accessUser')?.email ?? null,
+    });
+    if (dryRun || result.changes.length === 0) {
+      return c.json({ success: true, dryRun, ...result });
+    }
+
+    const warnings: string[] = [];
+    const sync = await syncAndRecord(sandbox, env, 'config-edit');
+    if (!sync.success && !sync.notConfigured) {
+      warnings.push(`Sync to R2 failed, the next sync retries: ${sync.error}`);
+    }
+
+    let message = 'Config saved, the gateway reloads it';
+    if (result.applied === 'restart') {
+      // Restart in the background so the gateway starts with the new settings
+      const restartPromise = sandbox.restartGateway({ force: false }).catch((err) => {
+        console.error('Gateway restart after config edit failed:', err);
+      });
+      c.executionCtx.waitUntil(restartPromise);
+      message = 'Config saved, gateway restarting...';
+    }
+
+    return c.json({ success: true, dryRun, message, ...result, warnings });
+  } catch (error) {
+    return configErrorResponse(c, error);
+  }
+});
+
+// GET /api/admin/config/history - Edits made through PUT /api/admin/config, newest first
+adminApi.get('/config/history', async (c) => {
+  const sandbox = c.get('sandbox');
+
+  try {
+    const edits = [...(await sandbox.getConfigHistory())];
+    edits.reverse();
+    return c.json({ edits });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/gateway - Get the gateway lifecycle state and last health probe
+adminApi.get('/gateway', async (c) => {
+  const sandbox = c.get('sandbox');
+
+  try {
+    const [state, supervisor] = await Promise.all([
+      sandbox.getGatewayState(),
+      sandbox.getSupervisorState(),
+    ]);
+    return c.json({ ...state, supervisor });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/gateway/probe - Run a health probe against the running gateway
+adminApi.post('/gateway/probe', async (c) => {
+  const sandbox = c.get('sandbox');
+
+  try {
+    const state = await sandbox.checkGatewayHealth();
+    const supervisor = await sandbox.getSupervisorState();
+    return c.json({ ...state, supervisor });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/gateway/restart - Restart the gateway
+// By default the restart is graceful: workspace changes are synced to R2 and proxied
+// WebSocket sessions are drained first. Pass { "force": true } to kill the gateway immediately.
 adminApi.post('/gateway/restart', async (c) => {
   const sandbox = c.get('sandbox');
+  const body = await c.req.json<{ force?: boolean }>().catch(() => ({}) as { force?: boolean });
+  const force = body.force === true || c.req.query('force') === 'true';
 
   try {
-    // Find and kill the existing gateway process
-    const existingProcess = await findExistingMoltbotProcess(sandbox);
+    // A manual restart also lifts a crash-loop pause
+    await sandbox.resetGatewaySupervisor();
 
-    if (existingProcess) {
-      console.log('Killing existing gateway process:', existingProcess.id);
-      try {
-        await existingProcess.kill();
-      } catch (killErr) {
-        console.error('Error killing process:', killErr);
+    const state = await sandbox.getGatewayState();
+    const running = state.phase === 'ready' || state.phase === 'degraded';
+
+    if (!force && running) {
+      const sync = await syncAndRecord(sandbox, c.get('gatewayEnv'), 'restart');
+      if (!sync.success && !sync.notConfigured) {
+        return c.json(
+          {
+            success: false,
+            error: `Sync to R2 failed, gateway not restarted: ${sync.error}`,
+            details: sync.details,
+            hint: 'Retry, or restart with force to skip the sync',
+          },
+          500,
+        );
       }
-      // Wait a moment for the process to die
-      await new Promise((r) => setTimeout(r, 2000));
     }
 
-    // Start a new gateway in the background
-    const bootPromise = ensureMoltbotGateway(sandbox, c.env).catch((err) => {
+    const sessions = await sandbox.countProxySessions();
+
+    // Drain and restart in the background
+    const restartPromise = sandbox.restartGateway({ force }).catch((err) => {
       console.error('Gateway restart failed:', err);
     });
-    c.executionCtx.waitUntil(bootPromise);
+    c.executionCtx.waitUntil(restartPromise);
+
+    let message: string;
+    if (!running) {
+      message = 'No running gateway found, starting new instance...';
+    } else if (force) {
+      message = 'Gateway process killed, new instance starting...';
+    } else if (sessions > 0) {
+      message = `Synced to R2, draining ${sessions} WebSocket session(s) before restarting...`;
+    } else {
+      message = 'Synced to R2, gateway restarting...';
+    }
 
     return c.json({
       success: true,
-      message: existingProcess
-        ? 'Gateway process killed, new instance starting...'
-        : 'No existing process found, starting new instance...',
-      previousProcessId: existingProcess?.id,
+      message,
+      force,
+      previousProcessId: state.processId,
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -295,6 +1060,154 @@ adminApi.post('/gateway/restart', async (c) => {
   }
 });
 
+// GET /api/admin/openclaw - Get the pinned OpenClaw version and the last upgrade
+adminApi.get('/openclaw', async (c) => {
+  const sandbox = c.get('sandbox');
+
+  try {
+    const state = await sandbox.getOpenClawVersionState();
+    return c.json({ ...state, inProgress: isUpgradeInProgress(state) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/openclaw/upgrade - Switch the gateway to another OpenClaw version
+// Body: { "version": "2026.2.9" }, or { "version": "bundled" } for the version in the image.
+// The version is installed and the config validated before the gateway restarts on it;
+// if the gateway comes up unhealthy, the previous version is restored.
+adminApi.post('/openclaw/upgrade', async (c) => {
+  const sandbox = c.get('sandbox');
+  const body = await c.req.json<{ version?: string }>().catch(() => ({}) as { version?: string });
+  const requested = body.version?.trim();
+
+  if (!requested || !isValidOpenClawVersion(requested)) {
+    return c.json(
+      {
+        error: 'Invalid version',
+        hint: 'Pass an OpenClaw npm version such as "2026.2.3", or "bundled"',
+      },
+      400,
+    );
+  }
+  const version = requested === 'bundled' ? undefined : requested;
+
+  return startOpenClawSwitch(c, sandbox, version);
+});
+
+// POST /api/admin/openclaw/rollback - Switch back to the version that ran before the last upgrade
+adminApi.post('/openclaw/rollback', async (c) => {
+  const sandbox = c.get('sandbox');
+
+  try {
+    const state = await sandbox.getOpenClawVersionState();
+    if (!state.pinned && !state.previous) {
+      return c.json({ error: 'No previous OpenClaw version to roll back to' }, 400);
+    }
+    return await startOpenClawSwitch(c, sandbox, state.previous);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+/**
+ * Start an OpenClaw version switch in the background
+ */
+async function startOpenClawSwitch(
+  c: Context<AppEnv>,
+  sandbox: MoltbotSandbox,
+  version: string | undefined,
+) {
+  const state = await sandbox.getOpenClawVersionState();
+  if (isUpgradeInProgress(state)) {
+    return c.json(
+      { error: 'An OpenClaw upgrade is already in progress', upgrade: state.upgrade },
+      409,
+    );
+  }
+  if (state.pinned === version) {
+    return c.json({ error: `OpenClaw ${version || 'bundled'} is already running` }, 400);
+  }
+
+  const upgradePromise = sandbox.upgradeOpenClaw(version).catch((err) => {
+    console.error('OpenClaw upgrade failed:', err);
+  });
+  c.executionCtx.waitUntil(upgradePromise);
+
+  return c.json(
+    {
+      success: true,
+      message: `Switching to OpenClaw ${version || 'bundled'}, follow progress at /api/admin/openclaw`,
+      from: state.pinned || 'bundled',
+      version: version || 'bundled',
+    },
+    202,
+  );
+}
+
+/**
+ * Read a tenant sandbox's gateway state for the tenant list
+ */
+async function readTenantStatus(env: MoltbotEnv, record: TenantRecord, current: boolean) {
+  const tenant = {
+    id: record.id,
+    identity: record.identity,
+    sandboxId: record.sandboxId,
+    createdAt: record.createdAt,
+    current,
+  };
+  const sandbox = getSandbox(env.Sandbox, record.sandboxId, buildSandboxOptions(env));
+  try {
+    const [state, supervisor] = await Promise.all([
+      sandbox.getGatewayState(),
+      sandbox.getSupervisorState(),
+    ]);
+    return {
+      ...tenant,
+      phase: state.phase,
+      updatedAt: state.updatedAt,
+      error: state.error,
+      crashLoop: supervisor.crashLoop,
+    };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : 'Failed to read gateway state';
+    return { ...tenant, error };
+  }
+}
+
+// GET /api/admin/tenants - List every tenant sandbox and its gateway state (multi-tenant mode)
+adminApi.get('/tenants', async (c) => {
+  const mode = getTenantMode(c.env);
+  if (mode === 'off') {
+    return c.json({ enabled: false, mode, tenants: [] });
+  }
+  if (!isTenantAdmin(c.env, c.get('accessUser'))) {
+    return c.json(
+      {
+        error: 'Forbidden',
+        hint: 'Only users listed in TENANT_ADMIN_EMAILS can list tenants',
+      },
+      403,
+    );
+  }
+
+  try {
+    const records = await listTenants(c.env.MOLTBOT_BUCKET);
+    const current = c.get('tenant');
+
+    const tenants = await Promise.all(
+      records.map((record) => readTenantStatus(c.env, record, record.id === current?.id)),
+    );
+
+    return c.json({ enabled: true, mode, tenants });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
 // Mount admin API routes under /admin
 api.route('/admin', adminApi);
 
@@ -1,6 +1,12 @@
 import { Hono } from 'hono';
 import type { AppEnv } from '../types';
-import { findExistingMoltbotProcess, waitForProcess } from '../gateway';
+import {
+  checkContainerConfig,
+  findExistingMoltbotProcess,
+  maskSecrets,
+  openClawBin,
+  waitForProcess,
+} from '../gateway';
 
 /**
  * Debug routes for inspecting container state
@@ -13,8 +19,9 @@ const debug = new Hono<AppEnv>();
 debug.get('/version', async (c) => {
   const sandbox = c.get('sandbox');
   try {
-    // Get OpenClaw version
-    const versionProcess = await sandbox.startProcess('openclaw --version');
+    // Get OpenClaw version (the pinned one if an upgrade pinned a version)
+    const { pinned } = await sandbox.getOpenClawVersionState();
+    const versionProcess = await sandbox.startProcess(`${openClawBin(pinned)} --version`);
     await new Promise((resolve) => setTimeout(resolve, 500));
     const versionLogs = await versionProcess.getLogs();
     const moltbotVersion = (versionLogs.stdout || versionLogs.stderr || '').trim();
@@ -27,6 +34,7 @@ debug.get('/version', async (c) => {
 
     return c.json({
       moltbot_version: moltbotVersion,
+      openclaw_pinned_version: pinned ?? null,
       node_version: nodeVersion,
     });
   } catch (error) {
@@ -354,7 +362,8 @@ debug.get('/env', async (c) => {
   });
 });
 
-// GET /debug/container-config - Read the moltbot config from inside the container
+// GET /debug/container-config - Read the moltbot config from inside the container (secrets masked), with
+// its check against the schema and the keys the startup script pruned
 debug.get('/container-config', async (c) => {
   const sandbox = c.get('sandbox');
 
@@ -373,12 +382,15 @@ debug.get('/container-config', async (c) => {
       // Not valid JSON
     }
 
+    const check = await checkContainerConfig(sandbox);
+
     return c.json({
       status: proc.status,
       exitCode: proc.exitCode,
-      config,
+      config: maskSecrets(config),
       raw: config ? undefined : stdout,
       stderr,
+      check,
     });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
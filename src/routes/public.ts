@@ -1,7 +1,15 @@
 import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import type { AppEnv } from '../types';
-import { MOLTBOT_PORT } from '../config';
-import { findExistingMoltbotProcess } from '../gateway';
+import type { MoltbotSandbox } from '../sandbox';
+import { MOLTBOT_PORT, STARTUP_TIMEOUT_MS } from '../config';
+import type { GatewayPhase } from '../gateway';
+
+/** How often the status stream checks the lifecycle state */
+const STATUS_STREAM_INTERVAL_MS = 1000;
+
+/** Keep idle status streams from being closed by proxies */
+const STATUS_STREAM_KEEPALIVE_MS = 15_000;
 
 /**
  * Public routes - NO Cloudflare Access authentication required
@@ -11,6 +19,30 @@ import { findExistingMoltbotProcess } from '../gateway';
  */
 const publicRoutes = new Hono<AppEnv>();
 
+/**
+ * Map a lifecycle phase to the status values /api/status has always reported
+ */
+function gatewayStatus(phase: GatewayPhase): string {
+  if (phase === 'ready') return 'running';
+  if (phase === 'stopped') return 'not_running';
+  if (phase === 'degraded') return 'not_responding';
+  return phase;
+}
+
+/**
+ * Fixed description of each phase for the public status.
+ * The recorded error holds log output, so it is only returned by the admin API.
+ */
+const PHASE_MESSAGES: Record<GatewayPhase, string> = {
+  stopped: 'Gateway is not running',
+  restoring: 'Restoring data from R2',
+  onboarding: 'Configuring OpenClaw',
+  starting: 'Starting the gateway',
+  ready: 'Gateway is ready',
+  degraded: 'Gateway is running but failed its health check',
+  crashed: 'Gateway failed to start',
+};
+
 // GET /sandbox-health - Health check endpoint
 publicRoutes.get('/sandbox-health', (c) => {
   return c.json({
@@ -30,31 +62,75 @@ publicRoutes.get('/logo-small.png', (c) => {
   return c.env.ASSETS.fetch(c.req.raw);
 });
 
+/**
+ * Read the gateway status reported by /api/status and its event stream
+ */
+async function readGatewayStatus(sandbox: MoltbotSandbox) {
+  try {
+    const [state, supervisor] = await Promise.all([
+      sandbox.getGatewayState(),
+      sandbox.getSupervisorState(),
+    ]);
+    return {
+      ok: state.phase === 'ready',
+      status: gatewayStatus(state.phase),
+      phase: state.phase,
+      processId: state.processId,
+      updatedAt: state.updatedAt,
+      progress: state.progress,
+      message: PHASE_MESSAGES[state.phase],
+      // Errors, probe results and log excerpts stay behind Cloudflare Access;
+      // the public status only says what to fix
+      diagnosis: state.diagnosis && {
+        kind: state.diagnosis.kind,
+        summary: state.diagnosis.summary,
+        remediation: state.diagnosis.remediation,
+      },
+      crashLoop: supervisor.crashLoop,
+    };
+  } catch (err) {
+    console.error('[Status] Failed to read gateway state:', err);
+    return {
+      ok: false,
+      status: 'error',
+      message: 'Could not read the gateway status',
+    };
+  }
+}
+
 // GET /api/status - Public health check for gateway status (no auth required)
 publicRoutes.get('/api/status', async (c) => {
+  return c.json(await readGatewayStatus(c.get('sandbox')));
+});
+
+// GET /api/status/events - Server-sent events with every gateway status change (no auth required)
+// The stream ends once the gateway is ready, restarts are paused, or the startup timeout passes;
+// EventSource clients reconnect on their own if they still need updates.
+publicRoutes.get('/api/status/events', (c) => {
   const sandbox = c.get('sandbox');
 
-  try {
-    const process = await findExistingMoltbotProcess(sandbox);
-    if (!process) {
-      return c.json({ ok: false, status: 'not_running' });
-    }
+  return streamSSE(c, async (stream) => {
+    const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+    let lastData = '';
+    let lastWriteAt = Date.now();
 
-    // Process exists, check if it's actually responding
-    // Try to reach the gateway with a short timeout
-    try {
-      await process.waitForPort(18789, { mode: 'tcp', timeout: 5000 });
-      return c.json({ ok: true, status: 'running', processId: process.id });
-    } catch {
-      return c.json({ ok: false, status: 'not_responding', processId: process.id });
+    while (!stream.aborted && Date.now() < deadline) {
+      // eslint-disable-next-line no-await-in-loop -- intentional sequential polling
+      const status = await readGatewayStatus(sandbox);
+      const data = JSON.stringify(status);
+      if (data !== lastData) {
+        await stream.writeSSE({ event: 'status', data }); // eslint-disable-line no-await-in-loop -- intentional sequential polling
+        lastData = data;
+        lastWriteAt = Date.now();
+      } else if (Date.now() - lastWriteAt >= STATUS_STREAM_KEEPALIVE_MS) {
+        await stream.write(': keepalive\n\n'); // eslint-disable-line no-await-in-loop -- intentional sequential polling
+        lastWriteAt = Date.now();
+      }
+
+      if (status.ok || ('crashLoop' in status && status.crashLoop)) break;
+      await stream.sleep(STATUS_STREAM_INTERVAL_MS); // eslint-disable-line no-await-in-loop -- intentional sequential polling
     }
-  } catch (err) {
-    return c.json({
-      ok: false,
-      status: 'error',
-      error: err instanceof Error ? err.message : 'Unknown error',
-    });
-  }
+  });
 });
 
 // GET /_admin/assets/* - Admin UI static assets (CSS, JS need to load for login redirect)
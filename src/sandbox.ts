@@ -0,0 +1,475 @@
+import { Sandbox, type SandboxOptions } from '@cloudflare/sandbox';
+import type { MoltbotEnv } from './types';
+import {
+  initialGatewayState,
+  nextGatewayState,
+  type GatewayState,
+  type GatewayStateStore,
+} from './gateway/lifecycle';
+import {
+  drainProxySessions,
+  releaseProxySession,
+  waitForDrain,
+  type DrainState,
+  type ProxySessions,
+} from './gateway/drain';
+import { ensureMoltbotGateway, stopMoltbotGateway, verifyMoltbotGateway } from './gateway/process';
+import {
+  SUPERVISOR_INTERVAL_SECONDS,
+  initialSupervisorState,
+  isSupervisionEnabled,
+  superviseGateway,
+  type SupervisorState,
+} from './gateway/supervisor';
+import {
+  initialOpenClawVersionState,
+  isUpgradeInProgress,
+  upgradeOpenClaw,
+  type OpenClawVersionState,
+} from './gateway/upgrade';
+import {
+  getKeepWarmSchedule,
+  getScheduledSleepAfter,
+  isKeepWarm,
+  nextKeepWarmChange,
+  syncBeforeSleep,
+} from './gateway/schedule';
+import { singleFlight } from './gateway/utils';
+import { getR2SyncMode } from './gateway/r2';
+import {
+  SYNC_MONITOR_INTERVAL_SECONDS,
+  initialSyncHistory,
+  monitorSyncs,
+  syncAndRecord,
+  type SyncHistory,
+  type SyncHistoryStore,
+} from './gateway/sync-history';
+import type { ConfigEdit, ConfigEditStore } from './gateway/config-edit';
+import { registerTenant, tenantEnv, type Tenant } from './tenants/tenants';
+import { registerSecrets } from './utils/logging';
+
+const GATEWAY_STATE_KEY = 'gateway-state';
+const SUPERVISOR_STATE_KEY = 'gateway-supervisor';
+const TENANT_KEY = 'tenant';
+const OPENCLAW_VERSION_KEY = 'openclaw-version';
+const SYNC_HISTORY_KEY = 'sync-history';
+const CONFIG_HISTORY_KEY = 'config-history';
+const KEEP_ALIVE_KEY = 'keep-alive';
+
+/**
+ * Seconds between syncs through the R2 binding. In rclone mode the startup
+ * script's own loop syncs instead.
+ */
+const BINDING_SYNC_INTERVAL_SECONDS = 300;
+
+/** Time for a killed gateway process to exit before a new one starts */
+const RESTART_GRACE_MS = 2000;
+
+export interface RestartGatewayOptions {
+  /** Kill the gateway immediately instead of draining WebSocket sessions first */
+  force?: boolean;
+  /** Maximum time to wait for WebSocket sessions to close */
+  drainTimeoutMs?: number;
+}
+
+/**
+ * Build sandbox options based on environment configuration.
+ *
+ * SANDBOX_SLEEP_AFTER controls how long the container stays alive after inactivity:
+ * - 'never' (default): Container stays alive indefinitely (recommended due to long cold starts)
+ * - Duration string: e.g., '10m', '1h', '30s' - container sleeps after this period of inactivity
+ *
+ * To reduce costs at the expense of cold start latency, set SANDBOX_SLEEP_AFTER to a duration:
+ *   npx wrangler secret put SANDBOX_SLEEP_AFTER
+ *   # Enter: 10m (or 1h, 30m, etc.)
+ *
+ * With a keep-warm schedule (SANDBOX_KEEP_WARM), keepAlive is left to the
+ * Durable Object, which switches it on and off as windows begin and end.
+ */
+export function buildSandboxOptions(env: MoltbotEnv): SandboxOptions {
+  if (getKeepWarmSchedule(env)) {
+    return { sleepAfter: getScheduledSleepAfter(env) };
+  }
+
+  const sleepAfter = env.SANDBOX_SLEEP_AFTER?.toLowerCase() || 'never';
+
+  // 'never' means keep the container alive indefinitely
+  if (sleepAfter === 'never') {
+    return { keepAlive: true };
+  }
+
+  // Otherwise, use the specified duration
+  return { sleepAfter };
+}
+
+/**
+ * Sandbox Durable Object with persisted gateway lifecycle state
+ *
+ * Exported from the Worker as `Sandbox` so the existing container and
+ * Durable Object bindings keep pointing at it.
+ */
+export class MoltbotSandbox
+  extends Sandbox<MoltbotEnv>
+  implements GatewayStateStore, SyncHistoryStore, ConfigEditStore
+{
+  // Proxied WebSocket sessions, registered by the Worker for the lifetime of each socket
+  private readonly proxySessions: ProxySessions = new Map();
+
+  // Loaded from storage on first use; null for the shared sandbox
+  private tenant: Tenant | null | undefined;
+
+  private upgrading = false;
+
+  private sleepSyncFailures = 0;
+
+  private readonly startup = singleFlight(async () => {
+    await ensureMoltbotGateway(this, await this.gatewayEnv());
+    return this.getGatewayState();
+  });
+
+  /**
+   * Ensure the gateway is running, launching it at most once at a time.
+   * Concurrent callers await the same startup; progress is visible
+   * through the lifecycle state while they wait.
+   */
+  async startGateway(): Promise<GatewayState> {
+    const supervisor = await this.getSupervisorState();
+    if (supervisor.crashLoop) {
+      throw new Error(
+        `Gateway crashed ${supervisor.consecutiveCrashes} times in a row; automatic restarts are paused. ` +
+          `Restart it from the admin UI. Last error: ${supervisor.lastCrashReason || 'unknown'}`,
+      );
+    }
+    try {
+      return await this.startup();
+    } finally {
+      await this.ensureSleepSchedule();
+      await this.ensureSupervisor();
+      await this.ensureBindingSync();
+      await this.ensureSyncMonitor();
+    }
+  }
+
+  /**
+   * Boot the gateway ahead of a keep-warm window (called from the pre-warm cron).
+   * The container stays up until the schedule next changes.
+   */
+  async prewarmGateway(): Promise<GatewayState> {
+    await this.ensureSleepSchedule();
+    await this.setKeepAlive(true);
+    return this.startGateway();
+  }
+
+  /**
+   * Scheduled at every keep-warm window boundary: keep the container alive
+   * inside windows and let it sleep outside them.
+   */
+  async applySleepSchedule(): Promise<void> {
+    const schedule = getKeepWarmSchedule(this.env);
+    if (!schedule) return;
+
+    const now = new Date();
+    const keepWarm = isKeepWarm(schedule, now);
+    console.log(`[Schedule] ${keepWarm ? 'Entering' : 'Leaving'} keep-warm window`);
+    await this.setKeepAlive(keepWarm);
+    await this.setSleepAfter(getScheduledSleepAfter(this.env));
+
+    const state = await this.getGatewayState();
+    if (keepWarm && state.phase !== 'stopped') {
+      await this.ensureSupervisor();
+      await this.ensureBindingSync();
+      await this.ensureSyncMonitor();
+    }
+
+    const next = nextKeepWarmChange(schedule, now);
+    if (next) {
+      await this.schedule(next, 'applySleepSchedule');
+    }
+  }
+
+  /**
+   * Also stored for this class, so the sync before sleep and the sync
+   * schedules still know the setting after the Durable Object was evicted
+   */
+  override async setKeepAlive(keepAlive: boolean): Promise<void> {
+    await super.setKeepAlive(keepAlive);
+    await this.ctx.storage.put(KEEP_ALIVE_KEY, keepAlive);
+  }
+
+  /**
+   * Sync to R2 before the container sleeps. If the sync fails the container
+   * stays up and the sync is retried when the sleep timeout next expires.
+   */
+  override async onActivityExpired(): Promise<void> {
+    if (!(await this.staysAwake())) {
+      const { sleep, failures } = await syncBeforeSleep(
+        this,
+        await this.gatewayEnv(),
+        this.sleepSyncFailures,
+      );
+      this.sleepSyncFailures = failures;
+      if (!sleep) return;
+    }
+    await super.onActivityExpired();
+  }
+
+  /**
+   * Restart the gateway, draining proxied WebSocket sessions first unless forced
+   *
+   * @returns The lifecycle state once the new gateway is up
+   */
+  async restartGateway(options: RestartGatewayOptions = {}): Promise<GatewayState> {
+    if (!options.force) {
+      await drainProxySessions(this, this.proxySessions, options.drainTimeoutMs);
+    }
+
+    const existingProcess = await stopMoltbotGateway(this);
+    if (existingProcess) {
+      // Wait a moment for the process to die
+      await new Promise((r) => setTimeout(r, RESTART_GRACE_MS));
+    }
+    return this.startGateway();
+  }
+
+  /**
+   * Register a proxied WebSocket session. Resolves when a restart starts
+   * draining it, or with null once the session is released.
+   */
+  async waitForDrain(sessionId: string): Promise<DrainState | null> {
+    return waitForDrain(this, this.proxySessions, sessionId);
+  }
+
+  async releaseProxySession(sessionId: string): Promise<void> {
+    releaseProxySession(this.proxySessions, sessionId);
+  }
+
+  async countProxySessions(): Promise<number> {
+    return this.proxySessions.size;
+  }
+
+  /**
+   * Clear the crash history so a crash-looping gateway can be started again
+   */
+  async resetGatewaySupervisor(): Promise<SupervisorState> {
+    const supervisor = initialSupervisorState();
+    await this.setSupervisorState(supervisor);
+    return supervisor;
+  }
+
+  /**
+   * Scheduled supervisor check. Reschedules itself for as long as there is
+   * a gateway to watch.
+   */
+  async runSupervisor(): Promise<void> {
+    let supervisor: SupervisorState;
+    try {
+      supervisor = await superviseGateway(this, await this.gatewayEnv());
+    } catch (err) {
+      console.error('[Supervisor] Check failed:', err);
+      supervisor = await this.getSupervisorState();
+    }
+
+    const state = await this.getGatewayState();
+    if (state.phase !== 'stopped' && !supervisor.crashLoop && isSupervisionEnabled(this.env)) {
+      await this.schedule(SUPERVISOR_INTERVAL_SECONDS, 'runSupervisor');
+    }
+  }
+
+  /**
+   * Scheduled sync through the R2 binding. Only runs while the container is
+   * kept awake, since the sync itself would keep it from sleeping; otherwise
+   * the sync before sleep persists the data.
+   */
+  async runBindingSync(): Promise<void> {
+    const state = await this.getGatewayState();
+    if (state.phase === 'ready' || state.phase === 'degraded') {
+      const result = await syncAndRecord(this, await this.gatewayEnv(), 'scheduled');
+      if (!result.success) {
+        console.error(
+          '[Gateway] Sync through the R2 binding failed:',
+          result.error,
+          result.details,
+        );
+      }
+    }
+    if (state.phase !== 'stopped' && (await this.staysAwake())) {
+      await this.schedule(BINDING_SYNC_INTERVAL_SECONDS, 'runBindingSync');
+    }
+  }
+
+  /**
+   * Scheduled collection of the sync loop's records, and check for syncs
+   * that stopped succeeding. Like the binding sync, only runs while the
+   * container is kept awake.
+   */
+  async runSyncMonitor(): Promise<void> {
+    const state = await this.getGatewayState();
+    try {
+      await monitorSyncs(
+        this,
+        await this.gatewayEnv(),
+        state.phase === 'ready' || state.phase === 'degraded',
+      );
+    } catch (err) {
+      console.error('[Gateway] Sync monitor check failed:', err);
+    }
+    if (state.phase !== 'stopped' && (await this.staysAwake())) {
+      await this.schedule(SYNC_MONITOR_INTERVAL_SECONDS, 'runSyncMonitor');
+    }
+  }
+
+  private async staysAwake(): Promise<boolean> {
+    const keepAlive = await this.ctx.storage.get<boolean>(KEEP_ALIVE_KEY);
+    return keepAlive ?? buildSandboxOptions(this.env).keepAlive === true;
+  }
+
+  private async ensureBindingSync(): Promise<void> {
+    if (getR2SyncMode(await this.gatewayEnv()) !== 'binding' || !(await this.staysAwake())) return;
+    const scheduled = await this.listSchedules('runBindingSync');
+    if (scheduled.length === 0) {
+      await this.schedule(BINDING_SYNC_INTERVAL_SECONDS, 'runBindingSync');
+    }
+  }
+
+  private async ensureSyncMonitor(): Promise<void> {
+    if (!getR2SyncMode(await this.gatewayEnv()) || !(await this.staysAwake())) return;
+    const scheduled = await this.listSchedules('runSyncMonitor');
+    if (scheduled.length === 0) {
+      await this.schedule(SYNC_MONITOR_INTERVAL_SECONDS, 'runSyncMonitor');
+    }
+  }
+
+  private async ensureSleepSchedule(): Promise<void> {
+    if (!getKeepWarmSchedule(this.env)) return;
+    const scheduled = await this.listSchedules('applySleepSchedule');
+    if (scheduled.length === 0) {
+      // Applies the current window and schedules the next change
+      await this.applySleepSchedule();
+    }
+  }
+
+  private async ensureSupervisor(): Promise<void> {
+    if (!isSupervisionEnabled(this.env)) return;
+    const scheduled = await this.listSchedules('runSupervisor');
+    if (scheduled.length === 0) {
+      await this.schedule(SUPERVISOR_INTERVAL_SECONDS, 'runSupervisor');
+    }
+  }
+
+  /**
+   * Run the gateway health probe and record the result.
+   * Runs inside the Durable Object because the probe needs a WebSocket to the container.
+   */
+  async checkGatewayHealth(): Promise<GatewayState> {
+    return verifyMoltbotGateway(this, await this.gatewayEnv());
+  }
+
+  /**
+   * Switch the gateway to another OpenClaw version, rolling back if it comes up unhealthy
+   *
+   * @param version - npm version or dist-tag; undefined for the version bundled in the image
+   */
+  async upgradeOpenClaw(version?: string): Promise<OpenClawVersionState> {
+    if (this.upgrading) {
+      throw new Error('An OpenClaw upgrade is already in progress');
+    }
+    this.upgrading = true;
+    try {
+      if (isUpgradeInProgress(await this.getOpenClawVersionState())) {
+        throw new Error('An OpenClaw upgrade is already in progress');
+      }
+      return await upgradeOpenClaw(this, version);
+    } finally {
+      this.upgrading = false;
+    }
+  }
+
+  async getOpenClawVersionState(): Promise<OpenClawVersionState> {
+    return (
+      (await this.ctx.storage.get<OpenClawVersionState>(OPENCLAW_VERSION_KEY)) ??
+      initialOpenClawVersionState()
+    );
+  }
+
+  async setOpenClawVersionState(state: OpenClawVersionState): Promise<void> {
+    await this.ctx.storage.put(OPENCLAW_VERSION_KEY, state);
+  }
+
+  /**
+   * Bind this sandbox to a tenant. The first time, the tenant is also added
+   * to the R2 registry so admins can list it.
+   */
+  async setTenant(tenant: Tenant): Promise<void> {
+    const current = await this.getTenant();
+    if (current?.id === tenant.id) return;
+
+    this.tenant = tenant;
+    await this.ctx.storage.put(TENANT_KEY, tenant);
+    try {
+      await registerTenant(this.env.MOLTBOT_BUCKET, tenant);
+    } catch (err) {
+      console.error('[Tenants] Failed to register tenant:', err);
+    }
+  }
+
+  async getTenant(): Promise<Tenant | null> {
+    if (this.tenant === undefined) {
+      this.tenant = (await this.ctx.storage.get<Tenant>(TENANT_KEY)) ?? null;
+    }
+    return this.tenant;
+  }
+
+  /**
+   * The environment this sandbox's gateway runs with: the pinned OpenClaw
+   * version, and the tenant's own gateway token and R2 prefix in multi-tenant mode
+   */
+  private async gatewayEnv(): Promise<MoltbotEnv> {
+    const tenant = await this.getTenant();
+    const env = tenant ? await tenantEnv(this.env, tenant) : this.env;
+    registerSecrets(env);
+    const { pinned } = await this.getOpenClawVersionState();
+    return { ...env, OPENCLAW_VERSION: pinned };
+  }
+
+  async getGatewayState(): Promise<GatewayState> {
+    return (await this.ctx.storage.get<GatewayState>(GATEWAY_STATE_KEY)) ?? initialGatewayState();
+  }
+
+  async setGatewayState(state: GatewayState): Promise<void> {
+    await this.ctx.storage.put(GATEWAY_STATE_KEY, state);
+  }
+
+  async getSupervisorState(): Promise<SupervisorState> {
+    return (
+      (await this.ctx.storage.get<SupervisorState>(SUPERVISOR_STATE_KEY)) ??
+      initialSupervisorState()
+    );
+  }
+
+  async setSupervisorState(state: SupervisorState): Promise<void> {
+    await this.ctx.storage.put(SUPERVISOR_STATE_KEY, state);
+  }
+
+  async getSyncHistory(): Promise<SyncHistory> {
+    return (await this.ctx.storage.get<SyncHistory>(SYNC_HISTORY_KEY)) ?? initialSyncHistory();
+  }
+
+  async setSyncHistory(history: SyncHistory): Promise<void> {
+    await this.ctx.storage.put(SYNC_HISTORY_KEY, history);
+  }
+
+  async getConfigHistory(): Promise<ConfigEdit[]> {
+    return (await this.ctx.storage.get<ConfigEdit[]>(CONFIG_HISTORY_KEY)) ?? [];
+  }
+
+  async setConfigHistory(history: ConfigEdit[]): Promise<void> {
+    await this.ctx.storage.put(CONFIG_HISTORY_KEY, history);
+  }
+
+  override async onStop(): Promise<void> {
+    await super.onStop();
+    // The gateway process died with the container
+    const current = await this.getGatewayState();
+    await this.setGatewayState(nextGatewayState(current, 'stopped'));
+  }
+}
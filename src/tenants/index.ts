@@ -0,0 +1,16 @@
+export {
+  DEFAULT_GROUP_CLAIM,
+  DEFAULT_SANDBOX_ID,
+  buildTenant,
+  deriveTenantToken,
+  getTenantGroups,
+  getTenantMode,
+  isTenantAdmin,
+  listTenants,
+  readGroupClaim,
+  registerTenant,
+  resolveTenantIdentity,
+  tenantEnv,
+} from './tenants';
+export type { Tenant, TenantMode, TenantRecord } from './tenants';
+export { createTenantMiddleware } from './middleware';
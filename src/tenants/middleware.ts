@@ -0,0 +1,56 @@
+import type { Context, Next } from 'hono';
+import { getSandbox } from '@cloudflare/sandbox';
+import type { AppEnv } from '../types';
+import { buildSandboxOptions } from '../sandbox';
+import { registerSecrets } from '../utils/logging';
+import {
+  DEFAULT_GROUP_CLAIM,
+  buildTenant,
+  getTenantGroups,
+  getTenantMode,
+  resolveTenantIdentity,
+  tenantEnv,
+} from './tenants';
+
+/**
+ * Create a middleware that routes each Access user to their tenant's sandbox
+ *
+ * Must run after the Access middleware. With TENANT_MODE unset this is a
+ * no-op and every user shares the default sandbox.
+ *
+ * @returns Hono middleware function
+ */
+export function createTenantMiddleware() {
+  return async (c: Context<AppEnv>, next: Next) => {
+    const mode = getTenantMode(c.env);
+    if (mode === 'off') {
+      return next();
+    }
+
+    const user = c.get('accessUser');
+    const tenantGroups = getTenantGroups(c.env);
+    const identity = user ? resolveTenantIdentity(mode, user, tenantGroups) : null;
+    if (!identity) {
+      const claim = c.env.TENANT_GROUP_CLAIM || DEFAULT_GROUP_CLAIM;
+      let hint = 'The Access token has no email.';
+      if (mode === 'group') {
+        hint =
+          tenantGroups && user?.groups?.length
+            ? "None of the user's groups is listed in TENANT_GROUPS."
+            : `The Access token has no "${claim}" claim. Add groups to the Access application or set TENANT_GROUP_CLAIM.`;
+      }
+      return c.json({ error: 'No tenant for this user', hint }, 403);
+    }
+
+    const tenant = await buildTenant(identity);
+    const sandbox = getSandbox(c.env.Sandbox, tenant.sandboxId, buildSandboxOptions(c.env));
+    await sandbox.setTenant(tenant);
+
+    c.set('tenant', tenant);
+    c.set('sandbox', sandbox);
+    const gatewayEnv = await tenantEnv(c.env, tenant);
+    registerSecrets(gatewayEnv);
+    c.set('gatewayEnv', gatewayEnv);
+    return next();
+  };
+}
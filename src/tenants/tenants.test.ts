@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  buildTenant,
+  deriveTenantToken,
+  getTenantGroups,
+  getTenantMode,
+  isTenantAdmin,
+  listTenants,
+  readGroupClaim,
+  registerTenant,
+  resolveTenantIdentity,
+  tenantEnv,
+} from './tenants';
+import type { JWTPayload } from '../types';
+import { getR2SyncMode } from '../gateway/r2';
+import { createFakeBucket, createMockEnv, suppressConsole } from '../test-utils';
+
+function jwtPayload(claims: Record<string, unknown> = {}): JWTPayload {
+  return {
+    aud: ['aud'],
+    email: 'alice@example.com',
+    exp: 0,
+    iat: 0,
+    iss: 'https://team.cloudflareaccess.com',
+    sub: 'user-1',
+    type: 'app',
+    ...claims,
+  };
+}
+
+describe('getTenantMode', () => {
+  it('is off by default', () => {
+    expect(getTenantMode(createMockEnv())).toBe('off');
+    expect(getTenantMode(createMockEnv({ TENANT_MODE: 'bogus' }))).toBe('off');
+  });
+
+  it('reads TENANT_MODE', () => {
+    expect(getTenantMode(createMockEnv({ TENANT_MODE: 'email' }))).toBe('email');
+    expect(getTenantMode(createMockEnv({ TENANT_MODE: 'Group' }))).toBe('group');
+  });
+});
+
+describe('readGroupClaim', () => {
+  it('reads a top-level claim', () => {
+    expect(readGroupClaim(jwtPayload({ groups: ['eng', 'ops'] }), 'groups')).toEqual([
+      'eng',
+      'ops',
+    ]);
+  });
+
+  it('falls back to claims passed through from the identity provider', () => {
+    expect(readGroupClaim(jwtPayload({ custom: { team: 'eng' } }), 'team')).toEqual(['eng']);
+  });
+
+  it('returns undefined when the claim is missing', () => {
+    expect(readGroupClaim(jwtPayload(), 'groups')).toBeUndefined();
+  });
+});
+
+describe('resolveTenantIdentity', () => {
+  it('uses the lowercased email in email mode', () => {
+    expect(resolveTenantIdentity('email', { email: 'Alice@Example.com' })).toBe(
+      'alice@example.com',
+    );
+  });
+
+  it('uses the first group in sorted order in group mode', () => {
+    expect(resolveTenantIdentity('group', { email: 'a@x.com', groups: ['', 'ops', 'eng'] })).toBe(
+      'eng',
+    );
+    expect(resolveTenantIdentity('group', { email: 'a@x.com', groups: ['eng', 'ops'] })).toBe(
+      'eng',
+    );
+  });
+
+  it('uses the first configured group the user is in', () => {
+    const user = { email: 'a@x.com', groups: ['eng', 'ops', 'sales'] };
+    expect(resolveTenantIdentity('group', user, ['sales', 'ops'])).toBe('sales');
+    expect(resolveTenantIdentity('group', user, ['support'])).toBeNull();
+  });
+
+  it('returns null when the user has no group', () => {
+    expect(resolveTenantIdentity('group', { email: 'a@x.com' })).toBeNull();
+  });
+});
+
+describe('getTenantGroups', () => {
+  it('reads TENANT_GROUPS in order', () => {
+    expect(getTenantGroups(createMockEnv({ TENANT_GROUPS: ' sales, ,ops' }))).toEqual([
+      'sales',
+      'ops',
+    ]);
+  });
+
+  it('returns null when no groups are configured', () => {
+    expect(getTenantGroups(createMockEnv())).toBeNull();
+  });
+});
+
+describe('buildTenant', () => {
+  it('derives a readable, valid sandbox ID', async () => {
+    const tenant = await buildTenant('alice@example.com');
+    expect(tenant.id).toMatch(/^alice-example-com-[0-9a-f]{8}$/);
+    expect(tenant.sandboxId).toBe(`moltbot-${tenant.id}`);
+    expect(tenant.r2Prefix).toBe(`tenants/${tenant.id}/`);
+  });
+
+  it('keeps identities that slugify the same way apart', async () => {
+    const a = await buildTenant('a.b@example.com');
+    const b = await buildTenant('a-b@example.com');
+    expect(a.id).not.toBe(b.id);
+  });
+
+  it('keeps long identities within the sandbox ID limit', async () => {
+    const tenant = await buildTenant(`${'x'.repeat(200)}@example.com`);
+    expect(tenant.sandboxId.length).toBeLessThanOrEqual(63);
+  });
+
+  it('is stable for the same identity', async () => {
+    expect(await buildTenant('eng')).toEqual(await buildTenant('eng'));
+  });
+});
+
+describe('tenantEnv', () => {
+  it('gives each tenant its own token and R2 prefix', async () => {
+    const env = createMockEnv({ MOLTBOT_GATEWAY_TOKEN: 'secret' });
+    const alice = await tenantEnv(env, await buildTenant('alice@example.com'));
+    const bob = await tenantEnv(env, await buildTenant('bob@example.com'));
+
+    expect(alice.MOLTBOT_GATEWAY_TOKEN).toMatch(/^[0-9a-f]{64}$/);
+    expect(alice.MOLTBOT_GATEWAY_TOKEN).not.toBe('secret');
+    expect(alice.MOLTBOT_GATEWAY_TOKEN).not.toBe(bob.MOLTBOT_GATEWAY_TOKEN);
+    expect(alice.R2_PREFIX).toMatch(/^tenants\/alice-example-com-/);
+  });
+
+  it('keeps R2 API credentials out of tenant containers', async () => {
+    const env = await tenantEnv(
+      createMockEnv({
+        R2_ACCESS_KEY_ID: 'key',
+        R2_SECRET_ACCESS_KEY: 'secret',
+        CF_ACCOUNT_ID: 'account',
+      }),
+      await buildTenant('eng'),
+    );
+
+    expect(env.R2_ACCESS_KEY_ID).toBeUndefined();
+    expect(env.R2_SECRET_ACCESS_KEY).toBeUndefined();
+    expect(getR2SyncMode(env)).toBe('binding');
+  });
+
+  it('derives the same token every time', async () => {
+    expect(await deriveTenantToken('secret', 'eng-1')).toBe(
+      await deriveTenantToken('secret', 'eng-1'),
+    );
+  });
+
+  it('leaves the token unset when there is no gateway token', async () => {
+    const env = await tenantEnv(createMockEnv(), await buildTenant('eng'));
+    expect(env.MOLTBOT_GATEWAY_TOKEN).toBeUndefined();
+  });
+});
+
+describe('isTenantAdmin', () => {
+  it('matches TENANT_ADMIN_EMAILS case-insensitively', () => {
+    const env = createMockEnv({ TENANT_ADMIN_EMAILS: 'ops@example.com, Admin@Example.com' });
+    expect(isTenantAdmin(env, { email: 'admin@example.com' })).toBe(true);
+    expect(isTenantAdmin(env, { email: 'alice@example.com' })).toBe(false);
+  });
+
+  it('denies everyone when no admins are configured', () => {
+    expect(isTenantAdmin(createMockEnv(), { email: 'admin@example.com' })).toBe(false);
+    expect(isTenantAdmin(createMockEnv(), undefined)).toBe(false);
+  });
+});
+
+describe('tenant registry', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('registers a tenant once', async () => {
+    const { bucket, objects } = createFakeBucket();
+    const tenant = await buildTenant('eng');
+
+    const first = await registerTenant(bucket, tenant);
+    const second = await registerTenant(bucket, tenant);
+
+    expect(objects.size).toBe(1);
+    expect(second.createdAt).toBe(first.createdAt);
+    expect(JSON.stringify(first)).not.toContain('token');
+  });
+
+  it('lists every tenant across pages', async () => {
+    const { bucket } = createFakeBucket({ pageSize: 2 });
+    for (const identity of ['ops', 'eng', 'sales']) {
+      // eslint-disable-next-line no-await-in-loop -- sequential setup
+      await registerTenant(bucket, await buildTenant(identity));
+    }
+
+    const tenants = await listTenants(bucket);
+
+    expect(tenants.map((t) => t.identity)).toEqual(['eng', 'ops', 'sales']);
+  });
+});
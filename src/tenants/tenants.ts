@@ -0,0 +1,222 @@
+import type { AccessUser, JWTPayload, MoltbotEnv } from '../types';
+
+export type TenantMode = 'off' | 'email' | 'group';
+
+/**
+ * One isolated gateway: its own sandbox, R2 prefix and gateway token
+ */
+export interface Tenant {
+  /** Stable, DNS-safe identifier derived from the identity */
+  id: string;
+  /** Access email or group the tenant belongs to */
+  identity: string;
+  /** Sandbox (Durable Object) name */
+  sandboxId: string;
+  /** Prefix for all of this tenant's objects in the R2 bucket */
+  r2Prefix: string;
+}
+
+export interface TenantRecord extends Tenant {
+  /** ISO timestamp of when the tenant's sandbox was first used */
+  createdAt: string;
+}
+
+/** Sandbox used by every user when multi-tenancy is off */
+export const DEFAULT_SANDBOX_ID = 'moltbot';
+
+/** Claim read from the Access JWT in group mode */
+export const DEFAULT_GROUP_CLAIM = 'groups';
+
+const REGISTRY_PREFIX = 'tenant-registry/';
+
+// Sandbox IDs must be at most 63 characters; keep room for the prefix and hash
+const MAX_SLUG_LENGTH = 32;
+
+export function getTenantMode(env: MoltbotEnv): TenantMode {
+  const mode = env.TENANT_MODE?.toLowerCase();
+  if (mode === 'email' || mode === 'group') return mode;
+  return 'off';
+}
+
+/**
+ * Read a user's groups from an Access JWT
+ *
+ * Groups passed through from the identity provider usually sit under
+ * `custom`, so the claim is looked up there if it is not at the top level.
+ */
+export function readGroupClaim(payload: JWTPayload, claim: string): string[] | undefined {
+  const value = payload[claim] ?? payload.custom?.[claim];
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) {
+    return value.filter((group): group is string => typeof group === 'string');
+  }
+  return undefined;
+}
+
+/**
+ * Groups that get a tenant in group mode, in order of precedence
+ * (TENANT_GROUPS, comma-separated)
+ *
+ * @returns The groups, or null if any group gets a tenant
+ */
+export function getTenantGroups(env: MoltbotEnv): string[] | null {
+  const groups = (env.TENANT_GROUPS || '')
+    .split(',')
+    .map((group) => group.trim())
+    .filter(Boolean);
+  return groups.length > 0 ? groups : null;
+}
+
+/**
+ * Pick the identity that selects a user's tenant
+ *
+ * In group mode a user in several groups always lands in the same tenant:
+ * the first of `tenantGroups` they belong to, or without a configured list,
+ * the first of their groups in sorted order. Access does not promise any
+ * order for the groups claim.
+ *
+ * @param tenantGroups - Groups that get a tenant, from getTenantGroups
+ * @returns The identity, or null if the user has none for this mode
+ */
+export function resolveTenantIdentity(
+  mode: TenantMode,
+  user: AccessUser,
+  tenantGroups: string[] | null = null,
+): string | null {
+  if (mode === 'email') {
+    return user.email ? user.email.trim().toLowerCase() : null;
+  }
+  if (mode === 'group') {
+    const groups = (user.groups ?? []).map((g) => g.trim()).filter(Boolean);
+    if (tenantGroups) {
+      return tenantGroups.find((group) => groups.includes(group)) ?? null;
+    }
+    groups.sort();
+    return groups[0] ?? null;
+  }
+  return null;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function slugify(identity: string): string {
+  return identity
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Build the tenant for an identity
+ *
+ * The ID keeps a readable slug of the identity, plus a hash so identities
+ * that slugify the same way (a.b@x.com and a-b@x.com) never share a sandbox.
+ */
+export async function buildTenant(identity: string): Promise<Tenant> {
+  const hash = (await sha256Hex(identity)).slice(0, 8);
+  const slug = slugify(identity);
+  const id = slug ? `${slug}-${hash}` : hash;
+  return {
+    id,
+    identity,
+    sandboxId: `${DEFAULT_SANDBOX_ID}-${id}`,
+    r2Prefix: `tenants/${id}/`,
+  };
+}
+
+/**
+ * Derive a tenant's gateway token from MOLTBOT_GATEWAY_TOKEN
+ *
+ * Tokens are never stored; the Worker derives the same token whenever it
+ * starts or connects to the tenant's gateway.
+ */
+export async function deriveTenantToken(secret: string, tenantId: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(tenantId));
+  return [...new Uint8Array(signature)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The environment as seen by a tenant's gateway: its own R2 prefix and token
+ *
+ * R2 API credentials would reach the whole bucket from a shell in the
+ * container, so tenants always persist in binding mode, where the Worker
+ * reads and writes R2 under the tenant's prefix only.
+ */
+export async function tenantEnv(env: MoltbotEnv, tenant: Tenant): Promise<MoltbotEnv> {
+  return {
+    ...env,
+    R2_ACCESS_KEY_ID: undefined,
+    R2_SECRET_ACCESS_KEY: undefined,
+    R2_SYNC_MODE: 'binding',
+    R2_PREFIX: tenant.r2Prefix,
+    MOLTBOT_GATEWAY_TOKEN: env.MOLTBOT_GATEWAY_TOKEN
+      ? await deriveTenantToken(env.MOLTBOT_GATEWAY_TOKEN, tenant.id)
+      : undefined,
+  };
+}
+
+/**
+ * Whether a user may see every tenant (TENANT_ADMIN_EMAILS, comma-separated)
+ */
+export function isTenantAdmin(env: MoltbotEnv, user: AccessUser | undefined): boolean {
+  if (!user?.email) return false;
+  const admins = (env.TENANT_ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(user.email.toLowerCase());
+}
+
+/**
+ * Record a tenant in the R2 registry so admins can list every tenant sandbox
+ * (Durable Objects cannot be enumerated)
+ */
+export async function registerTenant(bucket: R2Bucket, tenant: Tenant): Promise<TenantRecord> {
+  const key = `${REGISTRY_PREFIX}${tenant.id}.json`;
+  const existing = await bucket.get(key);
+  if (existing) {
+    return existing.json<TenantRecord>();
+  }
+
+  const record: TenantRecord = { ...tenant, createdAt: new Date().toISOString() };
+  await bucket.put(key, JSON.stringify(record), {
+    httpMetadata: { contentType: 'application/json' },
+  });
+  console.log('[Tenants] Registered tenant', tenant.id, 'for', tenant.identity);
+  return record;
+}
+
+/**
+ * List every registered tenant
+ */
+export async function listTenants(bucket: R2Bucket): Promise<TenantRecord[]> {
+  const keys: string[] = [];
+  let cursor: string | undefined;
+  do {
+    // eslint-disable-next-line no-await-in-loop -- R2 list pagination is sequential
+    const page = await bucket.list({ prefix: REGISTRY_PREFIX, cursor });
+    keys.push(...page.objects.map((object) => object.key));
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  const records = await Promise.all(
+    keys.map(async (key) => {
+      const object = await bucket.get(key);
+      return object ? object.json<TenantRecord>() : null;
+    }),
+  );
+  const tenants = records.filter((record): record is TenantRecord => record !== null);
+  tenants.sort((a, b) => a.identity.localeCompare(b.identity));
+  return tenants;
+}
@@ -1,9 +1,16 @@
 /**
  * Shared test utilities for mocking sandbox and environment
  */
+import { createHash } from 'node:crypto';
 import { vi } from 'vitest';
-import type { Sandbox, Process, ExecResult } from '@cloudflare/sandbox';
+import type { Process, ExecResult } from '@cloudflare/sandbox';
 import type { MoltbotEnv } from './types';
+import type { MoltbotSandbox } from './sandbox';
+import { initialGatewayState, type GatewayState } from './gateway/lifecycle';
+import { initialSupervisorState, type SupervisorState } from './gateway/supervisor';
+import type { OpenClawVersionState } from './gateway/upgrade';
+import type { SyncHistory } from './gateway/sync-history';
+import type { ConfigEdit } from './gateway/config-edit';
 
 export function createMockEnv(overrides: Partial<MoltbotEnv> = {}): MoltbotEnv {
   return {
@@ -51,41 +58,108 @@ export function createMockExecResult(
 }
 
 export interface MockSandbox {
-  sandbox: Sandbox;
+  sandbox: MoltbotSandbox;
   startProcessMock: ReturnType<typeof vi.fn>;
   listProcessesMock: ReturnType<typeof vi.fn>;
+  getProcessMock: ReturnType<typeof vi.fn>;
   containerFetchMock: ReturnType<typeof vi.fn>;
   execMock: ReturnType<typeof vi.fn>;
   writeFileMock: ReturnType<typeof vi.fn>;
+  readFileMock: ReturnType<typeof vi.fn>;
+  startGatewayMock: ReturnType<typeof vi.fn>;
+  restartGatewayMock: ReturnType<typeof vi.fn>;
+  /** Returns the lifecycle state as currently persisted by the mock */
+  gatewayState: () => GatewayState;
+  /** Returns the supervisor state as currently persisted by the mock */
+  supervisorState: () => SupervisorState;
+  /** Returns the OpenClaw version state as currently persisted by the mock */
+  openClawVersionState: () => OpenClawVersionState;
+  /** Returns the sync history as currently persisted by the mock */
+  syncHistory: () => SyncHistory;
+  /** Returns the config edit history as currently persisted by the mock */
+  configHistory: () => ConfigEdit[];
 }
 
 export function createMockSandbox(
   options: {
     processes?: Partial<Process>[];
+    gatewayState?: GatewayState;
+    supervisorState?: SupervisorState;
+    openClawVersionState?: OpenClawVersionState;
+    syncHistory?: SyncHistory;
+    configHistory?: ConfigEdit[];
   } = {},
 ): MockSandbox {
   const listProcessesMock = vi.fn().mockResolvedValue(options.processes || []);
+  const getProcessMock = vi.fn().mockResolvedValue(null);
   const containerFetchMock = vi.fn();
   const startProcessMock = vi.fn().mockResolvedValue(createMockProcess());
   const execMock = vi.fn().mockResolvedValue(createMockExecResult());
   const writeFileMock = vi.fn().mockResolvedValue(undefined);
+  const readFileMock = vi.fn().mockResolvedValue({ success: true, content: '' });
+  let gatewayState = options.gatewayState ?? initialGatewayState();
+  let supervisorState = options.supervisorState ?? initialSupervisorState();
+  let openClawVersionState = options.openClawVersionState ?? {};
+  let syncHistory = options.syncHistory ?? { records: [], consecutiveFailures: 0 };
+  let configHistory = options.configHistory ?? [];
+  const startGatewayMock = vi.fn(async () => gatewayState);
+  const restartGatewayMock = vi.fn(async () => gatewayState);
 
   const sandbox = {
     listProcesses: listProcessesMock,
+    getProcess: getProcessMock,
     startProcess: startProcessMock,
     containerFetch: containerFetchMock,
     exec: execMock,
     writeFile: writeFileMock,
+    readFile: readFileMock,
     wsConnect: vi.fn(),
-  } as unknown as Sandbox;
+    getGatewayState: vi.fn(async () => gatewayState),
+    setGatewayState: vi.fn(async (state: GatewayState) => {
+      gatewayState = state;
+    }),
+    getSupervisorState: vi.fn(async () => supervisorState),
+    setSupervisorState: vi.fn(async (state: SupervisorState) => {
+      supervisorState = state;
+    }),
+    startGateway: startGatewayMock,
+    restartGateway: restartGatewayMock,
+    resetGatewaySupervisor: vi.fn(async () => {
+      supervisorState = initialSupervisorState();
+      return supervisorState;
+    }),
+    getOpenClawVersionState: vi.fn(async () => openClawVersionState),
+    setOpenClawVersionState: vi.fn(async (state: OpenClawVersionState) => {
+      openClawVersionState = state;
+    }),
+    getSyncHistory: vi.fn(async () => syncHistory),
+    setSyncHistory: vi.fn(async (history: SyncHistory) => {
+      syncHistory = history;
+    }),
+    getConfigHistory: vi.fn(async () => configHistory),
+    setConfigHistory: vi.fn(async (history: ConfigEdit[]) => {
+      configHistory = history;
+    }),
+    waitForDrain: vi.fn(() => new Promise(() => {})),
+    releaseProxySession: vi.fn().mockResolvedValue(undefined),
+  } as unknown as MoltbotSandbox;
 
   return {
     sandbox,
     startProcessMock,
     listProcessesMock,
+    getProcessMock,
     containerFetchMock,
     execMock,
     writeFileMock,
+    readFileMock,
+    startGatewayMock,
+    restartGatewayMock,
+    gatewayState: () => gatewayState,
+    supervisorState: () => supervisorState,
+    openClawVersionState: () => openClawVersionState,
+    syncHistory: () => syncHistory,
+    configHistory: () => configHistory,
   };
 }
 
@@ -94,3 +168,60 @@ export function suppressConsole() {
   vi.spyOn(console, 'error').mockImplementation(() => {});
   vi.spyOn(console, 'warn').mockImplementation(() => {});
 }
+
+export interface FakeBucketOptions {
+  /** Objects the bucket starts with, as text by key */
+  entries?: Record<string, string>;
+  /** Keys returned per list page, so tests can exercise the cursor */
+  pageSize?: number;
+}
+
+/**
+ * In-memory stand-in for the parts of R2Bucket the Worker uses: get, put,
+ * delete and a paged, prefix-filtered list. Like R2, keys are listed in order
+ * and the ETag of an object is the MD5 of its body.
+ */
+export function createFakeBucket({ entries = {}, pageSize = 1000 }: FakeBucketOptions = {}) {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const objects = new Map<string, Uint8Array>(
+    Object.entries(entries).map(([key, text]) => [key, encoder.encode(text)]),
+  );
+  const bucket = {
+    get: async (key: string) => {
+      const body = objects.get(key);
+      return body === undefined
+        ? null
+        : {
+            arrayBuffer: async () => body.slice().buffer,
+            text: async () => decoder.decode(body),
+            json: async () => JSON.parse(decoder.decode(body)),
+          };
+    },
+    put: async (key: string, body: string | ArrayBuffer | Uint8Array) => {
+      objects.set(key, typeof body === 'string' ? encoder.encode(body) : new Uint8Array(body));
+    },
+    delete: async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) objects.delete(key);
+    },
+    list: async ({ prefix = '', cursor }: { prefix?: string; cursor?: string } = {}) => {
+      const keys = [...objects.keys()].filter((key) => key.startsWith(prefix));
+      keys.sort();
+      const start = cursor ? Number(cursor) : 0;
+      const truncated = start + pageSize < keys.length;
+      return {
+        objects: keys.slice(start, start + pageSize).map((key) => {
+          const body = objects.get(key) as Uint8Array;
+          return { key, etag: createHash('md5').update(body).digest('hex'), size: body.length };
+        }),
+        truncated,
+        cursor: truncated ? String(start + pageSize) : undefined,
+      };
+    },
+  };
+  const text = (key: string) => {
+    const body = objects.get(key);
+    return body && decoder.decode(body);
+  };
+  return { bucket: bucket as unknown as R2Bucket, objects, text };
+}
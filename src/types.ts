@@ -1,10 +1,11 @@
-import type { Sandbox } from '@cloudflare/sandbox';
+import type { MoltbotSandbox } from './sandbox';
+import type { Tenant } from './tenants';
 
 /**
  * Environment bindings for the Moltbot Worker
  */
 export interface MoltbotEnv {
-  Sandbox: DurableObjectNamespace<Sandbox>;
+  Sandbox: DurableObjectNamespace<MoltbotSandbox>;
   ASSETS: Fetcher; // Assets binding for admin UI static files
   MOLTBOT_BUCKET: R2Bucket; // R2 bucket for persistent storage
   // Cloudflare AI Gateway configuration (preferred)
@@ -12,6 +13,7 @@ export interface MoltbotEnv {
   CF_AI_GATEWAY_GATEWAY_ID?: string; // AI Gateway ID
   CLOUDFLARE_AI_GATEWAY_API_KEY?: string; // API key for requests through the gateway
   CF_AI_GATEWAY_MODEL?: string; // Override model: "provider/model-id" e.g. "workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast"
+  AI_MODELS?: string; // JSON list of models, primary first, then fallbacks (see gateway/models.ts)
   // Legacy AI Gateway configuration (still supported for backward compat)
   AI_GATEWAY_API_KEY?: string; // API key for the provider configured in AI Gateway
   AI_GATEWAY_BASE_URL?: string; // AI Gateway URL (e.g., https://gateway.ai.cloudflare.com/v1/{account_id}/{gateway_id}/anthropic)
@@ -24,8 +26,19 @@ export interface MoltbotEnv {
   E2E_TEST_MODE?: string; // Set to 'true' for E2E tests (skips CF Access auth but keeps device pairing)
   DEBUG_ROUTES?: string; // Set to 'true' to enable /debug/* routes
   SANDBOX_SLEEP_AFTER?: string; // How long before sandbox sleeps: 'never' (default), or duration like '10m', '1h'
+  SANDBOX_KEEP_WARM?: string; // Keep-warm windows, e.g. 'mon-fri 08:00-20:00'; sleeps after SANDBOX_SLEEP_AFTER (default 10m) outside them
+  SANDBOX_TIMEZONE?: string; // IANA time zone for SANDBOX_KEEP_WARM (default: 'UTC')
+  GATEWAY_CRASH_LOOP_THRESHOLD?: string; // Consecutive crashes before automatic restarts pause (default: 5)
+  // Multi-tenant mode: one sandbox per Access user or group
+  TENANT_MODE?: string; // 'email' or 'group' (default: one shared sandbox)
+  TENANT_GROUP_CLAIM?: string; // Access JWT claim holding the user's groups (default: 'groups')
+  TENANT_GROUPS?: string; // Comma-separated groups that get a tenant in group mode, in order of precedence
+  TENANT_ADMIN_EMAILS?: string; // Comma-separated emails allowed to list every tenant
+  R2_PREFIX?: string; // Set by the Worker per tenant: prefix for this sandbox's objects in R2
+  OPENCLAW_VERSION?: string; // Set by the Worker: OpenClaw version pinned from the admin API
   TELEGRAM_BOT_TOKEN?: string;
   TELEGRAM_DM_POLICY?: string;
+  TELEGRAM_DM_ALLOW_FROM?: string; // Comma-separated Telegram user IDs allowed to DM the bot
   DISCORD_BOT_TOKEN?: string;
   DISCORD_DM_POLICY?: string;
   SLACK_BOT_TOKEN?: string;
@@ -37,6 +50,16 @@ export interface MoltbotEnv {
   R2_ACCESS_KEY_ID?: string;
   R2_SECRET_ACCESS_KEY?: string;
   R2_BUCKET_NAME?: string; // Override bucket name (default: 'moltbot-data')
+  R2_SYNC_MODE?: string; // 'binding' to sync through MOLTBOT_BUCKET without R2 API credentials
+  R2_CONFLICT_POLICY?: string; // 'refuse' (default), 'keep-both' or 'last-writer-wins' when another container wrote to R2
+  R2_ENCRYPTION_KEY?: string; // Encrypts files persisted to R2: 32 bytes of base64, or a passphrase
+  R2_ENCRYPTION_KEY_PREVIOUS?: string; // The replaced R2_ENCRYPTION_KEY, to re-wrap the data keys after changing it
+  R2_SNAPSHOT_KEEP?: string; // Automatic snapshots to keep (default: 24)
+  R2_SNAPSHOT_INTERVAL_HOURS?: string; // Hours between automatic snapshots, 0 to disable (default: 6)
+  R2_SYNC_POLICY?: string; // JSON sync policy: include/exclude globs, maxFileSize, maxTotalSize (see sync-policy.ts)
+  SYNC_ALERT_WEBHOOK_URL?: string; // URL that sync alerts are POSTed to as JSON
+  SYNC_ALERT_FAILURES?: string; // Consecutive failed syncs before an alert (default: 3)
+  SYNC_ALERT_STALE_HOURS?: string; // Hours without a successful sync before an alert, 0 to disable (default: 6)
   CF_ACCOUNT_ID?: string; // Cloudflare account ID for R2 endpoint
   // Browser Rendering binding for CDP shim
   BROWSER?: Fetcher;
@@ -50,6 +73,7 @@ export interface MoltbotEnv {
 export interface AccessUser {
   email: string;
   name?: string;
+  groups?: string[]; // From TENANT_GROUP_CLAIM, only read in group tenant mode
 }
 
 /**
@@ -58,8 +82,13 @@ export interface AccessUser {
 export type AppEnv = {
   Bindings: MoltbotEnv;
   Variables: {
-    sandbox: Sandbox;
+    sandbox: MoltbotSandbox;
+    /** Environment for the request's gateway (tenant-scoped token and R2 prefix) */
+    gatewayEnv: MoltbotEnv;
     accessUser?: AccessUser;
+    tenant?: Tenant;
+    /** Set by routes whose responses must not be redacted, see createRedactionMiddleware */
+    skipRedaction?: boolean;
   };
 };
 
@@ -75,4 +104,6 @@ export interface JWTPayload {
   name?: string;
   sub: string;
   type: string;
+  custom?: Record<string, unknown>; // Claims passed through from the identity provider
+  [claim: string]: unknown;
 }
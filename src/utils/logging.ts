@@ -1,3 +1,43 @@
+import type { MiddlewareHandler } from 'hono';
+import type { AppEnv, MoltbotEnv } from '../types';
+
+/** Shown in place of redacted values */
+export const REDACTED = '[REDACTED]';
+
+/** Config keys whose string values are secrets */
+export const SECRET_KEY_PATTERN = /secret|token|password|credential|api[-_]?key|private[-_]?key/i;
+
+/** Every secret in MoltbotEnv; their values are scrubbed from responses and logs */
+export const SECRET_ENV_KEYS = [
+  'CLOUDFLARE_AI_GATEWAY_API_KEY',
+  'AI_GATEWAY_API_KEY',
+  'ANTHROPIC_API_KEY',
+  'OPENAI_API_KEY',
+  'MOLTBOT_GATEWAY_TOKEN',
+  'TELEGRAM_BOT_TOKEN',
+  'DISCORD_BOT_TOKEN',
+  'SLACK_BOT_TOKEN',
+  'SLACK_APP_TOKEN',
+  'R2_ACCESS_KEY_ID',
+  'R2_SECRET_ACCESS_KEY',
+  'R2_ENCRYPTION_KEY',
+  'R2_ENCRYPTION_KEY_PREVIOUS',
+  'CDP_SECRET',
+  'SYNC_ALERT_WEBHOOK_URL',
+] as const satisfies readonly (keyof MoltbotEnv)[];
+
+/** Shorter values would match ordinary text */
+const MIN_SECRET_LENGTH = 6;
+
+/** Secrets passed on a command line or in a URL, whether or not they are known */
+const SECRET_ARG_PATTERN = /(--token[= ]|[?&](?:token|secret)=)[^\s&"']+/gi;
+
+const CONSOLE_METHODS = ['log', 'info', 'warn', 'error', 'debug'] as const;
+
+/** Secret values seen so far in this isolate, scrubbed from every console message */
+const knownSecrets = new Set<string>();
+let consoleWrapped = false;
+
 /**
  * Redact sensitive query parameters from URL for safe logging.
  * Redacts any param containing: secret, token, key, password, auth, credential
@@ -9,7 +49,7 @@ export function redactSensitiveParams(url: URL): string {
 
   for (const [key, value] of params) {
     if (sensitivePatterns.test(key) || sensitivePatterns.test(value)) {
-      redactedParams.set(key, '[REDACTED]');
+      redactedParams.set(key, REDACTED);
     } else {
       redactedParams.set(key, value);
     }
@@ -18,3 +58,105 @@ export function redactSensitiveParams(url: URL): string {
   const search = redactedParams.toString();
   return search ? `?${search}` : '';
 }
+
+/**
+ * The secret values set in one or more environments
+ */
+export function secretValues(...envs: Partial<MoltbotEnv>[]): string[] {
+  const values = new Set<string>();
+  for (const env of envs) {
+    for (const key of SECRET_ENV_KEYS) {
+      const value = env[key]?.trim();
+      if (value && value.length >= MIN_SECRET_LENGTH) values.add(value);
+    }
+  }
+  return [...values];
+}
+
+/**
+ * Replace every secret value in a text, and any token passed as `--token`
+ * or in a `token` or `secret` query parameter
+ *
+ * @param secrets - Values to replace; defaults to every registered secret
+ */
+export function redactText(text: string, secrets: Iterable<string> = knownSecrets): string {
+  // Longest first, so a secret containing another is replaced whole
+  const ordered = [...secrets];
+  ordered.sort((a, b) => b.length - a.length);
+  let redacted = text;
+  for (const secret of ordered) {
+    redacted = redacted.split(secret).join(REDACTED);
+  }
+  return redacted.replace(SECRET_ARG_PATTERN, `$1${REDACTED}`);
+}
+
+/**
+ * A copy of a JSON value with secret values replaced in every string
+ *
+ * @param secrets - Values to replace; defaults to every registered secret
+ */
+export function redactJson<T>(value: T, secrets: Iterable<string> = knownSecrets): T {
+  if (typeof value === 'string') return redactText(value, secrets) as T;
+  if (Array.isArray(value)) return value.map((item) => redactJson(item, secrets)) as T;
+  if (typeof value !== 'object' || value === null) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, redactJson(item, secrets)]),
+  ) as T;
+}
+
+function redactLogArgument(arg: unknown): unknown {
+  if (typeof arg === 'string') return redactText(arg);
+  if (arg instanceof Error) return redactText(arg.stack ?? String(arg));
+  if (typeof arg !== 'object' || arg === null) return arg;
+  const proto = Object.getPrototypeOf(arg);
+  return Array.isArray(arg) || proto === Object.prototype || proto === null ? redactJson(arg) : arg;
+}
+
+/**
+ * Register the secrets of an environment, so they are scrubbed from every
+ * console message and from the values redacted by default. The console is
+ * wrapped the first time this is called.
+ */
+export function registerSecrets(...envs: Partial<MoltbotEnv>[]): void {
+  for (const value of secretValues(...envs)) knownSecrets.add(value);
+  if (consoleWrapped) return;
+  consoleWrapped = true;
+
+  for (const method of CONSOLE_METHODS) {
+    const write = console[method].bind(console);
+    console[method] = (...args: unknown[]) => write(...args.map(redactLogArgument));
+  }
+}
+
+/**
+ * Create a middleware that scrubs the secrets of the Worker and of the
+ * request's gateway from `application/json` responses, such as CLI output
+ * that echoes `--token`. Routes that set `skipRedaction`, like the file
+ * contents the admin UI edits, are left as they are.
+ *
+ * @returns Hono middleware function
+ */
+export function createRedactionMiddleware(): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    await next();
+    if (c.get('skipRedaction')) return;
+    if (!c.res.headers.get('Content-Type')?.includes('application/json')) return;
+
+    let body: unknown;
+    try {
+      body = await c.res.clone().json();
+    } catch {
+      return;
+    }
+    const { status, statusText, headers } = c.res;
+    const redactedHeaders = new Headers(headers);
+    redactedHeaders.delete('Content-Length');
+    const secrets = secretValues(c.env, c.get('gatewayEnv') ?? c.env);
+    c.res = undefined;
+    c.res = new Response(JSON.stringify(redactJson(body, secrets)), {
+      status,
+      statusText,
+      headers: redactedHeaders,
+    });
+  };
+}
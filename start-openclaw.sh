@@ -1,11 +1,19 @@
 #!/bin/bash
 # Startup script for OpenClaw in Cloudflare Sandbox
 # This script:
-# 1. Restores config/workspace/skills from R2 via rclone (if configured)
+# 1. Restores config/workspace/skills from R2 via rclone (if configured; in
+#    binding mode the Worker has restored them before this script runs)
 # 2. Runs openclaw onboard --non-interactive to configure from env vars
 # 3. Patches config for features onboard doesn't cover (channels, gateway auth)
-# 4. Starts a background sync loop (rclone, watches for file changes)
+#    and prunes keys OpenClaw's strict config validation would refuse
+# 4. Starts a background sync loop (rclone, uploads files whose hash changed,
+#    encrypted when the Worker has installed data keys)
 # 5. Starts the gateway
+#
+# Each phase is announced with a "[lifecycle] <phase>" line on stdout, which the
+# Worker parses to track the gateway lifecycle (restoring, onboarding, starting).
+# Steps within a phase are announced with "[progress] <message>" lines, which
+# the loading page shows while the gateway starts.
 
 set -e
 
@@ -25,15 +33,43 @@ echo "Config directory: $CONFIG_DIR"
 
 mkdir -p "$CONFIG_DIR"
 
+# ============================================================
+# OPENCLAW VERSION
+# ============================================================
+# The image ships with a pinned OpenClaw. When the Worker pins another
+# version (OPENCLAW_VERSION), it is installed next to the bundled one
+# and put first on PATH.
+
+OPENCLAW_VERSIONS_DIR="/opt/openclaw-versions"
+
+if [ -n "$OPENCLAW_VERSION" ]; then
+    OPENCLAW_PREFIX="$OPENCLAW_VERSIONS_DIR/$OPENCLAW_VERSION"
+    if [ ! -x "$OPENCLAW_PREFIX/node_modules/.bin/openclaw" ]; then
+        echo "[progress] Installing OpenClaw $OPENCLAW_VERSION"
+        mkdir -p "$OPENCLAW_PREFIX"
+        npm install --prefix "$OPENCLAW_PREFIX" --no-fund --no-audit "openclaw@$OPENCLAW_VERSION"
+    fi
+    export PATH="$OPENCLAW_PREFIX/node_modules/.bin:$PATH"
+fi
+echo "OpenClaw version: $(openclaw --version 2>/dev/null || echo unknown)"
+
 # ============================================================
 # RCLONE SETUP
 # ============================================================
 
+# In binding mode (R2_SYNC_MODE=binding) the Worker restores and syncs
+# through its R2 binding, so rclone stays out of the way
 r2_configured() {
-    [ -n "$R2_ACCESS_KEY_ID" ] && [ -n "$R2_SECRET_ACCESS_KEY" ] && [ -n "$CF_ACCOUNT_ID" ]
+    [ "$R2_SYNC_MODE" != "binding" ] && \
+        [ -n "$R2_ACCESS_KEY_ID" ] && [ -n "$R2_SECRET_ACCESS_KEY" ] && [ -n "$CF_ACCOUNT_ID" ]
 }
 
 R2_BUCKET="${R2_BUCKET_NAME:-moltbot-data}"
+# In multi-tenant mode each sandbox keeps its data under its own prefix
+R2_PATH="r2:${R2_BUCKET}"
+if [ -n "$R2_PREFIX" ]; then
+    R2_PATH="${R2_PATH}/${R2_PREFIX%/}"
+fi
 
 setup_rclone() {
     mkdir -p "$(dirname "$RCLONE_CONF")"
@@ -48,52 +84,272 @@ acl = private
 no_check_bucket = true
 EOF
     touch /tmp/.rclone-configured
-    echo "Rclone configured for bucket: $R2_BUCKET"
+    echo "Rclone configured for: $R2_PATH"
 }
 
 RCLONE_FLAGS="--transfers=16 --fast-list --s3-no-check-bucket"
 
+# ============================================================
+# CONFLICT DETECTION
+# ============================================================
+# Every sync that writes to R2 bumps a generation marker, sync-generation.json,
+# and the container remembers the marker it last synced or restored. A
+# different generation in R2 means another container (e.g. a preview
+# deployment sharing the bucket) wrote since. R2_CONFLICT_POLICY decides what
+# happens: refuse (the default), keep-both (keep the side being overwritten as
+# a "conflict" snapshot) or last-writer-wins. The Worker's syncs use the same
+# files (src/gateway/conflict.ts).
+CONFLICT_POLICY="$(echo "${R2_CONFLICT_POLICY:-refuse}" | tr -d ' ' | tr '[:upper:]' '[:lower:]')"
+case "$CONFLICT_POLICY" in
+    keep-both|last-writer-wins) ;;
+    *) CONFLICT_POLICY=refuse ;;
+esac
+LOCAL_GENERATION=/tmp/.sync-generation.json
+WRITER_FILE=/tmp/.sync-writer
+LAST_CONFLICT_FILE=/tmp/.sync-conflict.json
+
+# Read the generation from a marker on stdin
+marker_generation() {
+    sed -n 's/.*"generation": *\([0-9][0-9]*\).*/\1/p' | head -n 1
+}
+
+remote_marker() {
+    rclone cat "${R2_PATH}/sync-generation.json" $RCLONE_FLAGS 2>/dev/null || true
+}
+
+local_generation() {
+    if [ -f "$LOCAL_GENERATION" ]; then marker_generation < "$LOCAL_GENERATION"; fi
+}
+
+# Record a conflict for the admin UI: $1 the remote marker, $2 what was done,
+# $3 the snapshot that keeps the overwritten side
+record_conflict() {
+    local snapshot=""
+    [ -n "$3" ] && snapshot=",\"snapshot\":\"$3\""
+    printf '{"detectedAt":"%s","remote":%s,"action":"%s"%s}\n' \
+        "$(date -u +%Y-%m-%dT%H:%M:%SZ)" "$1" "$2" "$snapshot" > "$LAST_CONFLICT_FILE"
+    echo "[sync] CONFLICT: R2 was written by another container since this one last synced: $1 ($2)"
+}
+
+# Claim R2's data for this container: $1 the generation being overwritten
+write_generation() {
+    [ -s "$WRITER_FILE" ] || head -c 4 /dev/urandom | od -An -tx1 | tr -d ' \n' > "$WRITER_FILE"
+    printf '{"generation":%d,"writer":"%s","updatedAt":"%s"}\n' \
+        "$((${1:-0} + 1))" "$(cat "$WRITER_FILE")" "$(date -u +%Y-%m-%dT%H:%M:%SZ)" > "$LOCAL_GENERATION.next"
+    rclone copyto "$LOCAL_GENERATION.next" "${R2_PATH}/sync-generation.json" $RCLONE_FLAGS || return 1
+    mv "$LOCAL_GENERATION.next" "$LOCAL_GENERATION"
+}
+
+# ============================================================
+# ENCRYPTION
+# ============================================================
+# When R2_ENCRYPTION_KEY is set, the Worker writes the data keys to
+# /tmp/.r2-data-keys.json before this script starts. Files are encrypted with
+# r2-crypt.mjs before they are uploaded and decrypted after they are restored
+# (src/gateway/encryption.ts). The keys are read on every upload, so a key
+# rotation takes effect without a restart.
+DATA_KEYS_FILE=/tmp/.r2-data-keys.json
+CRYPT_TOOL=/usr/local/bin/r2-crypt.mjs
+CRYPT_STAGING=/tmp/.r2-encrypted-loop
+
+encryption_enabled() {
+    [ -s "$DATA_KEYS_FILE" ]
+}
+
+# Upload the files of directory $1 listed in $3 to $2
+upload_files() {
+    local dir="$1" remote="$2" list="$3" status=0
+    if encryption_enabled; then
+        rm -rf "$CRYPT_STAGING"
+        node "$CRYPT_TOOL" encrypt "$dir" "$CRYPT_STAGING" "$list" || return 1
+        dir="$CRYPT_STAGING"
+    fi
+    rclone copy "$dir/" "$remote" --files-from "$list" --no-traverse $RCLONE_FLAGS || status=1
+    rm -rf "$CRYPT_STAGING"
+    return $status
+}
+
+# ============================================================
+# SYNC POLICY
+# ============================================================
+# Which files are persisted is decided by the sync policy (R2_SYNC_POLICY,
+# see src/gateway/sync-policy.ts). The Worker compiles its patterns to
+# regular expressions and writes them to /tmp/.sync-policy.tsv when it starts
+# this script and on every sync, so the background sync loop applies the
+# same rules as the Worker's syncs. Without the file, the loop doesn't sync.
+SYNC_POLICY=/tmp/.sync-policy.tsv
+SYNC_POLICY_HEADER="# moltworker sync policy v1"
+SKIPPED_FILES=/tmp/.sync-skipped.tsv
+TAB="$(printf '\t')"
+
+# Filter "<size>\t<path>" lines on stdin through the sync policy. Files over a
+# size limit are left out and recorded in $1 as "<reason>\t<size>\t<path>".
+apply_sync_policy() {
+    if ! head -n 1 "$SYNC_POLICY" 2>/dev/null | grep -qxF "$SYNC_POLICY_HEADER"; then
+        echo "[sync] No sync policy in $SYNC_POLICY, the Worker writes it when it starts the gateway" >&2
+        return 1
+    fi
+    awk -v skipped="$1" '
+        function matches(path, patterns, count,    i) {
+            for (i = 1; i <= count; i++) if (path ~ patterns[i]) return 1
+            return 0
+        }
+        BEGIN { printf "" > skipped }
+        FNR == NR {
+            i = index($0, "\t")
+            field = substr($0, 1, i - 1)
+            value = substr($0, i + 1)
+            if (field == "include") include[++includes] = value
+            else if (field == "exclude") exclude[++excludes] = value
+            else if (field == "max-file-size") max_file = value + 0
+            else if (field == "max-total-size") max_total = value + 0
+            next
+        }
+        {
+            i = index($0, "\t")
+            size = substr($0, 1, i - 1) + 0
+            path = substr($0, i + 1)
+            if (!matches(path, include, includes) || matches(path, exclude, excludes)) next
+            if (max_file && size > max_file) {
+                printf "max-file-size\t%s\t%s\n", size, path > skipped
+            } else if (max_total && total + size > max_total) {
+                printf "max-total-size\t%s\t%s\n", size, path > skipped
+            } else {
+                total += size
+                print
+            }
+        }
+    ' "$SYNC_POLICY" -
+}
+
+# Print "<size>\t<name>/<path>" for the files of directory $1 ($2 in R2), in
+# path order, with find filters in the remaining arguments
+list_files() {
+    local dir="$1" name="$2"
+    shift 2
+    (cd "$dir" && find . -type f "$@" -printf "%s\t${name}/%P\n") | LC_ALL=C sort -t "$TAB" -k 2
+}
+
+# Print "<size>\t<path>" for the files the policy persists, directory by
+# directory in the order the Worker syncs them, so the same files fit the
+# total size limit. Files over a limit are recorded in $1.
+select_files() {
+    {
+        if [ -d "$CONFIG_DIR" ]; then list_files "$CONFIG_DIR" openclaw; fi
+        # Skills are persisted as their own directory
+        if [ -d "$WORKSPACE_DIR" ]; then list_files "$WORKSPACE_DIR" workspace ! -path './skills/*'; fi
+        if [ -d "$SKILLS_DIR" ]; then list_files "$SKILLS_DIR" skills; fi
+    } | apply_sync_policy "$1"
+}
+
+# Paths relative to directory $2 of the selected files in $1
+paths_in() {
+    grep "^[0-9]*${TAB}$2/" "$1" | cut -f 2- | cut -c $((${#2} + 2))-
+}
+
 # ============================================================
 # RESTORE FROM R2
 # ============================================================
 
+echo "[lifecycle] restoring"
+
+# Upload the selected files ($1) of directory $2 ($3 in R2) to snapshot $4
+keep_dir() {
+    local list=/tmp/.r2-conflict.list
+    paths_in "$1" "$3" > "$list"
+    if [ -s "$list" ]; then
+        upload_files "$2" "${R2_PATH}/snapshots/$4/$3/" "$list" || return 1
+    fi
+}
+
+# The script runs again when the gateway restarts in a container that already
+# synced. Its files are at least as new as R2's unless another container
+# wrote since, and then the conflict policy decides whether R2's data wins.
+restore_allowed() {
+    local remote_generation
+    REMOTE_MARKER="$(remote_marker)"
+    remote_generation="$(echo "$REMOTE_MARKER" | marker_generation)"
+    [ -f "$LOCAL_GENERATION" ] && [ -n "$remote_generation" ] || return 0
+    if [ "$remote_generation" = "$(local_generation)" ]; then
+        echo "Container is in sync with R2, skipping restore"
+        return 1
+    fi
+    case "$CONFLICT_POLICY" in
+        refuse)
+            record_conflict "$REMOTE_MARKER" refused
+            return 1
+            ;;
+        keep-both)
+            local id selected=/tmp/.sync-selected
+            id="$(date -u +%Y%m%dT%H%M%SZ)-conflict"
+            select_files /dev/null > "$selected" || return 1
+            keep_dir "$selected" "$CONFIG_DIR" openclaw "$id" || return 1
+            keep_dir "$selected" "$WORKSPACE_DIR" workspace "$id" || return 1
+            keep_dir "$selected" "$SKILLS_DIR" skills "$id" || return 1
+            record_conflict "$REMOTE_MARKER" kept-both "$id"
+            ;;
+        *)
+            record_conflict "$REMOTE_MARKER" overwritten
+            ;;
+    esac
+}
+
+RESTORE_FROM_R2=false
 if r2_configured; then
     setup_rclone
+    restore_allowed && RESTORE_FROM_R2=true
+fi
 
-    echo "Checking R2 for existing backup..."
+if [ "$RESTORE_FROM_R2" = true ]; then
+    echo "[progress] Checking R2 for existing backup"
     # Check if R2 has an openclaw config backup
-    if rclone ls "r2:${R2_BUCKET}/openclaw/openclaw.json" $RCLONE_FLAGS 2>/dev/null | grep -q openclaw.json; then
-        echo "Restoring config from R2..."
-        rclone copy "r2:${R2_BUCKET}/openclaw/" "$CONFIG_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: config restore failed with exit code $?"
+    if rclone ls "${R2_PATH}/openclaw/openclaw.json" $RCLONE_FLAGS 2>/dev/null | grep -q openclaw.json; then
+        echo "[progress] Restoring config from R2"
+        rclone copy "${R2_PATH}/openclaw/" "$CONFIG_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: config restore failed with exit code $?"
         echo "Config restored"
-    elif rclone ls "r2:${R2_BUCKET}/clawdbot/clawdbot.json" $RCLONE_FLAGS 2>/dev/null | grep -q clawdbot.json; then
-        echo "Restoring from legacy R2 backup..."
-        rclone copy "r2:${R2_BUCKET}/clawdbot/" "$CONFIG_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: legacy config restore failed with exit code $?"
+    elif rclone ls "${R2_PATH}/clawdbot/clawdbot.json" $RCLONE_FLAGS 2>/dev/null | grep -q clawdbot.json; then
+        echo "[progress] Restoring config from legacy R2 backup"
+        rclone copy "${R2_PATH}/clawdbot/" "$CONFIG_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: legacy config restore failed with exit code $?"
         if [ -f "$CONFIG_DIR/clawdbot.json" ] && [ ! -f "$CONFIG_FILE" ]; then
             mv "$CONFIG_DIR/clawdbot.json" "$CONFIG_FILE"
         fi
-        echo "Legacy config restored and migrated"
+        echo "Legacy config restored; migrate its config keys with POST /api/admin/migration"
     else
         echo "No backup found in R2, starting fresh"
     fi
 
     # Restore workspace
-    REMOTE_WS_COUNT=$(rclone ls "r2:${R2_BUCKET}/workspace/" $RCLONE_FLAGS 2>/dev/null | wc -l)
+    REMOTE_WS_COUNT=$(rclone ls "${R2_PATH}/workspace/" $RCLONE_FLAGS 2>/dev/null | wc -l)
     if [ "$REMOTE_WS_COUNT" -gt 0 ]; then
-        echo "Restoring workspace from R2 ($REMOTE_WS_COUNT files)..."
+        echo "[progress] Restoring workspace from R2 ($REMOTE_WS_COUNT files)"
         mkdir -p "$WORKSPACE_DIR"
-        rclone copy "r2:${R2_BUCKET}/workspace/" "$WORKSPACE_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: workspace restore failed with exit code $?"
+        rclone copy "${R2_PATH}/workspace/" "$WORKSPACE_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: workspace restore failed with exit code $?"
         echo "Workspace restored"
     fi
 
     # Restore skills
-    REMOTE_SK_COUNT=$(rclone ls "r2:${R2_BUCKET}/skills/" $RCLONE_FLAGS 2>/dev/null | wc -l)
+    REMOTE_SK_COUNT=$(rclone ls "${R2_PATH}/skills/" $RCLONE_FLAGS 2>/dev/null | wc -l)
     if [ "$REMOTE_SK_COUNT" -gt 0 ]; then
-        echo "Restoring skills from R2 ($REMOTE_SK_COUNT files)..."
+        echo "[progress] Restoring skills from R2 ($REMOTE_SK_COUNT files)"
         mkdir -p "$SKILLS_DIR"
-        rclone copy "r2:${R2_BUCKET}/skills/" "$SKILLS_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: skills restore failed with exit code $?"
+        rclone copy "${R2_PATH}/skills/" "$SKILLS_DIR/" $RCLONE_FLAGS -v 2>&1 || echo "WARNING: skills restore failed with exit code $?"
         echo "Skills restored"
     fi
+
+    # Decrypt what was encrypted; fails if the data keys are missing
+    if ! node "$CRYPT_TOOL" decrypt "$CONFIG_DIR" "$WORKSPACE_DIR"; then
+        echo "ERROR: Files restored from R2 could not be decrypted. Check R2_ENCRYPTION_KEY."
+        exit 1
+    fi
+
+    # Read before restoring, so a sync that landed meanwhile shows up as a conflict
+    if [ -n "$(echo "$REMOTE_MARKER" | marker_generation)" ]; then
+        echo "$REMOTE_MARKER" > "$LOCAL_GENERATION"
+    fi
+elif r2_configured; then
+    echo "R2 restore skipped"
+elif [ "$R2_SYNC_MODE" = "binding" ]; then
+    echo "R2 restore handled by the Worker (binding mode)"
 else
     echo "R2 not configured, starting fresh"
 fi
@@ -101,8 +357,10 @@ fi
 # ============================================================
 # ONBOARD (only if no config exists yet)
 # ============================================================
+echo "[lifecycle] onboarding"
+
 if [ ! -f "$CONFIG_FILE" ]; then
-    echo "No existing config found, running openclaw onboard..."
+    echo "[progress] No existing config found, running openclaw onboard"
 
     AUTH_ARGS=""
     if [ -n "$CLOUDFLARE_AI_GATEWAY_API_KEY" ] && [ -n "$CF_AI_GATEWAY_ACCOUNT_ID" ] && [ -n "$CF_AI_GATEWAY_GATEWAY_ID" ]; then
@@ -131,178 +389,328 @@ else
 fi
 
 # ============================================================
-# PATCH CONFIG (channels, gateway auth, trusted proxies)
+# APPLY CONFIG OVERLAY AND PRUNE UNKNOWN KEYS
+# ============================================================
+# openclaw onboard handles provider/model config; the settings the Worker
+# keeps in openclaw.json are computed from its environment and written to
+# $CONFIG_OVERLAY before the gateway starts (src/gateway/config-overlay.ts).
+# Each entry sets a value at a path in the config, replacing what is there.
+# config-overlay.mjs applies it; the Worker's tests run the same code.
+#
+# OpenClaw refuses to start on a key it doesn't know, and stale keys from old
+# R2 backups otherwise only show as a gateway that never opens its port. The
+# overlay comes with a schema of the part of the config this project writes
+# (src/gateway/config-schema.ts); keys it doesn't know in the objects the
+# project writes, such as the channels, are pruned and reported in
+# $CONFIG_CHECK. Keys the user set in other objects are kept.
+CONFIG_OVERLAY=/tmp/.config-overlay.json
+CONFIG_CHECK=/tmp/.config-check.json
+rm -f "$CONFIG_CHECK"
+
+if [ -f "$CONFIG_OVERLAY" ]; then
+    echo "[progress] Applying config overlay"
+    node /usr/local/bin/config-overlay.mjs "$CONFIG_FILE" "$CONFIG_OVERLAY" "$CONFIG_CHECK"
+    # It holds the gateway token and channel tokens
+    rm -f "$CONFIG_OVERLAY"
+else
+    echo "WARNING: No config overlay in $CONFIG_OVERLAY, the Worker writes it when it starts the gateway"
+fi
+
+# ============================================================
+# BACKGROUND SYNC LOOP
 # ============================================================
-# openclaw onboard handles provider/model config, but we need to patch in:
-# - Channel config (Telegram, Discord, Slack)
-# - Gateway token auth
-# - Trusted proxies for sandbox networking
-# - Base URL override for legacy AI Gateway path
-node << 'EOFPATCH'
-const fs = require('fs');
-
-const configPath = '/root/.openclaw/openclaw.json';
-console.log('Patching config at:', configPath);
-let config = {};
-
-try {
-    config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-} catch (e) {
-    console.log('Starting with empty config');
+# Point-in-time snapshots: server-side copies of the live R2 data under
+# snapshots/<timestamp>-auto/, taken before the sync loop uploads changes so a
+# bad change can be rolled back. Only the newest R2_SNAPSHOT_KEEP automatic
+# snapshots are kept; manual and pre-restore snapshots are never pruned.
+SNAPSHOT_INTERVAL_HOURS="${R2_SNAPSHOT_INTERVAL_HOURS:-6}"
+SNAPSHOT_KEEP="${R2_SNAPSHOT_KEEP:-24}"
+LAST_SNAPSHOT_FILE=/tmp/.last-snapshot
+
+snapshot_due() {
+    [ "$SNAPSHOT_INTERVAL_HOURS" -gt 0 ] 2>/dev/null || return 1
+    [ ! -f "$LAST_SNAPSHOT_FILE" ] || \
+        [ -n "$(find "$LAST_SNAPSHOT_FILE" -mmin +$((SNAPSHOT_INTERVAL_HOURS * 60)))" ]
 }
 
-config.gateway = config.gateway || {};
-config.channels = config.channels || {};
+# Copy the live R2 data to snapshots/$1/
+snapshot_r2() {
+    local dir
+    rclone copy "${R2_PATH}/openclaw/" "${R2_PATH}/snapshots/$1/openclaw/" $RCLONE_FLAGS || return 1
+    for dir in workspace skills; do
+        if rclone lsf --max-depth 1 "${R2_PATH}/${dir}/" >/dev/null 2>&1; then
+            rclone copy "${R2_PATH}/${dir}/" "${R2_PATH}/snapshots/$1/${dir}/" $RCLONE_FLAGS
+        fi
+    done
+    echo "[sync] Snapshot $1 taken at $(date)"
+}
 
-// Gateway configuration
-config.gateway.port = 18789;
-config.gateway.mode = 'local';
-config.gateway.trustedProxies = ['10.1.0.0'];
+take_auto_snapshot() {
+    local id old
+    id="$(date -u +%Y%m%dT%H%M%SZ)-auto"
+    snapshot_r2 "$id" || return 1
 
-if (process.env.OPENCLAW_GATEWAY_TOKEN) {
-    config.gateway.auth = config.gateway.auth || {};
-    config.gateway.auth.token = process.env.OPENCLAW_GATEWAY_TOKEN;
+    rclone lsf --dirs-only "${R2_PATH}/snapshots/" 2>/dev/null | grep -- '-auto/$' | sort -r | \
+        tail -n +$((SNAPSHOT_KEEP + 1)) | while read -r old; do
+            rclone purge "${R2_PATH}/snapshots/${old%/}" && echo "[sync] Pruned snapshot ${old%/}"
+        done
 }
 
-if (process.env.OPENCLAW_DEV_MODE === 'true') {
-    config.gateway.controlUi = config.gateway.controlUi || {};
-    config.gateway.controlUi.allowInsecureAuth = true;
+# Incremental sync: the MD5 and size of every persisted file are recorded in
+# a manifest (sync-manifest.tsv in R2, cached in /tmp), and only files whose
+# hash changed are uploaded. The Worker's sync (src/gateway/manifest.ts)
+# reads and writes the same format, one "<md5>\t<size>\t<dir>/<path>" line
+# per file.
+MANIFEST_HEADER="# moltworker sync manifest v1"
+LOCAL_MANIFEST=/tmp/.sync-manifest.tsv
+STALE_MD5=00000000000000000000000000000000
+
+# Print manifest lines for the selected files ($2) of directory $3 ($4 in
+# R2). A directory that doesn't exist keeps its lines from the previous
+# manifest ($1), so its files aren't deleted from R2.
+list_entries() {
+    local previous="$1" selected="$2" dir="$3" name="$4" list=/tmp/.sync-hash.list
+    if [ ! -d "$dir" ]; then
+        grep "^[0-9a-f]*${TAB}[0-9]*${TAB}${name}/" "$previous" 2>/dev/null || true
+        return 0
+    fi
+    paths_in "$selected" "$name" > "$list"
+    [ -s "$list" ] || return 0
+    # A file deleted since it was listed has no hash, and is left out
+    (cd "$dir" && tr '\n' '\0' < "$list" | xargs -0 -r md5sum --) 2>/dev/null | \
+        awk -v name="$name" -v selected="$selected" '
+            BEGIN {
+                while ((getline line < selected) > 0) {
+                    i = index(line, "\t")
+                    size[substr(line, i + 1)] = substr(line, 1, i - 1)
+                }
+            }
+            /^[0-9a-f]+ [ *]/ {
+                path = name "/" substr($0, 35)
+                printf "%s\t%s\t%s\n", substr($0, 1, 32), size[path], path
+            }'
 }
 
-// Legacy AI Gateway base URL override:
-// ANTHROPIC_BASE_URL is picked up natively by the Anthropic SDK,
-// so we don't need to patch the provider config. Writing a provider
-// entry without a models array breaks OpenClaw's config validation.
-
-// AI Gateway model override (CF_AI_GATEWAY_MODEL=provider/model-id)
-// Adds a provider entry for any AI Gateway provider and sets it as default model.
-// Examples:
-//   workers-ai/@cf/meta/llama-3.3-70b-instruct-fp8-fast
-//   openai/gpt-4o
-//   anthropic/claude-sonnet-4-5
-if (process.env.CF_AI_GATEWAY_MODEL) {
-    const raw = process.env.CF_AI_GATEWAY_MODEL;
-    const slashIdx = raw.indexOf('/');
-    const gwProvider = raw.substring(0, slashIdx);
-    const modelId = raw.substring(slashIdx + 1);
-
-    const accountId = process.env.CF_AI_GATEWAY_ACCOUNT_ID;
-    const gatewayId = process.env.CF_AI_GATEWAY_GATEWAY_ID;
-    const apiKey = process.env.CLOUDFLARE_AI_GATEWAY_API_KEY;
-
-    let baseUrl;
-    if (accountId && gatewayId) {
-        baseUrl = 'https://gateway.ai.cloudflare.com/v1/' + accountId + '/' + gatewayId + '/' + gwProvider;
-        if (gwProvider === 'workers-ai') baseUrl += '/v1';
-    } else if (gwProvider === 'workers-ai' && process.env.CF_ACCOUNT_ID) {
-        baseUrl = 'https://api.cloudflare.com/client/v4/accounts/' + process.env.CF_ACCOUNT_ID + '/ai/v1';
-    }
-
-    if (baseUrl && apiKey) {
-        const api = gwProvider === 'anthropic' ? 'anthropic-messages' : 'openai-completions';
-        const providerName = 'cf-ai-gw-' + gwProvider;
-
-        config.models = config.models || {};
-        config.models.providers = config.models.providers || {};
-        config.models.providers[providerName] = {
-            baseUrl: baseUrl,
-            apiKey: apiKey,
-            api: api,
-            models: [{ id: modelId, name: modelId, contextWindow: 131072, maxTokens: 8192 }],
-        };
-        config.agents = config.agents || {};
-        config.agents.defaults = config.agents.defaults || {};
-        config.agents.defaults.model = { primary: providerName + '/' + modelId };
-        console.log('AI Gateway model override: provider=' + providerName + ' model=' + modelId + ' via ' + baseUrl);
-    } else {
-        console.warn('CF_AI_GATEWAY_MODEL set but missing required config (account ID, gateway ID, or API key)');
-    }
+build_manifest() {
+    local previous="$1" selected=/tmp/.sync-selected
+    select_files "$SKIPPED_FILES" > "$selected" || return 1
+    echo "$MANIFEST_HEADER"
+    {
+        list_entries "$previous" "$selected" "$CONFIG_DIR" openclaw
+        list_entries "$previous" "$selected" "$WORKSPACE_DIR" workspace
+        list_entries "$previous" "$selected" "$SKILLS_DIR" skills
+    } | LC_ALL=C sort
 }
 
-// Telegram configuration
-// Overwrite entire channel object to drop stale keys from old R2 backups
-// that would fail OpenClaw's strict config validation (see #47)
-if (process.env.TELEGRAM_BOT_TOKEN) {
-    const dmPolicy = process.env.TELEGRAM_DM_POLICY || 'pairing';
-    config.channels.telegram = {
-        botToken: process.env.TELEGRAM_BOT_TOKEN,
-        enabled: true,
-        dmPolicy: dmPolicy,
-    };
-    if (process.env.TELEGRAM_DM_ALLOW_FROM) {
-        config.channels.telegram.allowFrom = process.env.TELEGRAM_DM_ALLOW_FROM.split(',');
-    } else if (dmPolicy === 'open') {
-        config.channels.telegram.allowFrom = ['*'];
-    }
+# Without a manifest, nothing is known about R2 but what it holds. Its files
+# are listed with a hash that matches no file, so the sync uploads every file
+# and deletes the ones that are no longer in the container.
+remote_manifest() {
+    local name
+    echo "$MANIFEST_HEADER"
+    for name in openclaw workspace skills; do
+        # A directory that was never synced doesn't exist in R2
+        rclone lsf -R --files-only --format sp --separator "$TAB" "${R2_PATH}/${name}/" \
+            $RCLONE_FLAGS 2>/dev/null | \
+            awk -v name="$name" -v stale="$STALE_MD5" '{
+                i = index($0, "\t")
+                printf "%s\t%s\t%s/%s\n", stale, substr($0, 1, i - 1), name, substr($0, i + 1)
+            }'
+    done
 }
 
-// Discord configuration
-// Discord uses a nested dm object: dm.policy, dm.allowFrom (per DiscordDmConfig)
-if (process.env.DISCORD_BOT_TOKEN) {
-    const dmPolicy = process.env.DISCORD_DM_POLICY || 'pairing';
-    const dm = { policy: dmPolicy };
-    if (dmPolicy === 'open') {
-        dm.allowFrom = ['*'];
-    }
-    config.channels.discord = {
-        token: process.env.DISCORD_BOT_TOKEN,
-        enabled: true,
-        dm: dm,
-    };
+# Compare two manifests: "+<path>" for new or changed files, "-<path>" for
+# deleted ones
+diff_manifests() {
+    awk '
+        function parse(line,    rest) {
+            if (line !~ /^[0-9a-f]+\t[0-9]+\t/) return 0
+            md5 = substr(line, 1, 32)
+            rest = substr(line, 34)
+            path = substr(rest, index(rest, "\t") + 1)
+            return 1
+        }
+        FNR == NR { if (parse($0)) previous[path] = md5; next }
+        parse($0) { seen[path] = 1; if (!(path in previous) || previous[path] != md5) print "+" path }
+        END { for (path in previous) if (!(path in seen)) print "-" path }
+    ' "$1" "$2"
 }
 
-// Slack configuration
-if (process.env.SLACK_BOT_TOKEN && process.env.SLACK_APP_TOKEN) {
-    config.channels.slack = {
-        botToken: process.env.SLACK_BOT_TOKEN,
-        appToken: process.env.SLACK_APP_TOKEN,
-        enabled: true,
-    };
+# Upload the changed files of one directory and delete the removed ones
+sync_changes() {
+    local diff="$1" dir="$2" name="$3" list=/tmp/.r2-sync.list
+    grep "^+${name}/" "$diff" | cut -c $((${#name} + 3))- > "$list"
+    if [ -s "$list" ]; then
+        upload_files "$dir" "${R2_PATH}/${name}/" "$list" || return 1
+    fi
+    grep "^-${name}/" "$diff" | cut -c $((${#name} + 3))- > "$list"
+    if [ -s "$list" ]; then
+        rclone delete "${R2_PATH}/${name}/" --files-from "$list" $RCLONE_FLAGS || return 1
+    fi
 }
 
-fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
-console.log('Configuration patched successfully');
-EOFPATCH
+# Apply the conflict policy before the sync writes to R2
+check_conflict() {
+    local remote_generation id
+    CONFLICT=false
+    REMOTE_MARKER="$(remote_marker)"
+    remote_generation="$(echo "$REMOTE_MARKER" | marker_generation)"
+    if [ -z "$remote_generation" ] || [ "$remote_generation" = "$(local_generation)" ]; then
+        return 0
+    fi
+    CONFLICT=true
+    case "$CONFLICT_POLICY" in
+        refuse)
+            record_conflict "$REMOTE_MARKER" refused
+            return 1
+            ;;
+        keep-both)
+            id="$(date -u +%Y%m%dT%H%M%SZ)-conflict"
+            snapshot_r2 "$id" || return 1
+            record_conflict "$REMOTE_MARKER" kept-both "$id"
+            ;;
+        *)
+            record_conflict "$REMOTE_MARKER" overwritten
+            ;;
+    esac
+    # The cached manifest describes this container's last sync, not R2's data
+    rm -f "$LOCAL_MANIFEST"
+}
+
+sync_to_r2() {
+    local previous=/tmp/.sync-manifest.previous current=/tmp/.sync-manifest.current diff=/tmp/.sync-manifest.diff
+    SYNC_UPLOADED=0
+    SYNC_DELETED=0
+    SYNC_BYTES=0
+    check_conflict || return 1
+    if ! head -n 1 "$LOCAL_MANIFEST" 2>/dev/null | grep -qxF "$MANIFEST_HEADER"; then
+        rclone cat "${R2_PATH}/sync-manifest.tsv" $RCLONE_FLAGS > "$LOCAL_MANIFEST" 2>/dev/null || true
+    fi
+    if head -n 1 "$LOCAL_MANIFEST" 2>/dev/null | grep -qxF "$MANIFEST_HEADER"; then
+        cp "$LOCAL_MANIFEST" "$previous"
+    else
+        rm -f "$previous"
+    fi
+    if [ ! -f "$previous" ]; then
+        echo "[sync] No manifest yet, comparing with R2"
+        remote_manifest > "$previous"
+    fi
+    build_manifest "$previous" > "$current" || return 1
+    if [ -s "$SKIPPED_FILES" ]; then
+        echo "[sync] Skipped $(wc -l < "$SKIPPED_FILES") files over the sync policy's size limits:"
+        cat "$SKIPPED_FILES"
+    fi
+
+    diff_manifests "$previous" "$current" > "$diff"
+    if [ ! -s "$diff" ]; then
+        # Nothing differs, so the container already matches R2
+        if [ "$CONFLICT" = true ]; then echo "$REMOTE_MARKER" > "$LOCAL_GENERATION"; fi
+        return 0
+    fi
+    sync_changes "$diff" "$CONFIG_DIR" openclaw || return 1
+    sync_changes "$diff" "$WORKSPACE_DIR" workspace || return 1
+    sync_changes "$diff" "$SKILLS_DIR" skills || return 1
+    SYNC_UPLOADED=$(grep -c '^+' "$diff")
+    SYNC_DELETED=$(grep -c '^-' "$diff")
+    SYNC_BYTES=$(awk -F "$TAB" '
+        FNR == NR { if (substr($0, 1, 1) == "+") uploaded[substr($0, 2)] = 1; next }
+        $3 in uploaded { total += $2 }
+        END { printf "%d\n", total }
+    ' "$diff" "$current")
+    echo "[sync] Uploaded $SYNC_UPLOADED files, deleted $SYNC_DELETED"
+
+    rclone copyto "$current" "${R2_PATH}/sync-manifest.tsv" $RCLONE_FLAGS || return 1
+    cp "$current" "$LOCAL_MANIFEST"
+    write_generation "$(echo "$REMOTE_MARKER" | marker_generation)"
+}
+
+# Sync history: the loop appends a JSON record of every sync to
+# SYNC_HISTORY_FILE, which the Worker collects into its history
+# (src/gateway/sync-history.ts), and notes in SYNC_CHECKED_FILE when it last
+# found nothing to sync.
+SYNC_HISTORY_FILE=/tmp/.sync-history.jsonl
+SYNC_CHECKED_FILE=/tmp/.sync-checked.json
+SYNC_HISTORY_MAX=200
+
+iso_now() {
+    date -u +%Y-%m-%dT%H:%M:%SZ
+}
+
+# Quote stdin as a JSON string
+json_string() {
+    tr -d '\000-\010\013-\037' | sed -e 's/\\/\\\\/g' -e 's/"/\\"/g' -e "s/${TAB}/\\\\t/g" | \
+        awk 'BEGIN { ORS = ""; print "\"" } { if (NR > 1) print "\\n"; print } END { print "\"" }'
+}
+
+# Record one sync that started at $1, succeeded or not ($2 true or false),
+# with its output in $3
+record_sync() {
+    local started="$1" success="$2" output="$3" error='""' skipped
+    skipped=$(wc -l < "$SKIPPED_FILES" 2>/dev/null || echo 0)
+    if [ "$success" = false ]; then
+        # rclone's own errors are at the end of the output
+        error="$(tail -n 5 "$output" | json_string)"
+    fi
+    printf '{"trigger":"loop","startedAt":"%s","finishedAt":"%s","success":%s,"uploaded":%d,"deleted":%d,"bytes":%d,"skipped":%d,"error":%s}\n' \
+        "$started" "$(iso_now)" "$success" "${SYNC_UPLOADED:-0}" "${SYNC_DELETED:-0}" \
+        "${SYNC_BYTES:-0}" "$skipped" "$error" >> "$SYNC_HISTORY_FILE"
+    # Bounded in case the Worker doesn't collect the records for a while
+    if [ "$(wc -l < "$SYNC_HISTORY_FILE")" -gt "$SYNC_HISTORY_MAX" ]; then
+        tail -n "$SYNC_HISTORY_MAX" "$SYNC_HISTORY_FILE" > "$SYNC_HISTORY_FILE.tmp"
+        mv "$SYNC_HISTORY_FILE.tmp" "$SYNC_HISTORY_FILE"
+    fi
+}
 
-# ============================================================
-# BACKGROUND SYNC LOOP
-# ============================================================
 if r2_configured; then
     echo "Starting background R2 sync loop..."
     (
         MARKER=/tmp/.last-sync-marker
         LOGFILE=/tmp/r2-sync.log
+        RUN_LOG=/tmp/.r2-sync-run.log
         touch "$MARKER"
+        # Held around each sync; the Worker takes it too (src/gateway/sync.ts),
+        # so the two never write the manifest and generation marker at once
+        exec 9> /tmp/.r2-sync.lock
 
         while true; do
             sleep 30
 
+            # Cheap check before hashing anything, for the paths the sync
+            # policy persists. Directories are included because deleting a
+            # file only changes its directory.
             CHANGED=/tmp/.changed-files
             {
-                find "$CONFIG_DIR" -newer "$MARKER" -type f -printf '%P\n' 2>/dev/null
-                find "$WORKSPACE_DIR" -newer "$MARKER" \
-                    -not -path '*/node_modules/*' \
-                    -not -path '*/.git/*' \
-                    -type f -printf '%P\n' 2>/dev/null
-            } > "$CHANGED"
+                find "$CONFIG_DIR" -newer "$MARKER" -printf '0\topenclaw/%P\n' 2>/dev/null
+                find "$WORKSPACE_DIR" -newer "$MARKER" -printf '0\tworkspace/%P\n' 2>/dev/null
+            } | apply_sync_policy /dev/null > "$CHANGED" 2>> "$LOGFILE"
 
             COUNT=$(wc -l < "$CHANGED" 2>/dev/null || echo 0)
 
             if [ "$COUNT" -gt 0 ]; then
-                echo "[sync] Uploading changes ($COUNT files) at $(date)" >> "$LOGFILE"
-                rclone sync "$CONFIG_DIR/" "r2:${R2_BUCKET}/openclaw/" \
-                    $RCLONE_FLAGS --exclude='*.lock' --exclude='*.log' --exclude='*.tmp' --exclude='.git/**' 2>> "$LOGFILE"
-                if [ -d "$WORKSPACE_DIR" ]; then
-                    rclone sync "$WORKSPACE_DIR/" "r2:${R2_BUCKET}/workspace/" \
-                        $RCLONE_FLAGS --exclude='skills/**' --exclude='.git/**' --exclude='node_modules/**' 2>> "$LOGFILE"
+                if snapshot_due; then
+                    take_auto_snapshot >> "$LOGFILE" 2>&1 || echo "[sync] Snapshot failed at $(date)" >> "$LOGFILE"
+                    touch "$LAST_SNAPSHOT_FILE"
                 fi
-                if [ -d "$SKILLS_DIR" ]; then
-                    rclone sync "$SKILLS_DIR/" "r2:${R2_BUCKET}/skills/" \
-                        $RCLONE_FLAGS 2>> "$LOGFILE"
-                fi
-                date -Iseconds > "$LAST_SYNC_FILE"
                 touch "$MARKER"
-                echo "[sync] Complete at $(date)" >> "$LOGFILE"
+                echo "[sync] Checking $COUNT changed paths at $(date)" >> "$LOGFILE"
+                flock 9
+                STARTED="$(iso_now)"
+                if sync_to_r2 > "$RUN_LOG" 2>&1; then
+                    cat "$RUN_LOG" >> "$LOGFILE"
+                    record_sync "$STARTED" true "$RUN_LOG"
+                    date -Iseconds > "$LAST_SYNC_FILE"
+                    echo "[sync] Complete at $(date)" >> "$LOGFILE"
+                else
+                    cat "$RUN_LOG" >> "$LOGFILE"
+                    record_sync "$STARTED" false "$RUN_LOG"
+                    # The manifest is left as it was, so the next round retries
+                    touch -d @0 "$MARKER"
+                    echo "[sync] Failed at $(date)" >> "$LOGFILE"
+                fi
+                flock -u 9
+            else
+                # Nothing changed since the last sync, so R2 is up to date
+                printf '{"checkedAt":"%s"}\n' "$(iso_now)" > "$SYNC_CHECKED_FILE"
             fi
         done
     ) &
@@ -312,7 +720,8 @@ fi
 # ============================================================
 # START GATEWAY
 # ============================================================
-echo "Starting OpenClaw Gateway..."
+echo "[lifecycle] starting"
+echo "[progress] Launching OpenClaw gateway"
 echo "Gateway will be available on port 18789"
 
 rm -f /tmp/openclaw-gateway.lock 2>/dev/null || true